@@ -0,0 +1,9 @@
+import ApiKeysManager from "@/components/dashboard/api-keys/api-keys-manager";
+
+export default async function ApiKeysPage() {
+  return (
+    <div className="dashboard-container">
+      <ApiKeysManager />
+    </div>
+  );
+}
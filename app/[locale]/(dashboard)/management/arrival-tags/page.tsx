@@ -0,0 +1,9 @@
+import ArrivalTagsManager from "@/components/dashboard/arrival-tags/arrival-tags-manager";
+
+export default async function ArrivalTagsPage() {
+  return (
+    <div className="dashboard-container">
+      <ArrivalTagsManager />
+    </div>
+  );
+}
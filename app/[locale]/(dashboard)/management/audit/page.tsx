@@ -0,0 +1,9 @@
+import AuditLogTable from "@/components/dashboard/audit-log-table/audit-log-table";
+
+export default async function AuditLogPage() {
+  return (
+    <div className="dashboard-container">
+      <AuditLogTable />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import DisplayTokensManager from "@/components/dashboard/display-tokens/display-tokens-manager";
+
+export default async function DisplaysPage() {
+  return (
+    <div className="dashboard-container">
+      <DisplayTokensManager />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import FamiliesManager from "@/components/dashboard/families/families-manager";
+
+export default async function FamiliesPage() {
+  return (
+    <div className="dashboard-container">
+      <FamiliesManager />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import GuardiansManager from "@/components/dashboard/guardians/guardians-manager";
+
+export default async function GuardiansPage() {
+  return (
+    <div className="dashboard-container">
+      <GuardiansManager />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { ReplayView } from "@/components/dismissal/replay-view"
+
+export default function ReplayPage() {
+    return (
+        <div className="flex flex-1 flex-col gap-4 sm:px-4 pt-0">
+            <ReplayView />
+        </div>
+    )
+}
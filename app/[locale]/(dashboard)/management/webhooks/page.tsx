@@ -0,0 +1,9 @@
+import WebhooksManager from "@/components/dashboard/webhooks/webhooks-manager";
+
+export default async function WebhooksPage() {
+  return (
+    <div className="dashboard-container">
+      <WebhooksManager />
+    </div>
+  );
+}
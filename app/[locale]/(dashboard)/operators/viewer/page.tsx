@@ -1,9 +1,16 @@
 import { DismissalView } from "@/components/dismissal/dismissal-view"
+import { parseSignageOptions } from "@/components/dismissal/utils"
+
+interface ViewerPageProps {
+    searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function ViewerPage({ searchParams }: ViewerPageProps) {
+    const signage = parseSignageOptions(await searchParams) ?? undefined
 
-export default function ViewerPage() {
     return (
         <div className="flex flex-1 flex-col gap-4 sm:px-4 pt-0">
-            <DismissalView mode="viewer" />
+            <DismissalView mode="viewer" signage={signage} />
         </div>
     )
 }
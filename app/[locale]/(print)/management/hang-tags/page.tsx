@@ -0,0 +1,34 @@
+import { notFound } from "next/navigation";
+import { Id } from "@/convex/_generated/dataModel";
+import { HangTagsSheet } from "@/components/dashboard/hang-tags/hang-tags-sheet";
+import {
+  DEFAULT_HANG_TAG_LAYOUT,
+  isHangTagLayoutId,
+} from "@/components/dashboard/hang-tags/layouts";
+
+interface HangTagsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const single = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+// Outside the (dashboard) group so the sidebar and header never reach the printer,
+// the /management prefix keeps the same role permissions in the middleware
+export default async function HangTagsPage({ searchParams }: HangTagsPageProps) {
+  const params = await searchParams;
+  const campusId = single(params.campus);
+  if (!campusId) notFound();
+
+  const layout = single(params.layout);
+  const students = single(params.students);
+
+  return (
+    <HangTagsSheet
+      campusId={campusId as Id<"campusSettings">}
+      grade={single(params.grade) || undefined}
+      studentIds={students ? (students.split(",") as Id<"students">[]) : undefined}
+      layout={isHangTagLayoutId(layout) ? layout : DEFAULT_HANG_TAG_LAYOUT}
+    />
+  );
+}
@@ -0,0 +1,14 @@
+import { KioskView } from "@/components/dismissal/kiosk-view"
+import { parseSignageOptions } from "@/components/dismissal/utils"
+
+interface DisplayPageProps {
+    params: Promise<{ token: string }>
+    searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function DisplayPage({ params, searchParams }: DisplayPageProps) {
+    const { token } = await params
+    const signage = parseSignageOptions(await searchParams) ?? undefined
+
+    return <KioskView token={token} signage={signage} />
+}
@@ -0,0 +1,319 @@
+"use client";
+
+import * as React from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { useMutation, useQuery } from "convex/react";
+import { Copy, KeyRound, MapPin, Plus } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useCampusSession } from "@/hooks/use-campus-session";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+const SCOPES = ["queue:read", "queue:write", "students:read"] as const;
+type Scope = (typeof SCOPES)[number];
+
+export function ApiKeysManager() {
+  const t = useTranslations("apiKeys");
+  const locale = useLocale();
+  const { selectedCampus, updateSelectedCampus } = useCampusSession();
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const campusId = campusOptions?.find((c) => c.label === selectedCampus)?.id;
+  const keysData = useQuery(api.apiKeys.list, campusId ? { campusId } : "skip");
+
+  const createKey = useMutation(api.apiKeys.create);
+  const rotateKey = useMutation(api.apiKeys.rotate);
+  const revokeKey = useMutation(api.apiKeys.revoke);
+
+  const [name, setName] = React.useState("");
+  const [scopes, setScopes] = React.useState<Scope[]>(["queue:read"]);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  // The plain key is only available right after creation or rotation
+  const [issuedKey, setIssuedKey] = React.useState<string | null>(null);
+  const [copied, setCopied] = React.useState(false);
+  const [pendingAction, setPendingAction] = React.useState<{
+    type: "rotate" | "revoke";
+    id: Id<"apiKeys">;
+    name: string;
+  } | null>(null);
+
+  const toggleScope = (scope: Scope, checked: boolean) => {
+    setScopes((prev) =>
+      checked ? [...prev, scope] : prev.filter((s) => s !== scope),
+    );
+  };
+
+  const showIssuedKey = (key: string) => {
+    setIssuedKey(key);
+    setCopied(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campusId || !name.trim() || scopes.length === 0) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { key } = await createKey({ campusId, name: name.trim(), scopes });
+      showIssuedKey(key);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.create"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!issuedKey) return;
+    try {
+      await navigator.clipboard.writeText(issuedKey);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    setError(null);
+    try {
+      if (pendingAction.type === "rotate") {
+        const { key } = await rotateKey({ apiKeyId: pendingAction.id });
+        showIssuedKey(key);
+      } else {
+        await revokeKey({ apiKeyId: pendingAction.id });
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : t(`errors.${pendingAction.type}`),
+      );
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const keys = keysData?.keys ?? [];
+
+  return (
+    <div className="w-full space-y-4">
+      <FilterDropdown<string>
+        value={selectedCampus}
+        onChange={(value) => {
+          updateSelectedCampus(value);
+          setIssuedKey(null);
+        }}
+        options={campusOptions?.map((c) => c.label) ?? []}
+        icon={MapPin}
+        label={t("campus")}
+        placeholder={t("campus")}
+        className="w-full md:w-64"
+        showAllOption={false}
+      />
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("namePlaceholder")}
+            maxLength={80}
+            disabled={!campusId}
+            className="md:max-w-sm"
+          />
+          <Button
+            type="submit"
+            disabled={!campusId || !name.trim() || scopes.length === 0 || isSubmitting}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            {t("create")}
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {SCOPES.map((scope) => (
+            <label
+              key={scope}
+              htmlFor={`scope-${scope}`}
+              className="flex items-center gap-2 text-sm"
+            >
+              <Checkbox
+                id={`scope-${scope}`}
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                disabled={!campusId}
+              />
+              <span className="font-mono text-xs">{scope}</span>
+              <span className="text-muted-foreground">{t(`scopes.${scope}`)}</span>
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{t("errors.title")}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {issuedKey && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>{t("issued.title")}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{t("issued.description")}</p>
+            <div className="flex w-full gap-2">
+              <Input value={issuedKey} readOnly className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy} className="gap-2">
+                <Copy className="h-4 w-4" />
+                {copied ? t("issued.copied") : t("issued.copy")}
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.name")}</TableHead>
+              <TableHead>{t("table.key")}</TableHead>
+              <TableHead>{t("table.scopes")}</TableHead>
+              <TableHead>{t("table.lastUsed")}</TableHead>
+              <TableHead>{t("table.status")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.length > 0 ? (
+              keys.map((key) => (
+                <TableRow key={key._id}>
+                  <TableCell className="font-medium">{key.name}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">
+                    …{key.keyPreview}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono text-xs">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {key.lastUsedAt
+                      ? new Date(key.lastUsedAt).toLocaleString(locale)
+                      : t("table.neverUsed")}
+                  </TableCell>
+                  <TableCell>
+                    {key.revokedAt ? (
+                      <Badge variant="secondary">{t("status.revoked")}</Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        {t("status.active")}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!key.revokedAt && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setPendingAction({ type: "rotate", id: key._id, name: key.name })
+                          }
+                        >
+                          {t("rotate")}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() =>
+                            setPendingAction({ type: "revoke", id: key._id, name: key.name })
+                          }
+                        >
+                          {t("revoke")}
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  {campusId ? t("table.empty") : t("table.selectCampus")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "rotate"
+                ? t("rotateConfirm.title")
+                : t("revokeConfirm.title")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "rotate"
+                ? t("rotateConfirm.description", { name: pendingAction.name })
+                : t("revokeConfirm.description", { name: pendingAction?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className={pendingAction?.type === "revoke" ? "bg-destructive text-white" : undefined}
+            >
+              {pendingAction?.type === "rotate" ? t("rotate") : t("revoke")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default ApiKeysManager;
@@ -0,0 +1,301 @@
+"use client";
+
+import * as React from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { useMutation, useQuery } from "convex/react";
+import { Edit, MapPin, Plus, Save, Trash2, X } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useCampusSession } from "@/hooks/use-campus-session";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { SelectDropdown } from "@/components/ui/select-dropdown";
+
+type TagKind = "plate" | "rfid";
+
+interface TagFormState {
+  tagId?: Id<"arrivalTags">;
+  tag: string;
+  kind: TagKind;
+  carNumber: string;
+  label: string;
+}
+
+const EMPTY_FORM: TagFormState = {
+  tag: "",
+  kind: "plate",
+  carNumber: "",
+  label: "",
+};
+
+export function ArrivalTagsManager() {
+  const t = useTranslations("arrivalTags");
+  const locale = useLocale();
+  const { selectedCampus, updateSelectedCampus } = useCampusSession();
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const campusId = campusOptions?.find((c) => c.label === selectedCampus)?.id;
+  const tagsData = useQuery(
+    api.arrivalTags.list,
+    campusId ? { campusId } : "skip",
+  );
+
+  const saveTag = useMutation(api.arrivalTags.save);
+  const removeTag = useMutation(api.arrivalTags.remove);
+
+  const [form, setForm] = React.useState<TagFormState>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [tagToDelete, setTagToDelete] = React.useState<{
+    id: Id<"arrivalTags">;
+    tag: string;
+  } | null>(null);
+
+  const carNumber = Number(form.carNumber);
+  const canSubmit =
+    !!campusId &&
+    !!form.tag.trim() &&
+    Number.isInteger(carNumber) &&
+    carNumber > 0 &&
+    !isSubmitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campusId || !canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await saveTag({
+        campusId,
+        tagId: form.tagId,
+        tag: form.tag,
+        kind: form.kind,
+        carNumber,
+        label: form.label,
+      });
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.save"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!tagToDelete) return;
+    try {
+      await removeTag({ tagId: tagToDelete.id });
+      if (form.tagId === tagToDelete.id) setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.delete"));
+    } finally {
+      setTagToDelete(null);
+    }
+  };
+
+  const tags = tagsData?.tags ?? [];
+  const kindOptions = [
+    { value: "plate", label: t("kinds.plate") },
+    { value: "rfid", label: t("kinds.rfid") },
+  ];
+
+  return (
+    <div className="w-full space-y-4">
+      <FilterDropdown<string>
+        value={selectedCampus}
+        onChange={(value) => {
+          updateSelectedCampus(value);
+          setForm(EMPTY_FORM);
+        }}
+        options={campusOptions?.map((c) => c.label) ?? []}
+        icon={MapPin}
+        label={t("campus")}
+        placeholder={t("campus")}
+        className="w-full md:w-64"
+        showAllOption={false}
+      />
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-2 md:flex-row md:items-center"
+      >
+        <Input
+          value={form.tag}
+          onChange={(e) => setForm({ ...form, tag: e.target.value })}
+          placeholder={t("form.tag")}
+          maxLength={40}
+          disabled={!campusId}
+          className="font-mono md:max-w-48"
+        />
+        <SelectDropdown
+          options={kindOptions}
+          value={form.kind}
+          onValueChange={(value) => setForm({ ...form, kind: value as TagKind })}
+          disabled={!campusId}
+          className="md:w-40"
+        />
+        <Input
+          type="number"
+          min={1}
+          value={form.carNumber}
+          onChange={(e) => setForm({ ...form, carNumber: e.target.value })}
+          placeholder={t("form.carNumber")}
+          disabled={!campusId}
+          className="md:max-w-32"
+        />
+        <Input
+          value={form.label}
+          onChange={(e) => setForm({ ...form, label: e.target.value })}
+          placeholder={t("form.label")}
+          maxLength={80}
+          disabled={!campusId}
+          className="md:max-w-xs"
+        />
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!canSubmit} className="gap-2">
+            {form.tagId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {form.tagId ? t("form.update") : t("form.add")}
+          </Button>
+          {form.tagId && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setForm(EMPTY_FORM)}
+              title={t("form.cancel")}
+              aria-label={t("form.cancel")}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{t("errors.title")}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.tag")}</TableHead>
+              <TableHead>{t("table.kind")}</TableHead>
+              <TableHead>{t("table.carNumber")}</TableHead>
+              <TableHead>{t("table.label")}</TableHead>
+              <TableHead>{t("table.updated")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tags.length > 0 ? (
+              tags.map((tag) => (
+                <TableRow key={tag._id}>
+                  <TableCell className="font-mono font-medium">{tag.tag}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{t(`kinds.${tag.kind}`)}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono">{tag.carNumber}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {tag.label ?? ""}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(tag.updatedAt).toLocaleString(locale)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          tagId: tag._id,
+                          tag: tag.tag,
+                          kind: tag.kind,
+                          carNumber: String(tag.carNumber),
+                          label: tag.label ?? "",
+                        })
+                      }
+                      title={t("edit")}
+                      aria-label={t("edit")}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => setTagToDelete({ id: tag._id, tag: tag.tag })}
+                      title={t("delete")}
+                      aria-label={t("delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  {campusId ? t("table.empty") : t("table.selectCampus")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog
+        open={!!tagToDelete}
+        onOpenChange={(open) => !open && setTagToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("deleteConfirm.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("deleteConfirm.description", { tag: tagToDelete?.tag ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("deleteConfirm.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-white"
+            >
+              {t("delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default ArrivalTagsManager;
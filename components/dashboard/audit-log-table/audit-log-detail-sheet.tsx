@@ -0,0 +1,182 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { AuditLogEntry } from "./columns";
+
+type DiffRow = {
+  field: string;
+  before: unknown;
+  after: unknown;
+  changed: boolean;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
+}
+
+// Compare snapshots field by field (top level only; nested values are shown as JSON)
+function getDiffRows(before: unknown, after: unknown): DiffRow[] {
+  if (!isRecord(before) && !isRecord(after)) {
+    if (before === undefined && after === undefined) return [];
+    return [
+      {
+        field: "value",
+        before,
+        after,
+        changed: formatValue(before) !== formatValue(after),
+      },
+    ];
+  }
+
+  const beforeRecord = isRecord(before) ? before : {};
+  const afterRecord = isRecord(after) ? after : {};
+  const fields = Array.from(
+    new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]),
+  ).sort();
+
+  return fields.map((field) => ({
+    field,
+    before: beforeRecord[field],
+    after: afterRecord[field],
+    changed: formatValue(beforeRecord[field]) !== formatValue(afterRecord[field]),
+  }));
+}
+
+interface AuditLogDetailSheetProps {
+  entry?: AuditLogEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AuditLogDetailSheet({
+  entry,
+  open,
+  onOpenChange,
+}: AuditLogDetailSheetProps) {
+  const t = useTranslations("auditLog.detail");
+  const [showUnchanged, setShowUnchanged] = React.useState(false);
+
+  const rows = React.useMemo(
+    () => (entry ? getDiffRows(entry.details?.before, entry.details?.after) : []),
+    [entry],
+  );
+  const visibleRows = showUnchanged ? rows : rows.filter((row) => row.changed);
+  const metadata = entry?.details?.metadata;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-2xl">
+        {entry && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2">
+                <Badge variant="outline">{entry.action}</Badge>
+              </SheetTitle>
+              <SheetDescription>
+                {t("summary", {
+                  user: entry.username,
+                  time: new Date(entry.timestamp).toLocaleString(),
+                })}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-4 px-4 pb-4">
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-muted-foreground">{t("target")}</dt>
+                <dd className="break-all">
+                  {entry.targetType ?? "—"}
+                  {entry.targetId ? ` · ${entry.targetId}` : ""}
+                </dd>
+                <dt className="text-muted-foreground">{t("campus")}</dt>
+                <dd>{entry.campusLocation ?? "—"}</dd>
+                <dt className="text-muted-foreground">{t("role")}</dt>
+                <dd>{entry.userRole}</dd>
+              </dl>
+
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{t("changes")}</h3>
+                {rows.some((row) => !row.changed) && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground underline"
+                    onClick={() => setShowUnchanged((prev) => !prev)}
+                  >
+                    {showUnchanged ? t("hideUnchanged") : t("showUnchanged")}
+                  </button>
+                )}
+              </div>
+
+              {visibleRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("noChanges")}</p>
+              ) : (
+                <div className="overflow-hidden rounded-md border">
+                  <table className="w-full table-fixed text-xs">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="w-1/4 px-2 py-1 text-left">{t("field")}</th>
+                        <th className="px-2 py-1 text-left">{t("before")}</th>
+                        <th className="px-2 py-1 text-left">{t("after")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleRows.map((row) => (
+                        <tr key={row.field} className="border-t align-top">
+                          <td className="break-all px-2 py-1 font-medium">{row.field}</td>
+                          <td
+                            className={cn(
+                              "px-2 py-1",
+                              row.changed && row.before !== undefined && "bg-red-50 text-red-900",
+                            )}
+                          >
+                            <pre className="whitespace-pre-wrap break-all font-mono">
+                              {formatValue(row.before)}
+                            </pre>
+                          </td>
+                          <td
+                            className={cn(
+                              "px-2 py-1",
+                              row.changed && row.after !== undefined && "bg-green-50 text-green-900",
+                            )}
+                          >
+                            <pre className="whitespace-pre-wrap break-all font-mono">
+                              {formatValue(row.after)}
+                            </pre>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {metadata !== undefined && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">{t("metadata")}</h3>
+                  <pre className="whitespace-pre-wrap break-all rounded-md border bg-muted p-2 font-mono text-xs">
+                    {formatValue(metadata)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import {
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+} from "@tanstack/react-table";
+import { MapPin, UserSearch, Activity, Target, Search } from "lucide-react";
+import { usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import {
+  auditActionValidator,
+  auditTargetTypeValidator,
+  type AuditAction,
+  type AuditTargetType,
+} from "@/convex/types";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { AuditLogEntry, useColumns } from "./columns";
+import { AuditLogDetailSheet } from "./audit-log-detail-sheet";
+
+const ACTION_OPTIONS = auditActionValidator.members.map((member) => member.value);
+const TARGET_TYPE_OPTIONS = auditTargetTypeValidator.members.map((member) => member.value);
+const PAGE_SIZE = 25;
+
+// Simple skeleton placeholder
+function AuditLogTableSkeleton() {
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="h-8 w-[200px] rounded bg-muted" />
+        <div className="h-8 w-[100px] rounded bg-muted" />
+      </div>
+      <div className="rounded-md border">
+        <div className="space-y-2 p-4">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <div key={i} className="h-12 w-full rounded bg-muted" />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Date inputs are interpreted in the browser's local time zone
+function toStartOfDay(date: string): number | undefined {
+  return date ? new Date(`${date}T00:00:00`).getTime() : undefined;
+}
+
+function toEndOfDay(date: string): number | undefined {
+  return date ? new Date(`${date}T23:59:59.999`).getTime() : undefined;
+}
+
+export function AuditLogTable() {
+  const t = useTranslations("auditLog");
+  const columns = useColumns();
+
+  // Filter state
+  const [campus, setCampus] = React.useState("");
+  const [userEmail, setUserEmail] = React.useState("");
+  const [action, setAction] = React.useState<AuditAction | "">("");
+  const [targetType, setTargetType] = React.useState<AuditTargetType | "">("");
+  const [targetId, setTargetId] = React.useState("");
+  const [fromDate, setFromDate] = React.useState("");
+  const [toDate, setToDate] = React.useState("");
+
+  // Detail sheet state
+  const [selectedEntry, setSelectedEntry] = React.useState<AuditLogEntry | undefined>();
+  const [detailOpen, setDetailOpen] = React.useState(false);
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const usersData = useQuery(api.users.listUsers, {});
+
+  const userIdByEmail = React.useMemo(() => {
+    const map = new Map<string, Id<"users">>();
+    for (const user of usersData ?? []) {
+      if (user.email) map.set(user.email, user._id);
+    }
+    return map;
+  }, [usersData]);
+
+  // Pages are read with a cursor; changing a filter starts over from the newest entry
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.audit.list,
+    {
+      campus: campus || undefined,
+      userId: userIdByEmail.get(userEmail),
+      action: action || undefined,
+      targetType: targetType || undefined,
+      targetId: targetId.trim() || undefined,
+      from: toStartOfDay(fromDate),
+      to: toEndOfDay(toDate),
+    },
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  // Keep showing the previous entries while the first page of new filters loads
+  const lastResultsRef = React.useRef<AuditLogEntry[] | undefined>(undefined);
+  if (status !== "LoadingFirstPage") {
+    lastResultsRef.current = results;
+  }
+  const currentResults = status === "LoadingFirstPage" ? lastResultsRef.current : results;
+  const data = React.useMemo<AuditLogEntry[]>(
+    () => currentResults ?? [],
+    [currentResults],
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  const handleRowClick = (entry: AuditLogEntry) => {
+    setSelectedEntry(entry);
+    setDetailOpen(true);
+  };
+
+  if (currentResults === undefined) return <AuditLogTableSkeleton />;
+
+  return (
+    <div className="w-full">
+      {/* Filters */}
+      <div className="py-4 pt-0">
+        <div className="grid grid-cols-2 gap-2 md:flex md:flex-wrap md:items-center md:gap-4">
+          <FilterDropdown<string>
+            value={campus}
+            onChange={setCampus}
+            options={campusOptions?.map((c) => c.label) ?? []}
+            icon={MapPin}
+            label={t("filters.campus.label")}
+            placeholder={t("filters.campus.all")}
+            placeholderShort={t("filters.campus.short")}
+          />
+
+          <FilterDropdown<string>
+            value={userEmail}
+            onChange={setUserEmail}
+            options={Array.from(userIdByEmail.keys())}
+            icon={UserSearch}
+            label={t("filters.user.label")}
+            placeholder={t("filters.user.all")}
+            placeholderShort={t("filters.user.short")}
+            contentWidth="w-64"
+          />
+
+          <FilterDropdown<AuditAction>
+            value={action}
+            onChange={setAction}
+            options={ACTION_OPTIONS}
+            icon={Activity}
+            label={t("filters.action.label")}
+            placeholder={t("filters.action.all")}
+            placeholderShort={t("filters.action.short")}
+            contentWidth="w-64"
+          />
+
+          <FilterDropdown<AuditTargetType>
+            value={targetType}
+            onChange={setTargetType}
+            options={TARGET_TYPE_OPTIONS}
+            icon={Target}
+            label={t("filters.target.label")}
+            placeholder={t("filters.target.all")}
+            placeholderShort={t("filters.target.short")}
+          />
+
+          <div className="relative col-span-2 md:col-span-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              placeholder={t("filters.targetId.placeholder")}
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="pl-8 border-2 border-yankees-blue focus:ring-yankees-blue"
+              aria-label={t("filters.targetId.placeholder")}
+            />
+          </div>
+
+          <div className="col-span-2 flex items-center gap-2 md:col-span-1">
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="border-2 border-yankees-blue"
+              aria-label={t("filters.date.from")}
+            />
+            <span className="text-sm text-muted-foreground">–</span>
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="border-2 border-yankees-blue"
+              aria-label={t("filters.date.to")}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="overflow-hidden rounded-md border-2 border-yankees-blue">
+        <Table>
+          <TableHeader className="bg-yankees-blue">
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow
+                key={headerGroup.id}
+                className="border-b-2 border-yankees-blue hover:bg-yankees-blue"
+              >
+                {headerGroup.headers.map((header) => (
+                  <TableHead
+                    key={header.id}
+                    className={`whitespace-nowrap px-2 py-3 text-white lg:px-4 ${(header.column.columnDef.meta as { className?: string })?.className || ""}`}
+                  >
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  className="cursor-pointer border-b border-yankees-blue/20 hover:bg-muted/50"
+                  onClick={() => handleRowClick(row.original)}
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell
+                      key={cell.id}
+                      className={`px-2 py-3 lg:px-4 ${(cell.column.columnDef.meta as { className?: string })?.className || ""}`}
+                    >
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center"
+                >
+                  {t("table.noResults")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between py-4">
+        <div className="text-sm font-medium text-yankees-blue">
+          {t("table.pagination.shown", { count: data.length })}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => loadMore(PAGE_SIZE)}
+          disabled={status !== "CanLoadMore"}
+        >
+          {status === "LoadingMore"
+            ? t("table.pagination.loading")
+            : t("table.pagination.loadMore")}
+        </Button>
+      </div>
+
+      <AuditLogDetailSheet
+        entry={selectedEntry}
+        open={detailOpen}
+        onOpenChange={setDetailOpen}
+      />
+    </div>
+  );
+}
+
+export default AuditLogTable;
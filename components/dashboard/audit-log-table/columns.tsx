@@ -0,0 +1,73 @@
+"use client";
+
+import { ColumnDef } from "@tanstack/react-table";
+import { useTranslations } from "next-intl";
+import { Doc } from "@/convex/_generated/dataModel";
+import { Badge } from "@/components/ui/badge";
+
+export type AuditLogEntry = Doc<"auditLogs">;
+
+export const useColumns = (): ColumnDef<AuditLogEntry>[] => {
+  const t = useTranslations("auditLog");
+
+  return [
+    {
+      accessorKey: "timestamp",
+      header: () => t("table.headers.time"),
+      cell: ({ row }) => (
+        <div className="whitespace-nowrap text-sm">
+          {new Date(row.original.timestamp).toLocaleString()}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "username",
+      header: () => t("table.headers.user"),
+      cell: ({ row }) => (
+        <div className="min-w-0">
+          <div className="truncate text-sm font-medium max-w-48">
+            {row.original.username === "system"
+              ? t("systemUser")
+              : row.original.username}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {row.original.userRole}
+          </div>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "action",
+      header: () => t("table.headers.action"),
+      cell: ({ row }) => (
+        <Badge variant="outline" className="text-xs">
+          {row.original.action}
+        </Badge>
+      ),
+    },
+    {
+      accessorKey: "targetType",
+      header: () => t("table.headers.target"),
+      cell: ({ row }) => (
+        <div className="text-sm hidden md:block">
+          {row.original.targetType ? t(`targetTypes.${row.original.targetType}`) : "—"}
+        </div>
+      ),
+      meta: {
+        className: "hidden md:table-cell",
+      },
+    },
+    {
+      accessorKey: "campusLocation",
+      header: () => t("table.headers.campus"),
+      cell: ({ row }) => (
+        <div className="text-sm hidden lg:block truncate max-w-40">
+          {row.original.campusLocation ?? "—"}
+        </div>
+      ),
+      meta: {
+        className: "hidden lg:table-cell",
+      },
+    },
+  ];
+};
@@ -33,6 +33,14 @@ import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { api } from "@/convex/_generated/api";
 import type { Doc, Id } from "@/convex/_generated/dataModel";
+import {
+  DEFAULT_CAMPUS_SETTINGS,
+  DEFAULT_LANES,
+  MAX_LANES,
+  type KioskPrivacy,
+  type LaneDefinition,
+  type ParentNotificationsSettings,
+} from "@/convex/types";
 
 type DirectorOption = {
   id: Id<"users">;
@@ -271,6 +279,47 @@ export function CampusSettingsDialog({
   const [newGradeCode, setNewGradeCode] = useState("");
   const [useGradeTemplate, setUseGradeTemplate] = useState(false);
 
+  // Lanes state
+  const [lanes, setLanes] = useState<LaneDefinition[]>(
+    campus?.lanes || [...DEFAULT_LANES],
+  );
+
+  // Cross-campus calls (cars whose students belong to another campus)
+  const [allowCrossCampusCalls, setAllowCrossCampusCalls] = useState(
+    campus?.allowCrossCampusCalls ?? true,
+  );
+
+  // What public kiosk displays may show (both hidden by default)
+  const [kioskPrivacy, setKioskPrivacy] = useState<KioskPrivacy>(
+    campus?.kioskPrivacy ?? { ...DEFAULT_CAMPUS_SETTINGS.kioskPrivacy },
+  );
+
+  // Texts/emails to guardians (off by default)
+  const [parentNotifications, setParentNotifications] =
+    useState<ParentNotificationsSettings>(
+      campus?.parentNotifications ?? {
+        ...DEFAULT_CAMPUS_SETTINGS.parentNotifications,
+      },
+    );
+
+  // Viewer announcement voice (voices come from this browser's Web Speech API)
+  const [announcementVoice, setAnnouncementVoice] = useState(
+    campus?.announcementVoice || "",
+  );
+  const [speechVoices, setSpeechVoices] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!("speechSynthesis" in window)) return;
+    const loadVoices = () =>
+      setSpeechVoices(
+        window.speechSynthesis.getVoices().map((voice) => voice.name),
+      );
+    loadVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+    return () =>
+      window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+  }, []);
+
   // Grade template - Standard US education system
   const gradeTemplate: Grade[] = [
     { name: "Pre-K", code: "PK", order: 0, isActive: true },
@@ -330,6 +379,19 @@ export function CampusSettingsDialog({
     if (campus?.availableGrades && isOpen) {
       setGrades(campus.availableGrades);
     }
+    if (isOpen) {
+      setLanes(campus?.lanes || [...DEFAULT_LANES]);
+      setAllowCrossCampusCalls(campus?.allowCrossCampusCalls ?? true);
+      setAnnouncementVoice(campus?.announcementVoice || "");
+      setKioskPrivacy(
+        campus?.kioskPrivacy ?? { ...DEFAULT_CAMPUS_SETTINGS.kioskPrivacy },
+      );
+      setParentNotifications(
+        campus?.parentNotifications ?? {
+          ...DEFAULT_CAMPUS_SETTINGS.parentNotifications,
+        },
+      );
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [campus?._id, isOpen]);
 
@@ -415,6 +477,35 @@ export function CampusSettingsDialog({
     setGrades(reindexedGrades);
   };
 
+  // Lane handlers
+  const handleAddLane = () => {
+    if (lanes.length >= MAX_LANES) return;
+
+    setLanes([
+      ...lanes,
+      {
+        id: `lane-${Date.now().toString(36)}`,
+        name: `Lane ${lanes.length + 1}`,
+        color: "#6b7280",
+      },
+    ]);
+  };
+
+  const handleUpdateLane = (
+    index: number,
+    field: "name" | "color",
+    value: string,
+  ) => {
+    setLanes(
+      lanes.map((lane, i) => (i === index ? { ...lane, [field]: value } : lane)),
+    );
+  };
+
+  const handleRemoveLane = (index: number) => {
+    if (lanes.length <= 1) return;
+    setLanes(lanes.filter((_, i) => i !== index));
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -519,6 +610,16 @@ export function CampusSettingsDialog({
           directorEmail?: string;
           status?: "active" | "inactive" | "maintenance";
           availableGrades?: Grade[];
+          lanes?: LaneDefinition[];
+          timezone?: string;
+          dismissalStartTime?: string;
+          dismissalEndTime?: string;
+          queueResetTime?: string;
+          allowCrossCampusCalls?: boolean;
+          announcementTemplate?: string;
+          announcementVoice?: string;
+          kioskPrivacy?: KioskPrivacy;
+          parentNotifications?: ParentNotificationsSettings;
           address?: {
             street?: string;
             city?: string;
@@ -575,6 +676,70 @@ export function CampusSettingsDialog({
           updates.availableGrades = grades;
         }
 
+        // Dismissal schedule (empty times clear the window)
+        const timezone = (formData.get("timezone") as string).trim();
+        if (timezone !== campus.timezone) {
+          updates.timezone = timezone;
+        }
+
+        const dismissalStartTime = formData.get("dismissalStartTime") as string;
+        const dismissalEndTime = formData.get("dismissalEndTime") as string;
+        if (
+          dismissalStartTime !== (campus.dismissalStartTime || "") ||
+          dismissalEndTime !== (campus.dismissalEndTime || "")
+        ) {
+          updates.dismissalStartTime = dismissalStartTime;
+          updates.dismissalEndTime = dismissalEndTime;
+        }
+
+        const queueResetTime = formData.get("queueResetTime") as string;
+        if (queueResetTime !== (campus.queueResetTime || "")) {
+          updates.queueResetTime = queueResetTime;
+        }
+
+        if (allowCrossCampusCalls !== (campus.allowCrossCampusCalls ?? true)) {
+          updates.allowCrossCampusCalls = allowCrossCampusCalls;
+        }
+
+        // Empty announcement fields fall back to the localized defaults
+        const announcementTemplate = (
+          formData.get("announcementTemplate") as string
+        ).trim();
+        if (announcementTemplate !== (campus.announcementTemplate || "")) {
+          updates.announcementTemplate = announcementTemplate;
+        }
+
+        if (announcementVoice !== (campus.announcementVoice || "")) {
+          updates.announcementVoice = announcementVoice;
+        }
+
+        if (
+          JSON.stringify(kioskPrivacy) !==
+          JSON.stringify(
+            campus.kioskPrivacy ?? DEFAULT_CAMPUS_SETTINGS.kioskPrivacy,
+          )
+        ) {
+          updates.kioskPrivacy = kioskPrivacy;
+        }
+
+        if (
+          JSON.stringify(parentNotifications) !==
+          JSON.stringify(
+            campus.parentNotifications ??
+              DEFAULT_CAMPUS_SETTINGS.parentNotifications,
+          )
+        ) {
+          updates.parentNotifications = parentNotifications;
+        }
+
+        // Check if lanes changed
+        if (
+          JSON.stringify(lanes) !==
+          JSON.stringify(campus.lanes || DEFAULT_LANES)
+        ) {
+          updates.lanes = lanes;
+        }
+
         // Address fields
         const street = formData.get("street") as string;
         const city = formData.get("city") as string;
@@ -634,6 +799,16 @@ export function CampusSettingsDialog({
           directorName?: string;
           directorEmail?: string;
           availableGrades?: Grade[];
+          lanes?: LaneDefinition[];
+          timezone?: string;
+          dismissalStartTime?: string;
+          dismissalEndTime?: string;
+          queueResetTime?: string;
+          allowCrossCampusCalls?: boolean;
+          announcementTemplate?: string;
+          announcementVoice?: string;
+          kioskPrivacy?: KioskPrivacy;
+          parentNotifications?: ParentNotificationsSettings;
           address?: {
             street?: string;
             city?: string;
@@ -643,6 +818,20 @@ export function CampusSettingsDialog({
           };
         } = {
           campusName: campusName.trim(),
+          timezone: (formData.get("timezone") as string).trim() || undefined,
+          dismissalStartTime:
+            (formData.get("dismissalStartTime") as string) || undefined,
+          dismissalEndTime:
+            (formData.get("dismissalEndTime") as string) || undefined,
+          queueResetTime:
+            (formData.get("queueResetTime") as string) || undefined,
+          allowCrossCampusCalls,
+          announcementTemplate:
+            (formData.get("announcementTemplate") as string).trim() ||
+            undefined,
+          announcementVoice: announcementVoice || undefined,
+          kioskPrivacy,
+          parentNotifications,
         };
 
         if (uploadedLogoStorageId) {
@@ -676,6 +865,8 @@ export function CampusSettingsDialog({
           campusData.availableGrades = grades;
         }
 
+        campusData.lanes = lanes;
+
         // Address fields
         const street = formData.get("street") as string;
         const city = formData.get("city") as string;
@@ -706,6 +897,13 @@ export function CampusSettingsDialog({
         setImagePreview(null);
         setDeleteExistingImage(false);
         setGrades([]);
+        setLanes([...DEFAULT_LANES]);
+        setAllowCrossCampusCalls(true);
+        setAnnouncementVoice("");
+        setKioskPrivacy({ ...DEFAULT_CAMPUS_SETTINGS.kioskPrivacy });
+        setParentNotifications({
+          ...DEFAULT_CAMPUS_SETTINGS.parentNotifications,
+        });
         setNewGradeName("");
         setNewGradeCode("");
         setIsOpen(false);
@@ -934,7 +1132,17 @@ export function CampusSettingsDialog({
                       </div>
                     )}
                   </div>
-                  <div className="hidden">
+                </div>
+              </div>
+
+              {/* Dismissal Schedule Section */}
+              <div className="space-y-4">
+                <h4 className="text-sm font-medium border-b pb-2">
+                  Dismissal Schedule
+                </h4>
+                <div className="grid gap-4">
+                  <div className="grid gap-3">
+                    <Label htmlFor="timezone">Timezone</Label>
                     <Input
                       id="timezone"
                       name="timezone"
@@ -943,6 +1151,194 @@ export function CampusSettingsDialog({
                       required
                     />
                   </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="grid gap-2">
+                      <Label htmlFor="dismissalStartTime">Start Time</Label>
+                      <Input
+                        id="dismissalStartTime"
+                        name="dismissalStartTime"
+                        type="time"
+                        defaultValue={campus?.dismissalStartTime || ""}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="dismissalEndTime">End Time</Label>
+                      <Input
+                        id="dismissalEndTime"
+                        name="dismissalEndTime"
+                        type="time"
+                        defaultValue={campus?.dismissalEndTime || ""}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Cars can only be added to the queue during this window
+                    (campus local time). Leave both empty to keep the queue
+                    always open.
+                  </p>
+                  <div className="grid gap-2">
+                    <Label htmlFor="queueResetTime">Daily Queue Reset</Label>
+                    <Input
+                      id="queueResetTime"
+                      name="queueResetTime"
+                      type="time"
+                      defaultValue={campus?.queueResetTime || ""}
+                      className="md:w-1/2"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Remaining cars are cleared at this campus local time
+                      every day. Defaults to midnight.
+                    </p>
+                  </div>
+                  <div className="flex items-start space-x-2 rounded-lg border p-3">
+                    <Checkbox
+                      id="allowCrossCampusCalls"
+                      checked={allowCrossCampusCalls}
+                      onCheckedChange={(checked) =>
+                        setAllowCrossCampusCalls(checked === true)
+                      }
+                    />
+                    <div className="grid gap-1.5 leading-none">
+                      <label
+                        htmlFor="allowCrossCampusCalls"
+                        className="text-sm font-medium leading-none cursor-pointer"
+                      >
+                        Allow cross-campus car calls
+                      </label>
+                      <p className="text-xs text-muted-foreground">
+                        When a car number only matches students from another
+                        campus, allocators confirm before it is queued. Turn
+                        off to reject those cars.
+                      </p>
+                    </div>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="announcementTemplate">
+                      Spoken Announcement
+                    </Label>
+                    <Input
+                      id="announcementTemplate"
+                      name="announcementTemplate"
+                      defaultValue={campus?.announcementTemplate || ""}
+                      placeholder="Car {carNumber}, {students}, {lane}"
+                    />
+                    <SelectDropdown
+                      options={[
+                        { value: "", label: "Browser default voice" },
+                        ...speechVoices.map((voice) => ({
+                          value: voice,
+                          label: voice,
+                        })),
+                      ]}
+                      value={announcementVoice}
+                      onValueChange={setAnnouncementVoice}
+                      placeholder="Browser default voice"
+                      label="Voice"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Viewers with announcements on read new cars aloud.
+                      Leave the template empty to use the default for the
+                      viewer&apos;s language. Voices depend on the display
+                      device.
+                    </p>
+                  </div>
+                  <div className="grid gap-3 rounded-lg border p-3">
+                    <div className="grid gap-1.5">
+                      <span className="text-sm font-medium leading-none">
+                        Kiosk Display Privacy
+                      </span>
+                      <p className="text-xs text-muted-foreground">
+                        Applies to hallway displays opened with a display link,
+                        not to signed-in staff.
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="kioskHideLastNames"
+                        checked={kioskPrivacy.hideLastNames}
+                        onCheckedChange={(checked) =>
+                          setKioskPrivacy((prev) => ({
+                            ...prev,
+                            hideLastNames: checked === true,
+                          }))
+                        }
+                      />
+                      <label
+                        htmlFor="kioskHideLastNames"
+                        className="text-sm leading-none cursor-pointer"
+                      >
+                        Hide student last names
+                      </label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="kioskHideAvatars"
+                        checked={kioskPrivacy.hideAvatars}
+                        onCheckedChange={(checked) =>
+                          setKioskPrivacy((prev) => ({
+                            ...prev,
+                            hideAvatars: checked === true,
+                          }))
+                        }
+                      />
+                      <label
+                        htmlFor="kioskHideAvatars"
+                        className="text-sm leading-none cursor-pointer"
+                      >
+                        Hide student photos
+                      </label>
+                    </div>
+                  </div>
+                  <div className="grid gap-3 rounded-lg border p-3">
+                    <div className="flex items-start space-x-2">
+                      <Checkbox
+                        id="parentNotificationsEnabled"
+                        checked={parentNotifications.enabled}
+                        onCheckedChange={(checked) =>
+                          setParentNotifications((prev) => ({
+                            ...prev,
+                            enabled: checked === true,
+                          }))
+                        }
+                      />
+                      <div className="grid gap-1.5 leading-none">
+                        <label
+                          htmlFor="parentNotificationsEnabled"
+                          className="text-sm font-medium leading-none cursor-pointer"
+                        >
+                          Notify families
+                        </label>
+                        <p className="text-xs text-muted-foreground">
+                          Text or email guardians when their car is queued or
+                          dismissed, following each guardian&apos;s
+                          preferences.
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="longWaitMinutes">
+                        Long wait alert (minutes)
+                      </Label>
+                      <Input
+                        id="longWaitMinutes"
+                        type="number"
+                        min={1}
+                        max={120}
+                        value={parentNotifications.longWaitMinutes ?? ""}
+                        onChange={(e) =>
+                          setParentNotifications((prev) => ({
+                            ...prev,
+                            longWaitMinutes: e.target.value
+                              ? Number(e.target.value)
+                              : undefined,
+                          }))
+                        }
+                        disabled={!parentNotifications.enabled}
+                        placeholder="Off"
+                        className="w-32"
+                      />
+                    </div>
+                  </div>
                 </div>
                 {/* <div className="grid gap-3">
                   <Label htmlFor="description">Description</Label>
@@ -1059,6 +1455,61 @@ export function CampusSettingsDialog({
                 </div>
               </div>
 
+              {/* Lanes Section */}
+              <div className="space-y-4">
+                <h4 className="text-sm font-medium border-b pb-2">
+                  Pickup Lanes
+                </h4>
+                <div className="grid gap-3">
+                  {lanes.map((lane, index) => (
+                    <div key={lane.id} className="flex items-center gap-2">
+                      <Input
+                        type="color"
+                        value={lane.color}
+                        onChange={(e) =>
+                          handleUpdateLane(index, "color", e.target.value)
+                        }
+                        className="h-9 w-12 p-1 shrink-0 cursor-pointer"
+                        aria-label={`${lane.name} color`}
+                      />
+                      <Input
+                        value={lane.name}
+                        onChange={(e) =>
+                          handleUpdateLane(index, "name", e.target.value)
+                        }
+                        placeholder="e.g., North Gate"
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveLane(index)}
+                        disabled={lanes.length <= 1}
+                        className="shrink-0"
+                        aria-label={`Remove ${lane.name}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Lanes are shown from left to right in the dismissal road.
+                    Up to {MAX_LANES} lanes per campus.
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleAddLane}
+                    disabled={lanes.length >= MAX_LANES}
+                    className="gap-2 self-start"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Lane
+                  </Button>
+                </div>
+              </div>
+
               {/* Address */}
               <div className="space-y-4">
                 <h4 className="text-sm font-medium border-b pb-2">Address</h4>
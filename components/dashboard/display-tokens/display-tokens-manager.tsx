@@ -0,0 +1,250 @@
+"use client";
+
+import * as React from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { useMutation, useQuery } from "convex/react";
+import { Copy, MapPin, MonitorPlay, Plus } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useCampusSession } from "@/hooks/use-campus-session";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+export function DisplayTokensManager() {
+  const t = useTranslations("displayTokens");
+  const locale = useLocale();
+  const { selectedCampus, updateSelectedCampus } = useCampusSession();
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const campusId = campusOptions?.find((c) => c.label === selectedCampus)?.id;
+  const tokensData = useQuery(
+    api.displays.list,
+    campusId ? { campusId } : "skip",
+  );
+
+  const createToken = useMutation(api.displays.create);
+  const revokeToken = useMutation(api.displays.revoke);
+
+  const [name, setName] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  // The plain token is only available right after creation
+  const [createdUrl, setCreatedUrl] = React.useState<string | null>(null);
+  const [copied, setCopied] = React.useState(false);
+  const [tokenToRevoke, setTokenToRevoke] = React.useState<{
+    id: Id<"displayTokens">;
+    name: string;
+  } | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campusId || !name.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { token } = await createToken({ campusId, name: name.trim() });
+      setCreatedUrl(`${window.location.origin}/${locale}/display/${token}`);
+      setCopied(false);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.create"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!tokenToRevoke) return;
+    try {
+      await revokeToken({ tokenId: tokenToRevoke.id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.revoke"));
+    } finally {
+      setTokenToRevoke(null);
+    }
+  };
+
+  const tokens = tokensData?.tokens ?? [];
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:gap-4">
+        <FilterDropdown<string>
+          value={selectedCampus}
+          onChange={(value) => {
+            updateSelectedCampus(value);
+            setCreatedUrl(null);
+          }}
+          options={campusOptions?.map((c) => c.label) ?? []}
+          icon={MapPin}
+          label={t("campus")}
+          placeholder={t("campus")}
+          className="w-full md:w-64"
+          showAllOption={false}
+        />
+
+        <form onSubmit={handleCreate} className="flex flex-1 gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("namePlaceholder")}
+            maxLength={80}
+            disabled={!campusId}
+            className="md:max-w-sm"
+          />
+          <Button
+            type="submit"
+            disabled={!campusId || !name.trim() || isSubmitting}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            {t("create")}
+          </Button>
+        </form>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{t("errors.title")}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {createdUrl && (
+        <Alert>
+          <MonitorPlay className="h-4 w-4" />
+          <AlertTitle>{t("created.title")}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{t("created.description")}</p>
+            <div className="flex w-full gap-2">
+              <Input value={createdUrl} readOnly className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy} className="gap-2">
+                <Copy className="h-4 w-4" />
+                {copied ? t("created.copied") : t("created.copy")}
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.name")}</TableHead>
+              <TableHead>{t("table.token")}</TableHead>
+              <TableHead>{t("table.created")}</TableHead>
+              <TableHead>{t("table.status")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tokens.length > 0 ? (
+              tokens.map((token) => (
+                <TableRow key={token._id}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">
+                    …{token.tokenPreview}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(token.createdAt).toLocaleString(locale)}
+                  </TableCell>
+                  <TableCell>
+                    {token.revokedAt ? (
+                      <Badge variant="secondary">{t("status.revoked")}</Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        {t("status.active")}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!token.revokedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() =>
+                          setTokenToRevoke({ id: token._id, name: token.name })
+                        }
+                      >
+                        {t("revoke")}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  {campusId ? t("table.empty") : t("table.selectCampus")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog
+        open={!!tokenToRevoke}
+        onOpenChange={(open) => !open && setTokenToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("revokeConfirm.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("revokeConfirm.description", { name: tokenToRevoke?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("revokeConfirm.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-white"
+            >
+              {t("revoke")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default DisplayTokensManager;
@@ -0,0 +1,603 @@
+"use client";
+
+import * as React from "react";
+import { useTranslations } from "next-intl";
+import { useMutation, useQuery } from "convex/react";
+import { CarFront, Edit, MapPin, Plus, Save, Search, Trash2, X } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useCampusSession } from "@/hooks/use-campus-session";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+interface FamilyFormState {
+  familyId?: Id<"families">;
+  name: string;
+  carNumber: string;
+  email: string;
+  phone: string;
+  notes: string;
+}
+
+const EMPTY_FORM: FamilyFormState = {
+  name: "",
+  carNumber: "",
+  email: "",
+  phone: "",
+  notes: "",
+};
+
+interface VehicleFormState {
+  vehicleId?: Id<"familyVehicles">;
+  carNumber: string;
+  label: string;
+  color: string;
+  make: string;
+}
+
+const EMPTY_VEHICLE_FORM: VehicleFormState = {
+  carNumber: "",
+  label: "",
+  color: "",
+  make: "",
+};
+
+interface FamilyVehiclesProps {
+  family: {
+    _id: Id<"families">;
+    name: string;
+    carNumber: number;
+    vehicles: Array<{
+      _id: Id<"familyVehicles">;
+      carNumber: number;
+      label: string;
+      color?: string;
+      make?: string;
+    }>;
+  };
+}
+
+function FamilyVehicles({ family }: FamilyVehiclesProps) {
+  const t = useTranslations("families.vehicles");
+  const saveVehicle = useMutation(api.families.saveVehicle);
+  const removeVehicle = useMutation(api.families.removeVehicle);
+
+  const [form, setForm] = React.useState<VehicleFormState>(EMPTY_VEHICLE_FORM);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setForm(EMPTY_VEHICLE_FORM);
+    setError(null);
+  }, [family._id]);
+
+  const carNumber = Number(form.carNumber);
+  const canSubmit =
+    !!form.label.trim() &&
+    Number.isInteger(carNumber) &&
+    carNumber > 0 &&
+    !isSubmitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await saveVehicle({
+        familyId: family._id,
+        vehicleId: form.vehicleId,
+        carNumber,
+        label: form.label,
+        color: form.color || undefined,
+        make: form.make || undefined,
+      });
+      setForm(EMPTY_VEHICLE_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.save"));
+    }
+    setIsSubmitting(false);
+  };
+
+  const handleRemove = async (vehicleId: Id<"familyVehicles">) => {
+    setError(null);
+    try {
+      await removeVehicle({ vehicleId });
+      if (form.vehicleId === vehicleId) setForm(EMPTY_VEHICLE_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.delete"));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h3 className="text-sm font-semibold">
+          {t("title", { name: family.name })}
+        </h3>
+        <p className="text-xs text-muted-foreground">
+          {t("description", { carNumber: family.carNumber })}
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-2 md:flex-row md:items-center"
+      >
+        <Input
+          type="number"
+          min={1}
+          value={form.carNumber}
+          onChange={(e) => setForm({ ...form, carNumber: e.target.value })}
+          placeholder={t("form.carNumber")}
+          className="md:max-w-32"
+        />
+        <Input
+          value={form.label}
+          onChange={(e) => setForm({ ...form, label: e.target.value })}
+          placeholder={t("form.label")}
+          maxLength={40}
+          className="md:max-w-48"
+        />
+        <Input
+          value={form.color}
+          onChange={(e) => setForm({ ...form, color: e.target.value })}
+          placeholder={t("form.color")}
+          maxLength={20}
+          className="md:max-w-32"
+        />
+        <Input
+          value={form.make}
+          onChange={(e) => setForm({ ...form, make: e.target.value })}
+          placeholder={t("form.make")}
+          maxLength={40}
+          className="md:max-w-48"
+        />
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!canSubmit} className="gap-2">
+            {form.vehicleId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {form.vehicleId ? t("form.update") : t("form.add")}
+          </Button>
+          {form.vehicleId && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setForm(EMPTY_VEHICLE_FORM)}
+              title={t("form.cancel")}
+              aria-label={t("form.cancel")}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.carNumber")}</TableHead>
+              <TableHead>{t("table.label")}</TableHead>
+              <TableHead>{t("table.vehicle")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {family.vehicles.length > 0 ? (
+              family.vehicles.map((vehicle) => (
+                <TableRow key={vehicle._id}>
+                  <TableCell className="font-mono font-medium">
+                    {vehicle.carNumber}
+                  </TableCell>
+                  <TableCell>{vehicle.label}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {[vehicle.color, vehicle.make].filter(Boolean).join(" ")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          vehicleId: vehicle._id,
+                          carNumber: String(vehicle.carNumber),
+                          label: vehicle.label,
+                          color: vehicle.color ?? "",
+                          make: vehicle.make ?? "",
+                        })
+                      }
+                      title={t("edit")}
+                      aria-label={t("edit")}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => handleRemove(vehicle._id)}
+                      title={t("delete")}
+                      aria-label={t("delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={4}
+                  className="h-16 text-center text-muted-foreground"
+                >
+                  {t("table.empty")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export function FamiliesManager() {
+  const t = useTranslations("families");
+  const { selectedCampus, updateSelectedCampus } = useCampusSession();
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const campusId = campusOptions?.find((c) => c.label === selectedCampus)?.id;
+
+  const [search, setSearch] = React.useState("");
+  const familiesData = useQuery(
+    api.families.list,
+    campusId ? { campusId, search: search || undefined } : "skip",
+  );
+
+  const createFamily = useMutation(api.families.create);
+  const updateFamily = useMutation(api.families.update);
+  const removeFamily = useMutation(api.families.remove);
+
+  const [form, setForm] = React.useState<FamilyFormState>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [familyToDelete, setFamilyToDelete] = React.useState<{
+    id: Id<"families">;
+    name: string;
+  } | null>(null);
+  const [selectedFamilyId, setSelectedFamilyId] =
+    React.useState<Id<"families"> | null>(null);
+
+  const carNumber = Number(form.carNumber);
+  const canSubmit =
+    !!campusId &&
+    !!form.name.trim() &&
+    Number.isInteger(carNumber) &&
+    carNumber > 0 &&
+    !isSubmitting;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campusId || !canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const fields = {
+        name: form.name,
+        carNumber,
+        email: form.email || undefined,
+        phone: form.phone || undefined,
+        notes: form.notes || undefined,
+      };
+      if (form.familyId) {
+        await updateFamily({ familyId: form.familyId, ...fields });
+      } else {
+        await createFamily({ campusId, ...fields });
+      }
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.save"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!familyToDelete) return;
+    try {
+      await removeFamily({ familyId: familyToDelete.id });
+      if (form.familyId === familyToDelete.id) setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.delete"));
+    } finally {
+      setFamilyToDelete(null);
+    }
+  };
+
+  const families = familiesData?.families ?? [];
+  const selectedFamily = families.find((f) => f._id === selectedFamilyId);
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <FilterDropdown<string>
+          value={selectedCampus}
+          onChange={(value) => {
+            updateSelectedCampus(value);
+            setForm(EMPTY_FORM);
+            setSelectedFamilyId(null);
+          }}
+          options={campusOptions?.map((c) => c.label) ?? []}
+          icon={MapPin}
+          label={t("campus")}
+          placeholder={t("campus")}
+          className="w-full md:w-64"
+          showAllOption={false}
+        />
+        <div className="relative md:max-w-xs md:flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("search")}
+            disabled={!campusId}
+            className="pl-8"
+          />
+        </div>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-2 md:flex-row md:flex-wrap md:items-center"
+      >
+        <Input
+          type="number"
+          min={1}
+          value={form.carNumber}
+          onChange={(e) => setForm({ ...form, carNumber: e.target.value })}
+          placeholder={t("form.carNumber")}
+          disabled={!campusId}
+          className="md:max-w-32"
+        />
+        <Input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder={t("form.name")}
+          maxLength={80}
+          disabled={!campusId}
+          className="md:max-w-48"
+        />
+        <Input
+          type="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          placeholder={t("form.email")}
+          disabled={!campusId}
+          className="md:max-w-xs"
+        />
+        <Input
+          type="tel"
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+          placeholder={t("form.phone")}
+          disabled={!campusId}
+          className="md:max-w-48"
+        />
+        <Input
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          placeholder={t("form.notes")}
+          maxLength={200}
+          disabled={!campusId}
+          className="md:max-w-xs"
+        />
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!canSubmit} className="gap-2">
+            {form.familyId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {form.familyId ? t("form.update") : t("form.add")}
+          </Button>
+          {form.familyId && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setForm(EMPTY_FORM)}
+              title={t("form.cancel")}
+              aria-label={t("form.cancel")}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{t("errors.title")}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.carNumber")}</TableHead>
+              <TableHead>{t("table.name")}</TableHead>
+              <TableHead>{t("table.students")}</TableHead>
+              <TableHead>{t("table.guardians")}</TableHead>
+              <TableHead>{t("table.contact")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {families.length > 0 ? (
+              families.map((family) => (
+                <TableRow key={family._id}>
+                  <TableCell className="font-mono font-medium">
+                    {family.carNumber}
+                    {family.vehicles
+                      .filter((vehicle) => vehicle.carNumber !== family.carNumber)
+                      .map((vehicle) => (
+                        <div
+                          key={vehicle._id}
+                          className="text-xs font-normal text-muted-foreground"
+                          title={vehicle.label}
+                        >
+                          +{vehicle.carNumber}
+                        </div>
+                      ))}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{family.name}</div>
+                    {family.notes && (
+                      <div className="text-xs text-muted-foreground">
+                        {family.notes}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {family.students.length > 0 ? (
+                        family.students.map((student) => (
+                          <Badge key={student._id} variant="secondary">
+                            {student.fullName} · {student.grade}
+                          </Badge>
+                        ))
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          {t("table.noStudents")}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{family.guardianCount}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {[family.email, family.phone].filter(Boolean).join(" · ")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant={selectedFamilyId === family._id ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() =>
+                        setSelectedFamilyId(
+                          selectedFamilyId === family._id ? null : family._id,
+                        )
+                      }
+                      title={t("vehicles.manage")}
+                      aria-label={t("vehicles.manage")}
+                    >
+                      <CarFront className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          familyId: family._id,
+                          name: family.name,
+                          carNumber: String(family.carNumber),
+                          email: family.email ?? "",
+                          phone: family.phone ?? "",
+                          notes: family.notes ?? "",
+                        })
+                      }
+                      title={t("edit")}
+                      aria-label={t("edit")}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() =>
+                        setFamilyToDelete({ id: family._id, name: family.name })
+                      }
+                      disabled={family.students.length > 0}
+                      title={
+                        family.students.length > 0
+                          ? t("deleteBlocked")
+                          : t("delete")
+                      }
+                      aria-label={t("delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  {campusId ? t("table.empty") : t("table.selectCampus")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedFamily && <FamilyVehicles family={selectedFamily} />}
+
+      <AlertDialog
+        open={!!familyToDelete}
+        onOpenChange={(open) => !open && setFamilyToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("deleteConfirm.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("deleteConfirm.description", {
+                name: familyToDelete?.name ?? "",
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("deleteConfirm.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-white"
+            >
+              {t("delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default FamiliesManager;
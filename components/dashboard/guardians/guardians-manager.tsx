@@ -0,0 +1,479 @@
+"use client";
+
+import * as React from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { useMutation, useQuery } from "convex/react";
+import { Edit, House, MapPin, Plus, Save, Trash2, X } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useCampusSession } from "@/hooks/use-campus-session";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { SelectDropdown } from "@/components/ui/select-dropdown";
+
+type NotificationEvent = "car_queued" | "car_dismissed" | "long_wait";
+type Channel = "email" | "sms";
+type GuardianLocale = "en" | "es";
+
+const EVENTS: NotificationEvent[] = ["car_queued", "car_dismissed", "long_wait"];
+const CHANNELS: Channel[] = ["email", "sms"];
+
+interface GuardianFormState {
+  guardianId?: Id<"guardians">;
+  familyId: string;
+  name: string;
+  email: string;
+  phone: string;
+  locale: GuardianLocale;
+  preferences: Record<Channel, NotificationEvent[]>;
+}
+
+const EMPTY_FORM: GuardianFormState = {
+  familyId: "",
+  name: "",
+  email: "",
+  phone: "",
+  locale: "en",
+  preferences: { email: ["car_queued", "car_dismissed"], sms: [] },
+};
+
+export function GuardiansManager() {
+  const t = useTranslations("guardians");
+  const locale = useLocale();
+  const { selectedCampus, updateSelectedCampus } = useCampusSession();
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const campusId = campusOptions?.find((c) => c.label === selectedCampus)?.id;
+
+  const familyOptions = useQuery(
+    api.families.getOptions,
+    campusId ? { campusId } : "skip",
+  );
+  const [familyFilter, setFamilyFilter] = React.useState("");
+  const filterFamilyId = familyOptions?.find(
+    (f) => f.label === familyFilter,
+  )?.id;
+  const guardiansData = useQuery(
+    api.guardians.list,
+    campusId ? { campusId, familyId: filterFamilyId } : "skip",
+  );
+  const logsData = useQuery(
+    api.notifications.listRecent,
+    campusId ? { campusId } : "skip",
+  );
+
+  const saveGuardian = useMutation(api.guardians.save);
+  const removeGuardian = useMutation(api.guardians.remove);
+
+  const [form, setForm] = React.useState<GuardianFormState>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [guardianToDelete, setGuardianToDelete] = React.useState<{
+    id: Id<"guardians">;
+    name: string;
+  } | null>(null);
+
+  const canSubmit =
+    !!campusId &&
+    !!form.familyId &&
+    !!form.name.trim() &&
+    (!!form.email.trim() || !!form.phone.trim()) &&
+    !isSubmitting;
+
+  const togglePreference = (channel: Channel, event: NotificationEvent) => {
+    const current = form.preferences[channel];
+    setForm({
+      ...form,
+      preferences: {
+        ...form.preferences,
+        [channel]: current.includes(event)
+          ? current.filter((e) => e !== event)
+          : [...current, event],
+      },
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campusId || !canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await saveGuardian({
+        campusId,
+        guardianId: form.guardianId,
+        familyId: form.familyId as Id<"families">,
+        name: form.name,
+        email: form.email || undefined,
+        phone: form.phone || undefined,
+        locale: form.locale,
+        preferences: form.preferences,
+      });
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.save"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!guardianToDelete) return;
+    try {
+      await removeGuardian({ guardianId: guardianToDelete.id });
+      if (form.guardianId === guardianToDelete.id) setForm(EMPTY_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("errors.delete"));
+    } finally {
+      setGuardianToDelete(null);
+    }
+  };
+
+  const guardians = guardiansData?.guardians ?? [];
+  const logs = logsData?.logs ?? [];
+  const guardianNames = new Map(guardians.map((g) => [g._id, g.name]));
+  const localeOptions = [
+    { value: "en", label: t("locales.en") },
+    { value: "es", label: t("locales.es") },
+  ];
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <FilterDropdown<string>
+          value={selectedCampus}
+          onChange={(value) => {
+            updateSelectedCampus(value);
+            setFamilyFilter("");
+            setForm(EMPTY_FORM);
+          }}
+          options={campusOptions?.map((c) => c.label) ?? []}
+          icon={MapPin}
+          label={t("campus")}
+          placeholder={t("campus")}
+          className="w-full md:w-64"
+          showAllOption={false}
+        />
+        <FilterDropdown<string>
+          value={familyFilter}
+          onChange={setFamilyFilter}
+          options={familyOptions?.map((f) => f.label) ?? []}
+          icon={House}
+          label={t("filterFamily")}
+          placeholder={t("filterFamily")}
+          className="w-full md:w-64"
+        />
+      </div>
+
+      {logsData && !logsData.enabled && (
+        <Alert>
+          <AlertTitle>{t("disabled.title")}</AlertTitle>
+          <AlertDescription>{t("disabled.description")}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-4">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <SelectDropdown
+            options={(familyOptions ?? []).map((f) => ({
+              value: f.id,
+              label: f.label,
+            }))}
+            value={form.familyId}
+            onValueChange={(value) => setForm({ ...form, familyId: value })}
+            placeholder={t("form.family")}
+            disabled={!campusId}
+            className="md:w-56"
+          />
+          <Input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder={t("form.name")}
+            maxLength={80}
+            disabled={!campusId}
+            className="md:max-w-xs"
+          />
+          <Input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder={t("form.email")}
+            disabled={!campusId}
+            className="md:max-w-xs"
+          />
+          <Input
+            type="tel"
+            value={form.phone}
+            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+            placeholder={t("form.phone")}
+            disabled={!campusId}
+            className="md:max-w-48"
+          />
+          <SelectDropdown
+            options={localeOptions}
+            value={form.locale}
+            onValueChange={(value) =>
+              setForm({ ...form, locale: value as GuardianLocale })
+            }
+            disabled={!campusId}
+            className="md:w-36"
+          />
+        </div>
+
+        <div className="grid gap-2 md:grid-cols-2">
+          {CHANNELS.map((channel) => {
+            const hasContact =
+              channel === "email" ? !!form.email.trim() : !!form.phone.trim();
+            return (
+              <div key={channel} className="space-y-2">
+                <p className="text-sm font-medium">{t(`channels.${channel}`)}</p>
+                <div className="flex flex-wrap gap-4">
+                  {EVENTS.map((event) => (
+                    <label
+                      key={event}
+                      className="flex items-center gap-2 text-sm cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={
+                          hasContact && form.preferences[channel].includes(event)
+                        }
+                        onCheckedChange={() => togglePreference(channel, event)}
+                        disabled={!campusId || !hasContact}
+                      />
+                      {t(`events.${event}`)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={!canSubmit} className="gap-2">
+            {form.guardianId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {form.guardianId ? t("form.update") : t("form.add")}
+          </Button>
+          {form.guardianId && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => setForm(EMPTY_FORM)}
+              title={t("form.cancel")}
+              aria-label={t("form.cancel")}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{t("errors.title")}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.family")}</TableHead>
+              <TableHead>{t("table.name")}</TableHead>
+              <TableHead>{t("table.contact")}</TableHead>
+              <TableHead>{t("table.notifications")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {guardians.length > 0 ? (
+              guardians.map((guardian) => (
+                <TableRow key={guardian._id}>
+                  <TableCell>
+                    {guardian.family ? (
+                      <>
+                        <span className="font-mono">#{guardian.family.carNumber}</span>{" "}
+                        {guardian.family.name}
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        {t("table.noFamily")}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {guardian.name}
+                    <span className="ml-2 text-xs uppercase text-muted-foreground">
+                      {guardian.locale}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {[guardian.email, guardian.phone].filter(Boolean).join(" · ")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {CHANNELS.flatMap((channel) =>
+                        guardian.preferences[channel].map((event) => (
+                          <Badge key={`${channel}-${event}`} variant="secondary">
+                            {t(`channels.${channel}`)}: {t(`events.${event}`)}
+                          </Badge>
+                        )),
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          guardianId: guardian._id,
+                          familyId: guardian.familyId,
+                          name: guardian.name,
+                          email: guardian.email ?? "",
+                          phone: guardian.phone ?? "",
+                          locale: guardian.locale,
+                          preferences: guardian.preferences,
+                        })
+                      }
+                      title={t("edit")}
+                      aria-label={t("edit")}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() =>
+                        setGuardianToDelete({ id: guardian._id, name: guardian.name })
+                      }
+                      title={t("delete")}
+                      aria-label={t("delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  {campusId ? t("table.empty") : t("table.selectCampus")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {campusId && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">{t("log.title")}</h3>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("log.time")}</TableHead>
+                  <TableHead>{t("log.event")}</TableHead>
+                  <TableHead>{t("log.to")}</TableHead>
+                  <TableHead>{t("log.status")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.length > 0 ? (
+                  logs.map((log) => (
+                    <TableRow key={log._id}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(log.createdAt).toLocaleString(locale)}
+                      </TableCell>
+                      <TableCell>{t(`events.${log.event}`)}</TableCell>
+                      <TableCell className="text-sm">
+                        {guardianNames.get(log.guardianId) ?? log.to}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {t(`channels.${log.channel}`)} · {log.provider}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={log.status === "sent" ? "secondary" : "destructive"}
+                          title={log.error}
+                        >
+                          {t(`log.statuses.${log.status}`)}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell
+                      colSpan={4}
+                      className="h-16 text-center text-muted-foreground"
+                    >
+                      {t("log.empty")}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog
+        open={!!guardianToDelete}
+        onOpenChange={(open) => !open && setGuardianToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("deleteConfirm.title")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("deleteConfirm.description", {
+                name: guardianToDelete?.name ?? "",
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("deleteConfirm.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-white"
+            >
+              {t("delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default GuardiansManager;
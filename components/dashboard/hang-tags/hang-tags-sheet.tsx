@@ -0,0 +1,178 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { useTranslations } from "next-intl";
+import { useQuery } from "convex/react";
+import { Printer } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { SelectDropdown } from "@/components/ui/select-dropdown";
+import { QrCode } from "./qr-code";
+import {
+  HANG_TAG_LAYOUTS,
+  HangTagLayout,
+  HangTagLayoutId,
+  isHangTagLayoutId,
+} from "./layouts";
+
+interface HangTagData {
+  carNumber: number;
+  familyName?: string;
+  vehicleLabel?: string;
+  students: Array<{ name: string; grade: string }>;
+}
+
+interface HangTagProps {
+  tag: HangTagData;
+  campus: { name: string; logoUrl: string | null };
+  layout: HangTagLayout;
+}
+
+function HangTag({ tag, campus, layout }: HangTagProps) {
+  // Everything scales with the tag height so each layout stays balanced
+  const unit = (ratio: number) => `${layout.tagHeight * ratio}in`;
+  const qrSize = Math.min(layout.tagHeight * 0.72, layout.tagWidth * 0.4);
+  const subtitle = [tag.familyName, tag.vehicleLabel].filter(Boolean).join(" · ");
+
+  return (
+    <div
+      className="flex overflow-hidden rounded-lg border border-dashed border-gray-300 bg-white text-black"
+      style={{ padding: unit(0.08), gap: unit(0.06) }}
+    >
+      <div className="flex min-w-0 flex-1 flex-col">
+        <div className="flex items-center" style={{ gap: unit(0.04), fontSize: unit(0.065) }}>
+          {campus.logoUrl && (
+            <div className="relative shrink-0" style={{ width: unit(0.16), height: unit(0.16) }}>
+              <Image src={campus.logoUrl} alt={campus.name} fill sizes="96px" className="object-contain" />
+            </div>
+          )}
+          <span className="truncate font-semibold uppercase tracking-wide">{campus.name}</span>
+        </div>
+        <div className="font-black leading-none" style={{ fontSize: unit(0.32), marginTop: unit(0.04) }}>
+          {tag.carNumber}
+        </div>
+        {subtitle && (
+          <div className="truncate text-gray-600" style={{ fontSize: unit(0.06) }}>
+            {subtitle}
+          </div>
+        )}
+        <ul className="mt-auto min-h-0 overflow-hidden" style={{ fontSize: unit(0.065) }}>
+          {tag.students.map((student) => (
+            <li key={`${student.name}-${student.grade}`} className="truncate">
+              <span className="font-semibold">{student.name}</span> · {student.grade}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="flex shrink-0 items-center">
+        <QrCode value={String(tag.carNumber)} style={{ width: `${qrSize}in`, height: `${qrSize}in` }} />
+      </div>
+    </div>
+  );
+}
+
+interface HangTagsSheetProps {
+  campusId: Id<"campusSettings">;
+  grade?: string;
+  studentIds?: Id<"students">[];
+  layout: HangTagLayoutId;
+}
+
+/**
+ * Printable sheets of car hang tags laid out for Avery-style label paper
+ */
+export function HangTagsSheet({ campusId, grade, studentIds, layout: initialLayout }: HangTagsSheetProps) {
+  const t = useTranslations("hangTags");
+  const [layoutId, setLayoutId] = React.useState<HangTagLayoutId>(initialLayout);
+  const layout: HangTagLayout = HANG_TAG_LAYOUTS[layoutId];
+
+  const data = useQuery(api.hangTags.list, { campusId, grade, studentIds });
+
+  const pages = React.useMemo(() => {
+    const tags = data?.tags ?? [];
+    const perPage = layout.columns * layout.rows;
+    return Array.from({ length: Math.ceil(tags.length / perPage) }, (_, page) =>
+      tags.slice(page * perPage, (page + 1) * perPage),
+    );
+  }, [data?.tags, layout]);
+
+  if (data === undefined) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-yankees-blue"></div>
+      </div>
+    );
+  }
+
+  if (data.authState !== "authenticated" || !data.campus) {
+    return (
+      <div className="mx-auto max-w-lg p-8">
+        <Alert variant="destructive">
+          <AlertTitle>{t("forbidden.title")}</AlertTitle>
+          <AlertDescription>{t("forbidden.description")}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const campus = data.campus;
+
+  return (
+    <div className="min-h-screen bg-muted/40 print:bg-white">
+      <style>{"@page { size: letter; margin: 0; }"}</style>
+
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-3 border-b bg-background px-6 py-3 print:hidden">
+        <div className="mr-auto">
+          <h1 className="text-lg font-semibold">{t("title", { campus: campus.name })}</h1>
+          <p className="text-sm text-muted-foreground">
+            {t("summary", { tags: data.tags.length, pages: pages.length })}
+          </p>
+        </div>
+        <SelectDropdown
+          options={Object.keys(HANG_TAG_LAYOUTS).map((id) => ({
+            value: id,
+            label: t(`layouts.${id as HangTagLayoutId}`),
+          }))}
+          value={layoutId}
+          onValueChange={(value) => isHangTagLayoutId(value) && setLayoutId(value)}
+          label={t("layout")}
+          className="w-64"
+        />
+        <Button onClick={() => window.print()} disabled={pages.length === 0} className="gap-2">
+          <Printer className="h-4 w-4" />
+          {t("print")}
+        </Button>
+      </div>
+
+      {pages.length === 0 ? (
+        <p className="p-12 text-center text-muted-foreground">{t("empty")}</p>
+      ) : (
+        <div className="flex flex-col items-center gap-6 py-6 print:block print:p-0">
+          {pages.map((tags, page) => (
+            <div
+              key={page}
+              className="grid shrink-0 bg-white shadow-md break-after-page print:shadow-none"
+              style={{
+                width: "8.5in",
+                height: "11in",
+                paddingTop: `${layout.marginTop}in`,
+                paddingLeft: `${layout.marginLeft}in`,
+                gridTemplateColumns: `repeat(${layout.columns}, ${layout.tagWidth}in)`,
+                gridAutoRows: `${layout.tagHeight}in`,
+                columnGap: `${layout.columnGap}in`,
+              }}
+            >
+              {tags.map((tag) => (
+                <HangTag key={tag.carNumber} tag={tag} campus={campus} layout={layout} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Label sheet layouts for hang tags, on US Letter paper. All sizes in inches.
+ */
+export interface HangTagLayout {
+  columns: number;
+  rows: number;
+  tagWidth: number;
+  tagHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+}
+
+export const HANG_TAG_LAYOUTS = {
+  // 10 per sheet, 4" x 2"
+  "avery-5163": {
+    columns: 2,
+    rows: 5,
+    tagWidth: 4,
+    tagHeight: 2,
+    marginTop: 0.5,
+    marginLeft: 0.15625,
+    columnGap: 0.1875,
+  },
+  // 6 per sheet, 4" x 3⅓"
+  "avery-5164": {
+    columns: 2,
+    rows: 3,
+    tagWidth: 4,
+    tagHeight: 10 / 3,
+    marginTop: 0.5,
+    marginLeft: 0.15625,
+    columnGap: 0.1875,
+  },
+  // 2 per sheet, half letter, readable through the windshield
+  "avery-8126": {
+    columns: 1,
+    rows: 2,
+    tagWidth: 8.5,
+    tagHeight: 5.5,
+    marginTop: 0,
+    marginLeft: 0,
+    columnGap: 0,
+  },
+} satisfies Record<string, HangTagLayout>;
+
+export type HangTagLayoutId = keyof typeof HANG_TAG_LAYOUTS;
+
+export const DEFAULT_HANG_TAG_LAYOUT: HangTagLayoutId = "avery-5164";
+
+export function isHangTagLayoutId(value: unknown): value is HangTagLayoutId {
+  return typeof value === "string" && value in HANG_TAG_LAYOUTS;
+}
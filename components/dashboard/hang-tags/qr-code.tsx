@@ -0,0 +1,43 @@
+"use client";
+
+import * as React from "react";
+import { createQrMatrix } from "@/lib/qr-code";
+
+// Light border around the code required by scanners, in modules
+const QUIET_ZONE = 4;
+
+interface QrCodeProps {
+  value: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Numeric QR code drawn as a single SVG path so it prints sharp at any size
+ */
+export function QrCode({ value, className, style }: QrCodeProps) {
+  const { path, size } = React.useMemo(() => {
+    const matrix = createQrMatrix(value);
+    const commands: string[] = [];
+    matrix.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      }),
+    );
+    return { path: commands.join(""), size: matrix.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className={className}
+      style={style}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={value}
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
@@ -8,8 +8,13 @@ import { StudentAvatar } from "./student-avatar"
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
+import { DailyStatus, DailyStatusSelect } from "./daily-status-select"
 
-export const useColumns = (): ColumnDef<Student>[] => {
+interface ColumnOptions {
+    onDailyStatusChange?: (student: Student, status: DailyStatus) => void
+}
+
+export const useColumns = ({ onDailyStatusChange }: ColumnOptions = {}): ColumnDef<Student>[] => {
     const t = useTranslations('studentsManagement')
 
     return [
@@ -159,6 +164,20 @@ export const useColumns = (): ColumnDef<Student>[] => {
                 className: "hidden lg:table-cell"
             }
         },
+        {
+            accessorKey: "todayStatus",
+            header: () => (
+                <span className="font-medium text-white">{t('table.headers.today')}</span>
+            ),
+            cell: ({ row }) => (
+                <DailyStatusSelect
+                    value={row.original.todayStatus}
+                    onChange={(status) => onDailyStatusChange?.(row.original, status)}
+                    disabled={!onDailyStatusChange}
+                />
+            ),
+            enableSorting: false,
+        },
     ]
 }
 
@@ -0,0 +1,57 @@
+"use client"
+
+import * as React from "react"
+import { useTranslations } from "next-intl"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import type { StudentExclusionReason } from "@/convex/types"
+
+export type DailyStatus = StudentExclusionReason | "present"
+
+const STATUS_OPTIONS: DailyStatus[] = ["present", "absent", "early_pickup", "after_school"]
+
+const statusClasses: Record<DailyStatus, string> = {
+    present: "text-muted-foreground",
+    absent: "border-red-200 bg-red-50 text-red-700",
+    early_pickup: "border-amber-200 bg-amber-50 text-amber-700",
+    after_school: "border-blue-200 bg-blue-50 text-blue-700"
+}
+
+interface DailyStatusSelectProps {
+    value?: StudentExclusionReason
+    onChange: (status: DailyStatus) => void
+    disabled?: boolean
+}
+
+export function DailyStatusSelect({ value, onChange, disabled = false }: DailyStatusSelectProps) {
+    const t = useTranslations("studentsManagement.dailyStatus")
+    const status: DailyStatus = value ?? "present"
+
+    return (
+        // Keep clicks (including ones from the portal content) from opening the edit dialog
+        <div onClick={(e) => e.stopPropagation()}>
+            <Select
+                value={status}
+                onValueChange={(next) => onChange(next as DailyStatus)}
+                disabled={disabled}
+            >
+                <SelectTrigger size="sm" className={cn("w-36 text-xs", statusClasses[status])}>
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {STATUS_OPTIONS.map((option) => (
+                        <SelectItem key={option} value={option} className="text-xs">
+                            {t(option)}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import * as React from "react"
+import { Printer } from "lucide-react"
+import { useLocale, useTranslations } from 'next-intl'
+import { Button } from "@/components/ui/button"
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select"
+import { Student } from "../types"
+import { CampusOption, GRADES } from "@/convex/types"
+import {
+    DEFAULT_HANG_TAG_LAYOUT,
+    HANG_TAG_LAYOUTS,
+    HangTagLayoutId,
+} from "../hang-tags/layouts"
+
+// Select items can't have an empty value
+const ALL_GRADES = "all"
+
+type PrintScope = "selected" | "campus"
+
+interface PrintHangTagsDialogProps {
+    selectedStudents: Student[]
+    campusOptions: CampusOption[]
+    // Current table filters, used as defaults (campus label and grade)
+    campusFilter?: string
+    gradeFilter?: string
+}
+
+export function PrintHangTagsDialog({
+    selectedStudents,
+    campusOptions,
+    campusFilter,
+    gradeFilter
+}: PrintHangTagsDialogProps) {
+    const t = useTranslations('hangTags')
+    const locale = useLocale()
+    const [open, setOpen] = React.useState(false)
+    const [scope, setScope] = React.useState<PrintScope>("campus")
+    const [campusId, setCampusId] = React.useState<string>("")
+    const [grade, setGrade] = React.useState<string>(ALL_GRADES)
+    const [layout, setLayout] = React.useState<HangTagLayoutId>(DEFAULT_HANG_TAG_LAYOUT)
+
+    // Tags are printed per campus, a selection across campuses can't be printed at once
+    const selectedCampusIds = [...new Set(selectedStudents.map(student => student.campusId))]
+    const selectionCampusId = selectedCampusIds.length === 1 ? selectedCampusIds[0] : undefined
+
+    const handleOpenChange = (nextOpen: boolean) => {
+        if (nextOpen) {
+            setScope(selectedStudents.length > 0 ? "selected" : "campus")
+            setCampusId(campusOptions.find(campus => campus.label === campusFilter)?.id ?? campusOptions[0]?.id ?? "")
+            setGrade(gradeFilter || ALL_GRADES)
+        }
+        setOpen(nextOpen)
+    }
+
+    const canPrint = scope === "selected" ? !!selectionCampusId : !!campusId
+
+    const handlePrint = () => {
+        const params = new URLSearchParams({ layout })
+        if (scope === "selected" && selectionCampusId) {
+            params.set("campus", selectionCampusId)
+            params.set("students", selectedStudents.map(student => student.id).join(","))
+        } else {
+            params.set("campus", campusId)
+            if (grade !== ALL_GRADES) params.set("grade", grade)
+        }
+        window.open(`/${locale}/management/hang-tags?${params.toString()}`, "_blank")
+        setOpen(false)
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button
+                    variant="outline"
+                    className="w-full gap-2 md:w-auto"
+                    aria-label={t('dialog.trigger')}
+                >
+                    <Printer className="h-4 w-4" />
+                    <span className="hidden lg:inline">{t('dialog.trigger')}</span>
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[460px]">
+                <DialogHeader>
+                    <DialogTitle>{t('dialog.title')}</DialogTitle>
+                    <DialogDescription>{t('dialog.description')}</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4">
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{t('dialog.scope.label')}</Label>
+                        <Select value={scope} onValueChange={(value) => setScope(value as PrintScope)}>
+                            <SelectTrigger className="w-full h-10">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="campus">{t('dialog.scope.campus')}</SelectItem>
+                                <SelectItem value="selected" disabled={selectedStudents.length === 0}>
+                                    {t('dialog.scope.selected', { count: selectedStudents.length })}
+                                </SelectItem>
+                            </SelectContent>
+                        </Select>
+                        {scope === "selected" && !selectionCampusId && (
+                            <p className="text-xs text-destructive">{t('dialog.scope.mixedCampuses')}</p>
+                        )}
+                    </div>
+
+                    {scope === "campus" && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">{t('dialog.campus')}</Label>
+                                <Select value={campusId} onValueChange={setCampusId}>
+                                    <SelectTrigger className="w-full h-10">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {campusOptions.map((campus) => (
+                                            <SelectItem key={campus.id} value={campus.id}>
+                                                {campus.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="text-sm font-medium">{t('dialog.grade')}</Label>
+                                <Select value={grade} onValueChange={setGrade}>
+                                    <SelectTrigger className="w-full h-10">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ALL_GRADES}>{t('dialog.allGrades')}</SelectItem>
+                                        {GRADES.map((value) => (
+                                            <SelectItem key={value} value={value}>
+                                                {value}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium">{t('dialog.layout')}</Label>
+                        <Select value={layout} onValueChange={(value) => setLayout(value as HangTagLayoutId)}>
+                            <SelectTrigger className="w-full h-10">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(HANG_TAG_LAYOUTS) as HangTagLayoutId[]).map((id) => (
+                                    <SelectItem key={id} value={id}>
+                                        {t(`layouts.${id}`)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">{t('dialog.hint')}</p>
+                    </div>
+                </div>
+
+                <DialogFooter className="flex justify-end gap-2">
+                    <Button onClick={handlePrint} disabled={!canPrint} className="gap-2">
+                        <Printer className="h-4 w-4" />
+                        {t('dialog.open')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
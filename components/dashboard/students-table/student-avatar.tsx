@@ -12,6 +12,7 @@ interface StudentAvatarProps {
     firstName: string
     lastName: string
     className?: string
+    style?: React.CSSProperties
     size?: "sm" | "md" | "lg"
 }
 
@@ -27,6 +28,7 @@ export function StudentAvatar({
     firstName,
     lastName,
     className = "",
+    style,
     size = "md"
 }: StudentAvatarProps) {
     // Only fetch avatar URL from Convex if we have a storage ID
@@ -52,7 +54,7 @@ export function StudentAvatar({
     }, [avatarStorageId, avatarUrl, fallbackUrl])
 
     return (
-        <Avatar className={`${sizeClasses[size]} flex-shrink-0 ${className}`}>
+        <Avatar className={`${sizeClasses[size]} flex-shrink-0 ${className}`} style={style}>
             <AvatarImage
                 src={imageSrc}
                 alt={`${firstName} ${lastName}`}
@@ -1,7 +1,7 @@
 "use client"
 
 import * as React from "react"
-import { Plus, CalendarIcon, Trash2, Save, Upload, X, Loader2 } from "lucide-react"
+import { Plus, CalendarIcon, Trash2, Save, Upload, X, Loader2, Link2 } from "lucide-react"
 import { format } from "date-fns"
 import { useTranslations } from 'next-intl'
 import { useMutation, useQuery } from "convex/react"
@@ -38,6 +38,9 @@ import { CampusOption, GRADES } from "@/convex/types"
 import { api } from "@/convex/_generated/api"
 import { Id } from "@/convex/_generated/dataModel"
 
+// Select items can't have an empty value
+const NO_FAMILY = "none"
+
 interface StudentFormDialogProps {
     mode: 'create' | 'edit'
     student?: Student
@@ -65,6 +68,24 @@ export function StudentFormDialog({
 
     // Convex mutations for avatar handling
     const generateUploadUrl = useMutation(api.students.generateAvatarUploadUrl)
+    const createCheckInLink = useMutation(api.checkins.createLink)
+    const [checkInLinkState, setCheckInLinkState] = React.useState<'idle' | 'copied' | 'error'>('idle')
+
+    React.useEffect(() => {
+        setCheckInLinkState('idle')
+    }, [student?.id])
+
+    // Copy the family "I'm here" link (shared by every student on the car)
+    const handleCopyCheckInLink = async () => {
+        if (!student?.id) return
+        try {
+            const { url } = await createCheckInLink({ studentId: student.id as Id<"students"> })
+            await navigator.clipboard.writeText(url)
+            setCheckInLinkState('copied')
+        } catch {
+            setCheckInLinkState('error')
+        }
+    }
     
     // Query for campus options (dynamic)
     const campusOptions = useQuery(api.campus.getOptions, {})
@@ -91,7 +112,7 @@ export function StudentFormDialog({
             return {
                 firstName: student.firstName,
                 lastName: student.lastName,
-                carNumber: student.carNumber?.toString() || "",
+                familyId: student.familyId || NO_FAMILY,
                 grade: student.grade,
                 campusId: student.campusId,
                 avatarUrl: student.avatarUrl || "",
@@ -101,7 +122,7 @@ export function StudentFormDialog({
         return {
             firstName: "",
             lastName: "",
-            carNumber: "",
+            familyId: NO_FAMILY as Id<"families"> | typeof NO_FAMILY,
             grade: "" as Grade | "",
             campusId: "" as Id<"campusSettings"> | "",
             avatarUrl: "",
@@ -118,6 +139,13 @@ export function StudentFormDialog({
 
     const [formData, setFormData] = React.useState(initialFormData)
 
+    // Families of the selected campus (the family owns the car number)
+    const familyOptions = useQuery(
+        api.families.getOptions,
+        formData.campusId ? { campusId: formData.campusId as Id<"campusSettings"> } : "skip"
+    )
+    const selectedFamily = familyOptions?.find((f) => f.id === formData.familyId)
+
     // Reset form when student changes or dialog opens
     React.useEffect(() => {
         if (open) {
@@ -298,7 +326,8 @@ export function StudentFormDialog({
                     month: '2-digit',
                     day: '2-digit'
                 }),
-                carNumber: formData.carNumber ? parseInt(formData.carNumber) : 0,
+                carNumber: formData.familyId === NO_FAMILY ? 0 : selectedFamily?.carNumber ?? student?.carNumber ?? 0,
+                familyId: formData.familyId === NO_FAMILY ? undefined : formData.familyId as Id<"families">,
                 grade: formData.grade as Grade,
                 campusId: formData.campusId as Id<"campusSettings">,
                 campusLocation: campusName,
@@ -542,18 +571,42 @@ export function StudentFormDialog({
                             </div>
                         </div>
 
-                        {/* Car Number Section */}
+                        {/* Family Section (the family owns the car number) */}
                         <div className="space-y-2">
-                            <Label htmlFor="carNumber" className="text-sm font-medium">{t('createDialog.fields.carNumber.label')}</Label>
-                            <Input
-                                id="carNumber"
-                                type="number"
-                                value={formData.carNumber}
-                                onChange={(e) => updateFormData("carNumber", e.target.value)}
-                                placeholder="0"
-                                className="h-10"
-                                min="0"
-                            />
+                            <Label htmlFor="family" className="text-sm font-medium">{t('createDialog.fields.family.label')}</Label>
+                            <Select
+                                value={formData.familyId as string}
+                                onValueChange={(value) => updateFormData("familyId", value)}
+                                disabled={!formData.campusId}
+                            >
+                                <SelectTrigger id="family" className="w-full h-10">
+                                    <SelectValue placeholder={t('createDialog.fields.family.placeholder')} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_FAMILY}>{t('createDialog.fields.family.none')}</SelectItem>
+                                    {familyOptions?.map((family) => (
+                                        <SelectItem key={family.id} value={family.id}>
+                                            {family.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                                {t('createDialog.fields.family.hint')}
+                            </p>
+                            {mode === 'edit' && !!student?.carNumber && (
+                                <div className="flex items-center gap-2">
+                                    <Button type="button" variant="outline" size="sm" onClick={handleCopyCheckInLink} className="gap-2">
+                                        <Link2 className="h-4 w-4" />
+                                        {t('checkInLink.copy')}
+                                    </Button>
+                                    {checkInLinkState !== 'idle' && (
+                                        <span className={cn("text-xs", checkInLinkState === 'error' ? "text-destructive" : "text-muted-foreground")}>
+                                            {t(`checkInLink.${checkInLinkState}`)}
+                                        </span>
+                                    )}
+                                </div>
+                            )}
                         </div>
 
                         {/* Legacy Avatar URL (for compatibility) */}
@@ -39,6 +39,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useColumns } from "./columns";
 import { Student } from "../types";
 import { DeleteStudentsDialog } from "./delete-students-dialog";
+import { PrintHangTagsDialog } from "./print-hang-tags-dialog";
+import type { DailyStatus } from "./daily-status-select";
 import { StudentFormDialog } from "./student-form-dialog";
 import { FilterDropdown } from "@/components/ui/filter-dropdown";
 import {
@@ -70,7 +72,6 @@ function StudentsTableSkeleton() {
 
 export function StudentsTable() {
   const t = useTranslations("studentsManagement");
-  const columns = useColumns();
 
   // Table state - NO duplicar filtros
   const [sorting, setSorting] = React.useState<SortingState>([]);
@@ -198,6 +199,21 @@ export function StudentsTable() {
     api.students.deleteMultipleStudents,
   );
   const deleteAvatar = useMutation(api.students.deleteAvatar);
+  const setExclusion = useMutation(api.exclusions.setExclusion);
+  const clearExclusion = useMutation(api.exclusions.clearExclusion);
+
+  // Today's exclusions (absent / early pickup / after school), keyed by student
+  const todayExclusions = useQuery(api.exclusions.listForToday, {});
+  const exclusionsByStudent = React.useMemo(
+    () =>
+      new Map(
+        (todayExclusions?.exclusions ?? []).map((exclusion) => [
+          exclusion.studentId as string,
+          exclusion.reason,
+        ]),
+      ),
+    [todayExclusions?.exclusions],
+  );
 
   // Transform Convex data con memoización mejorada
   const data: Student[] = React.useMemo(() => {
@@ -216,6 +232,7 @@ export function StudentsTable() {
         lastName: string;
         birthday: string;
         carNumber: number;
+        familyId?: Id<"families">;
         grade: string;
         campuses: Id<"campusSettings">[];
         avatarUrl?: string;
@@ -233,15 +250,45 @@ export function StudentsTable() {
           lastName: student.lastName,
           birthday: student.birthday,
           carNumber: student.carNumber,
+          familyId: student.familyId,
           grade: student.grade as Grade,
           campusId: campusId,
           campusLocation: campusName || "Unknown",
           avatarUrl: student.avatarUrl || "",
           avatarStorageId: student.avatarStorageId,
+          todayStatus: exclusionsByStudent.get(student._id),
         };
       },
     );
-  }, [studentsData?.students, campusOptions]); // Más específico que studentsData completo
+  }, [studentsData?.students, campusOptions, exclusionsByStudent]); // Más específico que studentsData completo
+
+  const handleDailyStatusChange = React.useCallback(
+    async (student: Student, status: DailyStatus) => {
+      try {
+        if (status === "present") {
+          await clearExclusion({ studentId: student.id as Id<"students"> });
+        } else {
+          await setExclusion({
+            studentId: student.id as Id<"students">,
+            reason: status,
+          });
+        }
+        showAlert(
+          "success",
+          t("dailyStatus.updated"),
+          t("dailyStatus.updatedMessage", {
+            name: student.fullName,
+            status: t(`dailyStatus.${status}`),
+          }),
+        );
+      } catch {
+        showAlert("error", "Error", t("dailyStatus.failed"));
+      }
+    },
+    [setExclusion, clearExclusion, showAlert, t],
+  );
+
+  const columns = useColumns({ onDailyStatusChange: handleDailyStatusChange });
 
   // Loading state - Convex retorna undefined mientras carga
   const isLoading = studentsData === undefined;
@@ -331,7 +378,7 @@ export function StudentsTable() {
           grade: studentData.grade,
           campuses: [studentData.campusId],
           birthday: studentData.birthday,
-          carNumber: studentData.carNumber,
+          familyId: studentData.familyId,
           avatarUrl: studentData.avatarUrl,
           avatarStorageId: studentData.avatarStorageId,
         });
@@ -367,7 +414,7 @@ export function StudentsTable() {
           grade: studentData.grade,
           campuses: [studentData.campusId],
           birthday: studentData.birthday,
-          carNumber: studentData.carNumber,
+          familyId: studentData.familyId ?? null,
           avatarUrl: studentData.avatarUrl,
           avatarStorageId: newAvatarId || undefined,
         });
@@ -497,6 +544,22 @@ export function StudentsTable() {
                 }
               />
             </div>
+            <div className="flex-1 md:flex-none">
+              <PrintHangTagsDialog
+                selectedStudents={selectedStudents}
+                campusOptions={campusOptions ?? []}
+                campusFilter={
+                  table.getColumn("campusLocation")?.getFilterValue() as
+                    | string
+                    | undefined
+                }
+                gradeFilter={
+                  table.getColumn("grade")?.getFilterValue() as
+                    | string
+                    | undefined
+                }
+              />
+            </div>
             <div className="flex-1 md:flex-none">
               <DeleteStudentsDialog
                 selectedStudents={selectedStudents}
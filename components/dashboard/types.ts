@@ -1,4 +1,4 @@
-import { Grade } from "@/convex/types"
+import { Grade, StudentExclusionReason } from "@/convex/types"
 import { Id } from "@/convex/_generated/dataModel"
 
 export type Student = {
@@ -7,12 +7,14 @@ export type Student = {
     firstName: string
     lastName: string
     birthday: string
-    carNumber: number
+    carNumber: number // Car number of the family (0 = no family)
+    familyId?: Id<"families">
     grade: Grade
     campusId: Id<"campusSettings"> // Campus ID for database operations
     campusLocation: string // Campus name for display (derived from campusId)
     avatarUrl?: string
     avatarStorageId?: Id<"_storage">
+    todayStatus?: StudentExclusionReason // Absent / early pickup / after school for today
 }
 
 export type Staff = {
@@ -0,0 +1,551 @@
+"use client";
+
+import * as React from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { useMutation, useQuery } from "convex/react";
+import { Copy, Edit, History, KeyRound, MapPin, Plus, RotateCw, Save, Send, Trash2, X } from "lucide-react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useCampusSession } from "@/hooks/use-campus-session";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+const EVENTS = [
+  "car.added",
+  "car.moved",
+  "car.dismissed",
+  "queue.cleared",
+  "queue.reset",
+] as const;
+type WebhookEvent = (typeof EVENTS)[number];
+
+interface EndpointFormState {
+  endpointId?: Id<"webhookEndpoints">;
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+}
+
+const EMPTY_FORM: EndpointFormState = {
+  url: "",
+  description: "",
+  events: [...EVENTS],
+  isActive: true,
+};
+
+const DELIVERY_STATUS_STYLES = {
+  pending: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  succeeded: "bg-green-100 text-green-800 hover:bg-green-100",
+  failed: "bg-red-100 text-red-800 hover:bg-red-100",
+} as const;
+
+function DeliveryLog({ endpointId }: { endpointId: Id<"webhookEndpoints"> }) {
+  const t = useTranslations("webhooks.deliveries");
+  const locale = useLocale();
+  const deliveriesData = useQuery(api.webhooks.listDeliveries, { endpointId });
+  const replayDelivery = useMutation(api.webhooks.replay);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleReplay = async (deliveryId: Id<"webhookDeliveries">) => {
+    setError(null);
+    try {
+      await replayDelivery({ deliveryId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("replayFailed"));
+    }
+  };
+
+  const deliveries = deliveriesData?.deliveries ?? [];
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{t("title")}</h3>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("event")}</TableHead>
+              <TableHead>{t("created")}</TableHead>
+              <TableHead>{t("status")}</TableHead>
+              <TableHead>{t("attempts")}</TableHead>
+              <TableHead>{t("response")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.length > 0 ? (
+              deliveries.map((delivery) => (
+                <TableRow key={delivery._id}>
+                  <TableCell className="font-mono text-xs">
+                    {delivery.event}
+                    {delivery.replayOf && (
+                      <Badge variant="outline" className="ml-2 text-xs">
+                        {t("replayed")}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(delivery.createdAt).toLocaleString(locale)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={DELIVERY_STATUS_STYLES[delivery.status]}>
+                      {t(`statuses.${delivery.status}`)}
+                    </Badge>
+                    {delivery.status === "pending" && delivery.nextAttemptAt && delivery.attempts > 0 && (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        {t("nextAttempt", {
+                          time: new Date(delivery.nextAttemptAt).toLocaleTimeString(locale),
+                        })}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                  <TableCell className="max-w-xs truncate text-xs text-muted-foreground">
+                    {delivery.responseStatus !== undefined
+                      ? `HTTP ${delivery.responseStatus}`
+                      : delivery.error ?? ""}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {delivery.status !== "pending" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => handleReplay(delivery._id)}
+                      >
+                        <RotateCw className="h-3 w-3" />
+                        {t("replay")}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="h-16 text-center text-muted-foreground"
+                >
+                  {t("empty")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export function WebhooksManager() {
+  const t = useTranslations("webhooks");
+  const { selectedCampus, updateSelectedCampus } = useCampusSession();
+
+  const campusOptions = useQuery(api.campus.getOptions, {});
+  const campusId = campusOptions?.find((c) => c.label === selectedCampus)?.id;
+  const endpointsData = useQuery(
+    api.webhooks.list,
+    campusId ? { campusId } : "skip",
+  );
+
+  const createEndpoint = useMutation(api.webhooks.create);
+  const updateEndpoint = useMutation(api.webhooks.update);
+  const rotateSecret = useMutation(api.webhooks.rotateSecret);
+  const removeEndpoint = useMutation(api.webhooks.remove);
+  const sendTest = useMutation(api.webhooks.sendTest);
+
+  const [form, setForm] = React.useState<EndpointFormState>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  // The signing secret is only available right after creation or rotation
+  const [issuedSecret, setIssuedSecret] = React.useState<string | null>(null);
+  const [copied, setCopied] = React.useState(false);
+  const [selectedEndpointId, setSelectedEndpointId] =
+    React.useState<Id<"webhookEndpoints"> | null>(null);
+  const [pendingAction, setPendingAction] = React.useState<{
+    type: "rotate" | "delete";
+    id: Id<"webhookEndpoints">;
+    url: string;
+  } | null>(null);
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const showSecret = (secret: string) => {
+    setIssuedSecret(secret);
+    setCopied(false);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      events: checked
+        ? EVENTS.filter((e) => e === event || prev.events.includes(e))
+        : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campusId || !form.url.trim() || form.events.length === 0) return;
+
+    setIsSubmitting(true);
+    await runAction(async () => {
+      if (form.endpointId) {
+        await updateEndpoint({
+          endpointId: form.endpointId,
+          url: form.url,
+          description: form.description,
+          events: form.events,
+          isActive: form.isActive,
+        });
+      } else {
+        const { secret } = await createEndpoint({
+          campusId,
+          url: form.url,
+          description: form.description,
+          events: form.events,
+        });
+        showSecret(secret);
+      }
+      setForm(EMPTY_FORM);
+    }, t("errors.save"));
+    setIsSubmitting(false);
+  };
+
+  const handleCopy = async () => {
+    if (!issuedSecret) return;
+    try {
+      await navigator.clipboard.writeText(issuedSecret);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    const { type, id } = pendingAction;
+    await runAction(async () => {
+      if (type === "rotate") {
+        const { secret } = await rotateSecret({ endpointId: id });
+        showSecret(secret);
+      } else {
+        await removeEndpoint({ endpointId: id });
+        if (selectedEndpointId === id) setSelectedEndpointId(null);
+        if (form.endpointId === id) setForm(EMPTY_FORM);
+      }
+    }, t(`errors.${type}`));
+    setPendingAction(null);
+  };
+
+  const endpoints = endpointsData?.endpoints ?? [];
+
+  return (
+    <div className="w-full space-y-4">
+      <FilterDropdown<string>
+        value={selectedCampus}
+        onChange={(value) => {
+          updateSelectedCampus(value);
+          setForm(EMPTY_FORM);
+          setIssuedSecret(null);
+          setSelectedEndpointId(null);
+        }}
+        options={campusOptions?.map((c) => c.label) ?? []}
+        icon={MapPin}
+        label={t("campus")}
+        placeholder={t("campus")}
+        className="w-full md:w-64"
+        showAllOption={false}
+      />
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="flex flex-col gap-2 md:flex-row">
+          <Input
+            type="url"
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            placeholder={t("form.url")}
+            disabled={!campusId}
+            className="font-mono md:max-w-md"
+          />
+          <Input
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder={t("form.description")}
+            maxLength={80}
+            disabled={!campusId}
+            className="md:max-w-xs"
+          />
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              disabled={!campusId || !form.url.trim() || form.events.length === 0 || isSubmitting}
+              className="gap-2"
+            >
+              {form.endpointId ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              {form.endpointId ? t("form.update") : t("form.add")}
+            </Button>
+            {form.endpointId && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setForm(EMPTY_FORM)}
+                title={t("form.cancel")}
+                aria-label={t("form.cancel")}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {EVENTS.map((event) => (
+            <label
+              key={event}
+              htmlFor={`event-${event}`}
+              className="flex items-center gap-2 text-sm"
+            >
+              <Checkbox
+                id={`event-${event}`}
+                checked={form.events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                disabled={!campusId}
+              />
+              <span className="font-mono text-xs">{event}</span>
+            </label>
+          ))}
+          {form.endpointId && (
+            <label htmlFor="endpoint-active" className="flex items-center gap-2 text-sm">
+              <Checkbox
+                id="endpoint-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked === true })}
+              />
+              {t("form.active")}
+            </label>
+          )}
+        </div>
+      </form>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{t("errors.title")}</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {issuedSecret && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>{t("secret.title")}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{t("secret.description")}</p>
+            <div className="flex w-full gap-2">
+              <Input value={issuedSecret} readOnly className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy} className="gap-2">
+                <Copy className="h-4 w-4" />
+                {copied ? t("secret.copied") : t("secret.copy")}
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("table.url")}</TableHead>
+              <TableHead>{t("table.events")}</TableHead>
+              <TableHead>{t("table.status")}</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {endpoints.length > 0 ? (
+              endpoints.map((endpoint) => (
+                <TableRow
+                  key={endpoint._id}
+                  data-state={selectedEndpointId === endpoint._id ? "selected" : undefined}
+                >
+                  <TableCell>
+                    <div className="max-w-xs truncate font-mono text-xs">{endpoint.url}</div>
+                    {endpoint.description && (
+                      <div className="text-sm text-muted-foreground">{endpoint.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="outline" className="font-mono text-xs">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {endpoint.isActive ? (
+                      <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                        {t("status.active")}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">{t("status.disabled")}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setSelectedEndpointId(
+                          selectedEndpointId === endpoint._id ? null : endpoint._id,
+                        )
+                      }
+                      title={t("actions.deliveries")}
+                      aria-label={t("actions.deliveries")}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!endpoint.isActive}
+                      onClick={() =>
+                        runAction(async () => {
+                          await sendTest({ endpointId: endpoint._id });
+                          setSelectedEndpointId(endpoint._id);
+                        }, t("errors.test"))
+                      }
+                      title={t("actions.test")}
+                      aria-label={t("actions.test")}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          endpointId: endpoint._id,
+                          url: endpoint.url,
+                          description: endpoint.description ?? "",
+                          events: EVENTS.filter((e) => endpoint.events.includes(e)),
+                          isActive: endpoint.isActive,
+                        })
+                      }
+                      title={t("actions.edit")}
+                      aria-label={t("actions.edit")}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setPendingAction({ type: "rotate", id: endpoint._id, url: endpoint.url })
+                      }
+                      title={t("actions.rotate")}
+                      aria-label={t("actions.rotate")}
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() =>
+                        setPendingAction({ type: "delete", id: endpoint._id, url: endpoint.url })
+                      }
+                      title={t("actions.delete")}
+                      aria-label={t("actions.delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={4}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  {campusId ? t("table.empty") : t("table.selectCampus")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedEndpointId && <DeliveryLog endpointId={selectedEndpointId} />}
+
+      <AlertDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "rotate"
+                ? t("rotateConfirm.title")
+                : t("deleteConfirm.title")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "rotate"
+                ? t("rotateConfirm.description", { url: pendingAction.url })
+                : t("deleteConfirm.description", { url: pendingAction?.url ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className={pendingAction?.type === "delete" ? "bg-destructive text-white" : undefined}
+            >
+              {pendingAction?.type === "rotate" ? t("actions.rotate") : t("actions.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default WebhooksManager;
@@ -1,10 +1,24 @@
 "use client";
 
 import * as React from "react";
-import { Trash2, Users, GraduationCap, Cake } from "lucide-react";
+import {
+  Trash2,
+  Users,
+  GraduationCap,
+  Cake,
+  Clock,
+  Megaphone,
+  DoorOpen,
+  UserX,
+  Circle,
+  CheckCircle2,
+  CarFront,
+} from "lucide-react";
 import { StudentAvatar } from "@/components/dashboard/students-table/student-avatar";
+import { Button } from "@/components/ui/button";
 import {
   Drawer,
+  DrawerClose,
   DrawerContent,
   DrawerHeader,
   DrawerTitle,
@@ -13,9 +27,8 @@ import {
 import { Car } from "./car";
 import { BirthdayDecoration } from "./birthday-decoration";
 import { useTranslations } from "next-intl";
-import { CarData } from "./types";
-import { LANE_COLORS } from "./constants";
-import { formatTime } from "./utils";
+import { CarData, LaneDefinition, PickupStage } from "./types";
+import { formatTime, formatVehicle, getLaneColorStyles } from "./utils";
 
 // Internal component to handle student display logic
 interface StudentInfoProps {
@@ -74,11 +87,28 @@ const StudentInfo = React.memo<StudentInfoProps>(({ students, t }) => {
 
 StudentInfo.displayName = "StudentInfo";
 
+// Dispatcher controls for the curb lifecycle, in lifecycle order
+const STAGE_OPTIONS: {
+  stage: PickupStage;
+  icon: React.ComponentType<{ className?: string }>;
+}[] = [
+  { stage: "waiting", icon: Clock },
+  { stage: "called", icon: Megaphone },
+  { stage: "loading", icon: DoorOpen },
+];
+
 interface CarCardProps {
   car: CarData;
   onRemove?: (carId: string) => void;
+  onSetStage?: (carId: string, stage: PickupStage) => void;
+  onNoShow?: (carId: string) => void;
+  onToggleStudentReleased?: (
+    carId: string,
+    studentId: string,
+    released: boolean,
+  ) => void;
   showRemoveButton?: boolean;
-  lane: "left" | "right";
+  lane: LaneDefinition;
   isViewerMode?: boolean;
   hasBirthdayToday?: boolean;
 }
@@ -88,6 +118,9 @@ export const CarCard = React.memo<CarCardProps>(
   ({
     car,
     onRemove,
+    onSetStage,
+    onNoShow,
+    onToggleStudentReleased,
     showRemoveButton = false,
     lane,
     isViewerMode = false,
@@ -125,8 +158,21 @@ export const CarCard = React.memo<CarCardProps>(
     //     return `${car.students[0].name} +${car.students.length - 1} más`
     // }, [car.students])
 
-    // Get lane colors from constants
-    const laneColors = LANE_COLORS[lane];
+    // Lane colors come from the campus lane definition
+    const laneColors = getLaneColorStyles(lane.color);
+
+    const stage = car.stage ?? "waiting";
+    const isCalled = stage === "called";
+    const showStageControls = showRemoveButton && !!onSetStage;
+
+    // Students already released walk out of the card, the rest stay visible
+    const waitingStudents = car.students.filter(
+      (student) => !student.releasedAt,
+    );
+    const displayStudents =
+      waitingStudents.length > 0 ? waitingStudents : car.students;
+    const canReleaseStudents =
+      showRemoveButton && !!onToggleStudentReleased && car.students.length > 1;
 
     return (
       <div
@@ -144,30 +190,40 @@ export const CarCard = React.memo<CarCardProps>(
                   <BirthdayDecoration isViewer={true} intensity="normal" />
                 )}
 
+                {/* Called cars stand out so families and staff spot them at the curb */}
+                {isCalled && (
+                  <span className="absolute -top-3 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 rounded-full bg-yellow-400 px-2 py-0.5 text-xs font-black uppercase text-yellow-950 shadow-lg">
+                    <Megaphone className="h-3 w-3" />
+                    {t("car.stages.called")}
+                  </span>
+                )}
+
                 <div
-                  className={`info ${laneColors.badge} flex flex-col rounded-2xl py-2 px-3 w-full mb-1}`}
+                  className={`info flex flex-col rounded-2xl py-2 px-3 w-full mb-1 ${isCalled ? "ring-4 ring-yellow-400 animate-pulse" : ""}`}
+                  style={laneColors.badge}
                 >
                   {/* Top row: Avatars (left) and Car Number Badge (right) */}
                   <div className="flex justify-between items-start w-full mb-1">
                     {/* Left side - Avatars */}
                     <div className="flex-shrink-0">
-                      {car.students.length === 1 ? (
+                      {displayStudents.length === 1 ? (
                         // Single student - show one avatar
                         <div className="relative">
                           <StudentAvatar
-                            avatarStorageId={car.students[0].avatarStorageId}
-                            fallbackUrl={car.students[0].imageUrl}
-                            firstName={car.students[0].name.split(" ")[0] || ""}
+                            avatarStorageId={displayStudents[0].avatarStorageId}
+                            fallbackUrl={displayStudents[0].imageUrl}
+                            firstName={displayStudents[0].name.split(" ")[0] || ""}
                             lastName={
-                              car.students[0].name
+                              displayStudents[0].name
                                 .split(" ")
                                 .slice(1)
-                                .join(" ") || car.students[0].name
+                                .join(" ") || displayStudents[0].name
                             }
                             size="sm"
-                            className={`w-7 h-7 md:w-9 md:h-9 xl:w-11 xl:h-11 ${laneColors.background} border-2 border-white shadow-lg`}
+                            className="w-7 h-7 md:w-9 md:h-9 xl:w-11 xl:h-11 border-2 border-white shadow-lg"
+                            style={laneColors.background}
                           />
-                          {checkStudentBirthday(car.students[0]) && (
+                          {checkStudentBirthday(displayStudents[0]) && (
                             <div className="absolute -top-1 -right-1 bg-yellow-500 text-white rounded-full p-1">
                               <Cake className="h-2 w-2" />
                             </div>
@@ -177,7 +233,7 @@ export const CarCard = React.memo<CarCardProps>(
                         // Multiple students - show overlapping avatars
                         <div className="relative">
                           <div className="flex -space-x-1">
-                            {car.students.slice(0, 3).map((student, index) => (
+                            {displayStudents.slice(0, 3).map((student, index) => (
                               <div
                                 key={student.id}
                                 style={{ zIndex: 30 - index }}
@@ -193,7 +249,8 @@ export const CarCard = React.memo<CarCardProps>(
                                       .join(" ") || student.name
                                   }
                                   size="sm"
-                                  className={`w-7 h-7 md:w-9 md:h-9 xl:w-11 xl:h-11 ${laneColors.background} border-2 border-white shadow-lg`}
+                                  className="w-7 h-7 md:w-9 md:h-9 xl:w-11 xl:h-11 border-2 border-white shadow-lg"
+                            style={laneColors.background}
                                 />
                                 {checkStudentBirthday(student) && (
                                   <div
@@ -205,12 +262,12 @@ export const CarCard = React.memo<CarCardProps>(
                                 )}
                               </div>
                             ))}
-                            {car.students.length > 3 && (
+                            {displayStudents.length > 3 && (
                               <div
                                 className={`w-7 h-7 md:w-9 md:h-9 lg:w-11 lg:h-11 border-2 border-white shadow-lg text-xs flex items-center justify-center font-bold bg-gray-600 text-white rounded-full`}
                                 style={{ zIndex: 30 - 3 }}
                               >
-                                +{car.students.length - 3}
+                                +{displayStudents.length - 3}
                               </div>
                             )}
                           </div>
@@ -240,7 +297,7 @@ export const CarCard = React.memo<CarCardProps>(
 
                   {/* Bottom row: Student Names - Centered */}
                   <div className="w-full px-1 flex justify-start">
-                    <StudentInfo students={car.students} t={t} />
+                    <StudentInfo students={displayStudents} t={t} />
                   </div>
                 </div>
 
@@ -271,9 +328,29 @@ export const CarCard = React.memo<CarCardProps>(
                   isViewer={isViewerMode}
                 />
 
+                {/* Family vehicle used (which of the family's tags arrived) */}
+                {car.vehicle && (
+                  <span
+                    className="absolute -bottom-1 left-1/2 z-40 max-w-full -translate-x-1/2 truncate rounded-full bg-white/90 px-2 text-[10px] font-medium text-gray-700 shadow"
+                    title={formatVehicle(car.vehicle)}
+                  >
+                    {car.vehicle.label}
+                  </span>
+                )}
+
+                {/* Stage chip for cars past the waiting line */}
+                {stage !== "waiting" && (
+                  <span
+                    className={`absolute -top-2 -left-2 z-50 rounded-full px-2 py-0.5 text-xs font-bold shadow-lg ${isCalled ? "bg-yellow-400 text-yellow-950" : "bg-green-500 text-white"}`}
+                  >
+                    {t(`car.stages.${stage}`)}
+                  </span>
+                )}
+
                 {/* Combined Car Number Badge and Remove Button */}
                 <div
-                  className={`absolute -top-2 -right-2 ${laneColors.badge} text-white text-sm font-bold rounded-full shadow-lg z-50 flex items-center`}
+                  className="absolute -top-2 -right-2 text-white text-sm font-bold rounded-full shadow-lg z-50 flex items-center"
+                  style={laneColors.badge}
                 >
                   {showRemoveButton && (
                     <button
@@ -300,15 +377,26 @@ export const CarCard = React.memo<CarCardProps>(
             <div className="mx-auto w-full max-w-md">
               <DrawerHeader>
                 <DrawerTitle
-                  className={`text-2xl font-black ${laneColors.textColor} flex items-center gap-2`}
+                  className="text-2xl font-black flex items-center gap-2"
+                  style={laneColors.text}
                 >
                   <div
-                    className={`${laneColors.badge} text-white px-3 py-1 rounded-lg text-xl`}
+                    className="text-white px-3 py-1 rounded-lg text-xl"
+                    style={laneColors.badge}
                   >
                     #{car.carNumber}
                   </div>
                   {formatTime(car.assignedTime)}
+                  <span className="text-sm font-semibold text-muted-foreground">
+                    {lane.name}
+                  </span>
                 </DrawerTitle>
+                {car.vehicle && (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <CarFront className="h-4 w-4" />
+                    {formatVehicle(car.vehicle)}
+                  </p>
+                )}
               </DrawerHeader>
 
               <div className="p-4 space-y-6">
@@ -322,6 +410,55 @@ export const CarCard = React.memo<CarCardProps>(
                                 </div>
                             </div> */}
 
+                {/* Pickup Status - dispatcher controls */}
+                {showStageControls && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="text-lg font-semibold">
+                        {t("car.status")}
+                      </h3>
+                      <span className="text-xs text-muted-foreground">
+                        {car.loadingAt
+                          ? t("car.loadingAt", {
+                              time: formatTime(car.loadingAt),
+                            })
+                          : car.calledAt
+                            ? t("car.calledAt", {
+                                time: formatTime(car.calledAt),
+                              })
+                            : null}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {STAGE_OPTIONS.map(({ stage: option, icon: Icon }) => (
+                        <Button
+                          key={option}
+                          variant={stage === option ? "default" : "outline"}
+                          className="flex h-auto flex-col gap-1 py-2"
+                          onClick={() => onSetStage?.(car.id, option)}
+                        >
+                          <Icon className="h-4 w-4" />
+                          <span className="text-xs">
+                            {t(`car.stages.${option}`)}
+                          </span>
+                        </Button>
+                      ))}
+                      {onNoShow && (
+                        <DrawerClose asChild>
+                          <Button
+                            variant="outline"
+                            className="flex h-auto flex-col gap-1 py-2 text-red-600 hover:text-red-700"
+                            onClick={() => onNoShow(car.id)}
+                          >
+                            <UserX className="h-4 w-4" />
+                            <span className="text-xs">{t("car.noShow")}</span>
+                          </Button>
+                        </DrawerClose>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {/* Students Section */}
                 <div className="space-y-3">
                   <div className="flex items-center gap-2">
@@ -329,6 +466,14 @@ export const CarCard = React.memo<CarCardProps>(
                     <h3 className="text-lg font-semibold">
                       {t("car.students")} ({car.students.length})
                     </h3>
+                    {waitingStudents.length < car.students.length && (
+                      <span className="ml-auto text-xs text-muted-foreground">
+                        {t("car.remaining", {
+                          count: waitingStudents.length,
+                          total: car.students.length,
+                        })}
+                      </span>
+                    )}
                   </div>
 
                   <div
@@ -345,7 +490,7 @@ export const CarCard = React.memo<CarCardProps>(
                       return (
                         <div
                           key={student.id}
-                          className={`flex items-center gap-3 p-3 border rounded-lg ${studentHasBirthday ? "bg-yellow-50 border-yellow-200" : "bg-white"}`}
+                          className={`flex items-center gap-3 p-3 border rounded-lg ${studentHasBirthday ? "bg-yellow-50 border-yellow-200" : "bg-white"} ${student.releasedAt ? "opacity-50" : ""}`}
                         >
                           <div className="relative">
                             <StudentAvatar
@@ -357,7 +502,8 @@ export const CarCard = React.memo<CarCardProps>(
                                 student.name
                               }
                               size="md"
-                              className={`w-12 h-12 ${laneColors.background}`}
+                              className="w-12 h-12"
+                              style={laneColors.background}
                             />
                             {studentHasBirthday && (
                               <div className="absolute -top-1 -right-1 bg-yellow-500 text-white rounded-full p-1">
@@ -380,8 +526,44 @@ export const CarCard = React.memo<CarCardProps>(
                             <div className="flex items-center gap-1 text-sm text-gray-500">
                               <GraduationCap className="h-3 w-3" />
                               {student.grade || `${t("car.grade")} 5`}
+                              {student.releasedAt && (
+                                <span className="ml-2 text-xs">
+                                  {t("car.releasedAt", {
+                                    time: formatTime(student.releasedAt),
+                                  })}
+                                </span>
+                              )}
                             </div>
                           </div>
+                          {canReleaseStudents && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              aria-label={t(
+                                student.releasedAt
+                                  ? "car.restoreStudent"
+                                  : "car.releaseStudent",
+                              )}
+                              title={t(
+                                student.releasedAt
+                                  ? "car.restoreStudent"
+                                  : "car.releaseStudent",
+                              )}
+                              onClick={() =>
+                                onToggleStudentReleased?.(
+                                  car.id,
+                                  student.id,
+                                  !student.releasedAt,
+                                )
+                              }
+                            >
+                              {student.releasedAt ? (
+                                <CheckCircle2 className="h-6 w-6 text-green-600" />
+                              ) : (
+                                <Circle className="h-6 w-6 text-gray-400" />
+                              )}
+                            </Button>
+                          )}
                         </div>
                       );
                     })}
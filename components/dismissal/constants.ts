@@ -1,26 +1,17 @@
 // Constantes para evitar recreación en cada render
-import { CAR_COLORS } from "@/convex/types"
+import { CAR_COLORS, DEFAULT_LANES } from "@/convex/types"
+import type { SignageOptions } from "./types"
 
-export { CAR_COLORS }
+export { CAR_COLORS, DEFAULT_LANES }
 
-export const LANE_COLORS = {
-    left: {
-        primary: 'text-blue-600',
-        background: 'bg-blue-100',
-        textColor: 'text-blue-600',
-        badge: 'bg-blue-500',
-        iconColor: 'text-blue-400',
-        carColor: '#3b82f6'
-    },
-    right: {
-        primary: 'text-green-600',
-        background: 'bg-green-100',
-        textColor: 'text-green-600',
-        badge: 'bg-green-500',
-        iconColor: 'text-green-400',
-        carColor: '#10b981'
-    }
-} as const
+export const DEFAULT_SIGNAGE_OPTIONS: SignageOptions = {
+    intervalSeconds: 15,
+    pinnedCars: 4,
+    lanesPerPage: 2
+}
+
+// Viewer spoken announcements are opted into per device
+export const ANNOUNCEMENTS_STORAGE_KEY = 'dismissal-app-announcements'
 
 export const ANIMATION_DURATIONS = {
     ENTRANCE: 500,
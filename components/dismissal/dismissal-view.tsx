@@ -4,7 +4,7 @@ import * as React from "react"
 import { useTranslations } from "next-intl"
 import { useQuery, useMutation } from "convex/react"
 import { api } from "@/convex/_generated/api"
-import { Car, ChevronLeft, ChevronRight, MapPin, AlertCircle, CheckCircle2 } from "lucide-react"
+import { Car, ChevronLeft, ChevronRight, MapPin, AlertCircle, CheckCircle2, Undo2, Volume2, VolumeX } from "lucide-react"
 import { useCampusSession } from "@/hooks/use-campus-session"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -21,26 +21,39 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { type Id } from "@/convex/types"
+import { DISMISSAL_UNDO_WINDOW_MS, type Id, type StudentExclusionReason } from "@/convex/types"
 import { cn } from "@/lib/utils"
 import { useBirthdayCars } from "@/hooks/use-birthday-cars"
 import { Road } from "./road"
-import { CarData, ModeType } from "./types"
+import { DismissalWindowBanner } from "./dismissal-window-banner"
+import { PendingArrivals } from "./pending-arrivals"
+import { LaneData, ModeType, PickupStage, SignageOptions } from "./types"
+import { getLaneColorStyles, transformQueueEntry } from "./utils"
+import { useCarAnnouncements } from "./hooks"
 
 interface DismissalViewProps {
     mode: ModeType
     className?: string
+    // Viewer only: rotate lane pages for TV displays
+    signage?: SignageOptions
 }
 
-export function DismissalView({ mode, className }: DismissalViewProps) {
+export function DismissalView({ mode, className, signage }: DismissalViewProps) {
     const t = useTranslations('dismissal')
 
     // Usar el hook de sesión de campus
     const { selectedCampus, updateSelectedCampus, isLoaded: campusLoaded } = useCampusSession()
-    const [isFullscreen, setIsFullscreen] = React.useState(false)
+    const [isFullscreen, setIsFullscreen] = React.useState(!!signage)
     const [carInputValue, setCarInputValue] = React.useState<string>('')
     const [isSubmitting, setIsSubmitting] = React.useState(false)
     const [showClearDialog, setShowClearDialog] = React.useState(false)
+    // Car that only matched students from other campuses, waiting for allocator confirmation
+    const [pendingCrossCampus, setPendingCrossCampus] = React.useState<{
+        carNumber: number
+        lane: LaneData
+        matches: Array<{ studentId: string; name: string; grade: string; campuses: string[] }>
+        arrivalId?: Id<"pendingArrivals">
+    } | null>(null)
 
     // Ref para mantener el focus del input en modo allocator
     const carInputRef = React.useRef<HTMLInputElement>(null)
@@ -68,6 +81,15 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
         message: ''
     })
 
+    // Undo toast state for the last dismissed car
+    const [pendingUndo, setPendingUndo] = React.useState<{
+        historyId: Id<"dismissalHistory">
+        carNumber: number
+        expiresAt: number
+        isNoShow?: boolean
+    } | null>(null)
+    const [undoSecondsLeft, setUndoSecondsLeft] = React.useState(0)
+
     // Convex hooks - para obtener datos en tiempo real
     const queueData = useQuery(api.queue.getCurrentQueue,
         selectedCampus ? { campus: selectedCampus } : "skip"
@@ -78,6 +100,11 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
     // Mutations de Convex
     const addCarToQueue = useMutation(api.queue.addCar)
     const removeCarFromQueue = useMutation(api.queue.removeCar)
+    const reorderCarInQueue = useMutation(api.queue.reorderCar)
+    const undoRemoveCar = useMutation(api.queue.undoRemoveCar)
+    const setCarStage = useMutation(api.queue.setCarStage)
+    const markNoShow = useMutation(api.queue.markNoShow)
+    const setStudentReleased = useMutation(api.queue.setStudentReleased)
     const clearAllCars = useMutation(api.queue.clearAllCars)
 
     // Campus selection validation
@@ -127,99 +154,90 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
     }, [])
 
     // Transform Convex queue data to CarData format
-    const { leftLaneCars, rightLaneCars, isLoading, authError } = React.useMemo(() => { // add totalCars if needed
+    const { lanes, isLoading, authError } = React.useMemo((): { lanes: LaneData[]; isLoading: boolean; authError: boolean } => {
         if (!queueData) {
-            return { leftLaneCars: [], rightLaneCars: [], isLoading: true, authError: false } // add totalCars: 0, if needed
+            return { lanes: [], isLoading: true, authError: false }
         }
 
         // Handle authentication states
         if (queueData.authState === "unauthenticated") {
-            return { leftLaneCars: [], rightLaneCars: [], isLoading: true, authError: false } // add totalCars: 0, if needed
+            return { lanes: [], isLoading: true, authError: false }
         }
 
         if (queueData.authState === "error") {
-            return { leftLaneCars: [], rightLaneCars: [], isLoading: false, authError: true } // add totalCars: 0, if needed
-        }
-
-        if (!queueData.leftLane || !queueData.rightLane) {
-            return { leftLaneCars: [], rightLaneCars: [], isLoading: false, authError: false } // add totalCars: 0, if needed
+            return { lanes: [], isLoading: false, authError: true }
         }
 
-        const transformQueueEntry = (entry: {
-            _id: string;
-            carNumber: number;
-            lane: "left" | "right";
-            position: number;
-            assignedTime: number;
-            students: Array<{ studentId: string; name: string; grade: string; avatarUrl?: string; avatarStorageId?: Id<"_storage">;  birthday?: string }>;
-            campusLocation: string;
-            carColor: string;
-        }): CarData => {
-            return {
-                id: entry._id,
-                carNumber: entry.carNumber,
-                lane: entry.lane,
-                position: entry.position,
-                assignedTime: new Date(entry.assignedTime),
-                students: entry.students.map((s) => ({
-                    id: s.studentId,
-                    name: s.name,
-                    grade: s.grade,
-                    imageUrl: s.avatarUrl,
-                    avatarStorageId: s.avatarStorageId,
-                    birthday: s.birthday,
-                })),
-                campus: entry.campusLocation,
-                imageColor: entry.carColor
-            }
+        if (!queueData.lanes) {
+            return { lanes: [], isLoading: false, authError: false }
         }
 
-        const leftCars = queueData.leftLane.map(transformQueueEntry)
-        const rightCars = queueData.rightLane.map(transformQueueEntry)
-
         return {
-            leftLaneCars: leftCars,
-            rightLaneCars: rightCars,
-            // totalCars: leftCars.length + rightCars.length,
+            lanes: queueData.lanes.map((lane) => ({
+                id: lane.id,
+                name: lane.name,
+                color: lane.color,
+                cars: lane.cars.map(transformQueueEntry)
+            })),
             isLoading: false,
             authError: false
         }
     }, [queueData])
 
     // Hook para verificar carros con estudiantes de cumpleaños
-    const allCars = [...leftLaneCars, ...rightLaneCars]
+    const allCars = React.useMemo(() => lanes.flatMap((lane) => lane.cars), [lanes])
+
+    // Spoken announcements of new cars (viewer only, opted into per device)
+    const announcementSettings = queueData && 'announcement' in queueData ? queueData.announcement : undefined
+    const announcements = useCarAnnouncements(lanes, {
+        campus: selectedCampus,
+        isLoading: isLoading || mode !== 'viewer',
+        template: announcementSettings?.template,
+        voice: announcementSettings?.voice
+    })
     const { birthdayCarIds } = useBirthdayCars(allCars)
 
-    // Add car function using Convex mutation
-    const handleAddCarToLane = React.useCallback(async (lane: 'left' | 'right') => {
-        const currentValue = carInputValueRef.current
-        if (!currentValue.trim() || isSubmittingRef.current) return
-
-        const carNumber = parseInt(currentValue.trim())
-        if (isNaN(carNumber) || carNumber <= 0) {
-            showAlert('error', 'Invalid Car Number', 'Please enter a valid car number')
-            return
-        }
+    // Allocator buttons flank the input: first half of the lanes on the left, the rest on the right
+    const leftLaneButtons = lanes.slice(0, Math.ceil(lanes.length / 2))
+    const rightLaneButtons = lanes.slice(Math.ceil(lanes.length / 2))
 
-        if (!isCampusSelected) {
-            showAlert('error', 'Campus Required', 'Please select a campus')
-            return
-        }
+    // Add car function using Convex mutation
+    // "Ana (Absent), Luis (Early pickup)" for the allocator alert
+    const formatExcludedStudents = React.useCallback((students?: Array<{ name: string; reason: StudentExclusionReason }>) => {
+        return (students ?? [])
+            .map((student) => `${student.name} (${t(`exclusions.reasons.${student.reason}`)})`)
+            .join(', ')
+    }, [t])
+
+    // Queue a car in a lane - typed by the allocator or from a parent check-in
+    const submitCar = React.useCallback(async (
+        carNumber: number,
+        lane: LaneData,
+        { confirmCrossCampus = false, arrivalId }: { confirmCrossCampus?: boolean; arrivalId?: Id<"pendingArrivals"> } = {}
+    ) => {
+        if (isSubmittingRef.current) return
 
         updateIsSubmitting(true)
         try {
             const result = await addCarToQueue({
                 carNumber,
                 campus: selectedCampus,
-                lane
+                lane: lane.id,
+                confirmCrossCampus,
+                pendingArrivalId: arrivalId
             })
 
+            const excludedStudents = 'excludedStudents' in result ? result.excludedStudents : undefined
+
             if (result.success) {
-                updateCarInputValue('') // Clear input after successful add
-                showAlert('success', 'Car Added!', `Car ${carNumber} has been added to the ${lane} lane`)
+                if (!arrivalId) updateCarInputValue('') // Clear input after successful add
+                const excludedNotice = excludedStudents?.length
+                    ? ` ${t('exclusions.excludedNotice', { students: formatExcludedStudents(excludedStudents) })}`
+                    : ''
+                showAlert('success', 'Car Added!', `Car ${carNumber} has been added to the ${lane.name} lane.${excludedNotice}`)
 
                 // Mantener el focus en el input después de agregar el carro (para móviles)
-                if (shouldMaintainFocus && carInputRef.current) {
+                if (shouldMaintainFocus && !arrivalId && carInputRef.current) {
                     // Limpiar frame anterior si existe
                     if (focusFrameRef.current) {
                         cancelAnimationFrame(focusFrameRef.current)
@@ -248,6 +266,32 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
                     case 'INVALID_CAMPUS':
                         showAlert('error', 'Campus Required', 'Please select a campus')
                         break
+                    case 'INVALID_LANE':
+                        showAlert('error', 'Invalid Lane', `The ${lane.name} lane is not configured for this campus`)
+                        break
+                    case 'OUTSIDE_DISMISSAL_WINDOW':
+                        showAlert('error', t('window.outsideTitle'), result.message || '')
+                        break
+                    case 'CROSS_CAMPUS_MATCH':
+                        setPendingCrossCampus({
+                            carNumber,
+                            lane,
+                            matches: 'matches' in result ? result.matches ?? [] : [],
+                            arrivalId
+                        })
+                        break
+                    case 'CROSS_CAMPUS_FORBIDDEN':
+                        showAlert('error', t('crossCampus.forbiddenTitle'), result.message || '')
+                        break
+                    case 'ARRIVAL_NOT_PENDING':
+                        showAlert('error', t('checkIn.alreadyHandledTitle'), result.message || '')
+                        break
+                    case 'ALL_STUDENTS_EXCLUDED':
+                        showAlert('error', t('exclusions.allExcludedTitle'), t('exclusions.allExcluded', {
+                            number: carNumber,
+                            students: formatExcludedStudents(excludedStudents)
+                        }))
+                        break
                     default:
                         showAlert('error', 'Error', result.message || 'An unexpected error occurred')
                 }
@@ -257,7 +301,30 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
         } finally {
             updateIsSubmitting(false)
         }
-    }, [selectedCampus, isCampusSelected, addCarToQueue, showAlert, shouldMaintainFocus, updateCarInputValue, updateIsSubmitting])
+    }, [selectedCampus, addCarToQueue, showAlert, shouldMaintainFocus, updateCarInputValue, updateIsSubmitting, formatExcludedStudents, t])
+
+    const handleAddCarToLane = React.useCallback(async (lane: LaneData) => {
+        const currentValue = carInputValueRef.current
+        if (!currentValue.trim() || isSubmittingRef.current) return
+
+        const carNumber = parseInt(currentValue.trim())
+        if (isNaN(carNumber) || carNumber <= 0) {
+            showAlert('error', 'Invalid Car Number', 'Please enter a valid car number')
+            return
+        }
+
+        if (!isCampusSelected) {
+            showAlert('error', 'Campus Required', 'Please select a campus')
+            return
+        }
+
+        await submitCar(carNumber, lane)
+    }, [isCampusSelected, showAlert, submitCar])
+
+    // One-tap lane assignment for a parent check-in
+    const handleAssignArrival = React.useCallback((carNumber: number, lane: LaneData, arrivalId: Id<"pendingArrivals">) => {
+        submitCar(carNumber, lane, { arrivalId })
+    }, [submitCar])
 
     // Remove car function using Convex mutation
     const handleRemoveCar = React.useCallback(async (carId: string) => {
@@ -267,7 +334,12 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
         try {
             const result = await removeCarFromQueue({ queueId: carId as Id<"dismissalQueue"> })
             if (result && result.carNumber) {
-                showAlert('success', 'Car Removed!', `Car ${result.carNumber} has been removed from the queue`)
+                // Offer an undo window instead of a plain confirmation
+                setPendingUndo({
+                    historyId: result.historyId,
+                    carNumber: result.carNumber,
+                    expiresAt: Date.now() + DISMISSAL_UNDO_WINDOW_MS
+                })
             }
         } catch {
             showAlert('error', 'Error', 'Failed to remove car from queue')
@@ -276,6 +348,116 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
         }
     }, [removeCarFromQueue, showAlert, updateIsSubmitting])
 
+    // Move a car through the curb lifecycle (called / loading / back to waiting)
+    const handleSetCarStage = React.useCallback(async (carId: string, stage: PickupStage) => {
+        try {
+            await setCarStage({ queueId: carId as Id<"dismissalQueue">, stage })
+        } catch {
+            showAlert('error', 'Error', t('dispatcher.stage.updateFailed'))
+        }
+    }, [setCarStage, showAlert, t])
+
+    // Car left without its students - still undoable like a regular dismissal
+    const handleNoShowCar = React.useCallback(async (carId: string) => {
+        if (isSubmittingRef.current) return
+
+        updateIsSubmitting(true)
+        try {
+            const result = await markNoShow({ queueId: carId as Id<"dismissalQueue"> })
+            setPendingUndo({
+                historyId: result.historyId,
+                carNumber: result.carNumber,
+                expiresAt: Date.now() + DISMISSAL_UNDO_WINDOW_MS,
+                isNoShow: true
+            })
+        } catch {
+            showAlert('error', 'Error', t('dispatcher.stage.noShowFailed'))
+        } finally {
+            updateIsSubmitting(false)
+        }
+    }, [markNoShow, showAlert, updateIsSubmitting, t])
+
+    // Check a student off a multi-student car; the last one out dismisses the car
+    const handleToggleStudentReleased = React.useCallback(async (carId: string, studentId: string, released: boolean) => {
+        try {
+            const result = await setStudentReleased({
+                queueId: carId as Id<"dismissalQueue">,
+                studentId: studentId as Id<"students">,
+                released
+            })
+            if (!result.success) {
+                showAlert('error', 'Error', result.message || t('dispatcher.stage.releaseFailed'))
+            } else if (result.carDismissed && result.historyId) {
+                setPendingUndo({
+                    historyId: result.historyId,
+                    carNumber: result.carNumber,
+                    expiresAt: Date.now() + DISMISSAL_UNDO_WINDOW_MS
+                })
+            }
+        } catch {
+            showAlert('error', 'Error', t('dispatcher.stage.releaseFailed'))
+        }
+    }, [setStudentReleased, showAlert, t])
+
+    // Undo the last dismissal while the window is open
+    const handleUndoRemove = React.useCallback(async () => {
+        if (!pendingUndo || isSubmittingRef.current) return
+
+        const { historyId, carNumber } = pendingUndo
+        setPendingUndo(null)
+        updateIsSubmitting(true)
+        try {
+            const result = await undoRemoveCar({ historyId })
+            if (result.success) {
+                showAlert('success', t('dispatcher.undo.restoredTitle'), t('dispatcher.undo.restored', { number: carNumber }))
+            } else if (result.error === 'UNDO_EXPIRED') {
+                showAlert('error', 'Error', t('dispatcher.undo.expired', { number: carNumber }))
+            } else {
+                showAlert('error', 'Error', result.message || t('dispatcher.undo.failed'))
+            }
+        } catch {
+            showAlert('error', 'Error', t('dispatcher.undo.failed'))
+        } finally {
+            updateIsSubmitting(false)
+        }
+    }, [pendingUndo, undoRemoveCar, showAlert, updateIsSubmitting, t])
+
+    // Countdown for the undo toast, hides it once the window closes
+    React.useEffect(() => {
+        if (!pendingUndo) return
+
+        const tick = () => {
+            const secondsLeft = Math.ceil((pendingUndo.expiresAt - Date.now()) / 1000)
+            if (secondsLeft <= 0) {
+                setPendingUndo(null)
+            } else {
+                setUndoSecondsLeft(secondsLeft)
+            }
+        }
+
+        tick()
+        const interval = setInterval(tick, 1000)
+        return () => clearInterval(interval)
+    }, [pendingUndo])
+
+    // Reorder car function (dispatcher drag-and-drop)
+    const handleReorderCar = React.useCallback(async (carId: string, laneId: string, position: number) => {
+        if (isSubmittingRef.current) return
+
+        updateIsSubmitting(true)
+        try {
+            await reorderCarInQueue({
+                queueId: carId as Id<"dismissalQueue">,
+                lane: laneId,
+                position
+            })
+        } catch {
+            showAlert('error', 'Error', 'Failed to move car')
+        } finally {
+            updateIsSubmitting(false)
+        }
+    }, [reorderCarInQueue, showAlert, updateIsSubmitting])
+
     // Clear all cars function
     const handleClearAllCars = React.useCallback(async () => {
         if (isSubmittingRef.current || !isCampusSelected) return
@@ -294,14 +476,25 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
         }
     }, [clearAllCars, selectedCampus, isCampusSelected, showAlert, updateIsSubmitting, t])
 
+    // Allocator confirmed the car despite it belonging to another campus
+    const handleConfirmCrossCampus = React.useCallback(() => {
+        if (!pendingCrossCampus) return
+        const { carNumber, lane, arrivalId } = pendingCrossCampus
+        setPendingCrossCampus(null)
+        submitCar(carNumber, lane, { confirmCrossCampus: true, arrivalId })
+    }, [pendingCrossCampus, submitCar])
+
     // Handle keyboard shortcuts for the single input
     const handleKeyPress = React.useCallback((e: React.KeyboardEvent) => {
         if (e.key === 'Enter') {
             e.preventDefault()
-            // Default to right lane on Enter
-            handleAddCarToLane('right')
+            // Default to the last lane on Enter
+            const defaultLane = lanes[lanes.length - 1]
+            if (defaultLane) {
+                handleAddCarToLane(defaultLane)
+            }
         }
-    }, [handleAddCarToLane])
+    }, [handleAddCarToLane, lanes])
 
     // Handlers para mantener el focus en modo allocator
     const handleInputFocus = React.useCallback(() => {
@@ -310,7 +503,7 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
         }
     }, [mode])
 
-    const handleArrowClick = React.useCallback((lane: 'left' | 'right', event: React.MouseEvent) => {
+    const handleArrowClick = React.useCallback((lane: LaneData, event: React.MouseEvent) => {
         event.preventDefault() // Prevenir que el botón tome el focus
         handleAddCarToLane(lane)
     }, [handleAddCarToLane])
@@ -396,11 +589,29 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
                     )}
                 </div>
 
+                {/* Spoken announcements toggle - Viewer only */}
+                {mode === 'viewer' && isCampusSelected && announcements.isSupported && (
+                    <Button
+                        variant={announcements.enabled ? 'default' : 'outline'}
+                        onClick={() => announcements.setEnabled(!announcements.enabled)}
+                        className="gap-2 md:mr-auto"
+                        aria-pressed={announcements.enabled}
+                    >
+                        {announcements.enabled ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+                        {announcements.enabled ? t('announcements.on') : t('announcements.off')}
+                    </Button>
+                )}
+
+                {/* Dismissal Window Banner - Operators only */}
+                {mode !== 'viewer' && isCampusSelected && (
+                    <DismissalWindowBanner campus={selectedCampus} onAlert={showAlert} />
+                )}
+
                 {/* Clear All Button - Only visible in dispatcher mode */}
                 {/* {mode === 'dispatcher' && isCampusSelected && (
                     <Button
                         onClick={() => setShowClearDialog(true)}
-                        disabled={isSubmitting || (leftLaneCars.length === 0 && rightLaneCars.length === 0)}
+                        disabled={isSubmitting || allCars.length === 0}
                         variant="destructive"
                         className="gap-2"
                     >
@@ -415,13 +626,17 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
             <div className="flex-1 flex flex-col mt-4 min-h-0 relative">
                 <div className={`relative  ${!isCampusSelected ? 'pointer-events-none' : ''}`}>
                     <Road
-                        leftLaneCars={leftLaneCars}
-                        rightLaneCars={rightLaneCars}
+                        lanes={lanes}
                         mode={mode}
                         onRemoveCar={handleRemoveCar}
+                        onReorderCar={handleReorderCar}
+                        onSetCarStage={handleSetCarStage}
+                        onNoShowCar={handleNoShowCar}
+                        onToggleStudentReleased={handleToggleStudentReleased}
                         isFullscreen={isFullscreen}
                         onToggleFullscreen={toggleFullscreen}
                         birthdayCarIds={birthdayCarIds}
+                        signage={mode === 'viewer' ? signage : undefined}
                     />
 
                     {/* Overlay cuando no hay campus */}
@@ -445,18 +660,34 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
                 {/* Allocator Control with Finish Line - Responsive */}
                 {mode === 'allocator' && isCampusSelected && (
                     <div className="absolute bottom-8 left-0 right-0 z-20 px-2">
+                        <div className="mb-2 flex justify-center">
+                            <PendingArrivals
+                                campus={selectedCampus}
+                                lanes={lanes}
+                                disabled={isSubmitting}
+                                onAssign={handleAssignArrival}
+                                onAlert={showAlert}
+                                className="w-full max-w-xs sm:max-w-sm"
+                            />
+                        </div>
                         <div className="flex justify-center">
                             <div className="allocator-area bg-white/90 w-full max-w-xs sm:max-w-sm backdrop-blur-md rounded-xl sm:rounded-2xl  border-white/30 relative overflow-hidden">
                                 <div className="flex items-center gap-2 sm:gap-3 relative z-10 justify-center">
-                                    {/* Left Arrow Button */}
-                                    <Button
-                                        onClick={(e) => handleArrowClick('left', e)}
-                                        disabled={!carInputValue.trim() || isSubmitting}
-                                        size="sm"
-                                        className="bg-blue-600 hover:bg-blue-700 text-white p-2 sm:p-3 h-10 w-10 sm:h-12 sm:w-12 rounded-lg sm:rounded-xl shrink-0 shadow-md transition-colors duration-200 disabled:opacity-50"
-                                    >
-                                        <ChevronLeft className="h-4 w-4 sm:h-5 sm:w-5" />
-                                    </Button>
+                                    {/* Left Lane Buttons */}
+                                    {leftLaneButtons.map((lane) => (
+                                        <Button
+                                            key={lane.id}
+                                            onClick={(e) => handleArrowClick(lane, e)}
+                                            disabled={!carInputValue.trim() || isSubmitting}
+                                            size="sm"
+                                            title={lane.name}
+                                            aria-label={lane.name}
+                                            style={getLaneColorStyles(lane.color).badge}
+                                            className="text-white hover:opacity-90 p-2 sm:p-3 h-10 w-10 sm:h-12 sm:w-12 rounded-lg sm:rounded-xl shrink-0 shadow-md transition-opacity duration-200 disabled:opacity-50"
+                                        >
+                                            <ChevronLeft className="h-4 w-4 sm:h-5 sm:w-5" />
+                                        </Button>
+                                    ))}
 
                                     {/* Car Input */}
                                     <Input
@@ -478,15 +709,21 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
                                         autoFocus
                                     />
 
-                                    {/* Right Arrow Button */}
-                                    <Button
-                                        onClick={(e) => handleArrowClick('right', e)}
-                                        disabled={!carInputValue.trim() || isSubmitting}
-                                        size="sm"
-                                        className="bg-green-600 hover:bg-green-700 text-white p-2 sm:p-3 h-10 w-10 sm:h-12 sm:w-12 rounded-lg sm:rounded-xl shrink-0 shadow-md transition-colors duration-200 disabled:opacity-50"
-                                    >
-                                        <ChevronRight className="h-4 w-4 sm:h-5 sm:w-5" />
-                                    </Button>
+                                    {/* Right Lane Buttons */}
+                                    {rightLaneButtons.map((lane) => (
+                                        <Button
+                                            key={lane.id}
+                                            onClick={(e) => handleArrowClick(lane, e)}
+                                            disabled={!carInputValue.trim() || isSubmitting}
+                                            size="sm"
+                                            title={lane.name}
+                                            aria-label={lane.name}
+                                            style={getLaneColorStyles(lane.color).badge}
+                                            className="text-white hover:opacity-90 p-2 sm:p-3 h-10 w-10 sm:h-12 sm:w-12 rounded-lg sm:rounded-xl shrink-0 shadow-md transition-opacity duration-200 disabled:opacity-50"
+                                        >
+                                            <ChevronRight className="h-4 w-4 sm:h-5 sm:w-5" />
+                                        </Button>
+                                    ))}
                                 </div>
                             </div>
                         </div>
@@ -516,6 +753,66 @@ export function DismissalView({ mode, className }: DismissalViewProps) {
                 </div>
             )}
 
+            {/* Undo Dismissal Toast - Fixed at bottom center */}
+            {pendingUndo && (
+                <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-2 duration-300">
+                    <div className="flex items-center gap-3 rounded-lg border-2 bg-white px-4 py-3 shadow-lg">
+                        <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+                        <div className="text-sm">
+                            <div className="font-semibold">{t(pendingUndo.isNoShow ? 'dispatcher.undo.noShowMessage' : 'dispatcher.undo.message', { number: pendingUndo.carNumber })}</div>
+                            <div className="text-xs text-muted-foreground">{t('dispatcher.undo.secondsLeft', { seconds: undoSecondsLeft })}</div>
+                        </div>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={handleUndoRemove}
+                            disabled={isSubmitting}
+                            className="gap-1"
+                        >
+                            <Undo2 className="h-4 w-4" />
+                            {t('dispatcher.undo.action')}
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {/* Cross-Campus Match Confirmation Dialog */}
+            <AlertDialog open={!!pendingCrossCampus} onOpenChange={(open) => !open && setPendingCrossCampus(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t('crossCampus.title')}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {t('crossCampus.description', {
+                                number: pendingCrossCampus?.carNumber ?? 0,
+                                campus: selectedCampus
+                            })}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <ul className="max-h-60 space-y-2 overflow-y-auto">
+                        {pendingCrossCampus?.matches.map((match) => (
+                            <li key={match.studentId} className="flex items-center justify-between gap-3 rounded-lg border p-2 text-sm">
+                                <div>
+                                    <div className="font-semibold">{match.name}</div>
+                                    <div className="text-xs text-muted-foreground">{match.grade}</div>
+                                </div>
+                                <span className="flex items-center gap-1 text-xs font-medium text-amber-700">
+                                    <MapPin className="h-3 w-3" />
+                                    {match.campuses.join(', ')}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel onClick={() => setPendingCrossCampus(null)}>
+                            {t('crossCampus.cancel')}
+                        </AlertDialogCancel>
+                        <AlertDialogAction onClick={handleConfirmCrossCampus}>
+                            {t('crossCampus.confirm')}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
             {/* Clear All Confirmation Dialog */}
             <AlertDialog open={showClearDialog} onOpenChange={setShowClearDialog}>
                 <AlertDialogContent>
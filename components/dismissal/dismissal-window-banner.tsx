@@ -0,0 +1,141 @@
+"use client"
+
+import * as React from "react"
+import { useTranslations } from "next-intl"
+import { useQuery, useMutation } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { Clock, ShieldCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { cn } from "@/lib/utils"
+import { formatCountdown } from "./utils"
+
+interface DismissalWindowBannerProps {
+    campus: string
+    onAlert: (type: 'success' | 'error', title: string, message: string) => void
+    className?: string
+}
+
+export function DismissalWindowBanner({ campus, onAlert, className }: DismissalWindowBannerProps) {
+    const t = useTranslations('dismissal.window')
+    const status = useQuery(api.queue.getDismissalWindowStatus, { campus })
+    const overrideWindow = useMutation(api.queue.overrideDismissalWindow)
+
+    const [now, setNow] = React.useState(() => Date.now())
+    const [showConfirm, setShowConfirm] = React.useState(false)
+    const [reason, setReason] = React.useState('')
+    const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+    const dismissalWindow = status?.window
+    const isConfigured = !!dismissalWindow?.isConfigured
+
+    // Tick every second for the countdown (only while a window is configured)
+    React.useEffect(() => {
+        if (!isConfigured) return
+        const interval = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(interval)
+    }, [isConfigured])
+
+    const handleOverride = React.useCallback(async () => {
+        setIsSubmitting(true)
+        try {
+            await overrideWindow({ campus, reason: reason.trim() || undefined })
+            onAlert('success', t('overridden'), t('overrideSuccess'))
+            setShowConfirm(false)
+            setReason('')
+        } catch {
+            onAlert('error', 'Error', t('overrideError'))
+        } finally {
+            setIsSubmitting(false)
+        }
+    }, [overrideWindow, campus, reason, onAlert, t])
+
+    if (!dismissalWindow || !isConfigured || dismissalWindow.opensAt === null || dismissalWindow.closesAt === null) {
+        return null
+    }
+
+    // Evaluate on the client so the banner flips state without a new query result
+    const isActive = now >= dismissalWindow.opensAt && now < dismissalWindow.closesAt
+    const isOverridden = !!status?.override
+    const isOpen = isActive || isOverridden
+
+    const countdown = isActive
+        ? t('closesIn', { time: formatCountdown(dismissalWindow.closesAt - now) })
+        : now < dismissalWindow.opensAt
+            ? t('opensIn', { time: formatCountdown(dismissalWindow.opensAt - now) })
+            : t('closed')
+
+    return (
+        <>
+            <div
+                className={cn(
+                    'flex items-center gap-3 rounded-lg border-2 px-3 py-2 text-sm',
+                    isOpen ? 'border-green-200 bg-green-50 text-green-900' : 'border-amber-200 bg-amber-50 text-amber-900',
+                    className
+                )}
+            >
+                <Clock className="h-4 w-4 shrink-0" />
+                <div className="flex flex-col leading-tight">
+                    <span className="font-semibold">
+                        {t('schedule', { start: dismissalWindow.startTime ?? '', end: dismissalWindow.endTime ?? '' })}
+                    </span>
+                    <span className="text-xs opacity-80">
+                        {countdown} · {dismissalWindow.timezone}
+                    </span>
+                </div>
+                {isOverridden && !isActive && (
+                    <span className="flex items-center gap-1 text-xs font-medium">
+                        <ShieldCheck className="h-4 w-4" />
+                        {t('overridden')}
+                    </span>
+                )}
+                {!isOpen && status?.canOverride && (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setShowConfirm(true)}
+                        className="ml-auto"
+                    >
+                        {t('override')}
+                    </Button>
+                )}
+            </div>
+
+            {/* Override Confirmation Dialog */}
+            <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>{t('overrideConfirm.title')}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {t('overrideConfirm.description')}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <Input
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder={t('overrideConfirm.reasonPlaceholder')}
+                        maxLength={200}
+                    />
+                    <AlertDialogFooter>
+                        <AlertDialogCancel onClick={() => setShowConfirm(false)}>
+                            {t('overrideConfirm.cancel')}
+                        </AlertDialogCancel>
+                        <AlertDialogAction onClick={isSubmitting ? undefined : handleOverride}>
+                            {isSubmitting ? '...' : t('overrideConfirm.confirm')}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    )
+}
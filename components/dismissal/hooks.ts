@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
-import { CarData } from './types'
-import { ANIMATION_DURATIONS } from './constants'
+import { useLocale, useTranslations } from 'next-intl'
+import { CarData, LaneData } from './types'
+import { ANIMATION_DURATIONS, ANNOUNCEMENTS_STORAGE_KEY } from './constants'
+import { formatAnnouncement } from './utils'
 
 interface UseCarAnimationsReturn {
     removingCarId: string | null
@@ -106,3 +108,86 @@ export function useCarAnimations(cars: CarData[]): UseCarAnimationsReturn {
         isCarRemoving
     }
 }
+
+interface UseCarAnnouncementsOptions {
+    campus: string
+    isLoading: boolean
+    template?: string // Campus template, falls back to the localized one
+    voice?: string // Web Speech voice name, falls back to the browser default
+}
+
+interface UseCarAnnouncementsReturn {
+    isSupported: boolean
+    enabled: boolean
+    setEnabled: (enabled: boolean) => void
+}
+
+// Speak newly queued cars aloud, using the same id diffing as useCarAnimations but across all lanes
+export function useCarAnnouncements(lanes: LaneData[], { campus, isLoading, template, voice }: UseCarAnnouncementsOptions): UseCarAnnouncementsReturn {
+    const t = useTranslations('dismissal.announcements')
+    const locale = useLocale()
+    const [isSupported, setIsSupported] = useState(false)
+    const [enabled, setEnabledState] = useState(false)
+    const prevRef = useRef<{ campus: string; carIds: Set<string> } | null>(null)
+
+    // Speech support and the saved preference are only known in the browser
+    useEffect(() => {
+        setIsSupported('speechSynthesis' in window)
+        try {
+            setEnabledState(localStorage.getItem(ANNOUNCEMENTS_STORAGE_KEY) === 'on')
+        } catch {
+            // Ignore localStorage errors (private browsing, etc.)
+        }
+    }, [])
+
+    const setEnabled = useCallback((value: boolean) => {
+        setEnabledState(value)
+        if (!value && 'speechSynthesis' in window) {
+            window.speechSynthesis.cancel()
+        }
+        try {
+            localStorage.setItem(ANNOUNCEMENTS_STORAGE_KEY, value ? 'on' : 'off')
+        } catch {
+            // Ignore localStorage errors
+        }
+    }, [])
+
+    useEffect(() => {
+        if (isLoading) return
+
+        const entries = lanes.flatMap(lane => lane.cars.map(car => ({ car, lane })))
+        const prev = prevRef.current
+        prevRef.current = { campus, carIds: new Set(entries.map(({ car }) => car.id)) }
+
+        // The first snapshot of a campus is what was already in line, not new arrivals
+        if (!prev || prev.campus !== campus || !enabled || !isSupported) return
+
+        const newEntries = entries
+            .filter(({ car }) => !prev.carIds.has(car.id))
+            .sort((a, b) => a.car.assignedTime.getTime() - b.car.assignedTime.getTime())
+        if (newEntries.length === 0) return
+
+        const selectedVoice = voice
+            ? window.speechSynthesis.getVoices().find(option => option.name === voice)
+            : undefined
+        const listFormat = new Intl.ListFormat(locale, { type: 'conjunction' })
+
+        for (const { car, lane } of newEntries) {
+            const values = {
+                carNumber: String(car.carNumber),
+                students: listFormat.format(car.students.map(student =>
+                    student.grade ? t('student', { name: student.name, grade: student.grade }) : student.name
+                )),
+                lane: t('lane', { lane: lane.name })
+            }
+            const utterance = new SpeechSynthesisUtterance(
+                template ? formatAnnouncement(template, values) : t('template', values)
+            )
+            utterance.lang = selectedVoice?.lang ?? locale
+            if (selectedVoice) utterance.voice = selectedVoice
+            window.speechSynthesis.speak(utterance)
+        }
+    }, [lanes, campus, isLoading, enabled, isSupported, template, voice, locale, t])
+
+    return { isSupported, enabled, setEnabled }
+}
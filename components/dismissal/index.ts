@@ -2,6 +2,9 @@ export { DismissalView } from './dismissal-view'
 export { CarCard } from './car-card'
 export { Lane } from './lane'
 export { Road } from './road'
+export { DismissalWindowBanner } from './dismissal-window-banner'
+export { ReplayView } from './replay-view'
+export { KioskView } from './kiosk-view'
 export { Car } from './car'
 export { BirthdayDecoration } from './birthday-decoration'
 export * from './types'
@@ -0,0 +1,64 @@
+"use client"
+
+import * as React from "react"
+import { useTranslations } from "next-intl"
+import { useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import { MonitorX } from "lucide-react"
+import { Road } from "./road"
+import { LaneData, SignageOptions } from "./types"
+import { transformQueueEntry } from "./utils"
+
+interface KioskViewProps {
+    token: string
+    signage?: SignageOptions
+}
+
+// Kiosk displays are read-only, nothing can be removed from the road
+const noop = () => {}
+
+/**
+ * Public hallway display authenticated by a campus display token instead of a Clerk session
+ */
+export function KioskView({ token, signage }: KioskViewProps) {
+    const t = useTranslations('dismissal.kiosk')
+    const queueData = useQuery(api.displays.getQueue, { token })
+
+    const lanes = React.useMemo((): LaneData[] => {
+        if (!queueData || queueData.authState !== 'authenticated') return []
+        return queueData.lanes.map((lane) => ({
+            id: lane.id,
+            name: lane.name,
+            color: lane.color,
+            cars: lane.cars.map(transformQueueEntry)
+        }))
+    }, [queueData])
+
+    if (queueData === undefined) {
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yankees-blue"></div>
+            </div>
+        )
+    }
+
+    if (queueData.authState !== 'authenticated') {
+        return (
+            <div className="flex h-screen flex-col items-center justify-center gap-3 text-center text-muted-foreground">
+                <MonitorX className="h-12 w-12" />
+                <p className="text-lg font-semibold text-foreground">{t('invalidTitle')}</p>
+                <p className="text-sm">{t('invalidDescription')}</p>
+            </div>
+        )
+    }
+
+    return (
+        <Road
+            lanes={lanes}
+            mode="viewer"
+            onRemoveCar={noop}
+            isFullscreen
+            signage={signage}
+        />
+    )
+}
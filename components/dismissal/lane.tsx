@@ -3,24 +3,63 @@
 import * as React from "react"
 import { Car } from "lucide-react"
 import { useTranslations } from "next-intl"
+import { useDroppable } from "@dnd-kit/core"
+import { SortableContext, useSortable, verticalListSortingStrategy } from "@dnd-kit/sortable"
+import { CSS } from "@dnd-kit/utilities"
 import { CarCard } from "./car-card"
-import { CarData, LaneType, ModeType } from "./types"
-import { LANE_COLORS } from "./constants"
+import { CarData, LaneDefinition, ModeType, PickupStage } from "./types"
+import { getLaneColorStyles } from "./utils"
 import { useCarAnimations } from "./hooks"
 
 interface LaneProps {
     cars: CarData[]
-    lane: LaneType
+    lane: LaneDefinition
     mode: ModeType
     onRemoveCar: (carId: string) => void
+    onSetCarStage?: (carId: string, stage: PickupStage) => void
+    onNoShowCar?: (carId: string) => void
+    onToggleStudentReleased?: (carId: string, studentId: string, released: boolean) => void
     emptyMessage?: string
     birthdayCarIds?: Set<string>
+    sortable?: boolean
+    // Signage mode: only the first N cars are drawn, the rest are counted
+    pinnedCars?: number
 }
 
-export const Lane = React.memo<LaneProps>(({ cars, lane, mode, onRemoveCar, emptyMessage, birthdayCarIds }) => {
+// Drag handle wrapper used by the dispatcher to reorder cars
+const SortableCar = ({ id, disabled, children }: { id: string; disabled: boolean; children: React.ReactNode }) => {
+    const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled })
+
+    return (
+        <div
+            ref={setNodeRef}
+            style={{
+                transform: CSS.Transform.toString(transform),
+                transition,
+                zIndex: isDragging ? 20 : undefined,
+                opacity: isDragging ? 0.8 : 1,
+                position: 'relative'
+            }}
+            className={disabled ? undefined : 'cursor-grab active:cursor-grabbing touch-manipulation'}
+            {...attributes}
+            {...listeners}
+        >
+            {children}
+        </div>
+    )
+}
+
+export const Lane = React.memo<LaneProps>(({ cars: allCars, lane, mode, onRemoveCar, onSetCarStage, onNoShowCar, onToggleStudentReleased, emptyMessage, birthdayCarIds, sortable = false, pinnedCars }) => {
     const t = useTranslations('dismissal')
     const isViewer = mode === 'viewer'
 
+    // Cars are ordered front-first, so pinning keeps the ones closest to pickup
+    const cars = React.useMemo(
+        () => pinnedCars ? allCars.slice(0, pinnedCars) : allCars,
+        [allCars, pinnedCars]
+    )
+    const hiddenCount = allCars.length - cars.length
+
     // Use custom hook for animation logic
     const { newCarIds, handleRemoveCar, isCarRemoving } = useCarAnimations(cars)
 
@@ -51,8 +90,21 @@ export const Lane = React.memo<LaneProps>(({ cars, lane, mode, onRemoveCar, empt
         handleRemoveCar(carId, onRemoveCar)
     }, [handleRemoveCar, onRemoveCar, cars])
 
-    // Get lane colors from constants
-    const colors = LANE_COLORS[lane]
+    // No-shows leave the lane with the same animation as a dismissal
+    const onNoShow = React.useCallback((carId: string) => {
+        if (!onNoShowCar) return
+        const carToRemove = cars.find(car => car.id === carId)
+        if (carToRemove) {
+            setRemovingCars(prev => new Map(prev).set(carId, carToRemove))
+        }
+        handleRemoveCar(carId, onNoShowCar)
+    }, [handleRemoveCar, onNoShowCar, cars])
+
+    // Whole lane is a drop target so cars can be dropped into empty lanes
+    const { setNodeRef: setDropRef, isOver } = useDroppable({ id: lane.id, disabled: !sortable })
+
+    // Lane colors come from the campus lane definition
+    const colors = getLaneColorStyles(lane.color)
 
     // Create extended cars list that includes cars being removed for smooth animation
     const extendedCars = React.useMemo(() => {
@@ -72,76 +124,101 @@ export const Lane = React.memo<LaneProps>(({ cars, lane, mode, onRemoveCar, empt
         return result
     }, [cars, removingCars, isCarRemoving])
 
+    // Cars are rendered back-to-front, so the sortable order is reversed too
+    const sortableIds = React.useMemo(() => cars.map(car => car.id).reverse(), [cars])
+
     return (
-        <div className={`p-2 md:p-4 flex relative ${isViewer
-            ? `max-md:w-1/2 max-md:pb-20 max-md:flex-col max-md:min-h-full md:h-1/2 md:pl-20 md:flex-row md:min-w-full ${lane === 'left' ? 'max-md:pr-1 md:pb-1' : 'max-md:pl-1 md:pt-1'}`
-            : 'w-1/2 pb-20 md:pb-20 flex-col min-h-full'
+        <div ref={setDropRef} className={`p-2 md:p-4 flex relative ${isOver ? 'ring-4 ring-inset ring-white/70' : ''} ${isViewer
+            ? 'max-md:flex-1 max-md:min-w-0 max-md:px-1 max-md:pb-20 max-md:flex-col max-md:min-h-full md:flex-1 md:min-h-0 md:py-1 md:pl-20 md:flex-row md:min-w-full'
+            : 'flex-1 min-w-0 pb-20 md:pb-20 flex-col min-h-full'
             }`} style={{ backgroundColor: '#9CA3AF' }}>
+            {/* Lane name */}
+            <span
+                className={`absolute z-10 text-white font-semibold px-2 py-0.5 rounded-full shadow ${pinnedCars ? 'text-sm 4xl:text-xl 5xl:text-2xl' : 'text-xs'} ${isViewer
+                    ? 'max-md:top-2 max-md:left-1/2 max-md:-translate-x-1/2 md:left-20 md:top-1'
+                    : 'top-2 left-1/2 -translate-x-1/2'
+                    }`}
+                style={colors.badge}
+            >
+                {lane.name}
+            </span>
             <div className={`flex-1 min-h-0 flex ${isViewer
                 ? 'max-md:flex-col max-md:justify-end max-md:gap-4 md:flex-row md:justify-start md:items-center md:gap-4'
                 : 'flex-col justify-end gap-4'
                 }`}>
                 {cars.length > 0 ? (
-                    <div className={`flex transition-all duration-500 ease-in-out ${isViewer
-                        ? 'max-md:flex-col max-md:gap-4 md:flex-row-reverse'
-                        : 'flex-col gap-4'
-                        }`}>
-                        {extendedCars.slice().reverse().map((car) => {
-                            const isNew = newCarIds.has(car.id)
-                            const isRemoving = isCarRemoving(car.id)
-
-                            return (
-                                <div
-                                    key={car.id}
-                                    className={`transition-all duration-500 ease-in-out ${
-                                        isNew 
-                                            ? (isViewer ? 'max-md:animate-fade-in-down md:animate-fade-in-left' : 'animate-fade-in-down')
-                                            : isRemoving 
-                                                ? (isViewer ? 'max-md:animate-fade-out-down md:animate-fade-out-right' : 'animate-fade-out-down')
-                                                : ''
-                                        }`}
-                                    style={{
-                                        // Fallback styles in case animations don't load
-                                        transform: isRemoving
-                                            ? (isViewer 
-                                                ? (typeof window !== 'undefined' && window.innerWidth < 768 
-                                                    ? 'translateY(20px) scale(0.95)' 
-                                                    : 'translateX(20px) scale(0.95)')
-                                                : 'translateY(20px) scale(0.95)')
-                                            : (isViewer 
-                                                ? (typeof window !== 'undefined' && window.innerWidth < 768 
-                                                    ? 'translateY(0) scale(1)' 
-                                                    : 'translateX(0) scale(1)')
-                                                : 'translateY(0) scale(1)'),
-                                        opacity: isRemoving ? 0 : 1,
-                                        transition: 'all 0.6s ease-in-out'
-                                    }}
-                                >
-                                    <CarCard
-                                        car={car}
-                                        lane={lane}
-                                        onRemove={onRemove}
-                                        showRemoveButton={mode === 'dispatcher'}
-                                        isViewerMode={mode === 'viewer'}
-                                        hasBirthdayToday={birthdayCarIds?.has(car.id) || false}
-                                    />
-                                </div>
-                            )
-                        })}
-                    </div>
+                    <SortableContext items={sortableIds} strategy={verticalListSortingStrategy} disabled={!sortable}>
+                        <div className={`flex transition-all duration-500 ease-in-out ${isViewer
+                            ? 'max-md:flex-col max-md:gap-4 md:flex-row-reverse'
+                            : 'flex-col gap-4'
+                            }`}>
+                            {extendedCars.slice().reverse().map((car) => {
+                                const isNew = newCarIds.has(car.id)
+                                const isRemoving = isCarRemoving(car.id)
+
+                                return (
+                                    <div
+                                        key={car.id}
+                                        className={`transition-all duration-500 ease-in-out ${
+                                            isNew 
+                                                ? (isViewer ? 'max-md:animate-fade-in-down md:animate-fade-in-left' : 'animate-fade-in-down')
+                                                : isRemoving 
+                                                    ? (isViewer ? 'max-md:animate-fade-out-down md:animate-fade-out-right' : 'animate-fade-out-down')
+                                                    : ''
+                                            }`}
+                                        style={{
+                                            // Fallback styles in case animations don't load
+                                            transform: isRemoving
+                                                ? (isViewer 
+                                                    ? (typeof window !== 'undefined' && window.innerWidth < 768 
+                                                        ? 'translateY(20px) scale(0.95)' 
+                                                        : 'translateX(20px) scale(0.95)')
+                                                    : 'translateY(20px) scale(0.95)')
+                                                : (isViewer 
+                                                    ? (typeof window !== 'undefined' && window.innerWidth < 768 
+                                                        ? 'translateY(0) scale(1)' 
+                                                        : 'translateX(0) scale(1)')
+                                                    : 'translateY(0) scale(1)'),
+                                            opacity: isRemoving ? 0 : 1,
+                                            transition: 'all 0.6s ease-in-out'
+                                        }}
+                                    >
+                                        <SortableCar id={car.id} disabled={!sortable || isRemoving}>
+                                            <CarCard
+                                                car={car}
+                                                lane={lane}
+                                                onRemove={onRemove}
+                                                onSetStage={onSetCarStage}
+                                                onNoShow={onNoShowCar ? onNoShow : undefined}
+                                                onToggleStudentReleased={onToggleStudentReleased}
+                                                showRemoveButton={mode === 'dispatcher'}
+                                                isViewerMode={mode === 'viewer'}
+                                                hasBirthdayToday={birthdayCarIds?.has(car.id) || false}
+                                            />
+                                        </SortableCar>
+                                    </div>
+                                )
+                            })}
+                        </div>
+                    </SortableContext>
                 ) : (
                     <div className={`flex items-center justify-center text-muted-foreground ${isViewer ? 'max-md:h-48 md:w-48 md:h-full' : 'h-48'
                         }`}>
                         <div className="text-center">
-                            <div className={`${colors.iconColor} mb-2`}>
+                            <div className="mb-2" style={colors.text}>
                                 <Car className="h-8 w-8 mx-auto opacity-50" />
                             </div>
-                            <span className={`text-sm ${colors.textColor} opacity-70`}>
+                            <span className="text-sm opacity-70" style={colors.text}>
                                 {emptyMessage || t('table.empty')}
                             </span>
                         </div>
                     </div>
                 )}
+                {hiddenCount > 0 && (
+                    <div className="shrink-0 self-center max-md:order-first rounded-full bg-white/90 px-4 py-2 text-lg font-bold text-gray-800 shadow 4xl:text-2xl 5xl:text-3xl">
+                        {t('signage.more', { count: hiddenCount })}
+                    </div>
+                )}
             </div>
         </div>
     )
@@ -0,0 +1,80 @@
+"use client"
+
+import * as React from "react"
+import { useTranslations } from "next-intl"
+import { useQuery, useMutation } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import type { Id } from "@/convex/_generated/dataModel"
+import { BellRing, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { LaneData } from "./types"
+import { getLaneColorStyles } from "./utils"
+
+interface PendingArrivalsProps {
+    campus: string
+    lanes: LaneData[]
+    disabled?: boolean
+    onAssign: (carNumber: number, lane: LaneData, arrivalId: Id<"pendingArrivals">) => void
+    onAlert: (type: 'success' | 'error', title: string, message: string) => void
+    className?: string
+}
+
+/**
+ * Parents who checked in with their family link, one tap on a lane queues the car
+ */
+export function PendingArrivals({ campus, lanes, disabled = false, onAssign, onAlert, className }: PendingArrivalsProps) {
+    const t = useTranslations('dismissal.checkIn')
+    const pendingData = useQuery(api.checkins.listPending, { campus })
+    const dismissArrival = useMutation(api.checkins.dismissArrival)
+
+    const handleDismiss = React.useCallback(async (arrivalId: Id<"pendingArrivals">) => {
+        try {
+            await dismissArrival({ arrivalId })
+        } catch {
+            onAlert('error', 'Error', t('dismissFailed'))
+        }
+    }, [dismissArrival, onAlert, t])
+
+    const arrivals = pendingData?.arrivals ?? []
+    if (arrivals.length === 0) return null
+
+    return (
+        <div className={cn('flex max-h-40 flex-col gap-2 overflow-y-auto rounded-xl bg-white/90 p-2 shadow-md backdrop-blur-md', className)}>
+            <div className="flex items-center gap-2 px-1 text-xs font-semibold text-yankees-blue">
+                <BellRing className="h-4 w-4" />
+                {t('title', { count: arrivals.length })}
+            </div>
+            {arrivals.map((arrival) => (
+                <div key={arrival._id} className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white px-2 py-1">
+                    <span className="min-w-12 font-mono text-lg font-bold">{arrival.carNumber}</span>
+                    <div className="flex flex-1 flex-wrap gap-1">
+                        {lanes.map((lane) => (
+                            <Button
+                                key={lane.id}
+                                size="sm"
+                                disabled={disabled}
+                                onClick={() => onAssign(arrival.carNumber, lane, arrival._id)}
+                                style={getLaneColorStyles(lane.color).badge}
+                                className="h-8 px-2 text-xs text-white hover:opacity-90"
+                            >
+                                {lane.name}
+                            </Button>
+                        ))}
+                    </div>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={disabled}
+                        onClick={() => handleDismiss(arrival._id)}
+                        title={t('dismiss')}
+                        aria-label={t('dismiss')}
+                        className="h-8 w-8 p-0"
+                    >
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+        </div>
+    )
+}
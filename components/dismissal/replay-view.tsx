@@ -0,0 +1,253 @@
+"use client"
+
+import * as React from "react"
+import { useTranslations } from "next-intl"
+import { useQuery } from "convex/react"
+import { api } from "@/convex/_generated/api"
+import type { FunctionReturnType } from "convex/server"
+import { MapPin, Pause, Play, RotateCcw } from "lucide-react"
+import { useCampusSession } from "@/hooks/use-campus-session"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent } from "@/components/ui/card"
+import { FilterDropdown } from "@/components/ui/filter-dropdown"
+import { cn } from "@/lib/utils"
+import { Road } from "./road"
+import { CarData, LaneData } from "./types"
+
+type ReplayData = FunctionReturnType<typeof api.queue.getDismissalReplay>
+type ReplayCar = ReplayData['cars'][number]
+
+// Playback speeds (replayed seconds per real second)
+const SPEED_OPTIONS = [1, 10, 30, 60]
+const TICK_MS = 250
+
+/**
+ * Rebuild every lane at a given moment by replaying arrivals, lane moves and pickups in order
+ */
+const buildReplayLanes = (
+    lanes: ReplayData['lanes'],
+    cars: ReplayCar[],
+    time: number
+): LaneData[] => {
+    const laneOrder = new Map<string, ReplayCar[]>(lanes.map((lane) => [lane.id, []]))
+    const removeCar = (car: ReplayCar) => {
+        for (const laneCars of laneOrder.values()) {
+            const index = laneCars.indexOf(car)
+            if (index >= 0) laneCars.splice(index, 1)
+        }
+    }
+
+    const events: Array<{ at: number; apply: () => void }> = []
+    for (const car of cars) {
+        events.push({
+            at: car.queuedAt,
+            apply: () => laneOrder.get(car.laneMoves[0]?.from ?? car.lane)?.push(car)
+        })
+        for (const move of car.laneMoves) {
+            events.push({
+                at: move.movedAt,
+                apply: () => {
+                    removeCar(car)
+                    const target = laneOrder.get(move.to)
+                    if (!target) return
+                    const index = move.position === undefined
+                        ? target.length
+                        : Math.min(move.position - 1, target.length)
+                    target.splice(index, 0, car)
+                }
+            })
+        }
+        events.push({ at: car.completedAt, apply: () => removeCar(car) })
+    }
+
+    // Stable sort keeps a car's own events in order when they share a timestamp
+    events
+        .sort((a, b) => a.at - b.at)
+        .filter((event) => event.at <= time)
+        .forEach((event) => event.apply())
+
+    return lanes.map((lane) => ({
+        ...lane,
+        cars: (laneOrder.get(lane.id) ?? []).map((car, index): CarData => ({
+            id: car.id,
+            carNumber: car.carNumber,
+            lane: lane.id,
+            position: index + 1,
+            assignedTime: new Date(car.queuedAt),
+            students: car.students.map((student) => ({
+                id: student.studentId,
+                name: student.name,
+                releasedAt: student.releasedAt !== undefined && student.releasedAt <= time
+                    ? new Date(student.releasedAt)
+                    : undefined
+            })),
+            campus: '',
+            imageColor: car.carColor,
+            stage: car.loadingAt !== undefined && car.loadingAt <= time
+                ? 'loading'
+                : car.calledAt !== undefined && car.calledAt <= time ? 'called' : 'waiting',
+            calledAt: car.calledAt !== undefined && car.calledAt <= time ? new Date(car.calledAt) : undefined,
+            loadingAt: car.loadingAt !== undefined && car.loadingAt <= time ? new Date(car.loadingAt) : undefined
+        }))
+    }))
+}
+
+interface ReplayViewProps {
+    className?: string
+}
+
+export function ReplayView({ className }: ReplayViewProps) {
+    const t = useTranslations('dismissal')
+    const { selectedCampus, updateSelectedCampus } = useCampusSession()
+    // Unset until a day is picked: the query then replays the campus-local today
+    const [date, setDate] = React.useState<string>()
+    const [time, setTime] = React.useState(0)
+    const [isPlaying, setIsPlaying] = React.useState(false)
+    const [speed, setSpeed] = React.useState(SPEED_OPTIONS[2])
+
+    const isCampusSelected = selectedCampus !== "all" && selectedCampus !== ""
+    const campusOptions = useQuery(api.campus.getOptions)
+    const replayData = useQuery(api.queue.getDismissalReplay,
+        isCampusSelected ? { campus: selectedCampus, date } : "skip"
+    )
+
+    const cars = React.useMemo(() => replayData?.cars ?? [], [replayData])
+    const start = cars.length > 0 ? Math.min(...cars.map((car) => car.queuedAt)) : 0
+    const end = cars.length > 0 ? Math.max(...cars.map((car) => car.completedAt)) : 0
+
+    // Rewind whenever a different day (or campus) is loaded
+    React.useEffect(() => {
+        setTime(start)
+        setIsPlaying(false)
+    }, [start])
+
+    // Advance the clock while playing and stop at the end of the day
+    React.useEffect(() => {
+        if (!isPlaying) return
+        const interval = setInterval(() => {
+            setTime((prev) => Math.min(end, prev + TICK_MS * speed))
+        }, TICK_MS)
+        return () => clearInterval(interval)
+    }, [isPlaying, speed, end])
+
+    React.useEffect(() => {
+        if (isPlaying && time >= end) setIsPlaying(false)
+    }, [isPlaying, time, end])
+
+    const lanes = React.useMemo(
+        () => buildReplayLanes(replayData?.lanes ?? [], cars, time),
+        [replayData, cars, time]
+    )
+    const carsInLine = lanes.reduce((count, lane) => count + lane.cars.length, 0)
+
+    const formatClock = (timestamp: number) =>
+        new Date(timestamp).toLocaleTimeString([], {
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            timeZone: replayData?.timezone
+        })
+
+    const handleTogglePlay = () => {
+        if (time >= end) setTime(start)
+        setIsPlaying((prev) => !prev)
+    }
+
+    return (
+        <div className={cn("w-full h-full flex flex-col", className)}>
+            {/* Campus and day selection */}
+            <div className="flex flex-col gap-4 md:flex-row md:items-center flex-shrink-0">
+                <FilterDropdown<string>
+                    value={selectedCampus}
+                    onChange={(value) => updateSelectedCampus(value)}
+                    options={campusOptions?.map((c) => c.label) ?? []}
+                    icon={MapPin}
+                    label={t('campus.select')}
+                    placeholder={t('campus.select')}
+                    className="w-full md:w-64"
+                    showAllOption={false}
+                />
+                <Input
+                    type="date"
+                    value={date ?? replayData?.date ?? ''}
+                    onChange={(e) => setDate(e.target.value || undefined)}
+                    className="w-full md:w-48 border-2 border-yankees-blue"
+                    aria-label={t('replay.date')}
+                />
+            </div>
+
+            {/* Playback controls */}
+            <Card className="mt-4 border-2 border-yankees-blue py-0">
+                <CardContent className="flex flex-col gap-3 p-3 md:flex-row md:items-center">
+                    <div className="flex items-center gap-2">
+                        <Button
+                            size="sm"
+                            onClick={handleTogglePlay}
+                            disabled={cars.length === 0}
+                            aria-label={isPlaying ? t('replay.pause') : t('replay.play')}
+                            className="bg-yankees-blue hover:bg-yankees-blue/90"
+                        >
+                            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                                setIsPlaying(false)
+                                setTime(start)
+                            }}
+                            disabled={cars.length === 0}
+                            aria-label={t('replay.restart')}
+                        >
+                            <RotateCcw className="h-4 w-4" />
+                        </Button>
+                    </div>
+
+                    <input
+                        type="range"
+                        min={start}
+                        max={end}
+                        step={1000}
+                        value={time}
+                        onChange={(e) => setTime(Number(e.target.value))}
+                        disabled={cars.length === 0}
+                        aria-label={t('replay.scrubber')}
+                        className="flex-1 accent-yankees-blue"
+                    />
+
+                    <div className="flex items-center gap-3 text-sm">
+                        <span className="font-mono font-semibold tabular-nums">
+                            {cars.length > 0 ? formatClock(time) : '--:--:--'}
+                        </span>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                            {t('replay.carsInLine', { count: carsInLine })}
+                        </span>
+                        <div className="flex gap-1">
+                            {SPEED_OPTIONS.map((option) => (
+                                <Button
+                                    key={option}
+                                    size="sm"
+                                    variant={option === speed ? 'default' : 'outline'}
+                                    onClick={() => setSpeed(option)}
+                                    className="h-7 px-2 text-xs"
+                                >
+                                    {option}x
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {isCampusSelected && replayData && cars.length === 0 && (
+                <p className="mt-2 text-sm text-muted-foreground">{t('replay.noData')}</p>
+            )}
+
+            {/* Read-only road */}
+            <div className="flex-1 flex flex-col mt-4 min-h-0">
+                <Road lanes={lanes} mode="viewer" onRemoveCar={() => {}} />
+            </div>
+        </div>
+    )
+}
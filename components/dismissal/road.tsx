@@ -5,33 +5,133 @@ import { useTranslations } from "next-intl";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Maximize, Minimize } from "lucide-react";
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable";
 import { Lane } from "./lane";
-import { CarData, ModeType } from "./types";
+import { LaneData, ModeType, PickupStage, SignageOptions } from "./types";
 import "./road.css";
 
 interface RoadProps {
-  leftLaneCars: CarData[];
-  rightLaneCars: CarData[];
+  lanes: LaneData[];
   mode: ModeType;
   onRemoveCar: (carId: string) => void;
+  onReorderCar?: (carId: string, laneId: string, position: number) => void;
+  onSetCarStage?: (carId: string, stage: PickupStage) => void;
+  onNoShowCar?: (carId: string) => void;
+  onToggleStudentReleased?: (
+    carId: string,
+    studentId: string,
+    released: boolean,
+  ) => void;
   isFullscreen?: boolean;
   onToggleFullscreen?: () => void;
   className?: string;
   birthdayCarIds?: Set<string>;
+  signage?: SignageOptions;
 }
 
 export const Road = React.memo<RoadProps>(
   ({
-    leftLaneCars,
-    rightLaneCars,
+    lanes,
     mode,
     onRemoveCar,
+    onReorderCar,
+    onSetCarStage,
+    onNoShowCar,
+    onToggleStudentReleased,
     isFullscreen = false,
     onToggleFullscreen,
     birthdayCarIds,
+    signage,
   }) => {
     const t = useTranslations("common");
+    const tSignage = useTranslations("dismissal.signage");
     const isViewer = mode === "viewer";
+    const canReorder = mode === "dispatcher" && !!onReorderCar;
+
+    // Signage mode shows a page of lanes at a time and rotates through them
+    const lanesPerPage = signage?.lanesPerPage ?? lanes.length;
+    const pageCount = signage
+      ? Math.max(1, Math.ceil(lanes.length / lanesPerPage))
+      : 1;
+    const [pageIndex, setPageIndex] = React.useState(0);
+    const currentPage = pageIndex % pageCount;
+
+    React.useEffect(() => {
+      if (!signage || pageCount <= 1) return;
+      const interval = setInterval(
+        () => setPageIndex((prev) => (prev + 1) % pageCount),
+        signage.intervalSeconds * 1000,
+      );
+      return () => clearInterval(interval);
+    }, [signage, pageCount]);
+
+    const visibleLanes = React.useMemo(
+      () =>
+        signage
+          ? lanes.slice(
+              currentPage * lanesPerPage,
+              (currentPage + 1) * lanesPerPage,
+            )
+          : lanes,
+      [lanes, signage, currentPage, lanesPerPage],
+    );
+
+    // Small activation distance/delay so taps still open the car drawer
+    const sensors = useSensors(
+      useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
+      useSensor(TouchSensor, {
+        activationConstraint: { delay: 200, tolerance: 8 },
+      }),
+      useSensor(KeyboardSensor, {
+        coordinateGetter: sortableKeyboardCoordinates,
+      }),
+    );
+
+    // Resolve the drop target (a car or an empty lane area) into lane + position
+    const handleDragEnd = React.useCallback(
+      (event: DragEndEvent) => {
+        const { active, over } = event;
+        if (!over || !onReorderCar || active.id === over.id) return;
+
+        const carId = String(active.id);
+        const sourceLane = lanes.find((lane) =>
+          lane.cars.some((car) => car.id === carId),
+        );
+        if (!sourceLane) return;
+
+        const overLane =
+          lanes.find((lane) => lane.id === over.id) ??
+          lanes.find((lane) => lane.cars.some((car) => car.id === over.id));
+        if (!overLane) return;
+
+        const overIndex = overLane.cars.findIndex((car) => car.id === over.id);
+        const position =
+          overIndex >= 0
+            ? overIndex + 1
+            : overLane.id === sourceLane.id
+              ? overLane.cars.length
+              : overLane.cars.length + 1;
+
+        const currentPosition =
+          sourceLane.cars.findIndex((car) => car.id === carId) + 1;
+        if (overLane.id === sourceLane.id && position === currentPosition) {
+          return;
+        }
+
+        onReorderCar(carId, overLane.id, position);
+      },
+      [lanes, onReorderCar],
+    );
 
     // Handle ESC key to exit fullscreen
     React.useEffect(() => {
@@ -79,6 +179,17 @@ export const Road = React.memo<RoadProps>(
             </Button>
           )}
 
+          {/* Signage page indicator */}
+          {signage && pageCount > 1 && (
+            <div className="absolute bottom-2 right-2 z-50 rounded-lg bg-white/90 px-3 py-1 text-sm font-semibold text-gray-800 shadow-sm 4xl:text-xl 5xl:text-2xl">
+              {tSignage("page", {
+                from: currentPage * lanesPerPage + 1,
+                to: Math.min((currentPage + 1) * lanesPerPage, lanes.length),
+                total: lanes.length,
+              })}
+            </div>
+          )}
+
           <CardContent
             ref={(el) => {
               if (el) {
@@ -185,77 +296,30 @@ export const Road = React.memo<RoadProps>(
             <div
               className={`relative ${isViewer ? "max-md:min-h-full max-md:flex md:min-w-max md:h-full md:flex md:flex-col" : "min-h-full flex"}`}
             >
-              {/* Road Divider Line - Conditional orientation */}
-              <div
-                className={`absolute z-5 ${
-                  isViewer
-                    ? "max-md:left-1/2 max-md:top-0 max-md:bottom-16 max-md:w-2 max-md:-translate-x-1/2 md:top-1/2 md:left-16 md:h-2 md:-translate-y-1/2 md:w-full"
-                    : "left-1/2 top-0 bottom-16 w-2 -translate-x-1/2"
-                }`}
+              {/* Lanes - Conditional layout, with a divider line between each pair */}
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCorners}
+                onDragEnd={handleDragEnd}
               >
-                {/* Mobile vertical line */}
-                {isViewer && (
-                  <div
-                    className="md:hidden absolute inset-0"
-                    style={{
-                      background: `repeating-linear-gradient(
-                                        to bottom,
-                                        #ffffff 0px,
-                                        #ffffff 20px,
-                                        transparent 20px,
-                                        transparent 40px
-                                    )`,
-                    }}
-                  />
-                )}
-                {/* Desktop horizontal line */}
-                {isViewer && (
-                  <div
-                    className="max-md:hidden absolute inset-0"
-                    style={{
-                      background: `repeating-linear-gradient(
-                                        to right,
-                                        #ffffff 0px,
-                                        #ffffff 20px,
-                                        transparent 20px,
-                                        transparent 40px
-                                    )`,
-                    }}
-                  />
-                )}
-                {/* Non-viewer mode vertical line */}
-                {!isViewer && (
-                  <div
-                    className="absolute inset-0"
-                    style={{
-                      background: `repeating-linear-gradient(
-                                        to bottom,
-                                        #ffffff 0px,
-                                        #ffffff 20px,
-                                        transparent 20px,
-                                        transparent 40px
-                                    )`,
-                    }}
-                  />
-                )}
-              </div>
-
-              {/* Lanes - Conditional layout */}
-              <Lane
-                cars={leftLaneCars}
-                lane="left"
-                mode={mode}
-                onRemoveCar={onRemoveCar}
-                birthdayCarIds={birthdayCarIds}
-              />
-
-              <Lane
-                cars={rightLaneCars}
-                lane="right"
-                mode={mode}
-                onRemoveCar={onRemoveCar}
-                birthdayCarIds={birthdayCarIds}
-              />
+                {visibleLanes.map((lane, index) => (
+                  <React.Fragment key={lane.id}>
+                    {index > 0 && <LaneDivider isViewer={isViewer} />}
+                    <Lane
+                      cars={lane.cars}
+                      lane={lane}
+                      mode={mode}
+                      onRemoveCar={onRemoveCar}
+                      onSetCarStage={onSetCarStage}
+                      onNoShowCar={onNoShowCar}
+                      onToggleStudentReleased={onToggleStudentReleased}
+                      birthdayCarIds={birthdayCarIds}
+                      sortable={canReorder}
+                      pinnedCars={signage?.pinnedCars}
+                    />
+                  </React.Fragment>
+                ))}
+              </DndContext>
 
               {/* Zebra Pattern - Conditional position and orientation */}
               <div
@@ -345,3 +409,58 @@ export const Road = React.memo<RoadProps>(
 );
 
 Road.displayName = "Road";
+
+// Dashed divider drawn between two adjacent lanes
+const LaneDivider = ({ isViewer }: { isViewer: boolean }) => (
+  <div
+    className={`relative z-5 shrink-0 self-stretch ${
+      isViewer ? "max-md:w-2 max-md:mb-16 md:h-2 md:ml-16" : "w-2 mb-16"
+    }`}
+  >
+    {/* Mobile vertical line */}
+    {isViewer && (
+      <div
+        className="md:hidden absolute inset-0"
+        style={{
+          background: `repeating-linear-gradient(
+                            to bottom,
+                            #ffffff 0px,
+                            #ffffff 20px,
+                            transparent 20px,
+                            transparent 40px
+                        )`,
+        }}
+      />
+    )}
+    {/* Desktop horizontal line */}
+    {isViewer && (
+      <div
+        className="max-md:hidden absolute inset-0"
+        style={{
+          background: `repeating-linear-gradient(
+                            to right,
+                            #ffffff 0px,
+                            #ffffff 20px,
+                            transparent 20px,
+                            transparent 40px
+                        )`,
+        }}
+      />
+    )}
+    {/* Non-viewer mode vertical line */}
+    {!isViewer && (
+      <div
+        className="absolute inset-0"
+        style={{
+          background: `repeating-linear-gradient(
+                            to bottom,
+                            #ffffff 0px,
+                            #ffffff 20px,
+                            transparent 20px,
+                            transparent 40px
+                        )`,
+        }}
+      />
+    )}
+  </div>
+);
@@ -1,4 +1,7 @@
 import { Id } from "@/convex/_generated/dataModel"
+import type { LaneDefinition, PickupStage } from "@/convex/types"
+
+export type { LaneDefinition, PickupStage }
 
 export interface StudentData {
     id: string
@@ -7,18 +10,40 @@ export interface StudentData {
     birthday?: string
     imageUrl?: string
     avatarStorageId?: Id<"_storage">
+    releasedAt?: Date // Checked off individually while the car is still in line
+}
+
+export interface VehicleInfo {
+    label: string // e.g. "Mom's SUV"
+    color?: string
+    make?: string
 }
 
 export interface CarData {
     id: string
     carNumber: number
-    lane: 'left' | 'right'
+    lane: string // Lane id from the campus lane definitions
     position: number
     assignedTime: Date
     students: StudentData[] // Updated from studentName to students array
     campus: string
     imageColor: string // Cambio de imageUrl a imageColor
+    vehicle?: VehicleInfo // Family vehicle whose tag was used
+    stage?: PickupStage // Missing means still waiting in line
+    calledAt?: Date
+    loadingAt?: Date
 }
 
-export type LaneType = 'left' | 'right'
+export type LaneType = LaneDefinition['id']
+
+export interface LaneData extends LaneDefinition {
+    cars: CarData[]
+}
 export type ModeType = 'allocator' | 'dispatcher' | 'viewer'
+
+// Wall-mounted display settings for the viewer (rotating lane pages, pinned cars)
+export interface SignageOptions {
+    intervalSeconds: number // Time each page of lanes stays on screen
+    pinnedCars: number // Cars shown per lane, counted from the front
+    lanesPerPage: number
+}
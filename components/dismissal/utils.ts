@@ -1,4 +1,6 @@
-import { CarData } from './types'
+import { MAX_LANES, type Id } from '@/convex/types'
+import { CarData, PickupStage, SignageOptions, VehicleInfo } from './types'
+import { DEFAULT_SIGNAGE_OPTIONS } from './constants'
 
 // Funciones helper memoizadas fuera del componente
 export const formatTime = (date: Date): string => {
@@ -24,6 +26,106 @@ export const getCarColor = (carNumber: number): string => {
     return colors[carNumber % colors.length]
 }
 
+// Color helpers for lanes configured per campus (hex colors)
+export const withAlpha = (hex: string, alpha: number): string => {
+    const channel = Math.round(Math.min(1, Math.max(0, alpha)) * 255)
+    return `${hex}${channel.toString(16).padStart(2, '0')}`
+}
+
+export const getLaneColorStyles = (color: string) => ({
+    badge: { backgroundColor: color },
+    background: { backgroundColor: withAlpha(color, 0.2) },
+    text: { color }
+})
+
+// Countdown formatter for the dismissal window banner (h:mm:ss or mm:ss)
+export const formatCountdown = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+    const hours = Math.floor(totalSeconds / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+    return hours > 0 ? `${hours}:${mmss}` : mmss
+}
+
+// Signage settings from the viewer URL (?signage&interval=15&cars=4&lanes=2), null when signage is off
+export const parseSignageOptions = (
+    params: Record<string, string | string[] | undefined>
+): SignageOptions | null => {
+    if (params.signage === undefined) return null
+
+    const readNumber = (key: string, fallback: number, min: number, max: number): number => {
+        const raw = params[key]
+        const value = Number(Array.isArray(raw) ? raw[0] : raw)
+        return Number.isFinite(value) && value > 0
+            ? Math.min(max, Math.max(min, Math.floor(value)))
+            : fallback
+    }
+
+    return {
+        intervalSeconds: readNumber('interval', DEFAULT_SIGNAGE_OPTIONS.intervalSeconds, 5, 300),
+        pinnedCars: readNumber('cars', DEFAULT_SIGNAGE_OPTIONS.pinnedCars, 1, 20),
+        lanesPerPage: readNumber('lanes', DEFAULT_SIGNAGE_OPTIONS.lanesPerPage, 1, MAX_LANES)
+    }
+}
+
+// Fill a campus announcement template ("Car {carNumber}, {students}, {lane}"), unknown placeholders stay as-is
+export const formatAnnouncement = (template: string, values: Record<string, string | number>): string => {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+        key in values ? String(values[key]) : match
+    )
+}
+
+// Queue entry as returned by the queue queries (operators and kiosk displays)
+export interface QueueEntryPayload {
+    _id: string
+    carNumber: number
+    lane: string
+    position: number
+    assignedTime: number
+    students: Array<{ studentId: string; name: string; grade: string; avatarUrl?: string; avatarStorageId?: Id<"_storage">; birthday?: string; releasedAt?: number }>
+    campusLocation: string
+    carColor: string
+    vehicle?: { label: string; color?: string; make?: string }
+    stage?: PickupStage
+    calledAt?: number
+    loadingAt?: number
+}
+
+// "Mom's SUV · Grey Honda Odyssey"
+export const formatVehicle = (vehicle: VehicleInfo): string => {
+    const description = [vehicle.color, vehicle.make].filter(Boolean).join(' ')
+    return description ? `${vehicle.label} · ${description}` : vehicle.label
+}
+
+// Transform a Convex queue entry to the CarData used by the road
+export const transformQueueEntry = (entry: QueueEntryPayload): CarData => {
+    return {
+        id: entry._id,
+        carNumber: entry.carNumber,
+        lane: entry.lane,
+        position: entry.position,
+        assignedTime: new Date(entry.assignedTime),
+        students: entry.students.map((s) => ({
+            id: s.studentId,
+            name: s.name,
+            grade: s.grade,
+            imageUrl: s.avatarUrl,
+            avatarStorageId: s.avatarStorageId,
+            birthday: s.birthday,
+            releasedAt: s.releasedAt ? new Date(s.releasedAt) : undefined,
+        })),
+        campus: entry.campusLocation,
+        imageColor: entry.carColor,
+        vehicle: entry.vehicle
+            ? { label: entry.vehicle.label, color: entry.vehicle.color, make: entry.vehicle.make }
+            : undefined,
+        stage: entry.stage,
+        calledAt: entry.calledAt ? new Date(entry.calledAt) : undefined,
+        loadingAt: entry.loadingAt ? new Date(entry.loadingAt) : undefined
+    }
+}
+
 export const getConsistentTime = (carNumber: number): Date => {
     const baseTime = new Date('2024-01-01T09:00:00')
     baseTime.setMinutes(baseTime.getMinutes() + (carNumber % 30))
@@ -86,9 +86,17 @@ const ROUTE_CONFIG: Record<string, RouteConfig> = {
 
 // Routes that don't need translation (static labels)
 const STATIC_ROUTES: Record<string, string> = {
+  audit: "Audit Log",
   campuses: "Campuses",
+  displays: "Displays",
+  "arrival-tags": "Gate Tags",
+  "api-keys": "API Keys",
+  webhooks: "Webhooks",
+  families: "Families",
+  guardians: "Guardians",
   management: "Management",
   operators: "Operators",
+  replay: "Queue Replay",
 };
 
 // Helper to detect if a segment is a Convex ID
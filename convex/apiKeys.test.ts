@@ -0,0 +1,43 @@
+// convex/apiKeys.test.ts
+
+import { describe, expect, test } from "vitest";
+import { api, internal } from "./_generated/api";
+import { hashSecretToken } from "./helpers";
+import { seedCampus, seedUser, setupConvex } from "./test.setup";
+
+async function seedCampusKey() {
+    const t = setupConvex();
+    const campusId = await seedCampus(t, "North");
+    const principal = await seedUser(t, "principal", [campusId]);
+    const { key } = await principal.as.mutation(api.apiKeys.create, {
+        campusId,
+        name: "Gate reader",
+        scopes: ["queue:write"]
+    });
+    const authorize = async () =>
+        await t.mutation(internal.apiKeys.authorize, { keyHash: await hashSecretToken(key), scope: "queue:write" });
+    return { t, campusId, principal, authorize };
+}
+
+describe("authorize", () => {
+    test("accepts a key while its creator can allocate at the campus", async () => {
+        const { campusId, authorize } = await seedCampusKey();
+
+        expect(await authorize()).toMatchObject({ campusId, campus: "North" });
+    });
+
+    test("rejects a key whose creator can no longer allocate", async () => {
+        const { t, principal, authorize } = await seedCampusKey();
+        await t.run(async (ctx) => ctx.db.patch(principal.userId, { role: "viewer" }));
+
+        expect(await authorize()).toBeNull();
+    });
+
+    test("rejects a key whose creator left the campus", async () => {
+        const { t, principal, authorize } = await seedCampusKey();
+        const southId = await seedCampus(t, "South");
+        await t.run(async (ctx) => ctx.db.patch(principal.userId, { assignedCampuses: [southId] }));
+
+        expect(await authorize()).toBeNull();
+    });
+});
@@ -0,0 +1,250 @@
+// convex/apiKeys.ts
+
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import {
+    API_KEY_LAST_USED_RESOLUTION_MS,
+    API_KEY_SCOPES,
+    apiKeyScopeValidator,
+} from "./types";
+import {
+    createAuditLog,
+    generateSecretToken,
+    hashSecretToken,
+    userCanAllocate,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * List API keys for a campus (principal/admin/superadmin)
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { keys: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { keys: [], authState: "forbidden" };
+            }
+
+            const keys = await ctx.db
+                .query("apiKeys")
+                .withIndex("by_campus", (q) => q.eq("campusId", args.campusId))
+                .order("desc")
+                .collect();
+
+            // Never send hashes to the client
+            return {
+                keys: keys.map((key) => ({
+                    _id: key._id,
+                    name: key.name,
+                    keyPreview: key.keyPreview,
+                    scopes: key.scopes,
+                    createdAt: key.createdAt,
+                    rotatedAt: key.rotatedAt,
+                    lastUsedAt: key.lastUsedAt,
+                    revokedAt: key.revokedAt
+                })),
+                authState: "authenticated"
+            };
+        } catch {
+            return { keys: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Create an API key for a campus
+ * Returns the plain key once, only its hash is stored
+ */
+export const create = mutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        name: v.string(),
+        scopes: v.array(apiKeyScopeValidator)
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        if (!userHasAccessToCampusById(user, args.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) throw new Error("Campus not found");
+
+        const name = args.name.trim();
+        if (!name) throw new Error("API key name is required");
+
+        const scopes = API_KEY_SCOPES.filter((scope) => args.scopes.includes(scope));
+        if (scopes.length === 0) throw new Error("Select at least one scope");
+
+        const key = generateSecretToken("key");
+        const apiKeyId = await ctx.db.insert("apiKeys", {
+            campusId: args.campusId,
+            name,
+            keyHash: await hashSecretToken(key),
+            keyPreview: key.slice(-6),
+            scopes,
+            createdBy: user._id,
+            createdAt: Date.now()
+        });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "api_key_created",
+            {
+                targetType: "api_key",
+                targetId: apiKeyId,
+                campus: campus.campusName,
+                after: { name, scopes, keyPreview: key.slice(-6) }
+            }
+        );
+
+        return { apiKeyId, key };
+    }
+});
+
+/**
+ * Replace the secret of an API key, the previous key stops working immediately
+ * Returns the new plain key once
+ */
+export const rotate = mutation({
+    args: {
+        apiKeyId: v.id("apiKeys")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const apiKey = await ctx.db.get(args.apiKeyId);
+        if (!apiKey) throw new Error("API key not found");
+        if (!userHasAccessToCampusById(user, apiKey.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+        if (apiKey.revokedAt) throw new Error("Revoked API keys cannot be rotated");
+
+        const key = generateSecretToken("key");
+        await ctx.db.patch(args.apiKeyId, {
+            keyHash: await hashSecretToken(key),
+            keyPreview: key.slice(-6),
+            rotatedAt: Date.now()
+        });
+
+        const campus = await ctx.db.get(apiKey.campusId);
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "api_key_rotated",
+            {
+                targetType: "api_key",
+                targetId: args.apiKeyId,
+                campus: campus?.campusName,
+                before: { keyPreview: apiKey.keyPreview },
+                after: { keyPreview: key.slice(-6) },
+                metadata: { name: apiKey.name }
+            }
+        );
+
+        return { apiKeyId: args.apiKeyId, key };
+    }
+});
+
+/**
+ * Revoke an API key, integrations using it are rejected immediately
+ */
+export const revoke = mutation({
+    args: {
+        apiKeyId: v.id("apiKeys")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const apiKey = await ctx.db.get(args.apiKeyId);
+        if (!apiKey) throw new Error("API key not found");
+        if (!userHasAccessToCampusById(user, apiKey.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+        if (apiKey.revokedAt) return args.apiKeyId;
+
+        await ctx.db.patch(args.apiKeyId, {
+            revokedAt: Date.now(),
+            revokedBy: user._id
+        });
+
+        const campus = await ctx.db.get(apiKey.campusId);
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "api_key_revoked",
+            {
+                targetType: "api_key",
+                targetId: args.apiKeyId,
+                campus: campus?.campusName,
+                metadata: { name: apiKey.name, keyPreview: apiKey.keyPreview, scopes: apiKey.scopes }
+            }
+        );
+
+        return args.apiKeyId;
+    }
+});
+
+/**
+ * Resolve a hashed API key for validateApiKeyAccess and record its use
+ * Keys stop working when revoked, when their campus is deactivated, or when
+ * the user who created them is no longer active, can no longer allocate, or
+ * lost access to the campus
+ */
+export const authorize = internalMutation({
+    args: {
+        keyHash: v.string(),
+        scope: apiKeyScopeValidator
+    },
+    handler: async (ctx, args) => {
+        const apiKey = await ctx.db
+            .query("apiKeys")
+            .withIndex("by_key_hash", (q) => q.eq("keyHash", args.keyHash))
+            .first();
+        if (!apiKey || apiKey.revokedAt || !apiKey.scopes.includes(args.scope)) {
+            return null;
+        }
+
+        const campus = await ctx.db.get(apiKey.campusId);
+        const creator = await ctx.db.get(apiKey.createdBy);
+        if (!campus || !campus.isActive || !creator || !creator.isActive) {
+            return null;
+        }
+        // A key acts with its creator's current rights, not the ones they had when creating it
+        if (
+            !creator.role ||
+            !userCanAllocate(creator.role, creator.operatorPermissions) ||
+            !userHasAccessToCampusById(creator, campus._id, creator.role)
+        ) {
+            return null;
+        }
+
+        const now = Date.now();
+        if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt >= API_KEY_LAST_USED_RESOLUTION_MS) {
+            await ctx.db.patch(apiKey._id, { lastUsedAt: now });
+        }
+
+        return {
+            apiKeyId: apiKey._id,
+            campusId: campus._id,
+            campus: campus.campusName
+        };
+    }
+});
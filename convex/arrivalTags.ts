@@ -0,0 +1,164 @@
+// convex/arrivalTags.ts
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { arrivalTagKindValidator } from "./types";
+import {
+    createAuditLog,
+    normalizeArrivalTag,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * List the plates and RFID tags registered for a campus (principal/admin/superadmin)
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { tags: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { tags: [], authState: "forbidden" };
+            }
+
+            const tags = await ctx.db
+                .query("arrivalTags")
+                .withIndex("by_campus", (q) => q.eq("campusId", args.campusId))
+                .collect();
+
+            return {
+                tags: tags.sort((a, b) => a.carNumber - b.carNumber || a.tag.localeCompare(b.tag)),
+                authState: "authenticated"
+            };
+        } catch {
+            return { tags: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Register a plate or RFID tag for a family car number, or update an existing one
+ */
+export const save = mutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        tagId: v.optional(v.id("arrivalTags")),
+        tag: v.string(),
+        kind: arrivalTagKindValidator,
+        carNumber: v.number(),
+        label: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        if (!userHasAccessToCampusById(user, args.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) throw new Error("Campus not found");
+
+        const tag = normalizeArrivalTag(args.tag);
+        if (!tag) throw new Error("Tag is required");
+        if (!Number.isInteger(args.carNumber) || args.carNumber <= 0) {
+            throw new Error("Invalid car number");
+        }
+
+        const existing = args.tagId ? await ctx.db.get(args.tagId) : null;
+        if (args.tagId && (!existing || existing.campusId !== args.campusId)) {
+            throw new Error("Tag not found");
+        }
+
+        const duplicate = await ctx.db
+            .query("arrivalTags")
+            .withIndex("by_campus_tag", (q) => q.eq("campusId", args.campusId).eq("tag", tag))
+            .first();
+        if (duplicate && duplicate._id !== args.tagId) {
+            throw new Error(`Tag ${tag} is already registered for car ${duplicate.carNumber}`);
+        }
+
+        const now = Date.now();
+        const fields = {
+            tag,
+            kind: args.kind,
+            carNumber: args.carNumber,
+            label: args.label?.trim() || undefined,
+            updatedAt: now
+        };
+
+        let tagId: Id<"arrivalTags">;
+        if (existing) {
+            tagId = existing._id;
+            await ctx.db.patch(existing._id, fields);
+        } else {
+            tagId = await ctx.db.insert("arrivalTags", {
+                ...fields,
+                campusId: args.campusId,
+                createdBy: user._id,
+                createdAt: now
+            });
+        }
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            existing ? "arrival_tag_updated" : "arrival_tag_created",
+            {
+                targetType: "arrival_tag",
+                targetId: tagId,
+                campus: campus.campusName,
+                before: existing ?? undefined,
+                after: fields
+            }
+        );
+
+        return tagId;
+    }
+});
+
+/**
+ * Remove a tag, the gate reader stops queueing that car immediately
+ */
+export const remove = mutation({
+    args: {
+        tagId: v.id("arrivalTags")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const arrivalTag = await ctx.db.get(args.tagId);
+        if (!arrivalTag) throw new Error("Tag not found");
+        if (!userHasAccessToCampusById(user, arrivalTag.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        await ctx.db.delete(args.tagId);
+
+        const campus = await ctx.db.get(arrivalTag.campusId);
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "arrival_tag_deleted",
+            {
+                targetType: "arrival_tag",
+                targetId: args.tagId,
+                campus: campus?.campusName,
+                before: arrivalTag
+            }
+        );
+
+        return args.tagId;
+    }
+});
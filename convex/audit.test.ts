@@ -0,0 +1,105 @@
+// convex/audit.test.ts
+
+import { describe, expect, test } from "vitest";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "./_generated/api";
+import type { AuditAction } from "./types";
+import { seedCampus, seedUser, setupConvex, type TestConvex } from "./test.setup";
+
+/**
+ * Follow the cursor to the end, the way "Load more" does
+ */
+async function listAll(
+    client: Pick<TestConvex, "query">,
+    pageSize: number,
+    args: { campus?: string; action?: AuditAction } = {}
+) {
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+    for (;;) {
+        const result: FunctionReturnType<typeof api.audit.list> = await client.query(api.audit.list, { ...args, paginationOpts: { numItems: pageSize, cursor } });
+        pages.push(result.page.map((entry) => entry.targetId ?? ""));
+        if (result.isDone) return pages;
+        cursor = result.continueCursor;
+    }
+}
+
+async function seedAuditTrail() {
+    const t = setupConvex();
+    const northId = await seedCampus(t, "North");
+    const southId = await seedCampus(t, "South");
+    await seedCampus(t, "East");
+    const principal = await seedUser(t, "principal", [northId, southId]);
+    const superadmin = await seedUser(t, "superadmin");
+
+    // Oldest first: three North entries, two South, one East and one without a campus
+    const rows: Array<[string | undefined, AuditAction, string]> = [
+        ["North", "car_added_to_queue", "n1"],
+        ["South", "car_added_to_queue", "s1"],
+        ["North", "car_removed_from_queue", "n2"],
+        ["East", "car_added_to_queue", "e1"],
+        ["South", "student_updated", "s2"],
+        [undefined, "user_created", "u1"],
+        ["North", "car_added_to_queue", "n3"]
+    ];
+    await t.run(async (ctx) => {
+        for (const [index, [campusLocation, action, targetId]] of rows.entries()) {
+            await ctx.db.insert("auditLogs", {
+                userId: principal.userId,
+                username: principal.email,
+                userRole: "principal",
+                action,
+                targetType: "queue",
+                targetId,
+                campusLocation,
+                timestamp: 1_000 + index
+            });
+        }
+    });
+
+    return { t, principal, superadmin };
+}
+
+describe("audit.list", () => {
+    test("principals page through their campuses one after the other", async () => {
+        const { principal } = await seedAuditTrail();
+
+        expect(await listAll(principal.as, 2)).toEqual([
+            ["n3", "n2"],
+            ["n1"],
+            ["s2", "s1"],
+            []
+        ]);
+    });
+
+    test("principals can narrow to one campus and an action", async () => {
+        const { principal } = await seedAuditTrail();
+
+        expect(await listAll(principal.as, 10, { campus: "North", action: "car_added_to_queue" })).toEqual([
+            ["n3", "n1"]
+        ]);
+    });
+
+    test("principals can't read another campus", async () => {
+        const { principal } = await seedAuditTrail();
+
+        const result = await principal.as.query(api.audit.list, {
+            campus: "East",
+            paginationOpts: { numItems: 10, cursor: null }
+        });
+
+        expect(result).toMatchObject({ page: [], isDone: true, authState: "forbidden" });
+    });
+
+    test("superadmins page through every entry, newest first", async () => {
+        const { superadmin } = await seedAuditTrail();
+
+        expect((await listAll(superadmin.as, 3)).flat()).toEqual(["n3", "u1", "s2", "e1", "n2", "s1", "n1"]);
+        expect((await listAll(superadmin.as, 3, { action: "car_added_to_queue" })).flat()).toEqual([
+            "n3",
+            "e1",
+            "s1",
+            "n1"
+        ]);
+    });
+});
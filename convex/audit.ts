@@ -0,0 +1,168 @@
+// convex/audit.ts
+
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query } from "./_generated/server";
+import { auditActionValidator, auditTargetTypeValidator } from "./types";
+import { validateUserAccess } from "./helpers";
+
+/**
+ * Cursor over several campuses read one after the other: "<campus index>:<index cursor>"
+ * An empty index cursor starts that campus from its newest entry
+ */
+function encodeCampusCursor(campusIndex: number, cursor: string | null): string {
+    return `${campusIndex}:${cursor ?? ""}`;
+}
+
+function decodeCampusCursor(cursor: string | null | undefined): { campusIndex: number; cursor: string | null } {
+    if (!cursor) return { campusIndex: 0, cursor: null };
+    const separator = cursor.indexOf(":");
+    return {
+        campusIndex: Number(cursor.slice(0, separator)),
+        cursor: cursor.slice(separator + 1) || null
+    };
+}
+
+/**
+ * List audit entries with filtering options (newest first), one page at a time
+ * Principals only see entries for their assigned campuses, read campus by campus
+ * through the campus index; entries without a campus (staff and Clerk sync
+ * changes) are visible to superadmins only
+ */
+export const list = query({
+    args: {
+        paginationOpts: paginationOptsValidator,
+        campus: v.optional(v.string()),
+        userId: v.optional(v.id("users")),
+        action: v.optional(auditActionValidator),
+        targetType: v.optional(auditTargetTypeValidator),
+        targetId: v.optional(v.string()),
+        from: v.optional(v.number()),
+        to: v.optional(v.number())
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return {
+                page: [],
+                isDone: true,
+                continueCursor: "",
+                authState: "unauthenticated"
+            };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(
+                ctx,
+                ["principal", "admin", "superadmin"],
+                args.campus
+            );
+
+            const from = args.from ?? 0;
+            const to = args.to ?? Number.MAX_SAFE_INTEGER;
+
+            // Superadmins without a campus filter read every entry through the most selective index
+            if (role === "superadmin" && !args.campus) {
+                const auditLogs = ctx.db.query("auditLogs");
+                let indexed;
+                if (args.userId) {
+                    indexed = auditLogs.withIndex("by_user_time", (q) =>
+                        q.eq("userId", args.userId).gte("timestamp", from).lte("timestamp", to)
+                    );
+                } else if (args.action) {
+                    const action = args.action;
+                    indexed = auditLogs.withIndex("by_action_time", (q) =>
+                        q.eq("action", action).gte("timestamp", from).lte("timestamp", to)
+                    );
+                } else {
+                    // Entries are stamped on insert, so creation time orders them like timestamp
+                    indexed = auditLogs.withIndex("by_creation_time", (q) =>
+                        q.gte("_creationTime", from).lte("_creationTime", to)
+                    );
+                }
+
+                const result = await indexed
+                    .order("desc")
+                    .filter((q) =>
+                        q.and(
+                            args.action ? q.eq(q.field("action"), args.action) : true,
+                            args.targetType ? q.eq(q.field("targetType"), args.targetType) : true,
+                            args.targetId ? q.eq(q.field("targetId"), args.targetId) : true
+                        )
+                    )
+                    .paginate(args.paginationOpts);
+
+                return { ...result, authState: "authenticated" };
+            }
+
+            // Everyone else reads one campus at a time
+            let campusNames: string[];
+            if (args.campus) {
+                campusNames = [args.campus];
+            } else {
+                const campuses = await Promise.all(
+                    user.assignedCampuses.map((campusId) => ctx.db.get(campusId))
+                );
+                campusNames = campuses.flatMap((campus) => (campus ? [campus.campusName] : []));
+            }
+
+            const start = decodeCampusCursor(args.paginationOpts.cursor);
+            const campus = campusNames[start.campusIndex];
+            if (campus === undefined) {
+                return {
+                    page: [],
+                    isDone: true,
+                    continueCursor: encodeCampusCursor(start.campusIndex, null),
+                    authState: "authenticated"
+                };
+            }
+
+            // usePaginatedQuery sets an end cursor when it splits a page, which never
+            // crosses into the next campus; paginate reads it even though it isn't typed
+            const end = decodeCampusCursor(args.paginationOpts.endCursor);
+            const paginationOpts = {
+                ...args.paginationOpts,
+                cursor: start.cursor,
+                endCursor: args.paginationOpts.endCursor && end.campusIndex === start.campusIndex
+                    ? end.cursor
+                    : undefined
+            };
+            const result = await ctx.db
+                .query("auditLogs")
+                .withIndex("by_campus_time", (q) =>
+                    q.eq("campusLocation", campus).gte("timestamp", from).lte("timestamp", to)
+                )
+                .order("desc")
+                .filter((q) =>
+                    q.and(
+                        args.userId ? q.eq(q.field("userId"), args.userId) : true,
+                        args.action ? q.eq(q.field("action"), args.action) : true,
+                        args.targetType ? q.eq(q.field("targetType"), args.targetType) : true,
+                        args.targetId ? q.eq(q.field("targetId"), args.targetId) : true
+                    )
+                )
+                .paginate(paginationOpts);
+
+            // Once a campus runs out, the next page starts the following campus
+            const hasNextCampus = start.campusIndex + 1 < campusNames.length;
+            return {
+                ...result,
+                isDone: result.isDone && !hasNextCampus,
+                continueCursor: result.isDone && hasNextCampus
+                    ? encodeCampusCursor(start.campusIndex + 1, null)
+                    : encodeCampusCursor(start.campusIndex, result.continueCursor),
+                splitCursor: result.splitCursor
+                    ? encodeCampusCursor(start.campusIndex, result.splitCursor)
+                    : result.splitCursor,
+                authState: "authenticated"
+            };
+        } catch {
+            return {
+                page: [],
+                isDone: true,
+                continueCursor: "",
+                authState: "forbidden"
+            };
+        }
+    }
+});
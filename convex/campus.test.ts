@@ -0,0 +1,94 @@
+// convex/campus.test.ts
+
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { getLatestAuditLog, seedCampus, seedStorageFile, seedUser, setupConvex } from "./test.setup";
+
+async function seedCampusOffice() {
+    const t = setupConvex();
+    const campusId = await seedCampus(t, "North");
+    const principal = await seedUser(t, "principal", [campusId]);
+    const superadmin = await seedUser(t, "superadmin");
+    return { t, campusId, principal, superadmin };
+}
+
+describe("campus mutations write an audit entry", () => {
+    test("create", async () => {
+        const { t, superadmin } = await seedCampusOffice();
+
+        const campusId = await superadmin.as.mutation(api.campus.create, {
+            campusName: " South ",
+            timezone: "America/Chicago"
+        });
+
+        expect(await getLatestAuditLog(t, "campus_created")).toMatchObject({
+            userId: superadmin.userId,
+            targetType: "campus",
+            targetId: campusId,
+            campusLocation: "South",
+            details: { after: { campusName: "South", timezone: "America/Chicago" } }
+        });
+    });
+
+    test("update", async () => {
+        const { t, campusId, principal } = await seedCampusOffice();
+
+        await principal.as.mutation(api.campus.update, {
+            campusId,
+            updates: { description: "Main building" }
+        });
+
+        expect(await getLatestAuditLog(t, "campus_updated")).toMatchObject({
+            userId: principal.userId,
+            targetType: "campus",
+            targetId: campusId,
+            campusLocation: "North",
+            details: {
+                before: { campusName: "North" },
+                after: { campusName: "North", description: "Main building" }
+            }
+        });
+    });
+
+    test("deleteCampus", async () => {
+        const { t, campusId, superadmin } = await seedCampusOffice();
+
+        await superadmin.as.mutation(api.campus.deleteCampus, { campusId });
+
+        expect(await getLatestAuditLog(t, "campus_deleted")).toMatchObject({
+            targetType: "campus",
+            targetId: campusId,
+            campusLocation: "North",
+            details: { before: { campusName: "North" } }
+        });
+    });
+
+    test("saveCampusLogo", async () => {
+        const { t, campusId, principal } = await seedCampusOffice();
+        const storageId = await seedStorageFile(t);
+
+        await principal.as.mutation(api.campus.saveCampusLogo, { campusId, storageId });
+
+        const log = await getLatestAuditLog(t, "campus_logo_updated");
+        expect(log).toMatchObject({
+            targetType: "campus",
+            targetId: campusId,
+            details: { after: { logoStorageId: storageId } }
+        });
+        expect(log?.details.before).toEqual({ logoStorageId: undefined });
+    });
+
+    test("deleteCampusLogo", async () => {
+        const { t, campusId, principal } = await seedCampusOffice();
+        const storageId = await seedStorageFile(t);
+        await t.run(async (ctx) => ctx.db.patch(campusId, { logoStorageId: storageId }));
+
+        await principal.as.mutation(api.campus.deleteCampusLogo, { campusId });
+
+        expect(await getLatestAuditLog(t, "campus_logo_removed")).toMatchObject({
+            targetType: "campus",
+            targetId: campusId,
+            details: { before: { logoStorageId: storageId } }
+        });
+    });
+});
@@ -5,9 +5,22 @@ import { mutation, query } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import type { DismissalRole } from "../lib/role-utils";
 import {
+    kioskPrivacyValidator,
+    laneDefinitionValidator,
+    PARENT_NOTIFICATION_LONG_WAIT_LIMITS,
+    parentNotificationsValidator,
+    type ParentNotificationsSettings,
+} from "./types";
+import {
+    createAuditLog,
     getActiveCampuses,
+    getCampusLanes,
     getCampusSettings,
     getCampusGrades,
+    getCampusLocalTime,
+    isValidTimezone,
+    normalizeLaneDefinitions,
+    parseTimeOfDay,
     validateUserAccess,
     userHasAccessToCampusById,
 } from "./helpers";
@@ -28,6 +41,54 @@ function filterCampusesForUser(
     return campuses.filter((campus) => assigned.has(campus._id));
 }
 
+function normalizeDismissalSchedule(schedule: {
+    timezone?: string;
+    dismissalStartTime?: string;
+    dismissalEndTime?: string;
+    queueResetTime?: string;
+}) {
+    const timezone = schedule.timezone?.trim();
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+        throw new Error(`Invalid timezone: ${timezone}`);
+    }
+
+    // Empty strings clear the window (queue is always open)
+    const start = schedule.dismissalStartTime?.trim() || undefined;
+    const end = schedule.dismissalEndTime?.trim() || undefined;
+    if (!start !== !end) {
+        throw new Error("Dismissal start and end times must be set together");
+    }
+    if (start && end) {
+        const startMinutes = parseTimeOfDay(start);
+        const endMinutes = parseTimeOfDay(end);
+        if (startMinutes === null || endMinutes === null) {
+            throw new Error("Dismissal times must use the HH:MM format");
+        }
+        if (startMinutes >= endMinutes) {
+            throw new Error("Dismissal start time must be before the end time");
+        }
+    }
+
+    // Empty reset time falls back to midnight
+    const queueResetTime = schedule.queueResetTime?.trim() || undefined;
+    if (queueResetTime && parseTimeOfDay(queueResetTime) === null) {
+        throw new Error("Queue reset time must use the HH:MM format");
+    }
+
+    return { timezone, dismissalStartTime: start, dismissalEndTime: end, queueResetTime };
+}
+
+function normalizeParentNotifications(
+    settings: ParentNotificationsSettings
+): ParentNotificationsSettings {
+    const { min, max } = PARENT_NOTIFICATION_LONG_WAIT_LIMITS;
+    const minutes = settings.longWaitMinutes;
+    if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < min || minutes > max)) {
+        throw new Error(`Long wait threshold must be between ${min} and ${max} minutes`);
+    }
+    return { enabled: settings.enabled, longWaitMinutes: minutes };
+}
+
 function assertCampusAccess(
     user: CampusUser,
     role: DismissalRole,
@@ -199,9 +260,19 @@ export const create = mutation({
                 }),
             ),
         ),
+        lanes: v.optional(v.array(laneDefinitionValidator)),
+        timezone: v.optional(v.string()),
+        dismissalStartTime: v.optional(v.string()),
+        dismissalEndTime: v.optional(v.string()),
+        queueResetTime: v.optional(v.string()),
+        allowCrossCampusCalls: v.optional(v.boolean()),
+        announcementTemplate: v.optional(v.string()),
+        announcementVoice: v.optional(v.string()),
+        kioskPrivacy: v.optional(kioskPrivacyValidator),
+        parentNotifications: v.optional(parentNotificationsValidator),
     },
     handler: async (ctx, args) => {
-        const { user } = await validateUserAccess(ctx, ["superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["superadmin"]);
         const userId = user._id;
 
         // Validate required fields
@@ -218,14 +289,17 @@ export const create = mutation({
             throw new Error("Campus already exists");
         }
 
+        const schedule = normalizeDismissalSchedule(args);
+
         // Create campus
         const campusId = await ctx.db.insert("campusSettings", {
             campusName: args.campusName.trim(),
             description: args.description,
             code: args.code,
-            timezone: "America/New_York", // Default timezone
-            dismissalStartTime: undefined,
-            dismissalEndTime: undefined,
+            timezone: schedule.timezone || "America/New_York", // Default timezone
+            dismissalStartTime: schedule.dismissalStartTime,
+            dismissalEndTime: schedule.dismissalEndTime,
+            queueResetTime: schedule.queueResetTime,
             logoStorageId: args.logoStorageId,
             directorId: args.directorId,
             directorName: args.directorName,
@@ -233,8 +307,16 @@ export const create = mutation({
             directorPhone: args.directorPhone,
             address: args.address,
             availableGrades: args.availableGrades,
+            lanes: args.lanes ? normalizeLaneDefinitions(args.lanes) : undefined,
             allowMultipleStudentsPerCar: true, // Always true
             requireCarNumber: true, // Always true
+            allowCrossCampusCalls: args.allowCrossCampusCalls,
+            announcementTemplate: args.announcementTemplate?.trim() || undefined,
+            announcementVoice: args.announcementVoice || undefined,
+            kioskPrivacy: args.kioskPrivacy,
+            parentNotifications: args.parentNotifications
+                ? normalizeParentNotifications(args.parentNotifications)
+                : undefined,
             isActive: true,
             status: "active",
             createdAt: Date.now(),
@@ -248,6 +330,20 @@ export const create = mutation({
             },
         });
 
+        await createAuditLog(
+            ctx.db,
+            userId,
+            identity.email || user.email,
+            role,
+            "campus_created",
+            {
+                targetType: "campus",
+                targetId: campusId,
+                campus: args.campusName.trim(),
+                after: await ctx.db.get(campusId)
+            }
+        );
+
         return campusId;
     },
 });
@@ -286,6 +382,16 @@ export const update = mutation({
                     }),
                 ),
             ),
+            lanes: v.optional(v.array(laneDefinitionValidator)),
+            timezone: v.optional(v.string()),
+            dismissalStartTime: v.optional(v.string()),
+            dismissalEndTime: v.optional(v.string()),
+            queueResetTime: v.optional(v.string()),
+            allowCrossCampusCalls: v.optional(v.boolean()),
+            announcementTemplate: v.optional(v.string()),
+            announcementVoice: v.optional(v.string()),
+            kioskPrivacy: v.optional(kioskPrivacyValidator),
+            parentNotifications: v.optional(parentNotificationsValidator),
             status: v.optional(
                 v.union(
                     v.literal("active"),
@@ -296,7 +402,7 @@ export const update = mutation({
         }),
     },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
         const userId = user._id;
 
         if (!isSuperadmin(role) && !user.assignedCampuses.includes(args.campusId)) {
@@ -315,6 +421,17 @@ export const update = mutation({
             updates.campusName = updates.campusName.trim();
         }
 
+        // Empty announcement settings go back to the localized defaults
+        if (updates.announcementTemplate !== undefined) {
+            updates.announcementTemplate = updates.announcementTemplate.trim() || undefined;
+        }
+        if (updates.announcementVoice !== undefined) {
+            updates.announcementVoice = updates.announcementVoice || undefined;
+        }
+        if (updates.parentNotifications !== undefined) {
+            updates.parentNotifications = normalizeParentNotifications(updates.parentNotifications);
+        }
+
         // Convert null to undefined for optional fields
         if (updates.logoStorageId === null) {
             updates.logoStorageId = undefined;
@@ -331,12 +448,66 @@ export const update = mutation({
             updates.availableGrades = undefined;
         }
 
+        // Dismissal window is validated as a whole (both times or neither)
+        if (
+            updates.timezone !== undefined ||
+            updates.dismissalStartTime !== undefined ||
+            updates.dismissalEndTime !== undefined ||
+            updates.queueResetTime !== undefined
+        ) {
+            const schedule = normalizeDismissalSchedule({
+                timezone: updates.timezone,
+                dismissalStartTime: updates.dismissalStartTime ?? campus.dismissalStartTime,
+                dismissalEndTime: updates.dismissalEndTime ?? campus.dismissalEndTime,
+                queueResetTime: updates.queueResetTime ?? campus.queueResetTime,
+            });
+            if (schedule.timezone !== undefined) {
+                updates.timezone = schedule.timezone;
+            }
+            updates.dismissalStartTime = schedule.dismissalStartTime;
+            updates.dismissalEndTime = schedule.dismissalEndTime;
+            updates.queueResetTime = schedule.queueResetTime;
+        }
+
+        // Lanes can only be removed once no cars are waiting in them
+        if (updates.lanes !== undefined) {
+            updates.lanes = normalizeLaneDefinitions(updates.lanes);
+            const keptLaneIds = new Set(updates.lanes.map((lane: { id: string }) => lane.id));
+            const waiting = await ctx.db
+                .query("dismissalQueue")
+                .withIndex("by_campus_status", (q) =>
+                    q.eq("campusLocation", campus.campusName).eq("status", "waiting")
+                )
+                .collect();
+            const blockedLane = getCampusLanes(campus).find((lane) =>
+                !keptLaneIds.has(lane.id) && waiting.some((entry) => entry.lane === lane.id)
+            );
+            if (blockedLane) {
+                throw new Error(`Cannot remove lane "${blockedLane.name}" while cars are waiting in it`);
+            }
+        }
+
         await ctx.db.patch(args.campusId, {
             ...updates,
             updatedAt: Date.now(),
             updatedBy: userId,
         });
 
+        await createAuditLog(
+            ctx.db,
+            userId,
+            identity.email || user.email,
+            role,
+            "campus_updated",
+            {
+                targetType: "campus",
+                targetId: args.campusId,
+                campus: campus.campusName,
+                before: campus,
+                after: await ctx.db.get(args.campusId)
+            }
+        );
+
         return args.campusId;
     },
 });
@@ -348,7 +519,7 @@ export const update = mutation({
 export const deleteCampus = mutation({
     args: { campusId: v.id("campusSettings") },
     handler: async (ctx, args) => {
-        await validateUserAccess(ctx, ["superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["superadmin"]);
 
         // Get the campus to verify it exists and check for logo
         const campus = await ctx.db.get(args.campusId);
@@ -364,6 +535,20 @@ export const deleteCampus = mutation({
 
         // Delete the campus
         await ctx.db.delete(args.campusId);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "campus_deleted",
+            {
+                targetType: "campus",
+                targetId: args.campusId,
+                campus: campus.campusName,
+                before: campus
+            }
+        );
     },
 });
 
@@ -376,17 +561,37 @@ export const saveCampusLogo = mutation({
         storageId: v.id("_storage"),
     },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
         if (!isSuperadmin(role) && !user.assignedCampuses.includes(args.campusId)) {
             throw new Error("No access to this campus");
         }
         const userId = user._id;
 
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) {
+            throw new Error("Campus not found");
+        }
+
         await ctx.db.patch(args.campusId, {
             logoStorageId: args.storageId,
             updatedAt: Date.now(),
             updatedBy: userId,
         });
+
+        await createAuditLog(
+            ctx.db,
+            userId,
+            identity.email || user.email,
+            role,
+            "campus_logo_updated",
+            {
+                targetType: "campus",
+                targetId: args.campusId,
+                campus: campus.campusName,
+                before: { logoStorageId: campus.logoStorageId },
+                after: { logoStorageId: args.storageId }
+            }
+        );
     },
 });
 
@@ -398,7 +603,7 @@ export const deleteCampusLogo = mutation({
         campusId: v.id("campusSettings"),
     },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
         if (!isSuperadmin(role) && !user.assignedCampuses.includes(args.campusId)) {
             throw new Error("No access to this campus");
         }
@@ -419,6 +624,20 @@ export const deleteCampusLogo = mutation({
             updatedAt: Date.now(),
             updatedBy: userId,
         });
+
+        await createAuditLog(
+            ctx.db,
+            userId,
+            identity.email || user.email,
+            role,
+            "campus_logo_removed",
+            {
+                targetType: "campus",
+                targetId: args.campusId,
+                campus: campus.campusName,
+                before: { logoStorageId: campus.logoStorageId }
+            }
+        );
     },
 });
 
@@ -452,8 +671,8 @@ export const getStats = query({
                 )
                 .collect();
 
-            // Get today's completed pickups (uses campusName as string)
-            const today = new Date().toISOString().split('T')[0];
+            // Get today's completed pickups (uses campusName as string, campus-local date)
+            const today = getCampusLocalTime(campus.timezone).date;
             const todayPickups = await ctx.db
                 .query("dismissalHistory")
                 .withIndex("by_campus_date", q =>
@@ -0,0 +1,94 @@
+// convex/checkins.test.ts
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { seedCampus, seedStudent, seedUser, setupConvex } from "./test.setup";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("POST /check-in", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    test("answers 503 when the signing secret isn't configured", async () => {
+        const t = setupConvex();
+        vi.stubEnv("CHECK_IN_SIGNING_SECRET", "");
+
+        const json = await t.fetch("/check-in", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ token: "payload.signature" })
+        });
+        expect(json.status).toBe(503);
+        expect(await json.json()).toEqual({ status: "NOT_CONFIGURED" });
+
+        const page = await t.fetch("/check-in?token=payload.signature", { method: "POST" });
+        expect(page.status).toBe(503);
+        expect(await page.text()).toContain("Check-in isn&#39;t available right now.");
+    });
+});
+
+describe("check-in links", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.useRealTimers();
+    });
+
+    test("expire two weeks after they were created", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-03-10T12:00:00Z"));
+        vi.stubEnv("CHECK_IN_SIGNING_SECRET", "test-secret");
+        vi.stubEnv("CONVEX_SITE_URL", "https://school.convex.site");
+        const t = setupConvex();
+        const campusId = await seedCampus(t, "North");
+        const principal = await seedUser(t, "principal", [campusId]);
+        const studentId = await seedStudent(t, campusId, 12, "Ava");
+
+        const { url } = await principal.as.mutation(api.checkins.createLink, { studentId });
+        const token = new URL(url).searchParams.get("token")!;
+
+        vi.setSystemTime(Date.now() + 13 * DAY);
+        expect(await t.mutation(internal.checkins.recordArrival, { token })).toEqual({
+            status: "CHECKED_IN",
+            carNumber: 12
+        });
+        vi.setSystemTime(Date.now() + 2 * DAY);
+        expect(await t.mutation(internal.checkins.recordArrival, { token })).toEqual({ status: "LINK_EXPIRED" });
+    });
+});
+
+describe("listPending", () => {
+    test("skips check-ins of cars already in the queue", async () => {
+        const t = setupConvex();
+        const campusId = await seedCampus(t, "North");
+        const allocator = await seedUser(t, "allocator", [campusId]);
+        await t.run(async (ctx) => {
+            const now = Date.now();
+            for (const carNumber of [12, 30]) {
+                await ctx.db.insert("pendingArrivals", {
+                    campusLocation: "North",
+                    carNumber,
+                    status: "pending",
+                    createdAt: now,
+                    expiresAt: now + 30 * 60 * 1000
+                });
+            }
+            await ctx.db.insert("dismissalQueue", {
+                carNumber: 12,
+                campusLocation: "North",
+                lane: "left",
+                position: 1,
+                students: [],
+                carColor: "#3b82f6",
+                assignedTime: now,
+                addedBy: allocator.userId,
+                status: "waiting"
+            });
+        });
+
+        const { arrivals } = await allocator.as.query(api.checkins.listPending, { campus: "North" });
+
+        expect(arrivals.map((arrival) => arrival.carNumber)).toEqual([30]);
+    });
+});
@@ -0,0 +1,254 @@
+// convex/checkins.ts
+
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import {
+    CHECK_IN_LINK_TTL_MS,
+    CHECK_IN_RATE_LIMIT,
+    PENDING_ARRIVAL_TTL_MS,
+} from "./types";
+import {
+    createSystemAuditLog,
+    decodeBase64Url,
+    encodeBase64Url,
+    getStudentsByCarNumber,
+    isCarInQueue,
+    signPayload,
+    timingSafeEqual,
+    userCanAllocate,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+import { extractOperatorPermissions } from "../lib/role-utils";
+
+interface CheckInPayload {
+    campusId: Id<"campusSettings">;
+    carNumber: number;
+    expiresAt: number;
+}
+
+const MISSING_SECRET_MESSAGE = "CHECK_IN_SIGNING_SECRET not configured in Convex environment";
+
+/**
+ * Signing secret for family check-in links (Convex environment variable), undefined when unset
+ */
+function getSigningSecret(): string | undefined {
+    return process.env.CHECK_IN_SIGNING_SECRET || undefined;
+}
+
+/**
+ * Build a "<payload>.<signature>" token for a family (car number at a campus)
+ */
+async function createCheckInToken(payload: CheckInPayload): Promise<string> {
+    const secret = getSigningSecret();
+    if (!secret) {
+        throw new Error(MISSING_SECRET_MESSAGE);
+    }
+
+    const encoded = encodeBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+    return `${encoded}.${await signPayload(encoded, secret)}`;
+}
+
+/**
+ * Verify a check-in token signature, returns null for tampered or malformed tokens
+ */
+async function verifyCheckInToken(token: string, secret: string): Promise<CheckInPayload | null> {
+    const [encoded, signature] = token.split(".");
+    if (!encoded || !signature) return null;
+
+    const expected = await signPayload(encoded, secret);
+    if (!timingSafeEqual(signature, expected)) return null;
+
+    try {
+        return JSON.parse(new TextDecoder().decode(decodeBase64Url(encoded))) as CheckInPayload;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Create the "I'm here" link for a student's family (principal/admin/superadmin)
+ * The link is tied to the car number, so siblings share it
+ */
+export const createLink = mutation({
+    args: {
+        studentId: v.id("students")
+    },
+    handler: async (ctx, args) => {
+        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const student = await ctx.db.get(args.studentId);
+        if (!student) throw new Error("Student not found");
+        if (!student.carNumber) throw new Error("Student has no car number assigned");
+
+        const campusId = student.campuses[0];
+        if (!campusId) throw new Error("Student has no campus assigned");
+        if (!userHasAccessToCampusById(user, campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const siteUrl = process.env.CONVEX_SITE_URL;
+        if (!siteUrl) throw new Error("CONVEX_SITE_URL not available");
+
+        const expiresAt = Date.now() + CHECK_IN_LINK_TTL_MS;
+        const token = await createCheckInToken({
+            campusId,
+            carNumber: student.carNumber,
+            expiresAt
+        });
+
+        return {
+            url: `${siteUrl}/check-in?token=${encodeURIComponent(token)}`,
+            carNumber: student.carNumber,
+            expiresAt
+        };
+    }
+});
+
+/**
+ * Record a parent check-in from the public HTTP route
+ * Returns a status code instead of throwing so the route can answer the parent
+ */
+export const recordArrival = internalMutation({
+    args: {
+        token: v.string()
+    },
+    handler: async (ctx, args) => {
+        // Without a secret no link can be checked: the route answers 503, not "invalid link"
+        const secret = getSigningSecret();
+        if (!secret) {
+            console.error(MISSING_SECRET_MESSAGE);
+            return { status: "NOT_CONFIGURED" as const };
+        }
+
+        const payload = await verifyCheckInToken(args.token, secret);
+        if (!payload) {
+            return { status: "INVALID_TOKEN" as const };
+        }
+
+        const now = Date.now();
+        if (payload.expiresAt <= now) {
+            return { status: "LINK_EXPIRED" as const };
+        }
+
+        const campus = await ctx.db.get(payload.campusId);
+        if (!campus || !campus.isActive) {
+            return { status: "INVALID_TOKEN" as const };
+        }
+
+        const students = await getStudentsByCarNumber(ctx.db, payload.carNumber, campus._id);
+        if (students.length === 0) {
+            return { status: "INVALID_TOKEN" as const };
+        }
+
+        if (await isCarInQueue(ctx.db, payload.carNumber, campus.campusName)) {
+            return { status: "ALREADY_IN_QUEUE" as const, carNumber: payload.carNumber };
+        }
+
+        const recent = await ctx.db
+            .query("pendingArrivals")
+            .withIndex("by_campus_car", (q) =>
+                q.eq("campusLocation", campus.campusName).eq("carNumber", payload.carNumber)
+            )
+            .filter((q) => q.gte(q.field("createdAt"), now - CHECK_IN_RATE_LIMIT.windowMs))
+            .collect();
+
+        // Tapping the link again while waiting is not a new arrival
+        if (recent.some((arrival) => arrival.status === "pending" && arrival.expiresAt > now)) {
+            return { status: "ALREADY_PENDING" as const, carNumber: payload.carNumber };
+        }
+        if (recent.length >= CHECK_IN_RATE_LIMIT.maxAttempts) {
+            return { status: "RATE_LIMITED" as const };
+        }
+
+        const arrivalId = await ctx.db.insert("pendingArrivals", {
+            campusLocation: campus.campusName,
+            carNumber: payload.carNumber,
+            status: "pending",
+            createdAt: now,
+            expiresAt: now + PENDING_ARRIVAL_TTL_MS
+        });
+
+        await createSystemAuditLog(ctx.db, "car_checked_in", {
+            targetType: "queue",
+            targetId: arrivalId,
+            campus: campus.campusName,
+            metadata: { carNumber: payload.carNumber }
+        });
+
+        return { status: "CHECKED_IN" as const, carNumber: payload.carNumber };
+    }
+});
+
+/**
+ * Pending check-ins for the allocator view, oldest first
+ */
+export const listPending = query({
+    args: {
+        campus: v.string()
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { arrivals: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const access = await validateUserAccess(ctx, undefined, args.campus);
+            if (!userCanAllocate(access.role, extractOperatorPermissions(access.identity, access.role))) {
+                return { arrivals: [], authState: "forbidden" };
+            }
+
+            const now = Date.now();
+            const arrivals = await ctx.db
+                .query("pendingArrivals")
+                .withIndex("by_campus_status", (q) =>
+                    q.eq("campusLocation", args.campus).eq("status", "pending")
+                )
+                .collect();
+
+            // A car queued since it checked in (by hand or at the gate) needs no allocator
+            const waiting = [];
+            for (const arrival of arrivals) {
+                if (arrival.expiresAt <= now) continue;
+                if (await isCarInQueue(ctx.db, arrival.carNumber, args.campus)) continue;
+                waiting.push(arrival);
+            }
+
+            return {
+                arrivals: waiting.sort((a, b) => a.createdAt - b.createdAt),
+                authState: "authenticated"
+            };
+        } catch {
+            return { arrivals: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Discard a check-in without queueing the car (allocator action)
+ */
+export const dismissArrival = mutation({
+    args: {
+        arrivalId: v.id("pendingArrivals")
+    },
+    handler: async (ctx, args) => {
+        const arrival = await ctx.db.get(args.arrivalId);
+        if (!arrival) throw new Error("Check-in not found");
+
+        const { user, role, identity } = await validateUserAccess(ctx, undefined, arrival.campusLocation);
+        if (!userCanAllocate(role, extractOperatorPermissions(identity, role))) {
+            throw new Error("Insufficient permissions to dismiss check-ins");
+        }
+        if (arrival.status !== "pending") return args.arrivalId;
+
+        await ctx.db.patch(args.arrivalId, {
+            status: "dismissed",
+            resolvedBy: user._id,
+            resolvedAt: Date.now()
+        });
+
+        return args.arrivalId;
+    }
+});
@@ -6,19 +6,17 @@ import { internal } from "./_generated/api";
 const crons = cronJobs();
 
 /**
- * Automatically clear all queues at midnight every day
- * and aggregate dashboard metrics for the previous operational day.
+ * Reset each campus queue at its own local reset time
+ * (campusSettings.queueResetTime in campusSettings.timezone, midnight by default)
+ * and aggregate dashboard metrics for the operational day that just closed.
  * This ensures a fresh start each morning for all campuses.
- * 
- * Time: 00:00 Eastern Time (ET) = 05:00 UTC
- * Note: Adjust hourUTC based on your timezone
- * - EST (UTC-5): hourUTC: 5
- * - EDT (UTC-4): hourUTC: 4
- * - CST (UTC-6): hourUTC: 6, etc.
+ *
+ * The job runs every 15 minutes; campuses whose reset time has not come yet,
+ * or that were already reset for their local day, are skipped.
  */
-crons.daily(
-    "clear all queues at midnight",
-    { hourUTC: 5, minuteUTC: 0 }, // Midnight ET (adjust based on your timezone)
+crons.interval(
+    "reset campus queues at local reset time",
+    { minutes: 15 },
     internal.queue.scheduledClearAllQueues
 );
 
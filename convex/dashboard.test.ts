@@ -0,0 +1,78 @@
+// convex/dashboard.test.ts
+
+import { describe, expect, test } from "vitest";
+import { internal } from "./_generated/api";
+import { seedCampus, seedUser, setupConvex, type TestConvex } from "./test.setup";
+
+const DATE = "2026-03-10";
+const MONTH = "2026-03";
+const HOUR = 3_600_000;
+
+/**
+ * One pickup at each campus on the same date, an hour apart
+ */
+async function seedTwoCampusDay() {
+    const t = setupConvex();
+    const northId = await seedCampus(t, "North");
+    await seedCampus(t, "West", "America/Los_Angeles");
+    const principal = await seedUser(t, "principal", [northId]);
+    const start = Date.parse("2026-03-10T19:00:00Z");
+    await t.run(async (ctx) => {
+        for (const [index, campusLocation] of ["North", "West"].entries()) {
+            await ctx.db.insert("dismissalHistory", {
+                carNumber: 12 + index,
+                campusLocation,
+                lane: "left",
+                studentIds: [],
+                studentNames: [],
+                queuedAt: start + index * HOUR,
+                completedAt: start + index * HOUR + 600_000,
+                waitTimeSeconds: 600,
+                addedBy: principal.userId,
+                removedBy: principal.userId,
+                date: DATE
+            });
+        }
+    });
+    return t;
+}
+
+async function getGlobalSessions(t: TestConvex) {
+    return await t.run(async (ctx) =>
+        (await ctx.db.query("dashboardMetrics").collect()).filter(
+            (metric) => metric.metricType === "session_duration" && metric.campusLocation === undefined
+        )
+    );
+}
+
+describe("updateDashboardMetrics", () => {
+    test("adds the global session once, after the last campus closed the date", async () => {
+        const t = await seedTwoCampusDay();
+
+        await t.mutation(internal.dashboard.updateDashboardMetrics, { date: DATE, month: MONTH, campus: "North" });
+        expect(await getGlobalSessions(t)).toEqual([]);
+
+        await t.mutation(internal.dashboard.updateDashboardMetrics, { date: DATE, month: MONTH, campus: "West" });
+        const sessions = await getGlobalSessions(t);
+        expect(sessions).toHaveLength(2);
+        for (const session of sessions) {
+            // From North's arrival to West's pickup an hour later
+            expect(session).toMatchObject({ totalSessionSeconds: 4200, daysCount: 1, recordCount: 2 });
+        }
+
+        const rerun = await t.mutation(internal.dashboard.updateDashboardMetrics, { date: DATE, month: MONTH, campus: "West" });
+        expect(rerun).toMatchObject({ skipped: true });
+    });
+
+    test("an idle campus still closes the date", async () => {
+        const t = await seedTwoCampusDay();
+        await seedCampus(t, "East");
+
+        await t.mutation(internal.dashboard.updateDashboardMetrics, { date: DATE, month: MONTH, campus: "North" });
+        await t.mutation(internal.dashboard.updateDashboardMetrics, { date: DATE, month: MONTH, campus: "West" });
+        expect(await getGlobalSessions(t)).toEqual([]);
+
+        await t.mutation(internal.dashboard.updateDashboardMetrics, { date: DATE, month: MONTH, campus: "East" });
+        expect(await getGlobalSessions(t)).toHaveLength(2);
+    });
+});
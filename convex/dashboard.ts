@@ -242,15 +242,27 @@ export const updateDashboardMetrics = internalMutation({
   args: {
     date: v.string(),
     month: v.string(),
+    // When set, only this campus is processed for its campus-local date.
+    // Global session duration waits until every campus closed that date.
+    campus: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const alreadyProcessed = await ctx.db
+    const processedForDate = await ctx.db
       .query("dashboardProcessedDates")
       .withIndex("by_date", (q) => q.eq("date", args.date))
       .collect();
 
+    // A date-wide run covers every campus; a campus run only covers itself
+    const alreadyProcessed = args.campus
+      ? processedForDate.filter(
+          (row) => !row.campusLocation || row.campusLocation === args.campus
+        )
+      : processedForDate;
+
     if (alreadyProcessed.length > 0) {
-      console.log(`[Dashboard] Date ${args.date} already processed. Skipping.`);
+      console.log(
+        `[Dashboard] Date ${args.date}${args.campus ? ` (${args.campus})` : ""} already processed. Skipping.`
+      );
       return {
         success: true,
         skipped: true,
@@ -258,13 +270,26 @@ export const updateDashboardMetrics = internalMutation({
       };
     }
 
-    const records = await ctx.db
-      .query("dismissalHistory")
-      .withIndex("by_date", (q) => q.eq("date", args.date))
-      .collect();
+    const records = args.campus
+      ? await ctx.db
+          .query("dismissalHistory")
+          .withIndex("by_campus_date", (q) =>
+            q.eq("campusLocation", args.campus!).eq("date", args.date)
+          )
+          .collect()
+      : await ctx.db
+          .query("dismissalHistory")
+          .withIndex("by_date", (q) => q.eq("date", args.date))
+          .collect();
 
     if (records.length === 0) {
-      console.log(`[Dashboard] No records for ${args.date}`);
+      console.log(
+        `[Dashboard] No records for ${args.date}${args.campus ? ` (${args.campus})` : ""}`
+      );
+      // An idle campus still closes the date, or the global session would wait for it
+      if (args.campus) {
+        await markCampusDateProcessed(ctx.db, args.date, args.month, args.campus);
+      }
       return {
         success: false,
         skipped: false,
@@ -281,15 +306,18 @@ export const updateDashboardMetrics = internalMutation({
       await updateCampusMetrics(ctx.db, campus, dailyMetrics, args.month);
     }
 
-    await updateGlobalSessionDuration(ctx.db, dailyMetrics.global, args.month);
-
     await updateAllTopArrivals(ctx.db, campuses, args.month);
 
-    await ctx.db.insert("dashboardProcessedDates", {
-      date: args.date,
-      month: args.month,
-      processedAt: Date.now(),
-    });
+    if (args.campus) {
+      await markCampusDateProcessed(ctx.db, args.date, args.month, args.campus);
+    } else {
+      await updateGlobalSessionDuration(ctx.db, dailyMetrics.global, args.month);
+      await ctx.db.insert("dashboardProcessedDates", {
+        date: args.date,
+        month: args.month,
+        processedAt: Date.now(),
+      });
+    }
 
     console.log(`[Dashboard] Updated metrics for ${args.date}`);
     return {
@@ -302,6 +330,53 @@ export const updateDashboardMetrics = internalMutation({
   },
 });
 
+/**
+ * Record a campus run; once every campus closed the date, add the global session
+ * (first arrival to last pickup across campuses) and mark the whole date processed
+ */
+async function markCampusDateProcessed(
+  db: DashboardDb,
+  date: string,
+  month: string,
+  campus: string
+) {
+  await db.insert("dashboardProcessedDates", {
+    date,
+    month,
+    campusLocation: campus,
+    processedAt: Date.now(),
+  });
+
+  const processed = await db
+    .query("dashboardProcessedDates")
+    .withIndex("by_date", (q) => q.eq("date", date))
+    .collect();
+  if (processed.some((row) => !row.campusLocation)) {
+    return;
+  }
+
+  // Every campus is reset (and closes its date) at its own local time
+  const processedCampuses = new Set(processed.map((row) => row.campusLocation));
+  const allCampuses = await db.query("campusSettings").collect();
+  if (!allCampuses.every((c) => processedCampuses.has(c.campusName))) {
+    return;
+  }
+
+  const records = await db
+    .query("dismissalHistory")
+    .withIndex("by_date", (q) => q.eq("date", date))
+    .collect();
+  if (records.length > 0) {
+    await updateGlobalSessionDuration(db, calculateDailyMetrics(records).global, month);
+  }
+
+  await db.insert("dashboardProcessedDates", {
+    date,
+    month,
+    processedAt: Date.now(),
+  });
+}
+
 async function updateGlobalMetrics(
   db: DashboardDb,
   dailyMetrics: DailyMetrics,
@@ -0,0 +1,226 @@
+// convex/displays.ts
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { DEFAULT_CAMPUS_SETTINGS, type KioskPrivacy } from "./types";
+import {
+    createAuditLog,
+    generateSecretToken,
+    getCampusLanes,
+    groupEntriesByLane,
+    hashSecretToken,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * Shorten "Sofia Martinez" to "Sofia M." for public displays
+ */
+function hideLastName(name: string): string {
+    const [first, ...rest] = name.trim().split(/\s+/);
+    const last = rest[rest.length - 1];
+    return last ? `${first} ${last.charAt(0).toUpperCase()}.` : first;
+}
+
+/**
+ * Strip what the campus privacy setting keeps off public displays
+ */
+function applyKioskPrivacy(
+    entry: Doc<"dismissalQueue">,
+    privacy: KioskPrivacy
+) {
+    return {
+        _id: entry._id,
+        carNumber: entry.carNumber,
+        lane: entry.lane,
+        position: entry.position,
+        assignedTime: entry.assignedTime,
+        campusLocation: entry.campusLocation,
+        carColor: entry.carColor,
+        stage: entry.stage,
+        calledAt: entry.calledAt,
+        loadingAt: entry.loadingAt,
+        students: entry.students.map((student) => ({
+            studentId: student.studentId,
+            name: privacy.hideLastNames ? hideLastName(student.name) : student.name,
+            grade: student.grade,
+            avatarUrl: privacy.hideAvatars ? undefined : student.avatarUrl,
+            avatarStorageId: privacy.hideAvatars ? undefined : student.avatarStorageId,
+            releasedAt: student.releasedAt,
+        })),
+    };
+}
+
+/**
+ * List display tokens for a campus (principal/admin/superadmin)
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { tokens: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { tokens: [], authState: "forbidden" };
+            }
+
+            const tokens = await ctx.db
+                .query("displayTokens")
+                .withIndex("by_campus", (q) => q.eq("campusId", args.campusId))
+                .order("desc")
+                .collect();
+
+            // Never send hashes to the client
+            return {
+                tokens: tokens.map((token) => ({
+                    _id: token._id,
+                    name: token.name,
+                    tokenPreview: token.tokenPreview,
+                    createdAt: token.createdAt,
+                    revokedAt: token.revokedAt
+                })),
+                authState: "authenticated"
+            };
+        } catch {
+            return { tokens: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Create a display token for a campus
+ * Returns the plain token once, only its hash is stored
+ */
+export const create = mutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        name: v.string()
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        if (!userHasAccessToCampusById(user, args.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) throw new Error("Campus not found");
+
+        const name = args.name.trim();
+        if (!name) throw new Error("Display name is required");
+
+        const token = generateSecretToken("dsp");
+        const tokenId = await ctx.db.insert("displayTokens", {
+            campusId: args.campusId,
+            name,
+            tokenHash: await hashSecretToken(token),
+            tokenPreview: token.slice(-6),
+            createdBy: user._id,
+            createdAt: Date.now()
+        });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "display_token_created",
+            {
+                targetType: "display_token",
+                targetId: tokenId,
+                campus: campus.campusName,
+                after: { name, tokenPreview: token.slice(-6) }
+            }
+        );
+
+        return { tokenId, token };
+    }
+});
+
+/**
+ * Revoke a display token, screens using it stop updating immediately
+ */
+export const revoke = mutation({
+    args: {
+        tokenId: v.id("displayTokens")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const displayToken = await ctx.db.get(args.tokenId);
+        if (!displayToken) throw new Error("Display token not found");
+        if (!userHasAccessToCampusById(user, displayToken.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+        if (displayToken.revokedAt) return args.tokenId;
+
+        await ctx.db.patch(args.tokenId, {
+            revokedAt: Date.now(),
+            revokedBy: user._id
+        });
+
+        const campus = await ctx.db.get(displayToken.campusId);
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "display_token_revoked",
+            {
+                targetType: "display_token",
+                targetId: args.tokenId,
+                campus: campus?.campusName,
+                metadata: { name: displayToken.name, tokenPreview: displayToken.tokenPreview }
+            }
+        );
+
+        return args.tokenId;
+    }
+});
+
+/**
+ * Current queue for a kiosk display, authenticated by display token instead of a signed-in user
+ */
+export const getQueue = query({
+    args: {
+        token: v.string()
+    },
+    handler: async (ctx, args) => {
+        const tokenHash = await hashSecretToken(args.token);
+        const match = await ctx.db
+            .query("displayTokens")
+            .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+            .first();
+        const campus = match && !match.revokedAt ? await ctx.db.get(match.campusId) : null;
+
+        if (!match || match.revokedAt || !campus || !campus.isActive) {
+            return { campus: null, lanes: [], totalCars: 0, authState: "forbidden" };
+        }
+
+        const entries = await ctx.db
+            .query("dismissalQueue")
+            .withIndex("by_campus_status", (q) =>
+                q.eq("campusLocation", campus.campusName).eq("status", "waiting")
+            )
+            .collect();
+
+        const privacy = campus.kioskPrivacy ?? DEFAULT_CAMPUS_SETTINGS.kioskPrivacy;
+        const lanes = groupEntriesByLane(getCampusLanes(campus), entries).map((lane) => ({
+            ...lane,
+            cars: lane.cars.map((entry) => applyKioskPrivacy(entry, privacy))
+        }));
+
+        return {
+            campus: campus.campusName,
+            lanes,
+            totalCars: entries.length,
+            authState: "authenticated"
+        };
+    }
+});
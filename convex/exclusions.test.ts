@@ -0,0 +1,200 @@
+// convex/exclusions.test.ts
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { getLatestAuditLog, seedCampus, seedStudent, seedUser, setupConvex, type TestConvex } from "./test.setup";
+
+/**
+ * Ava and Ben attend North (New York) and Tokyo; 20:00 UTC is still Mar 10 in New York but already Mar 11 in Tokyo
+ */
+async function seedTwoTimezones() {
+    const t = setupConvex();
+    const northId = await seedCampus(t, "North");
+    const tokyoId = await seedCampus(t, "Tokyo", "Asia/Tokyo");
+    const principal = await seedUser(t, "principal", [northId, tokyoId]);
+    const ava = await seedStudent(t, northId, 12, "Ava");
+    const ben = await seedStudent(t, northId, 12, "Ben");
+    await t.run(async (ctx) => {
+        await ctx.db.patch(ava, { campuses: [northId, tokyoId] });
+        await ctx.db.patch(ben, { campuses: [northId, tokyoId] });
+    });
+    return { t, northId, principal, ava, ben };
+}
+
+async function queueCar(
+    t: TestConvex,
+    campusLocation: string,
+    carNumber: number,
+    students: Id<"students">[],
+    position = 1,
+    releasedAt?: number
+) {
+    return await t.run(async (ctx) => {
+        const addedBy = (await ctx.db.query("users").first())!._id;
+        return await ctx.db.insert("dismissalQueue", {
+            carNumber,
+            campusLocation,
+            lane: "left",
+            position,
+            students: students.map((studentId, index) => ({
+                studentId,
+                name: "Student",
+                grade: "3rd",
+                // Every student but the first already walked out
+                releasedAt: index > 0 ? releasedAt : undefined
+            })),
+            carColor: "#3b82f6",
+            assignedTime: Date.now(),
+            addedBy,
+            status: "waiting"
+        });
+    });
+}
+
+async function subscribeToDismissals(t: TestConvex, campusId: Id<"campusSettings">) {
+    await t.run(async (ctx) => {
+        const createdBy = (await ctx.db.query("users").first())!._id;
+        await ctx.db.insert("webhookEndpoints", {
+            campusId,
+            url: "https://pa.school.test/hooks",
+            events: ["car.dismissed"],
+            secret: "whsec_test",
+            isActive: true,
+            createdBy,
+            createdAt: Date.now(),
+            updatedAt: Date.now()
+        });
+    });
+}
+
+async function getDismissalTrail(t: TestConvex) {
+    return await t.run(async (ctx) => ({
+        history: await ctx.db.query("dismissalHistory").collect(),
+        deliveries: (await ctx.db.query("webhookDeliveries").collect()).map((delivery) => delivery.event)
+    }));
+}
+
+describe("student exclusions", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-03-10T20:00:00Z"));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("are dated by the primary campus when the student isn't queued", async () => {
+        const { t, principal, ava } = await seedTwoTimezones();
+
+        const exclusionId = await principal.as.mutation(api.exclusions.setExclusion, { studentId: ava, reason: "absent" });
+
+        expect(await t.run(async (ctx) => ctx.db.get(exclusionId))).toMatchObject({
+            campusLocation: "North",
+            date: "2026-03-10"
+        });
+    });
+
+    test("are dated by the campus passed by the caller", async () => {
+        const { t, principal, ava } = await seedTwoTimezones();
+
+        const exclusionId = await principal.as.mutation(api.exclusions.setExclusion, {
+            studentId: ava,
+            reason: "absent",
+            campus: "Tokyo"
+        });
+
+        expect(await t.run(async (ctx) => ctx.db.get(exclusionId))).toMatchObject({
+            campusLocation: "Tokyo",
+            date: "2026-03-11"
+        });
+    });
+
+    test("follow the campus where the car waits and take the student off it", async () => {
+        const { t, principal, ava, ben } = await seedTwoTimezones();
+        const queueId = await queueCar(t, "Tokyo", 12, [ava, ben]);
+
+        const exclusionId = await principal.as.mutation(api.exclusions.setExclusion, { studentId: ava, reason: "early_pickup" });
+
+        expect(await t.run(async (ctx) => ctx.db.get(exclusionId))).toMatchObject({
+            campusLocation: "Tokyo",
+            date: "2026-03-11"
+        });
+        const entry = await t.run(async (ctx) => ctx.db.get(queueId));
+        expect(entry?.students.map((s) => s.studentId)).toEqual([ben]);
+        expect(await getLatestAuditLog(t, "student_exclusion_set")).toMatchObject({
+            targetId: ava,
+            campusLocation: "Tokyo",
+            details: { metadata: { queueId, carRemovedFromQueue: false } }
+        });
+    });
+
+    test("dismiss a waiting car left with nobody to pick up", async () => {
+        const { t, northId, principal, ava } = await seedTwoTimezones();
+        await subscribeToDismissals(t, northId);
+        const queueId = await queueCar(t, "North", 12, [ava]);
+        const behindId = await queueCar(t, "North", 30, [], 2);
+
+        await principal.as.mutation(api.exclusions.setExclusion, { studentId: ava, reason: "absent", campus: "North" });
+
+        expect(await t.run(async (ctx) => ctx.db.get(queueId))).toBeNull();
+        expect(await t.run(async (ctx) => ctx.db.get(behindId))).toMatchObject({ position: 1 });
+        const { history, deliveries } = await getDismissalTrail(t);
+        expect(history).toMatchObject([{ carNumber: 12, campusLocation: "North", studentIds: [], date: "2026-03-10" }]);
+        expect(deliveries).toEqual(["car.dismissed"]);
+        expect(await getLatestAuditLog(t, "car_removed_from_queue")).toMatchObject({
+            targetId: queueId,
+            details: { metadata: { carNumber: 12, historyId: history[0]._id, excludedStudentId: ava } }
+        });
+        expect(await getLatestAuditLog(t, "student_exclusion_set")).toMatchObject({
+            details: { metadata: { queueId, carRemovedFromQueue: true, historyId: history[0]._id } }
+        });
+    });
+
+    test("dismiss a waiting car whose other students were already released", async () => {
+        const { t, northId, principal, ava, ben } = await seedTwoTimezones();
+        await subscribeToDismissals(t, northId);
+        const releasedAt = Date.now() - 60_000;
+        const queueId = await queueCar(t, "North", 12, [ava, ben], 1, releasedAt);
+
+        await principal.as.mutation(api.exclusions.setExclusion, { studentId: ava, reason: "after_school", campus: "North" });
+
+        expect(await t.run(async (ctx) => ctx.db.get(queueId))).toBeNull();
+        const { history, deliveries } = await getDismissalTrail(t);
+        expect(history).toMatchObject([
+            { carNumber: 12, studentIds: [ben], studentReleases: [{ studentId: ben, releasedAt }] }
+        ]);
+        expect(deliveries).toEqual(["car.dismissed"]);
+        expect(await getLatestAuditLog(t, "car_removed_from_queue")).toMatchObject({
+            targetId: queueId,
+            details: { metadata: { historyId: history[0]._id, excludedStudentId: ava } }
+        });
+    });
+
+    test("reject a campus the student neither attends nor has a car waiting at", async () => {
+        const { t, ava } = await seedTwoTimezones();
+        const southId = await seedCampus(t, "South");
+        const southPrincipal = await seedUser(t, "principal", [southId]);
+
+        await expect(
+            southPrincipal.as.mutation(api.exclusions.setExclusion, { studentId: ava, reason: "absent", campus: "South" })
+        ).rejects.toThrow("doesn't attend South");
+        await expect(
+            southPrincipal.as.mutation(api.exclusions.clearExclusion, { studentId: ava, campus: "South" })
+        ).rejects.toThrow("doesn't attend South");
+        expect(await t.run(async (ctx) => ctx.db.query("studentExclusions").collect())).toEqual([]);
+    });
+
+    test("accept the campus where the student's car waits across campuses", async () => {
+        const { t, ava, ben } = await seedTwoTimezones();
+        const southId = await seedCampus(t, "South");
+        const southPrincipal = await seedUser(t, "principal", [southId]);
+        const queueId = await queueCar(t, "South", 12, [ava, ben]);
+
+        await southPrincipal.as.mutation(api.exclusions.setExclusion, { studentId: ava, reason: "absent", campus: "South" });
+
+        const entry = await t.run(async (ctx) => ctx.db.get(queueId));
+        expect(entry?.students.map((s) => s.studentId)).toEqual([ben]);
+    });
+});
@@ -0,0 +1,279 @@
+// convex/exclusions.ts
+
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { studentExclusionReasonValidator } from "./types";
+import type { DismissalRole } from "../lib/role-utils";
+import {
+    createAuditLog,
+    dismissWaitingCar,
+    getActiveCampuses,
+    getCampusLocalTime,
+    getCampusSettings,
+    getWaitingEntryByCar,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * Waiting car at a campus that carries the student, if any
+ */
+async function findWaitingCarForStudent(
+    db: QueryCtx["db"],
+    campusName: string,
+    studentId: Id<"students">
+): Promise<Doc<"dismissalQueue"> | null> {
+    const waiting = await db
+        .query("dismissalQueue")
+        .withIndex("by_campus_status", (q) =>
+            q.eq("campusLocation", campusName).eq("status", "waiting")
+        )
+        .collect();
+    return waiting.find((e) => e.students.some((s) => s.studentId === studentId)) ?? null;
+}
+
+/**
+ * Resolve the campus whose local day an exclusion belongs to, and that date
+ * The campus passed by the caller wins, then the campus where the student's car
+ * is waiting (it may be queued at another campus), then the student's primary campus
+ * A passed campus must be one the student attends or has a car waiting at
+ */
+async function getStudentCampusDay(
+    db: QueryCtx["db"],
+    student: Doc<"students">,
+    campusName?: string
+): Promise<{ campus: Doc<"campusSettings">; date: string }> {
+    let campus: Doc<"campusSettings"> | null;
+    if (campusName) {
+        campus = await getCampusSettings(db, campusName);
+        if (!campus) throw new Error(`Campus ${campusName} not found`);
+        if (
+            !student.campuses.includes(campus._id) &&
+            !(await findWaitingCarForStudent(db, campus.campusName, student._id))
+        ) {
+            throw new Error(`${student.fullName} doesn't attend ${campusName} and has no car waiting there`);
+        }
+    } else {
+        const waiting = student.carNumber > 0 ? await getWaitingEntryByCar(db, student.carNumber) : null;
+        const onCar = waiting?.students.some((s) => s.studentId === student._id);
+        const campusId = student.campuses[0];
+        campus = waiting && onCar
+            ? await getCampusSettings(db, waiting.campusLocation)
+            : campusId ? await db.get(campusId) : null;
+        if (!campus) throw new Error("Student has no campus assigned");
+    }
+
+    return { campus, date: getCampusLocalTime(campus.timezone).date };
+}
+
+/**
+ * Take an excluded student off the car waiting for them at a campus
+ * A car left with nobody to wait for (no students, or only released ones) is
+ * dismissed like any other; clearing the exclusion doesn't put the student back,
+ * the car has to be queued again
+ */
+async function removeFromWaitingCar(
+    ctx: MutationCtx,
+    campusName: string,
+    studentId: Id<"students">,
+    actor: { userId: Id<"users">; email: string; role: DismissalRole }
+): Promise<{ queueId: Id<"dismissalQueue">; carRemovedFromQueue: boolean; historyId?: Id<"dismissalHistory"> } | null> {
+    // A student who already walked out stays on the car's record
+    const entry = await findWaitingCarForStudent(ctx.db, campusName, studentId);
+    if (!entry || entry.students.some((s) => s.studentId === studentId && s.releasedAt !== undefined)) {
+        return null;
+    }
+
+    const students = entry.students.filter((s) => s.studentId !== studentId);
+    if (students.every((s) => s.releasedAt !== undefined)) {
+        const { historyId } = await dismissWaitingCar(ctx, { ...entry, students }, actor, {
+            before: entry,
+            metadata: { excludedStudentId: studentId }
+        });
+        return { queueId: entry._id, carRemovedFromQueue: true, historyId };
+    }
+
+    await ctx.db.patch(entry._id, { students });
+    return { queueId: entry._id, carRemovedFromQueue: false };
+}
+
+/**
+ * Get today's exclusion for a student, if any
+ */
+async function getExclusion(
+    db: QueryCtx["db"],
+    studentId: Id<"students">,
+    date: string
+): Promise<Doc<"studentExclusions"> | null> {
+    return await db
+        .query("studentExclusions")
+        .withIndex("by_student_date", (q) =>
+            q.eq("studentId", studentId).eq("date", date)
+        )
+        .first();
+}
+
+/**
+ * List today's exclusions (campus-local date) for the campuses the user manages
+ */
+export const listForToday = query({
+    args: {
+        campus: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { exclusions: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(
+                ctx,
+                ["principal", "admin", "superadmin"],
+                args.campus
+            );
+
+            const campuses = (await getActiveCampuses(ctx.db)).filter((campus) =>
+                (args.campus ? campus.campusName === args.campus : true) &&
+                (role === "superadmin" || user.assignedCampuses.includes(campus._id))
+            );
+
+            const exclusions = [];
+            for (const campus of campuses) {
+                const date = getCampusLocalTime(campus.timezone).date;
+                const rows = await ctx.db
+                    .query("studentExclusions")
+                    .withIndex("by_campus_date", (q) =>
+                        q.eq("campusLocation", campus.campusName).eq("date", date)
+                    )
+                    .collect();
+                exclusions.push(...rows);
+            }
+
+            return { exclusions, authState: "authenticated" };
+        } catch {
+            return { exclusions: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Mark a student as absent, picked up early or staying after school for today
+ * A car already waiting for the student goes on without them
+ */
+export const setExclusion = mutation({
+    args: {
+        studentId: v.id("students"),
+        reason: studentExclusionReasonValidator,
+        note: v.optional(v.string()),
+        campus: v.optional(v.string()) // Campus whose day it is, see getStudentCampusDay
+    },
+    handler: async (ctx, args) => {
+        const student = await ctx.db.get(args.studentId);
+        if (!student) throw new Error("Student not found");
+
+        const { campus, date } = await getStudentCampusDay(ctx.db, student, args.campus);
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            ["principal", "admin", "superadmin"],
+            campus.campusName
+        );
+
+        const now = Date.now();
+        const note = args.note?.trim() || undefined;
+        const existing = await getExclusion(ctx.db, args.studentId, date);
+
+        let exclusionId: Id<"studentExclusions">;
+        if (existing) {
+            exclusionId = existing._id;
+            await ctx.db.patch(existing._id, {
+                reason: args.reason,
+                note,
+                updatedAt: now
+            });
+        } else {
+            exclusionId = await ctx.db.insert("studentExclusions", {
+                studentId: args.studentId,
+                campusLocation: campus.campusName,
+                date,
+                reason: args.reason,
+                note,
+                createdBy: user._id,
+                createdAt: now,
+                updatedAt: now
+            });
+        }
+
+        const waitingCar = await removeFromWaitingCar(ctx, campus.campusName, args.studentId, {
+            userId: user._id,
+            email: identity.email || user.email,
+            role
+        });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "student_exclusion_set",
+            {
+                targetType: "student",
+                targetId: args.studentId,
+                campus: campus.campusName,
+                before: existing ?? undefined,
+                after: { date, reason: args.reason, note },
+                metadata: {
+                    studentName: student.fullName,
+                    queueId: waitingCar?.queueId,
+                    carRemovedFromQueue: waitingCar?.carRemovedFromQueue ?? false,
+                    historyId: waitingCar?.historyId
+                }
+            }
+        );
+
+        return exclusionId;
+    }
+});
+
+/**
+ * Clear today's exclusion so the student is dismissed normally again
+ */
+export const clearExclusion = mutation({
+    args: {
+        studentId: v.id("students"),
+        campus: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const student = await ctx.db.get(args.studentId);
+        if (!student) throw new Error("Student not found");
+
+        const { campus, date } = await getStudentCampusDay(ctx.db, student, args.campus);
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            ["principal", "admin", "superadmin"],
+            campus.campusName
+        );
+
+        const existing = await getExclusion(ctx.db, args.studentId, date);
+        if (!existing) return null;
+
+        await ctx.db.delete(existing._id);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "student_exclusion_cleared",
+            {
+                targetType: "student",
+                targetId: args.studentId,
+                campus: campus.campusName,
+                before: existing,
+                metadata: { studentName: student.fullName }
+            }
+        );
+
+        return existing._id;
+    }
+});
@@ -0,0 +1,69 @@
+// convex/families.test.ts
+
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { seedCampus, seedFamily, seedStudent, seedUser, setupConvex, type TestConvex } from "./test.setup";
+
+async function seedFamilyOffice() {
+    const t = setupConvex();
+    const campusId = await seedCampus(t, "North");
+    const principal = await seedUser(t, "principal", [campusId]);
+    const familyId = await seedFamily(t, campusId, 40, "Garcia", [41]);
+    return { t, campusId, principal, familyId };
+}
+
+async function queueCar(t: TestConvex, carNumber: number) {
+    await t.run(async (ctx) => {
+        const addedBy = (await ctx.db.query("users").first())!._id;
+        await ctx.db.insert("dismissalQueue", {
+            carNumber,
+            campusLocation: "North",
+            lane: "left",
+            position: 1,
+            students: [],
+            carColor: "#3b82f6",
+            assignedTime: Date.now(),
+            addedBy,
+            status: "waiting"
+        });
+    });
+}
+
+describe("family car numbers", () => {
+    test("create rejects a number still held by a student without a family", async () => {
+        const { t, campusId, principal } = await seedFamilyOffice();
+        await seedStudent(t, campusId, 12, "Ava");
+
+        await expect(
+            principal.as.mutation(api.families.create, { campusId, name: "Stone", carNumber: 12 })
+        ).rejects.toThrow("Car 12 is still assigned to Ava Test, who has no family yet");
+    });
+
+    test("create rejects another family's vehicle tag", async () => {
+        const { campusId, principal } = await seedFamilyOffice();
+
+        await expect(
+            principal.as.mutation(api.families.create, { campusId, name: "Stone", carNumber: 41 })
+        ).rejects.toThrow("Car 41 already belongs to the Garcia family");
+    });
+
+    test("update keeps the number while one of the family's vehicles is queued", async () => {
+        const { t, principal, familyId } = await seedFamilyOffice();
+        await queueCar(t, 41);
+
+        await expect(
+            principal.as.mutation(api.families.update, { familyId, name: "Garcia", carNumber: 50 })
+        ).rejects.toThrow("Car 41 is in the queue");
+        expect(await t.run(async (ctx) => ctx.db.get(familyId))).toMatchObject({ carNumber: 40 });
+    });
+
+    test("update moves the family's students to the new number", async () => {
+        const { t, campusId, principal, familyId } = await seedFamilyOffice();
+        const ava = await seedStudent(t, campusId, 40, "Ava");
+        await t.run(async (ctx) => ctx.db.patch(ava, { familyId }));
+
+        await principal.as.mutation(api.families.update, { familyId, name: "Garcia", carNumber: 50 });
+
+        expect(await t.run(async (ctx) => ctx.db.get(ava))).toMatchObject({ carNumber: 50 });
+    });
+});
@@ -0,0 +1,477 @@
+// convex/families.ts
+
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import {
+    createAuditLog,
+    getFamilyCarNumbers,
+    normalizeContactEmail,
+    normalizeContactPhone,
+    resolveCarTag,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * Validate the editable fields of a family
+ */
+function normalizeFamilyFields(args: {
+    name: string;
+    carNumber: number;
+    email?: string;
+    phone?: string;
+    notes?: string;
+}) {
+    const name = args.name.trim();
+    if (!name) throw new Error("Family name is required");
+    if (!Number.isInteger(args.carNumber) || args.carNumber <= 0) {
+        throw new Error("Invalid car number");
+    }
+
+    return {
+        name,
+        carNumber: args.carNumber,
+        email: normalizeContactEmail(args.email),
+        phone: normalizeContactPhone(args.phone),
+        notes: args.notes?.trim() || undefined
+    };
+}
+
+/**
+ * Throw if a car number is already a tag of another family, or still held by
+ * students not migrated to a family yet
+ */
+async function assertCarNumberAvailable(
+    db: MutationCtx["db"],
+    carNumber: number,
+    familyId?: Id<"families">
+) {
+    const { family } = await resolveCarTag(db, carNumber);
+    if (family && family._id !== familyId) {
+        throw new Error(`Car ${carNumber} already belongs to the ${family.name} family`);
+    }
+
+    const unlinked = await db
+        .query("students")
+        .withIndex("by_car_number", (q) => q.eq("carNumber", carNumber))
+        .filter((q) => q.eq(q.field("familyId"), undefined))
+        .first();
+    if (unlinked) {
+        throw new Error(`Car ${carNumber} is still assigned to ${unlinked.fullName}, who has no family yet`);
+    }
+}
+
+/**
+ * List families with students at a campus, with their students and guardian count
+ * (principal/admin/superadmin)
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings"),
+        search: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { families: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { families: [], authState: "forbidden" };
+            }
+
+            const search = args.search?.trim().toLowerCase();
+            const families = (await ctx.db.query("families").collect())
+                .filter((family) => family.campuses.includes(args.campusId))
+                .filter((family) =>
+                    !search ||
+                    family.name.toLowerCase().includes(search) ||
+                    family.carNumber.toString().includes(search)
+                )
+                .sort((a, b) => a.carNumber - b.carNumber);
+
+            const results = [];
+            for (const family of families) {
+                const students = await ctx.db
+                    .query("students")
+                    .withIndex("by_family", (q) => q.eq("familyId", family._id))
+                    .collect();
+                const guardians = await ctx.db
+                    .query("guardians")
+                    .withIndex("by_family", (q) => q.eq("familyId", family._id))
+                    .collect();
+                const vehicles = await ctx.db
+                    .query("familyVehicles")
+                    .withIndex("by_family", (q) => q.eq("familyId", family._id))
+                    .collect();
+
+                results.push({
+                    ...family,
+                    students: students
+                        .map((student) => ({
+                            _id: student._id,
+                            fullName: student.fullName,
+                            grade: student.grade
+                        }))
+                        .sort((a, b) => a.fullName.localeCompare(b.fullName)),
+                    guardianCount: guardians.length,
+                    vehicles: vehicles.sort((a, b) => a.carNumber - b.carNumber)
+                });
+            }
+
+            return { families: results, authState: "authenticated" };
+        } catch {
+            return { families: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Families of a campus for pickers (student and guardian forms)
+ */
+export const getOptions = query({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) return [];
+
+            const families = await ctx.db.query("families").collect();
+            return families
+                .filter((family) => family.campuses.includes(args.campusId))
+                .sort((a, b) => a.carNumber - b.carNumber)
+                .map((family) => ({
+                    id: family._id,
+                    label: `#${family.carNumber} · ${family.name}`,
+                    carNumber: family.carNumber
+                }));
+        } catch {
+            return [];
+        }
+    }
+});
+
+/**
+ * Create a family owning a car number
+ */
+export const create = mutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        name: v.string(),
+        carNumber: v.number(),
+        email: v.optional(v.string()),
+        phone: v.optional(v.string()),
+        notes: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        if (!userHasAccessToCampusById(user, args.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) throw new Error("Campus not found");
+
+        const fields = normalizeFamilyFields(args);
+        await assertCarNumberAvailable(ctx.db, fields.carNumber);
+
+        const now = Date.now();
+        const newFamily = {
+            ...fields,
+            campuses: [args.campusId],
+            createdBy: user._id,
+            createdAt: now,
+            updatedAt: now
+        };
+        const familyId = await ctx.db.insert("families", newFamily);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "family_created",
+            {
+                targetType: "family",
+                targetId: familyId,
+                campus: campus.campusName,
+                after: newFamily
+            }
+        );
+
+        return familyId;
+    }
+});
+
+/**
+ * Update a family, a new car number follows its students and gate tags
+ */
+export const update = mutation({
+    args: {
+        familyId: v.id("families"),
+        name: v.string(),
+        carNumber: v.number(),
+        email: v.optional(v.string()),
+        phone: v.optional(v.string()),
+        notes: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const family = await ctx.db.get(args.familyId);
+        if (!family) throw new Error("Family not found");
+        if (!family.campuses.some((campusId) => userHasAccessToCampusById(user, campusId, role))) {
+            throw new Error("No access to this family");
+        }
+
+        const fields = normalizeFamilyFields(args);
+        const carChanged = fields.carNumber !== family.carNumber;
+        if (carChanged) {
+            // One of the family's own vehicle tags can become its car number
+            await assertCarNumberAvailable(ctx.db, fields.carNumber, family._id);
+            // Queue entries keep the number the car was queued with, whichever of the family's cars it was
+            for (const carNumber of await getFamilyCarNumbers(ctx.db, family)) {
+                const queued = await ctx.db
+                    .query("dismissalQueue")
+                    .withIndex("by_car_status", (q) =>
+                        q.eq("carNumber", carNumber).eq("status", "waiting")
+                    )
+                    .first();
+                if (queued) {
+                    throw new Error(`Car ${carNumber} is in the queue, dismiss it before changing the family's number`);
+                }
+            }
+        }
+
+        await ctx.db.patch(family._id, { ...fields, updatedAt: Date.now() });
+
+        let studentsUpdated = 0;
+        if (carChanged) {
+            const students = await ctx.db
+                .query("students")
+                .withIndex("by_family", (q) => q.eq("familyId", family._id))
+                .collect();
+            for (const student of students) {
+                await ctx.db.patch(student._id, { carNumber: fields.carNumber, updatedAt: Date.now() });
+            }
+            studentsUpdated = students.length;
+
+            for (const campusId of family.campuses) {
+                const tags = await ctx.db
+                    .query("arrivalTags")
+                    .withIndex("by_campus", (q) => q.eq("campusId", campusId))
+                    .filter((q) => q.eq(q.field("carNumber"), family.carNumber))
+                    .collect();
+                for (const tag of tags) {
+                    await ctx.db.patch(tag._id, { carNumber: fields.carNumber, updatedAt: Date.now() });
+                }
+            }
+        }
+
+        const campus = family.campuses[0] ? await ctx.db.get(family.campuses[0]) : null;
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "family_updated",
+            {
+                targetType: "family",
+                targetId: family._id,
+                campus: campus?.campusName,
+                before: family,
+                after: { ...family, ...fields },
+                metadata: carChanged ? { studentsUpdated } : undefined
+            }
+        );
+
+        return family._id;
+    }
+});
+
+/**
+ * Delete a family without students, its guardians and vehicles are removed with it
+ */
+export const remove = mutation({
+    args: {
+        familyId: v.id("families")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const family = await ctx.db.get(args.familyId);
+        if (!family) throw new Error("Family not found");
+        if (!family.campuses.some((campusId) => userHasAccessToCampusById(user, campusId, role))) {
+            throw new Error("No access to this family");
+        }
+
+        const student = await ctx.db
+            .query("students")
+            .withIndex("by_family", (q) => q.eq("familyId", family._id))
+            .first();
+        if (student) {
+            throw new Error("Move or remove the family's students before deleting it");
+        }
+
+        const guardians = await ctx.db
+            .query("guardians")
+            .withIndex("by_family", (q) => q.eq("familyId", family._id))
+            .collect();
+        for (const guardian of guardians) {
+            await ctx.db.delete(guardian._id);
+        }
+        const vehicles = await ctx.db
+            .query("familyVehicles")
+            .withIndex("by_family", (q) => q.eq("familyId", family._id))
+            .collect();
+        for (const vehicle of vehicles) {
+            await ctx.db.delete(vehicle._id);
+        }
+        await ctx.db.delete(family._id);
+
+        const campus = family.campuses[0] ? await ctx.db.get(family.campuses[0]) : null;
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "family_deleted",
+            {
+                targetType: "family",
+                targetId: family._id,
+                campus: campus?.campusName,
+                before: family,
+                metadata: { guardiansRemoved: guardians.length, vehiclesRemoved: vehicles.length }
+            }
+        );
+
+        return family._id;
+    }
+});
+
+/**
+ * Add or update a family vehicle, its tag queues the family's students
+ */
+export const saveVehicle = mutation({
+    args: {
+        familyId: v.id("families"),
+        vehicleId: v.optional(v.id("familyVehicles")),
+        carNumber: v.number(),
+        label: v.string(),
+        color: v.optional(v.string()),
+        make: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const family = await ctx.db.get(args.familyId);
+        if (!family) throw new Error("Family not found");
+        if (!family.campuses.some((campusId) => userHasAccessToCampusById(user, campusId, role))) {
+            throw new Error("No access to this family");
+        }
+
+        const existing = args.vehicleId ? await ctx.db.get(args.vehicleId) : null;
+        if (args.vehicleId && (!existing || existing.familyId !== family._id)) {
+            throw new Error("Vehicle not found");
+        }
+
+        const label = args.label.trim();
+        if (!label) throw new Error("Vehicle label is required");
+        if (!Number.isInteger(args.carNumber) || args.carNumber <= 0) {
+            throw new Error("Invalid car number");
+        }
+
+        if (args.carNumber !== existing?.carNumber) {
+            await assertCarNumberAvailable(ctx.db, args.carNumber, family._id);
+            const sameTag = await ctx.db
+                .query("familyVehicles")
+                .withIndex("by_car_number", (q) => q.eq("carNumber", args.carNumber))
+                .first();
+            if (sameTag) throw new Error(`Car ${args.carNumber} is already one of the family's vehicles`);
+        }
+
+        const fields = {
+            carNumber: args.carNumber,
+            label,
+            color: args.color?.trim() || undefined,
+            make: args.make?.trim() || undefined,
+            updatedAt: Date.now()
+        };
+
+        let vehicleId: Id<"familyVehicles">;
+        if (existing) {
+            vehicleId = existing._id;
+            await ctx.db.patch(existing._id, fields);
+        } else {
+            vehicleId = await ctx.db.insert("familyVehicles", {
+                ...fields,
+                familyId: family._id,
+                createdBy: user._id,
+                createdAt: fields.updatedAt
+            });
+        }
+
+        const campus = family.campuses[0] ? await ctx.db.get(family.campuses[0]) : null;
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            existing ? "family_vehicle_updated" : "family_vehicle_created",
+            {
+                targetType: "family",
+                targetId: family._id,
+                campus: campus?.campusName,
+                before: existing ?? undefined,
+                after: fields,
+                metadata: { vehicleId, familyName: family.name }
+            }
+        );
+
+        return vehicleId;
+    }
+});
+
+/**
+ * Remove a family vehicle, its tag stops queueing the family's students
+ */
+export const removeVehicle = mutation({
+    args: {
+        vehicleId: v.id("familyVehicles")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const vehicle = await ctx.db.get(args.vehicleId);
+        if (!vehicle) throw new Error("Vehicle not found");
+        const family = await ctx.db.get(vehicle.familyId);
+        if (!family || !family.campuses.some((campusId) => userHasAccessToCampusById(user, campusId, role))) {
+            throw new Error("No access to this family");
+        }
+
+        await ctx.db.delete(vehicle._id);
+
+        const campus = family.campuses[0] ? await ctx.db.get(family.campuses[0]) : null;
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "family_vehicle_deleted",
+            {
+                targetType: "family",
+                targetId: family._id,
+                campus: campus?.campusName,
+                before: vehicle,
+                metadata: { vehicleId: vehicle._id, familyName: family.name }
+            }
+        );
+
+        return vehicle._id;
+    }
+});
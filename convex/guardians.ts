@@ -0,0 +1,197 @@
+// convex/guardians.ts
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { guardianPreferencesValidator } from "./types";
+import {
+    createAuditLog,
+    normalizeContactEmail,
+    normalizeContactPhone,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * Validate contact details, a guardian needs an email or a phone number
+ */
+function normalizeContact(email?: string, phone?: string) {
+    const normalizedEmail = normalizeContactEmail(email);
+    const normalizedPhone = normalizeContactPhone(phone);
+    if (!normalizedEmail && !normalizedPhone) {
+        throw new Error("Add an email or a phone number");
+    }
+    return { email: normalizedEmail, phone: normalizedPhone };
+}
+
+/**
+ * List guardians of a campus, optionally for one family (principal/admin/superadmin)
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings"),
+        familyId: v.optional(v.id("families"))
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { guardians: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { guardians: [], authState: "forbidden" };
+            }
+
+            const familyId = args.familyId;
+            const guardians = familyId
+                ? await ctx.db
+                    .query("guardians")
+                    .withIndex("by_family", (q) => q.eq("familyId", familyId))
+                    .collect()
+                : await ctx.db
+                    .query("guardians")
+                    .withIndex("by_campus", (q) => q.eq("campusId", args.campusId))
+                    .collect();
+
+            const results = [];
+            for (const guardian of guardians) {
+                const family = await ctx.db.get(guardian.familyId);
+                results.push({
+                    ...guardian,
+                    family: family ? { name: family.name, carNumber: family.carNumber } : null
+                });
+            }
+
+            return {
+                guardians: results.sort((a, b) =>
+                    (a.family?.carNumber ?? 0) - (b.family?.carNumber ?? 0) || a.name.localeCompare(b.name)
+                ),
+                authState: "authenticated"
+            };
+        } catch {
+            return { guardians: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Add a guardian to a family or update their contact preferences
+ */
+export const save = mutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        guardianId: v.optional(v.id("guardians")),
+        familyId: v.id("families"),
+        name: v.string(),
+        email: v.optional(v.string()),
+        phone: v.optional(v.string()),
+        locale: v.union(v.literal("en"), v.literal("es")),
+        preferences: guardianPreferencesValidator
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        if (!userHasAccessToCampusById(user, args.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) throw new Error("Campus not found");
+
+        const name = args.name.trim();
+        if (!name) throw new Error("Guardian name is required");
+
+        const family = await ctx.db.get(args.familyId);
+        if (!family || !family.campuses.includes(args.campusId)) {
+            throw new Error("Family not found");
+        }
+
+        const existing = args.guardianId ? await ctx.db.get(args.guardianId) : null;
+        if (args.guardianId && (!existing || existing.campusId !== args.campusId)) {
+            throw new Error("Guardian not found");
+        }
+
+        const contact = normalizeContact(args.email, args.phone);
+        const fields = {
+            familyId: family._id,
+            name,
+            ...contact,
+            locale: args.locale,
+            // A channel without a contact can't receive anything
+            preferences: {
+                email: contact.email ? [...new Set(args.preferences.email)] : [],
+                sms: contact.phone ? [...new Set(args.preferences.sms)] : []
+            },
+            updatedAt: Date.now()
+        };
+
+        let guardianId: Id<"guardians">;
+        if (existing) {
+            guardianId = existing._id;
+            await ctx.db.patch(existing._id, fields);
+        } else {
+            guardianId = await ctx.db.insert("guardians", {
+                ...fields,
+                campusId: args.campusId,
+                createdBy: user._id,
+                createdAt: fields.updatedAt
+            });
+        }
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            existing ? "guardian_updated" : "guardian_created",
+            {
+                targetType: "guardian",
+                targetId: guardianId,
+                campus: campus.campusName,
+                before: existing ?? undefined,
+                after: fields,
+                metadata: { familyName: family.name, carNumber: family.carNumber }
+            }
+        );
+
+        return guardianId;
+    }
+});
+
+/**
+ * Remove a guardian, they stop receiving notifications immediately
+ */
+export const remove = mutation({
+    args: {
+        guardianId: v.id("guardians")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+        const guardian = await ctx.db.get(args.guardianId);
+        if (!guardian) throw new Error("Guardian not found");
+        if (!userHasAccessToCampusById(user, guardian.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        await ctx.db.delete(args.guardianId);
+
+        const campus = await ctx.db.get(guardian.campusId);
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "guardian_deleted",
+            {
+                targetType: "guardian",
+                targetId: args.guardianId,
+                campus: campus?.campusName,
+                before: guardian
+            }
+        );
+
+        return args.guardianId;
+    }
+});
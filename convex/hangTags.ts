@@ -0,0 +1,105 @@
+// convex/hangTags.ts
+
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { GRADES } from "./types";
+import {
+    getFamilyByCarNumber,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+const gradeOrder = (grade: string) => {
+    const index = (GRADES as readonly string[]).indexOf(grade);
+    return index === -1 ? GRADES.length : index;
+};
+
+/**
+ * Hang tags to print for a campus, a grade or a set of students (principal/admin/superadmin).
+ * One tag per car number, listing every student of the campus that car picks up,
+ * plus one tag for each extra vehicle of the family.
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings"),
+        grade: v.optional(v.string()),
+        studentIds: v.optional(v.array(v.id("students")))
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { campus: null, tags: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { campus: null, tags: [], authState: "forbidden" };
+            }
+
+            const campus = await ctx.db.get(args.campusId);
+            if (!campus) {
+                return { campus: null, tags: [], authState: "authenticated" };
+            }
+
+            const students = (await ctx.db.query("students").collect()).filter((student) =>
+                student.isActive && student.carNumber > 0 && student.campuses.includes(args.campusId)
+            );
+
+            // Cars to print, siblings outside the selection still show on their car's tag
+            const selectedIds = args.studentIds ? new Set<string>(args.studentIds) : null;
+            const carNumbers = new Set(
+                students
+                    .filter((student) => !selectedIds || selectedIds.has(student._id))
+                    .filter((student) => !args.grade || student.grade === args.grade)
+                    .map((student) => student.carNumber)
+            );
+
+            const studentsByCar = new Map<number, Doc<"students">[]>();
+            for (const student of students) {
+                if (!carNumbers.has(student.carNumber)) continue;
+                studentsByCar.set(student.carNumber, [...(studentsByCar.get(student.carNumber) ?? []), student]);
+            }
+
+            const tags = [];
+            for (const carNumber of [...carNumbers].sort((a, b) => a - b)) {
+                const carStudents = (studentsByCar.get(carNumber) ?? [])
+                    .sort((a, b) => gradeOrder(a.grade) - gradeOrder(b.grade) || a.fullName.localeCompare(b.fullName))
+                    .map((student) => ({ name: student.fullName, grade: student.grade }));
+
+                const familyId = studentsByCar.get(carNumber)?.find((student) => student.familyId)?.familyId;
+                const family = familyId
+                    ? await ctx.db.get(familyId)
+                    : await getFamilyByCarNumber(ctx.db, carNumber);
+
+                tags.push({ carNumber, familyName: family?.name, students: carStudents });
+
+                if (!family) continue;
+                const vehicles = await ctx.db
+                    .query("familyVehicles")
+                    .withIndex("by_family", (q) => q.eq("familyId", family._id))
+                    .collect();
+                for (const vehicle of vehicles.sort((a, b) => a.carNumber - b.carNumber)) {
+                    if (vehicle.carNumber === carNumber) continue;
+                    tags.push({
+                        carNumber: vehicle.carNumber,
+                        familyName: family.name,
+                        vehicleLabel: vehicle.label,
+                        students: carStudents
+                    });
+                }
+            }
+
+            const logoUrl = campus.logoStorageId ? await ctx.storage.getUrl(campus.logoStorageId) : null;
+
+            return {
+                campus: { name: campus.campusName, logoUrl },
+                tags,
+                authState: "authenticated"
+            };
+        } catch {
+            return { campus: null, tags: [], authState: "forbidden" };
+        }
+    }
+});
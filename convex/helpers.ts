@@ -1,7 +1,8 @@
 // convex/helpers.ts
 
-import { QueryCtx, MutationCtx, DatabaseReader, DatabaseWriter } from "./_generated/server";
+import { QueryCtx, MutationCtx, ActionCtx, DatabaseReader, DatabaseWriter } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import type {
     UserProfile,
     StudentWithCar,
@@ -10,9 +11,19 @@ import type {
     CarData,
     StudentSummary,
     Lane,
+    LaneDefinition,
+    LaneState,
+    LaneCount,
     QueueMetrics,
     DailyDismissalSummary,
     CarPickupHistory,
+    AuditAction,
+    AuditTargetType,
+    ApiKeyScope,
+    WebhookEvent,
+    ParentNotificationEvent,
+    ParentNotificationsSettings,
+    PickupOutcome,
 } from "./types";
 import {
     DismissalRole,
@@ -22,7 +33,7 @@ import {
     canAllocate,
     canDispatch
 } from "../lib/role-utils";
-import { CAR_COLORS } from "./types";
+import { CAR_COLORS, DEFAULT_CAMPUS_SETTINGS, DEFAULT_LANES, MAX_LANES } from "./types";
 
 // Type aliases for cleaner function signatures
 type DbReader = QueryCtx["db"] | DatabaseReader;
@@ -100,6 +111,33 @@ export async function validateUserAccess(
     return { user, role, identity };
 }
 
+/**
+ * Validate a campus API key from the "Authorization: Bearer <key>" header of an HTTP action
+ * Machine counterpart of validateUserAccess: throws when the key is missing,
+ * revoked, or not granted the scope
+ */
+export async function validateApiKeyAccess(
+    ctx: ActionCtx,
+    request: Request,
+    scope: ApiKeyScope
+): Promise<{
+    apiKeyId: Id<"apiKeys">;
+    campusId: Id<"campusSettings">;
+    campus: string;
+}> {
+    const authorization = request.headers.get("authorization") ?? "";
+    const key = authorization.startsWith("Bearer ") ? authorization.slice(7).trim() : "";
+    if (!key) throw new Error("Missing API key");
+
+    const access = await ctx.runMutation(internal.apiKeys.authorize, {
+        keyHash: await hashSecretToken(key),
+        scope
+    });
+    if (!access) throw new Error(`Invalid API key or missing scope: ${scope}`);
+
+    return access;
+}
+
 /**
  * Check if user has access to a specific campus
  * @param campus - Campus name (will be compared against assigned campus IDs)
@@ -248,6 +286,117 @@ export async function getStudentWithCarInfo(
     };
 }
 
+// ============================================================================
+// FAMILY HELPERS
+// ============================================================================
+
+/**
+ * Get the family that owns a car number (car numbers are unique globally)
+ * Only looks at families' own numbers, use resolveCarTag to include vehicle tags
+ */
+export async function getFamilyByCarNumber(
+    db: DbReader,
+    carNumber: number
+): Promise<Doc<"families"> | null> {
+    if (carNumber <= 0) return null;
+
+    return await db
+        .query("families")
+        .withIndex("by_car_number", q => q.eq("carNumber", carNumber))
+        .first();
+}
+
+/**
+ * Resolve a car tag: the family's own car number or one of its extra vehicles
+ */
+export async function resolveCarTag(
+    db: DbReader,
+    carNumber: number
+): Promise<{ family: Doc<"families"> | null; vehicle: Doc<"familyVehicles"> | null }> {
+    const vehicle = carNumber > 0
+        ? await db
+            .query("familyVehicles")
+            .withIndex("by_car_number", q => q.eq("carNumber", carNumber))
+            .first()
+        : null;
+    const family = vehicle
+        ? await db.get(vehicle.familyId)
+        : await getFamilyByCarNumber(db, carNumber);
+
+    return { family, vehicle };
+}
+
+/**
+ * Every car number that queues a family's students (own car number first)
+ */
+export async function getFamilyCarNumbers(
+    db: DbReader,
+    family: Doc<"families">
+): Promise<number[]> {
+    const vehicles = await db
+        .query("familyVehicles")
+        .withIndex("by_family", q => q.eq("familyId", family._id))
+        .collect();
+
+    return [
+        family.carNumber,
+        ...vehicles.map(vehicle => vehicle.carNumber).filter(carNumber => carNumber !== family.carNumber)
+    ];
+}
+
+/**
+ * Add campuses to a family so it shows up wherever its students attend
+ */
+export async function addFamilyCampuses(
+    db: DbWriter,
+    family: Doc<"families">,
+    campuses: Id<"campusSettings">[]
+): Promise<Doc<"families">> {
+    const missing = campuses.filter(campusId => !family.campuses.includes(campusId));
+    if (missing.length === 0) return family;
+
+    const updated = { campuses: [...family.campuses, ...missing], updatedAt: Date.now() };
+    await db.patch(family._id, updated);
+    return { ...family, ...updated };
+}
+
+/**
+ * Get the family owning a car number, creating it when a car number is
+ * assigned without one (legacy car assignment and the families migration)
+ * Throws when the number is another family's extra vehicle tag, whose cars
+ * would then queue these students
+ */
+export async function findOrCreateFamilyForCar(
+    db: DbWriter,
+    carNumber: number,
+    defaults: {
+        name: string;
+        campuses: Id<"campusSettings">[];
+        createdBy?: Id<"users">;
+    }
+): Promise<Doc<"families">> {
+    const { family: existing, vehicle } = await resolveCarTag(db, carNumber);
+    if (vehicle && existing?.carNumber !== carNumber) {
+        throw new Error(`Car ${carNumber} is a vehicle tag of the ${existing?.name ?? "another"} family`);
+    }
+    if (existing) {
+        return await addFamilyCampuses(db, existing, defaults.campuses);
+    }
+
+    const now = Date.now();
+    const familyId = await db.insert("families", {
+        name: defaults.name,
+        carNumber,
+        campuses: defaults.campuses,
+        createdBy: defaults.createdBy,
+        createdAt: now,
+        updatedAt: now
+    });
+    const family = await db.get(familyId);
+    if (!family) throw new Error("Family not found");
+    return family;
+}
+
 /**
  * Convert student to summary format for queue display
  */
@@ -264,6 +413,21 @@ export function studentToSummary(student: Doc<"students">): StudentSummary {
 // DISMISSAL QUEUE HELPERS
 // ============================================================================
 
+/**
+ * Group waiting queue entries by the campus lanes, ordered by position
+ */
+export function groupEntriesByLane(
+    lanes: LaneDefinition[],
+    entries: QueueEntry[]
+): LaneState[] {
+    return lanes.map(lane => ({
+        ...lane,
+        cars: entries
+            .filter(e => e.lane === lane.id)
+            .sort((a, b) => a.position - b.position)
+    }));
+}
+
 /**
  * Get current queue state for a campus
  */
@@ -278,16 +442,11 @@ export async function getQueueState(
         )
         .collect();
 
-    const leftLane = entries
-        .filter(e => e.lane === "left")
-        .sort((a, b) => a.position - b.position);
-
-    const rightLane = entries
-        .filter(e => e.lane === "right")
-        .sort((a, b) => a.position - b.position);
+    const settings = await getCampusSettings(db, campus);
+    const lanes = groupEntriesByLane(getCampusLanes(settings), entries);
 
-    // Calculate average wait time from completed entries today
-    const today = new Date().toISOString().split('T')[0];
+    // Calculate average wait time from completed entries today (campus-local date)
+    const today = getCampusLocalTime(settings?.timezone).date;
     const todayHistory = await db
         .query("dismissalHistory")
         .withIndex("by_campus_date", q =>
@@ -301,8 +460,7 @@ export async function getQueueState(
 
     return {
         campus,
-        leftLane,
-        rightLane,
+        lanes,
         totalCars: entries.length,
         averageWaitTime: avgWaitTime
     };
@@ -339,17 +497,22 @@ export async function isCarInQueue(
     campus: string
 ): Promise<boolean> {
     // Check across ALL campuses, not just the current one
-    const existing = await db
+    return (await getWaitingEntryByCar(db, carNumber)) !== null;
+}
+
+/**
+ * Waiting queue entry of a car on any campus (null when it isn't queued)
+ */
+export async function getWaitingEntryByCar(
+    db: DbReader,
+    carNumber: number
+): Promise<Doc<"dismissalQueue"> | null> {
+    return await db
         .query("dismissalQueue")
-        .filter(q =>
-            q.and(
-                q.eq(q.field("carNumber"), carNumber),
-                q.eq(q.field("status"), "waiting")
-            )
+        .withIndex("by_car_status", q =>
+            q.eq("carNumber", carNumber).eq("status", "waiting")
         )
         .first();
-
-    return existing !== null;
 }
 
 /**
@@ -374,6 +537,134 @@ export async function repositionLaneCars(
     }
 }
 
+/**
+ * Helper function to clear a car from queue and create history entry
+ * Shared by both manual clear (clearAllCars) and scheduled clear (scheduledClearAllQueues)
+ * `date` is the campus-local operational date the history row belongs to
+ */
+export async function clearCarFromQueue(
+    db: DbWriter,
+    entry: Doc<"dismissalQueue">,
+    removedByUserId: Id<"users">,
+    date: string,
+    now: number = Date.now(),
+    outcome: PickupOutcome = "picked_up"
+): Promise<Id<"dismissalHistory">> {
+    const waitTimeSeconds = Math.floor((now - entry.assignedTime) / 1000);
+
+    // Create history entry
+    const historyId = await db.insert("dismissalHistory", {
+        carNumber: entry.carNumber,
+        campusLocation: entry.campusLocation,
+        lane: entry.lane,
+        position: entry.position,
+        studentIds: entry.students.map((s) => s.studentId),
+        studentNames: entry.students.map((s) => s.name),
+        studentReleases: getStudentReleases(entry, now, outcome),
+        queuedAt: entry.assignedTime,
+        completedAt: now,
+        waitTimeSeconds,
+        outcome,
+        ...getStageTiming(entry, now),
+        laneMoves: entry.laneMoves,
+        vehicle: entry.vehicle,
+        addedBy: entry.addedBy,
+        removedBy: removedByUserId,
+        date
+    });
+
+    // Delete from queue
+    await db.delete(entry._id);
+
+    return historyId;
+}
+
+/**
+ * Per-student release times for a car leaving the queue
+ * Students not checked off individually leave with the car (unless it was a no-show)
+ */
+function getStudentReleases(entry: Doc<"dismissalQueue">, now: number, outcome: PickupOutcome) {
+    return entry.students
+        .filter((s) => s.releasedAt !== undefined || outcome === "picked_up")
+        .map((s) => ({
+            studentId: s.studentId,
+            releasedAt: s.releasedAt ?? now
+        }));
+}
+
+/**
+ * Stage timestamps and per-stage durations for a car leaving the queue
+ */
+function getStageTiming(entry: Doc<"dismissalQueue">, now: number) {
+    const secondsBetween = (from?: number, to?: number) =>
+        from === undefined || to === undefined
+            ? undefined
+            : Math.max(0, Math.floor((to - from) / 1000));
+
+    return {
+        calledAt: entry.calledAt,
+        loadingAt: entry.loadingAt,
+        lineWaitSeconds: secondsBetween(entry.assignedTime, entry.calledAt),
+        walkOutSeconds: secondsBetween(entry.calledAt, entry.loadingAt),
+        curbSeconds: secondsBetween(entry.loadingAt, now)
+    };
+}
+
+/**
+ * Dismiss a waiting car as picked up: history row, lane repositioning, audit entry,
+ * `car.dismissed` webhook and family notification
+ * `entry` is the car as it leaves (latest releases applied), `before` the car as audited
+ */
+export async function dismissWaitingCar(
+    ctx: MutationCtx,
+    entry: Doc<"dismissalQueue">,
+    actor: { userId: Id<"users">; email: string; role: DismissalRole },
+    options: { now?: number; before?: Doc<"dismissalQueue">; metadata?: Record<string, unknown> } = {}
+): Promise<{ historyId: Id<"dismissalHistory">; waitTimeSeconds: number }> {
+    const now = options.now ?? Date.now();
+    const waitTimeSeconds = Math.floor((now - entry.assignedTime) / 1000);
+    const date = await getCampusLocalDate(ctx.db, entry.campusLocation, now);
+
+    // Move to history (remaining students are released with the car)
+    const historyId = await clearCarFromQueue(ctx.db, entry, actor.userId, date, now);
+    await repositionLaneCars(ctx.db, entry.campusLocation, entry.lane, entry.position);
+
+    await createAuditLog(
+        ctx.db,
+        actor.userId,
+        actor.email,
+        actor.role,
+        "car_removed_from_queue",
+        {
+            targetType: "queue",
+            targetId: entry._id,
+            campus: entry.campusLocation,
+            before: options.before ?? entry,
+            metadata: { carNumber: entry.carNumber, historyId, waitTime: waitTimeSeconds, ...options.metadata }
+        }
+    );
+
+    await enqueueWebhookEvent(ctx, entry.campusLocation, "car.dismissed", {
+        queueId: entry._id,
+        carNumber: entry.carNumber,
+        lane: entry.lane,
+        outcome: "picked_up",
+        waitTimeSeconds,
+        historyId
+    });
+
+    // No family to tell when every student was taken off the car
+    if (entry.students.length > 0) {
+        await enqueueParentNotification(ctx, entry.campusLocation, "car_dismissed", {
+            carNumber: entry.carNumber,
+            lane: entry.lane,
+            students: entry.students.map((s) => s.name)
+        });
+    }
+
+    return { historyId, waitTimeSeconds };
+}
+
 /**
  * Convert queue entry to CarData for frontend
  */
@@ -391,7 +682,8 @@ export function queueEntryToCarData(entry: QueueEntry): CarData {
             imageUrl: s.avatarUrl
         })),
         campus: entry.campusLocation,
-        imageColor: entry.carColor
+        imageColor: entry.carColor,
+        vehicle: entry.vehicle
     };
 }
 
@@ -416,7 +708,7 @@ export async function getQueueMetrics(
 ): Promise<QueueMetrics> {
     const queueState = await getQueueState(db, campus);
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = await getCampusLocalDate(db, campus);
     const todayHistory = await db
         .query("dismissalHistory")
         .withIndex("by_campus_date", q =>
@@ -427,8 +719,10 @@ export async function getQueueMetrics(
     return {
         campus,
         currentCars: queueState.totalCars,
-        leftLaneCars: queueState.leftLane.length,
-        rightLaneCars: queueState.rightLane.length,
+        laneCounts: queueState.lanes.map(({ cars, ...lane }) => ({
+            ...lane,
+            count: cars.length
+        })),
         averageWaitTime: queueState.averageWaitTime || 0,
         todayTotal: todayHistory.length
     };
@@ -459,10 +753,11 @@ export async function getDailyDismissalSummary(
         (sum, h) => sum + h.waitTimeSeconds, 0
     ) / history.length;
 
-    const laneDistribution = {
-        left: history.filter(h => h.lane === "left").length,
-        right: history.filter(h => h.lane === "right").length
-    };
+    const settings = await getCampusSettings(db, campus);
+    const laneDistribution: LaneCount[] = getCampusLanes(settings).map(lane => ({
+        ...lane,
+        count: history.filter(h => h.lane === lane.id).length
+    }));
 
     // Find peak hour (most pickups)
     const hourCounts = new Map<number, number>();
@@ -517,11 +812,14 @@ export async function getCarPickupHistory(
         ? history.reduce((sum, h) => sum + h.waitTimeSeconds, 0) / history.length
         : 0;
 
-    // Determine preferred lane (most used)
-    const laneCounts = { left: 0, right: 0 };
-    history.forEach(h => laneCounts[h.lane]++);
-    const preferredLane = laneCounts.left > laneCounts.right ? "left" :
-        laneCounts.right > laneCounts.left ? "right" : undefined;
+    // Determine preferred lane (most used, undefined on a tie)
+    const laneCounts = new Map<Lane, number>();
+    history.forEach(h => laneCounts.set(h.lane, (laneCounts.get(h.lane) || 0) + 1));
+    const rankedLanes = Array.from(laneCounts.entries()).sort((a, b) => b[1] - a[1]);
+    const preferredLane = rankedLanes.length > 0 &&
+        (rankedLanes.length === 1 || rankedLanes[0][1] > rankedLanes[1][1])
+        ? rankedLanes[0][0]
+        : undefined;
 
     return {
         carNumber,
@@ -559,24 +857,313 @@ export async function getCampusSettings(
 }
 
 /**
- * Check if dismissal is currently active
+ * Get the pickup lanes configured for a campus
+ * Falls back to the default left/right lanes when none are configured
+ */
+export function getCampusLanes(
+    settings: Doc<"campusSettings"> | null
+): LaneDefinition[] {
+    if (!settings?.lanes || settings.lanes.length === 0) {
+        return [...DEFAULT_LANES];
+    }
+    return settings.lanes;
+}
+
+/**
+ * Find a lane definition by id within the campus lanes
+ */
+export function findCampusLane(
+    settings: Doc<"campusSettings"> | null,
+    laneId: Lane
+): LaneDefinition | null {
+    return getCampusLanes(settings).find(lane => lane.id === laneId) ?? null;
+}
+
+/**
+ * Validate and normalize lane definitions submitted from campus settings
+ * Throws if the count, ids, names or colors are invalid
+ */
+export function normalizeLaneDefinitions(lanes: LaneDefinition[]): LaneDefinition[] {
+    if (lanes.length === 0) {
+        throw new Error("At least one lane is required");
+    }
+    if (lanes.length > MAX_LANES) {
+        throw new Error(`A campus can have at most ${MAX_LANES} lanes`);
+    }
+
+    const seenIds = new Set<string>();
+    return lanes.map(lane => {
+        const id = lane.id.trim();
+        const name = lane.name.trim();
+        const color = lane.color.trim();
+
+        if (!id) throw new Error("Lane id is required");
+        if (seenIds.has(id)) throw new Error(`Duplicate lane id: ${id}`);
+        seenIds.add(id);
+
+        if (!name) throw new Error("Lane name is required");
+        if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+            throw new Error(`Invalid color for lane ${name}`);
+        }
+
+        return { id, name, color };
+    });
+}
+
+// ============================================================================
+// CAMPUS TIME HELPERS
+// ============================================================================
+
+/**
+ * Check if a string is a valid IANA timezone ("America/New_York")
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse a "HH:MM" time of day into minutes since midnight
+ * Returns null for malformed values
+ */
+export function parseTimeOfDay(value: string): number | null {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+    if (!match) return null;
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Get the campus-local date (YYYY-MM-DD) and minutes since midnight
+ * Falls back to the default campus timezone when the stored one is invalid
+ */
+export function getCampusLocalTime(
+    timezone: string | undefined,
+    now: number = Date.now()
+): { date: string; minutes: number } {
+    const timeZone = timezone && isValidTimezone(timezone)
+        ? timezone
+        : DEFAULT_CAMPUS_SETTINGS.timezone;
+
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(new Date(now));
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? "00";
+
+    return {
+        date: `${part("year")}-${part("month")}-${part("day")}`,
+        minutes: Number(part("hour")) * 60 + Number(part("minute"))
+    };
+}
+
+/**
+ * Get the campus-local date (YYYY-MM-DD) for a campus by name
+ */
+export async function getCampusLocalDate(
+    db: DbReader,
+    campus: string,
+    now: number = Date.now()
+): Promise<string> {
+    const settings = await getCampusSettings(db, campus);
+    return getCampusLocalTime(settings?.timezone, now).date;
+}
+
+/**
+ * Get the operational day closed by a queue reset at `now`
+ * Resets before noon close the previous local day, later resets close the current one
+ */
+export function getResetOperationalDate(
+    timezone: string | undefined,
+    now: number = Date.now()
+): string {
+    return getCampusLocalTime(timezone, now - 12 * 60 * 60 * 1000).date;
+}
+
+/**
+ * Get today's dismissal window for a campus, evaluated in the campus timezone
+ * opensAt/closesAt are epoch milliseconds for today's window (null if not configured)
+ */
+export function getDismissalWindow(
+    settings: Doc<"campusSettings">,
+    now: number = Date.now()
+): {
+    isConfigured: boolean;
+    isActive: boolean;
+    localDate: string;
+    startTime?: string;
+    endTime?: string;
+    timezone: string;
+    opensAt: number | null;
+    closesAt: number | null;
+} {
+    const local = getCampusLocalTime(settings.timezone, now);
+    const startMinutes = settings.dismissalStartTime ? parseTimeOfDay(settings.dismissalStartTime) : null;
+    const endMinutes = settings.dismissalEndTime ? parseTimeOfDay(settings.dismissalEndTime) : null;
+
+    if (startMinutes === null || endMinutes === null) {
+        // Always active if no times set
+        return {
+            isConfigured: false,
+            isActive: true,
+            localDate: local.date,
+            timezone: settings.timezone,
+            opensAt: null,
+            closesAt: null
+        };
+    }
+
+    // Timezone offsets are whole minutes, so the local minute starts with the UTC minute
+    const minuteStart = now - (now % 60000);
+
+    return {
+        isConfigured: true,
+        isActive: local.minutes >= startMinutes && local.minutes < endMinutes,
+        localDate: local.date,
+        startTime: settings.dismissalStartTime,
+        endTime: settings.dismissalEndTime,
+        timezone: settings.timezone,
+        opensAt: minuteStart + (startMinutes - local.minutes) * 60000,
+        closesAt: minuteStart + (endMinutes - local.minutes) * 60000
+    };
+}
+
+/**
+ * Check if dismissal is currently active (in the campus timezone)
  */
 export function isDismissalTimeActive(
-    settings: Doc<"campusSettings">
+    settings: Doc<"campusSettings">,
+    now: number = Date.now()
 ): boolean {
-    if (!settings.dismissalStartTime || !settings.dismissalEndTime) {
-        return true; // Always active if no times set
+    return getDismissalWindow(settings, now).isActive;
+}
+
+/**
+ * Get the dismissal window override for a campus-local date, if any
+ */
+export async function getDismissalWindowOverride(
+    db: DbReader,
+    campus: string,
+    date: string
+): Promise<Doc<"dismissalWindowOverrides"> | null> {
+    return await db
+        .query("dismissalWindowOverrides")
+        .withIndex("by_campus_date", q =>
+            q.eq("campusLocation", campus).eq("date", date)
+        )
+        .first();
+}
+
+// ============================================================================
+// SECRET TOKEN HELPERS
+// ============================================================================
+
+/**
+ * Generate a random hex secret with a readable prefix ("dsp_3f9a...")
+ * Only its hash is stored, the plain value is shown once
+ */
+export function generateSecretToken(prefix: string, bytes: number = 24): string {
+    const values = crypto.getRandomValues(new Uint8Array(bytes));
+    return `${prefix}_${Array.from(values, b => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Generate a webhook signing secret in the Svix format ("whsec_<base64>")
+ * so receivers can verify deliveries with the Svix libraries
+ */
+export function generateWebhookSecret(): string {
+    const values = crypto.getRandomValues(new Uint8Array(24));
+    let binary = "";
+    for (const byte of values) binary += String.fromCharCode(byte);
+    return `whsec_${btoa(binary)}`;
+}
+
+/**
+ * SHA-256 hex digest used to store and look up secrets
+ */
+export async function hashSecretToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Base64url encoding (no padding) for tokens that travel in URLs
+ */
+export function encodeBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeBase64Url(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * HMAC-SHA256 of a payload, base64url encoded
+ */
+export async function signPayload(payload: string, secret: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    );
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+    return encodeBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Compare two signatures without leaking where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
     }
+    return diff === 0;
+}
 
-    const now = new Date();
-    const [startHour, startMin] = settings.dismissalStartTime.split(':').map(Number);
-    const [endHour, endMin] = settings.dismissalEndTime.split(':').map(Number);
+/**
+ * Normalize a plate or RFID tag as gate readers send it ("abc 123" -> "ABC123")
+ */
+export function normalizeArrivalTag(tag: string): string {
+    return tag.replace(/[\s-]+/g, "").toUpperCase();
+}
 
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
+/**
+ * Normalize an optional contact email (lowercase), throws if malformed
+ */
+export function normalizeContactEmail(email?: string): string | undefined {
+    const normalized = email?.trim().toLowerCase() || undefined;
+    if (normalized && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+        throw new Error("Invalid email address");
+    }
+    return normalized;
+}
 
-    return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
+/**
+ * Normalize an optional contact phone to E.164 (SMS gateways need the country code)
+ */
+export function normalizeContactPhone(phone?: string): string | undefined {
+    const normalized = phone?.replace(/[\s().-]/g, "") || undefined;
+    if (normalized && !/^\+[1-9]\d{6,14}$/.test(normalized)) {
+        throw new Error("Phone number must include the country code, e.g. +15551234567");
+    }
+    return normalized;
 }
 
 // ============================================================================
@@ -611,6 +1198,37 @@ export async function createAuditLog(
     });
 }
 
+/**
+ * Create audit log entry for system changes (crons, Clerk webhooks)
+ */
+export async function createSystemAuditLog(
+    db: DbWriter,
+    action: AuditAction,
+    details: {
+        targetType?: AuditTargetType;
+        targetId?: string;
+        campus?: string;
+        before?: unknown;
+        after?: unknown;
+        metadata?: unknown;
+    }
+): Promise<void> {
+    await db.insert("auditLogs", {
+        username: "system",
+        userRole: "system",
+        action,
+        targetType: details.targetType,
+        targetId: details.targetId,
+        campusLocation: details.campus,
+        details: {
+            before: details.before,
+            after: details.after,
+            metadata: details.metadata
+        },
+        timestamp: Date.now()
+    });
+}
+
 /**
  * Create audit log from context (helper for mutations)
  */
@@ -645,3 +1263,99 @@ export async function getRecentAuditLogs(
         .order("desc")
         .take(limit);
 }
+
+// ============================================================================
+// WEBHOOK HELPERS
+// ============================================================================
+
+/**
+ * Queue a delivery of an event to every active webhook of the campus subscribed
+ * to it, each delivery is sent (and retried) by a scheduled action
+ */
+export async function enqueueWebhookEvent(
+    ctx: MutationCtx,
+    campus: string,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+): Promise<void> {
+    const campusDoc = await getCampusSettings(ctx.db, campus);
+    if (!campusDoc) return;
+
+    const endpoints = await ctx.db
+        .query("webhookEndpoints")
+        .withIndex("by_campus", q => q.eq("campusId", campusDoc._id))
+        .collect();
+    const subscribed = endpoints.filter(
+        endpoint => endpoint.isActive && endpoint.events.includes(event)
+    );
+    if (subscribed.length === 0) return;
+
+    const now = Date.now();
+    const payload = JSON.stringify({
+        type: event,
+        timestamp: new Date(now).toISOString(),
+        campus,
+        data
+    });
+
+    for (const endpoint of subscribed) {
+        const deliveryId = await ctx.db.insert("webhookDeliveries", {
+            endpointId: endpoint._id,
+            campusId: campusDoc._id,
+            event,
+            messageId: generateSecretToken("msg", 12),
+            payload,
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now
+        });
+        await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+    }
+}
+
+// ============================================================================
+// PARENT NOTIFICATION HELPERS
+// ============================================================================
+
+/**
+ * Notify the guardians of a car when the campus opted in, sent by a scheduled action
+ * Queueing a car also schedules the long-wait check when the campus sets a threshold
+ */
+export async function enqueueParentNotification(
+    ctx: MutationCtx,
+    campus: string,
+    event: ParentNotificationEvent,
+    details: {
+        queueId?: Id<"dismissalQueue">;
+        carNumber: number;
+        lane: Lane;
+        students: string[];
+        minutes?: number;
+    }
+): Promise<void> {
+    const campusDoc = await getCampusSettings(ctx.db, campus);
+    const settings: ParentNotificationsSettings =
+        campusDoc?.parentNotifications ?? DEFAULT_CAMPUS_SETTINGS.parentNotifications;
+    if (!campusDoc || !settings.enabled) return;
+
+    await ctx.scheduler.runAfter(0, internal.notifications.notifyFamily, {
+        campusId: campusDoc._id,
+        carNumber: details.carNumber,
+        event,
+        queueId: details.queueId,
+        values: {
+            campus,
+            carNumber: details.carNumber,
+            lane: findCampusLane(campusDoc, details.lane)?.name ?? details.lane,
+            students: details.students.join(", "),
+            ...(details.minutes !== undefined ? { minutes: details.minutes } : {})
+        }
+    });
+
+    if (event === "car_queued" && details.queueId && settings.longWaitMinutes) {
+        await ctx.scheduler.runAfter(settings.longWaitMinutes * 60 * 1000, internal.notifications.checkLongWait, {
+            queueId: details.queueId
+        });
+    }
+}
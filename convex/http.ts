@@ -1,12 +1,15 @@
 /**
  * convex/http.ts
  * HTTP endpoints for external integrations
- * Includes Clerk webhook handler for user sync
+ * Includes Clerk webhook handler for user sync, the parent check-in page and
+ * the API key endpoints for machine integrations (gate readers, signage, SIS)
  */
 
 import { httpRouter } from "convex/server";
-import { httpAction } from "./_generated/server";
+import { httpAction, type ActionCtx } from "./_generated/server";
+import type { ApiKeyScope } from "./types";
 import { internal } from "./_generated/api";
+import { validateApiKeyAccess } from "./helpers";
 import { Webhook } from "svix";
 
 const http = httpRouter();
@@ -92,4 +95,225 @@ http.route({
   })
 });
 
+// Parent-facing check-in copy, picked from the browser language
+const CHECK_IN_MESSAGES = {
+  en: {
+    title: "Car pickup check-in",
+    prompt: "Tap the button when you arrive at the pickup line.",
+    button: "I'm here",
+    CHECKED_IN: "Thanks! Staff will call car {carNumber} to a lane shortly.",
+    ALREADY_PENDING: "You're already checked in. Staff will call car {carNumber} shortly.",
+    ALREADY_IN_QUEUE: "Car {carNumber} is already in the pickup line.",
+    RATE_LIMITED: "Too many check-ins for this car. Please tell a staff member you're here.",
+    LINK_EXPIRED: "This check-in link has expired. Please ask the school for a new one.",
+    INVALID_TOKEN: "This check-in link is not valid.",
+    NOT_CONFIGURED: "Check-in isn't available right now. Please tell a staff member you're here.",
+  },
+  es: {
+    title: "Registro de llegada",
+    prompt: "Toca el botón cuando llegues a la fila de recogida.",
+    button: "Ya llegué",
+    CHECKED_IN: "¡Gracias! El personal llamará al carro {carNumber} a un carril en breve.",
+    ALREADY_PENDING: "Ya registraste tu llegada. El personal llamará al carro {carNumber} en breve.",
+    ALREADY_IN_QUEUE: "El carro {carNumber} ya está en la fila de recogida.",
+    RATE_LIMITED: "Demasiados registros para este carro. Avisa a un miembro del personal que llegaste.",
+    LINK_EXPIRED: "Este enlace de registro expiró. Pide uno nuevo a la escuela.",
+    INVALID_TOKEN: "Este enlace de registro no es válido.",
+    NOT_CONFIGURED: "El registro no está disponible en este momento. Avisa a un miembro del personal que llegaste.",
+  },
+};
+
+const getCheckInMessages = (request: Request) =>
+  request.headers.get("accept-language")?.toLowerCase().startsWith("es")
+    ? CHECK_IN_MESSAGES.es
+    : CHECK_IN_MESSAGES.en;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const checkInPage = (title: string, body: string, status = 200) =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>` +
+      `<body style="font-family:system-ui,sans-serif;max-width:28rem;margin:4rem auto;padding:0 1rem;text-align:center">` +
+      `<h1 style="font-size:1.5rem">${escapeHtml(title)}</h1>${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } },
+  );
+
+/**
+ * GET /check-in?token=...
+ * Page behind the per-family link or QR code, the check-in itself is a POST
+ * so link previews and prefetching don't queue anyone
+ */
+http.route({
+  path: "/check-in",
+  method: "GET",
+  handler: httpAction(async (_ctx, request) => {
+    const messages = getCheckInMessages(request);
+    const token = new URL(request.url).searchParams.get("token") ?? "";
+    if (!token) {
+      return checkInPage(messages.title, `<p>${escapeHtml(messages.INVALID_TOKEN)}</p>`, 400);
+    }
+
+    return checkInPage(
+      messages.title,
+      `<p>${escapeHtml(messages.prompt)}</p>` +
+        `<form method="POST"><input type="hidden" name="token" value="${escapeHtml(token)}">` +
+        `<button type="submit" style="font-size:1.25rem;padding:1rem 2rem;border-radius:0.75rem;border:0;background:#0c2340;color:#fff">${escapeHtml(messages.button)}</button></form>`,
+    );
+  }),
+});
+
+/**
+ * POST /check-in
+ * Takes a signed family token (form field or JSON body) and queues a pending
+ * arrival for the allocator. Answers JSON to API clients, HTML to browsers
+ */
+http.route({
+  path: "/check-in",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const isJson = request.headers.get("content-type")?.includes("application/json") ?? false;
+    let token = new URL(request.url).searchParams.get("token") ?? "";
+
+    try {
+      if (isJson) {
+        const body = await request.json();
+        token = typeof body?.token === "string" ? body.token : token;
+      } else {
+        const form = await request.formData();
+        token = (form.get("token") as string | null) ?? token;
+      }
+    } catch {
+      // Fall back to the query string token
+    }
+
+    const result = token
+      ? await ctx.runMutation(internal.checkins.recordArrival, { token })
+      : { status: "INVALID_TOKEN" as const };
+
+    const httpStatus =
+      result.status === "INVALID_TOKEN" ? 401
+        : result.status === "LINK_EXPIRED" ? 410
+          : result.status === "RATE_LIMITED" ? 429
+            : result.status === "NOT_CONFIGURED" ? 503
+              : 200;
+
+    if (isJson) {
+      return new Response(JSON.stringify(result), {
+        status: httpStatus,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const messages = getCheckInMessages(request);
+    const message = messages[result.status].replace(
+      "{carNumber}",
+      "carNumber" in result ? String(result.carNumber) : "",
+    );
+    return checkInPage(messages.title, `<p>${escapeHtml(message)}</p>`, httpStatus);
+  }),
+});
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Authorize an integration request, answering 401 when the API key is missing,
+ * revoked or lacks the scope
+ */
+const withApiKey = async (
+  ctx: ActionCtx,
+  request: Request,
+  scope: ApiKeyScope,
+  handle: (access: Awaited<ReturnType<typeof validateApiKeyAccess>>) => Promise<Response>,
+) => {
+  let access: Awaited<ReturnType<typeof validateApiKeyAccess>>;
+  try {
+    access = await validateApiKeyAccess(ctx, request, scope);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid API key";
+    return jsonResponse({ success: false, error: "UNAUTHORIZED", message }, 401);
+  }
+  return await handle(access);
+};
+
+/**
+ * POST /arrivals
+ * Gate hardware (plate camera or RFID reader) reports a tag, the car mapped to
+ * it is queued with the same checks as an allocator adding it by hand.
+ * Requires an API key with the queue:write scope, the campus comes from the key
+ * Body: { "tag": "ABC123", "lane": "A" } (lane optional)
+ */
+http.route({
+  path: "/arrivals",
+  method: "POST",
+  handler: httpAction(async (ctx, request) =>
+    withApiKey(ctx, request, "queue:write", async (access) => {
+      let body: { tag?: unknown; lane?: unknown } | null;
+      try {
+        body = await request.json();
+      } catch {
+        body = null;
+      }
+      if (typeof body?.tag !== "string") {
+        return jsonResponse({ success: false, error: "INVALID_REQUEST", message: "tag is required" }, 400);
+      }
+
+      const result = await ctx.runMutation(internal.queue.addCarFromReader, {
+        apiKeyId: access.apiKeyId,
+        tag: body.tag,
+        lane: typeof body.lane === "string" ? body.lane : undefined,
+      });
+
+      const httpStatus = result.success ? 200
+        : result.error === "UNKNOWN_TAG" || result.error === "NO_STUDENTS_FOUND" ? 404
+          : result.error === "CAR_ALREADY_IN_QUEUE" ? 409
+            : 422;
+      return jsonResponse(result, httpStatus);
+    }),
+  ),
+});
+
+/**
+ * GET /queue
+ * Cars waiting in each lane of the key's campus, for signage players
+ * Requires an API key with the queue:read scope
+ */
+http.route({
+  path: "/queue",
+  method: "GET",
+  handler: httpAction(async (ctx, request) =>
+    withApiKey(ctx, request, "queue:read", async (access) =>
+      jsonResponse(
+        await ctx.runQuery(internal.queue.getCurrentQueueInternal, { campus: access.campus }),
+        200,
+      ),
+    ),
+  ),
+});
+
+/**
+ * GET /students
+ * Active students of the key's campus with their car numbers, for SIS sync
+ * Requires an API key with the students:read scope
+ */
+http.route({
+  path: "/students",
+  method: "GET",
+  handler: httpAction(async (ctx, request) =>
+    withApiKey(ctx, request, "students:read", async (access) =>
+      jsonResponse(
+        {
+          campus: access.campus,
+          students: await ctx.runQuery(internal.students.listForCampusInternal, { campusId: access.campusId }),
+        },
+        200,
+      ),
+    ),
+  ),
+});
+
 export default http;
\ No newline at end of file
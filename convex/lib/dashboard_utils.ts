@@ -31,19 +31,23 @@ export interface DismissalRecord {
   queuedAt: number;
   completedAt: number;
   waitTimeSeconds: number;
+  outcome?: "picked_up" | "no_show";
   date: string;
   studentIds: string[];
   studentNames: string[];
-  lane: "left" | "right";
+  lane: string;
   addedBy: string;
   removedBy: string;
 }
 
 /**
  * Validates record for wait time metrics.
- * Excludes: negative wait times, excessive wait times (> 2 hours), inverted timestamps
+ * Excludes: no-shows, negative wait times, excessive wait times (> 2 hours), inverted timestamps
  */
 export function isValidForWaitTime(record: DismissalRecord): boolean {
+  if (record.outcome === "no_show") {
+    return false;
+  }
   if (
     record.waitTimeSeconds < DATA_VALIDATION.MIN_WAIT_SECONDS ||
     record.waitTimeSeconds > DATA_VALIDATION.MAX_WAIT_SECONDS
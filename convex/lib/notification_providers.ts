@@ -0,0 +1,117 @@
+import en from "../../messages/en.json";
+import es from "../../messages/es.json";
+import type { ParentNotificationEvent } from "../types";
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+export type NotificationChannel = "email" | "sms";
+
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  to: string; // Email address or E.164 phone number
+  subject: string; // Ignored by SMS gateways
+  body: string;
+}
+
+export interface NotificationResult {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Anything that can deliver a parent notification (email service, SMS gateway...)
+ */
+export interface NotificationProvider {
+  name: string;
+  send(message: NotificationMessage): Promise<NotificationResult>;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Local stand-in: writes messages to the Convex logs instead of sending them
+ */
+export const consoleProvider: NotificationProvider = {
+  name: "console",
+  async send(message) {
+    console.log(
+      `📨 [${message.channel}] to ${message.to}: ${message.subject}\n${message.body}`,
+    );
+    return { ok: true };
+  },
+};
+
+/**
+ * HTTP adapter: POSTs each message as JSON to a relay that talks to the real
+ * email/SMS services (e.g. a small function in front of SES or Twilio)
+ */
+export function createHttpProvider(url: string, token?: string): NotificationProvider {
+  return {
+    name: "http",
+    async send(message) {
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify(message),
+        });
+        return response.ok
+          ? { ok: true }
+          : { ok: false, error: `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}` };
+      } catch (err) {
+        return { ok: false, error: err instanceof Error ? err.message : "Request failed" };
+      }
+    },
+  };
+}
+
+/**
+ * Provider picked by the NOTIFICATIONS_PROVIDER environment variable
+ * ("http" needs NOTIFICATIONS_HTTP_URL, optional NOTIFICATIONS_HTTP_TOKEN),
+ * console when unset
+ */
+export function getNotificationProvider(): NotificationProvider {
+  if (process.env.NOTIFICATIONS_PROVIDER === "http") {
+    const url = process.env.NOTIFICATIONS_HTTP_URL;
+    if (!url) {
+      throw new Error("NOTIFICATIONS_HTTP_URL not configured in Convex environment");
+    }
+    return createHttpProvider(url, process.env.NOTIFICATIONS_HTTP_TOKEN);
+  }
+  return consoleProvider;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+const TEMPLATES = {
+  en: en.notifications.templates,
+  es: es.notifications.templates,
+} as const;
+
+export type NotificationLocale = keyof typeof TEMPLATES;
+
+/**
+ * Render the localized subject and body (messages/<locale>.json) for an event,
+ * filling {placeholders} from values
+ */
+export function renderNotification(
+  locale: NotificationLocale,
+  event: ParentNotificationEvent,
+  values: Record<string, string | number>,
+): { subject: string; body: string } {
+  const template = TEMPLATES[locale][event];
+  const fill = (text: string) =>
+    text.replace(/\{(\w+)\}/g, (match, key: string) =>
+      values[key] !== undefined ? String(values[key]) : match,
+    );
+  return { subject: fill(template.subject), body: fill(template.body) };
+}
@@ -4,6 +4,7 @@ import { DataModel } from "./_generated/dataModel";
 import { Id } from "./_generated/dataModel";
 import { internalQuery } from "./_generated/server";
 import { v } from "convex/values";
+import { findOrCreateFamilyForCar } from "./helpers";
 
 export const migrations = new Migrations<DataModel>(components.migrations, {
   migrationsLocationPrefix: "migrations:",
@@ -227,6 +228,73 @@ export const previewAdminToPrincipalMigration = internalQuery({
   },
 });
 
+/**
+ * Migration: group students sharing a car number into families
+ * The first student migrated for a car names the family (last name), siblings join it
+ *
+ * Before: students { carNumber: 42 }, { carNumber: 42 }
+ * After: families { carNumber: 42, name: "Garcia" }, students { carNumber: 42, familyId }
+ */
+export const migrateStudentsToFamilies = migrations.define({
+  table: "students",
+  migrateOne: async (ctx, student) => {
+    if (student.familyId || student.carNumber <= 0) return;
+
+    const family = await findOrCreateFamilyForCar(ctx.db, student.carNumber, {
+      name: student.lastName,
+      campuses: student.campuses,
+      createdBy: student.createdBy,
+    });
+
+    await ctx.db.patch(student._id, { familyId: family._id });
+  },
+});
+
+/**
+ * Preview the families the migration will create (dry run check)
+ */
+export const previewFamiliesMigration = internalQuery({
+  args: {},
+  returns: v.object({
+    studentsToLink: v.number(),
+    existingFamilies: v.number(),
+    familiesToCreate: v.array(
+      v.object({
+        carNumber: v.number(),
+        name: v.string(),
+        students: v.array(v.string()),
+      })
+    ),
+  }),
+  handler: async (ctx) => {
+    const students = await ctx.db.query("students").collect();
+    const families = await ctx.db.query("families").collect();
+    const existingCars = new Set(families.map((family) => family.carNumber));
+
+    const unlinkedStudents = students.filter(
+      (student) => !student.familyId && student.carNumber > 0
+    );
+
+    const toCreate = new Map<number, { carNumber: number; name: string; students: string[] }>();
+    for (const student of unlinkedStudents) {
+      if (existingCars.has(student.carNumber)) continue;
+      const family = toCreate.get(student.carNumber) ?? {
+        carNumber: student.carNumber,
+        name: student.lastName,
+        students: [],
+      };
+      family.students.push(student.fullName);
+      toCreate.set(student.carNumber, family);
+    }
+
+    return {
+      studentsToLink: unlinkedStudents.length,
+      existingFamilies: families.length,
+      familiesToCreate: [...toCreate.values()].sort((a, b) => a.carNumber - b.carNumber),
+    };
+  },
+});
+
 /**
  * Runner for the migration
  */
@@ -237,3 +305,7 @@ export const runMigrateAssignedCampuses = migrations.runner(
 export const runMigrateAdminRoleToPrincipal = migrations.runner(
   internal.migrations.migrateAdminRoleToPrincipal,
 );
+
+export const runMigrateStudentsToFamilies = migrations.runner(
+  internal.migrations.migrateStudentsToFamilies,
+);
@@ -0,0 +1,74 @@
+// convex/notifications.test.ts
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import { seedCampus, seedUser, setupConvex } from "./test.setup";
+
+/**
+ * A family on car 12 with one guardian reached by email and SMS when the car leaves
+ */
+async function seedFamily() {
+    const t = setupConvex();
+    const campusId = await seedCampus(t, "North");
+    const principal = await seedUser(t, "principal", [campusId]);
+    await t.run(async (ctx) => {
+        const now = Date.now();
+        const familyId = await ctx.db.insert("families", {
+            name: "Garcia",
+            carNumber: 12,
+            campuses: [campusId],
+            createdAt: now,
+            updatedAt: now
+        });
+        await ctx.db.insert("guardians", {
+            campusId,
+            familyId,
+            name: "Maria Garcia",
+            email: "maria@family.test",
+            phone: "+15551234567",
+            locale: "en",
+            preferences: { email: ["car_dismissed"], sms: ["car_dismissed"] },
+            createdBy: principal.userId,
+            createdAt: now,
+            updatedAt: now
+        });
+    });
+    return { t, campusId };
+}
+
+describe("notifyFamily", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    test("logs every contact as failed when the HTTP provider has no URL", async () => {
+        const { t, campusId } = await seedFamily();
+        vi.stubEnv("NOTIFICATIONS_PROVIDER", "http");
+        vi.stubEnv("NOTIFICATIONS_HTTP_URL", "");
+
+        await t.action(internal.notifications.notifyFamily, {
+            campusId,
+            carNumber: 12,
+            event: "car_dismissed",
+            values: { campus: "North", carNumber: 12, lane: "Left", students: "Ava Garcia" }
+        });
+
+        const logs = await t.run(async (ctx) => ctx.db.query("notificationLogs").collect());
+        expect(logs.map(({ channel, to, provider, status, error }) => ({ channel, to, provider, status, error }))).toEqual([
+            {
+                channel: "email",
+                to: "maria@family.test",
+                provider: "http",
+                status: "failed",
+                error: "NOTIFICATIONS_HTTP_URL not configured in Convex environment"
+            },
+            {
+                channel: "sms",
+                to: "+15551234567",
+                provider: "http",
+                status: "failed",
+                error: "NOTIFICATIONS_HTTP_URL not configured in Convex environment"
+            }
+        ]);
+    });
+});
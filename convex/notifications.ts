@@ -0,0 +1,200 @@
+// convex/notifications.ts
+
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { parentNotificationEventValidator, DEFAULT_CAMPUS_SETTINGS } from "./types";
+import {
+    enqueueParentNotification,
+    resolveCarTag,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+import {
+    getNotificationProvider,
+    renderNotification,
+    type NotificationChannel,
+    type NotificationProvider,
+} from "./lib/notification_providers";
+
+/**
+ * Guardians of a family who want this event, with the contacts to use
+ */
+export const getRecipients = internalQuery({
+    args: {
+        carNumber: v.number(),
+        event: parentNotificationEventValidator
+    },
+    handler: async (ctx, args) => {
+        const { family } = await resolveCarTag(ctx.db, args.carNumber);
+        if (!family) return [];
+
+        const guardians = await ctx.db
+            .query("guardians")
+            .withIndex("by_family", (q) => q.eq("familyId", family._id))
+            .collect();
+
+        return guardians
+            .map((guardian) => ({
+                guardianId: guardian._id,
+                locale: guardian.locale,
+                contacts: [
+                    guardian.email && guardian.preferences.email.includes(args.event)
+                        ? { channel: "email" as NotificationChannel, to: guardian.email }
+                        : null,
+                    guardian.phone && guardian.preferences.sms.includes(args.event)
+                        ? { channel: "sms" as NotificationChannel, to: guardian.phone }
+                        : null
+                ].filter((contact) => contact !== null)
+            }))
+            .filter((recipient) => recipient.contacts.length > 0);
+    }
+});
+
+/**
+ * Render and send a family notification through the configured provider
+ */
+export const notifyFamily = internalAction({
+    args: {
+        campusId: v.id("campusSettings"),
+        carNumber: v.number(),
+        event: parentNotificationEventValidator,
+        queueId: v.optional(v.id("dismissalQueue")),
+        values: v.record(v.string(), v.union(v.string(), v.number()))
+    },
+    handler: async (ctx, args) => {
+        const recipients = await ctx.runQuery(internal.notifications.getRecipients, {
+            carNumber: args.carNumber,
+            event: args.event
+        });
+        if (recipients.length === 0) return;
+
+        // A misconfigured provider fails every message instead of the whole action,
+        // so the send log shows why the family wasn't reached
+        let provider: NotificationProvider | null = null;
+        let configError: string | undefined;
+        try {
+            provider = getNotificationProvider();
+        } catch (error) {
+            configError = error instanceof Error ? error.message : "Notification provider not configured";
+        }
+
+        const entries = [];
+        for (const recipient of recipients) {
+            const { subject, body } = renderNotification(recipient.locale, args.event, args.values);
+            for (const contact of recipient.contacts) {
+                const result = provider
+                    ? await provider.send({ ...contact, subject, body })
+                    : { ok: false, error: configError };
+                entries.push({
+                    guardianId: recipient.guardianId,
+                    channel: contact.channel,
+                    to: contact.to,
+                    status: result.ok ? "sent" as const : "failed" as const,
+                    error: result.error
+                });
+            }
+        }
+
+        await ctx.runMutation(internal.notifications.logSends, {
+            campusId: args.campusId,
+            event: args.event,
+            queueId: args.queueId,
+            provider: provider?.name ?? process.env.NOTIFICATIONS_PROVIDER ?? "console",
+            entries
+        });
+    }
+});
+
+/**
+ * Record the outcome of each message of a notification
+ */
+export const logSends = internalMutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        event: parentNotificationEventValidator,
+        queueId: v.optional(v.id("dismissalQueue")),
+        provider: v.string(),
+        entries: v.array(
+            v.object({
+                guardianId: v.id("guardians"),
+                channel: v.union(v.literal("email"), v.literal("sms")),
+                to: v.string(),
+                status: v.union(v.literal("sent"), v.literal("failed")),
+                error: v.optional(v.string())
+            })
+        )
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        for (const entry of args.entries) {
+            await ctx.db.insert("notificationLogs", {
+                ...entry,
+                campusId: args.campusId,
+                event: args.event,
+                queueId: args.queueId,
+                provider: args.provider,
+                createdAt: now
+            });
+        }
+    }
+});
+
+/**
+ * Scheduled when a car is queued: tell the family if it is still waiting
+ * once the campus long-wait threshold has passed
+ */
+export const checkLongWait = internalMutation({
+    args: {
+        queueId: v.id("dismissalQueue")
+    },
+    handler: async (ctx, args) => {
+        const entry = await ctx.db.get(args.queueId);
+        if (!entry || entry.status !== "waiting") return;
+
+        await enqueueParentNotification(ctx, entry.campusLocation, "long_wait", {
+            queueId: entry._id,
+            carNumber: entry.carNumber,
+            lane: entry.lane,
+            students: entry.students.map((student) => student.name),
+            minutes: Math.floor((Date.now() - entry.assignedTime) / 60000)
+        });
+    }
+});
+
+/**
+ * Recent notifications sent for a campus, newest first (principal/admin/superadmin)
+ */
+export const listRecent = query({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { logs: [], enabled: false, authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { logs: [], enabled: false, authState: "forbidden" };
+            }
+
+            const campus = await ctx.db.get(args.campusId);
+            const logs = await ctx.db
+                .query("notificationLogs")
+                .withIndex("by_campus_time", (q) => q.eq("campusId", args.campusId))
+                .order("desc")
+                .take(50);
+
+            return {
+                logs,
+                enabled: (campus?.parentNotifications ?? DEFAULT_CAMPUS_SETTINGS.parentNotifications).enabled,
+                authState: "authenticated"
+            };
+        } catch {
+            return { logs: [], enabled: false, authState: "forbidden" };
+        }
+    }
+});
@@ -0,0 +1,413 @@
+// convex/queue.test.ts
+
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { getWaitingEntryByCar, isCarInQueue } from "./helpers";
+import {
+    countDocumentReads,
+    getLatestAuditLog,
+    seedCampus,
+    seedStudent,
+    seedUser,
+    setupConvex,
+} from "./test.setup";
+
+interface FixtureSize {
+    northCars: number; // Waiting at the campus being looked up
+    southCars: number; // Waiting at another campus
+    historyRows: number; // Past pickups of both campuses
+}
+
+const BASE: FixtureSize = { northCars: 10, southCars: 10, historyRows: 20 };
+const LARGE_HISTORY: FixtureSize = { ...BASE, historyRows: 1500 };
+const LARGE_QUEUE: FixtureSize = { ...BASE, southCars: 400 };
+
+// Car 1 is always waiting at North, car 9999 is never queued
+const QUEUED_CAR = 1;
+const MISSING_CAR = 9999;
+
+/**
+ * Two campuses with a live queue and past pickups
+ */
+async function seedDismissalDay(size: FixtureSize) {
+    const t = setupConvex();
+    const northId = await seedCampus(t, "North", "UTC");
+    await seedCampus(t, "South", "UTC");
+    const principal = await seedUser(t, "principal", [northId]);
+    const superadmin = await seedUser(t, "superadmin");
+
+    await t.run(async (ctx) => {
+        const now = Date.now();
+        const addCars = async (campusLocation: string, count: number, firstCar: number) => {
+            for (let i = 0; i < count; i++) {
+                await ctx.db.insert("dismissalQueue", {
+                    carNumber: firstCar + i,
+                    campusLocation,
+                    lane: i % 2 === 0 ? "left" : "right",
+                    position: Math.floor(i / 2) + 1,
+                    students: [],
+                    carColor: "#3b82f6",
+                    assignedTime: now,
+                    addedBy: principal.userId,
+                    status: "waiting"
+                });
+            }
+        };
+        await addCars("North", size.northCars, QUEUED_CAR);
+        await addCars("South", size.southCars, 1000);
+
+        for (let i = 0; i < size.historyRows; i++) {
+            await ctx.db.insert("dismissalHistory", {
+                carNumber: QUEUED_CAR + (i % 50),
+                campusLocation: i % 2 === 0 ? "North" : "South",
+                lane: "left",
+                studentIds: [],
+                studentNames: [],
+                queuedAt: now - 86_400_000,
+                completedAt: now - 86_000_000,
+                waitTimeSeconds: 400,
+                addedBy: principal.userId,
+                removedBy: principal.userId,
+                date: `2026-02-${String((i % 28) + 1).padStart(2, "0")}`
+            });
+        }
+    });
+
+    return { t, northId, principal, superadmin };
+}
+
+describe("queue lookups stay flat as the queue and history grow", () => {
+    beforeEach(() => {
+        // Ten minutes after a 15:00 UTC reset time
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-03-10T15:10:00Z"));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("the read counter charges an unindexed lookup for the whole table", async () => {
+        const { t } = await seedDismissalDay(LARGE_QUEUE);
+
+        const reads = await t.run(async (ctx) => {
+            const scan = countDocumentReads(ctx.db);
+            await scan.db
+                .query("dismissalQueue")
+                .filter((q) => q.and(q.eq(q.field("carNumber"), MISSING_CAR), q.eq(q.field("status"), "waiting")))
+                .first();
+            const indexed = countDocumentReads(ctx.db);
+            await getWaitingEntryByCar(indexed.db, MISSING_CAR);
+            return { scan: scan.reads(), indexed: indexed.reads() };
+        });
+
+        expect(reads).toEqual({ scan: LARGE_QUEUE.northCars + LARGE_QUEUE.southCars, indexed: 0 });
+    });
+
+    test("car lookups read at most one document", async () => {
+        for (const size of [BASE, LARGE_HISTORY, LARGE_QUEUE]) {
+            const { t } = await seedDismissalDay(size);
+            const lookups = await t.run(async (ctx) => {
+                const queued = countDocumentReads(ctx.db);
+                const entry = await getWaitingEntryByCar(queued.db, QUEUED_CAR);
+                const missing = countDocumentReads(ctx.db);
+                const inQueue = await isCarInQueue(missing.db, MISSING_CAR, "North");
+                return { found: entry?.carNumber, inQueue, queued: queued.reads(), missing: missing.reads() };
+            });
+
+            expect(lookups).toEqual({ found: QUEUED_CAR, inQueue: false, queued: 1, missing: 0 });
+        }
+    });
+
+    test("checkCarInQueue finds the car on a small and a large day", async () => {
+        for (const size of [BASE, LARGE_HISTORY, LARGE_QUEUE]) {
+            const { principal } = await seedDismissalDay(size);
+
+            expect(
+                await principal.as.query(api.queue.checkCarInQueue, { carNumber: QUEUED_CAR, campus: "North" })
+            ).toMatchObject({ inQueue: true, entry: { lane: "left", position: 1 }, authState: "authenticated" });
+        }
+    });
+
+    test("getCarCountsByCampus counts waiting cars only, never history", async () => {
+        const { t, superadmin } = await seedDismissalDay(LARGE_QUEUE);
+        await t.run(async (ctx) => {
+            const picked = await getWaitingEntryByCar(ctx.db, QUEUED_CAR);
+            await ctx.db.patch(picked!._id, { status: "completed" });
+        });
+
+        expect(await superadmin.as.query(api.queue.getCarCountsByCampus, {})).toEqual({
+            North: LARGE_QUEUE.northCars - 1,
+            South: LARGE_QUEUE.southCars
+        });
+    });
+
+    test("scheduledClearAllQueues resets only the campus that is due", async () => {
+        const { t, northId } = await seedDismissalDay(LARGE_QUEUE);
+        await t.run(async (ctx) => ctx.db.patch(northId, { queueResetTime: "15:00" }));
+
+        const result = await t.mutation(internal.queue.scheduledClearAllQueues, {});
+        // The reset refreshes the dashboard metrics in the background
+        await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+        expect(result).toMatchObject({ campuses: ["North"], totalCarsCleared: LARGE_QUEUE.northCars });
+        // South isn't due for a reset: its cars keep waiting and stay out of history
+        const { waiting, history } = await t.run(async (ctx) => ({
+            waiting: await ctx.db
+                .query("dismissalQueue")
+                .withIndex("by_status", (q) => q.eq("status", "waiting"))
+                .collect(),
+            history: await ctx.db.query("dismissalHistory").collect()
+        }));
+        expect(waiting).toHaveLength(LARGE_QUEUE.southCars);
+        expect(waiting.every((entry) => entry.campusLocation === "South")).toBe(true);
+        expect(history).toHaveLength(LARGE_QUEUE.historyRows + LARGE_QUEUE.northCars);
+    });
+});
+
+describe("queue mutations write an audit entry", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-03-10T20:00:00Z"));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    async function seedLane() {
+        const t = setupConvex();
+        const campusId = await seedCampus(t, "North");
+        const principal = await seedUser(t, "principal", [campusId]);
+        const ava = await seedStudent(t, campusId, 12, "Ava");
+        const ben = await seedStudent(t, campusId, 12, "Ben");
+        await seedStudent(t, campusId, 30, "Cal");
+        return { t, campusId, principal, ava, ben };
+    }
+
+    // Queue a car as the principal, then let webhooks and notifications run
+    async function addCar(lane: Awaited<ReturnType<typeof seedLane>>, carNumber: number, laneId = "left") {
+        const result = await lane.principal.as.mutation(api.queue.addCar, { carNumber, campus: "North", lane: laneId });
+        await lane.t.finishAllScheduledFunctions(vi.runAllTimers);
+        if (!result.success || !result.queueId) throw new Error(`Car ${carNumber} was not queued`);
+        return result.queueId;
+    }
+
+    test("addCar", async () => {
+        const lane = await seedLane();
+
+        const queueId = await addCar(lane, 12);
+
+        expect(await getLatestAuditLog(lane.t, "car_added_to_queue")).toMatchObject({
+            userId: lane.principal.userId,
+            targetType: "queue",
+            targetId: queueId,
+            campusLocation: "North",
+            details: { after: { lane: "left", position: 1, students: [lane.ava, lane.ben] }, metadata: { carNumber: 12 } }
+        });
+    });
+
+    test("removeCar", async () => {
+        const lane = await seedLane();
+        const queueId = await addCar(lane, 12);
+
+        await lane.principal.as.mutation(api.queue.removeCar, { queueId });
+
+        expect(await getLatestAuditLog(lane.t, "car_removed_from_queue")).toMatchObject({
+            targetType: "queue",
+            targetId: queueId,
+            campusLocation: "North",
+            details: { before: { carNumber: 12, lane: "left" }, metadata: { carNumber: 12 } }
+        });
+    });
+
+    test("setStudentReleased", async () => {
+        const lane = await seedLane();
+        const queueId = await addCar(lane, 12);
+
+        await lane.principal.as.mutation(api.queue.setStudentReleased, { queueId, studentId: lane.ava, released: true });
+
+        expect(await getLatestAuditLog(lane.t, "student_released")).toMatchObject({
+            targetType: "queue",
+            targetId: queueId,
+            details: {
+                before: { studentId: lane.ava },
+                after: { studentId: lane.ava, releasedAt: Date.now() },
+                metadata: { carNumber: 12, studentName: "Ava Test" }
+            }
+        });
+    });
+
+    test("setStudentReleased notifies the family once the last student leaves", async () => {
+        const lane = await seedLane();
+        await lane.t.run(async (ctx) => ctx.db.patch(lane.campusId, { parentNotifications: { enabled: true } }));
+        const queueId = await addCar(lane, 12);
+        const dismissedEvents = async () =>
+            (await lane.t.run(async (ctx) => ctx.db.system.query("_scheduled_functions").collect()))
+                .filter((job) => job.name.includes("notifyFamily") && job.args[0].event === "car_dismissed")
+                .map((job) => job.args[0].values);
+
+        await lane.principal.as.mutation(api.queue.setStudentReleased, { queueId, studentId: lane.ava, released: true });
+        expect(await dismissedEvents()).toEqual([]);
+
+        await lane.principal.as.mutation(api.queue.setStudentReleased, { queueId, studentId: lane.ben, released: true });
+        await lane.t.finishAllScheduledFunctions(vi.runAllTimers);
+
+        expect(await dismissedEvents()).toEqual([
+            { campus: "North", carNumber: 12, lane: "Left", students: "Ava Test, Ben Test" }
+        ]);
+    });
+
+    test("undoRemoveCar", async () => {
+        const lane = await seedLane();
+        const queueId = await addCar(lane, 12);
+        const removed = await lane.principal.as.mutation(api.queue.removeCar, { queueId });
+        await lane.t.finishAllScheduledFunctions(vi.runAllTimers);
+
+        const undone = await lane.principal.as.mutation(api.queue.undoRemoveCar, { historyId: removed.historyId });
+
+        expect(await getLatestAuditLog(lane.t, "car_dismissal_undone")).toMatchObject({
+            targetType: "queue",
+            targetId: undone.queueId,
+            details: { before: { _id: removed.historyId, carNumber: 12 }, after: { lane: "left", position: 1 } }
+        });
+    });
+
+    test("setCarStage", async () => {
+        const lane = await seedLane();
+        const queueId = await addCar(lane, 12);
+
+        await lane.principal.as.mutation(api.queue.setCarStage, { queueId, stage: "called" });
+
+        expect(await getLatestAuditLog(lane.t, "car_stage_updated")).toMatchObject({
+            targetType: "queue",
+            targetId: queueId,
+            details: { before: { stage: "waiting" }, after: { stage: "called" } }
+        });
+    });
+
+    test("markNoShow", async () => {
+        const lane = await seedLane();
+        const queueId = await addCar(lane, 12);
+
+        await lane.principal.as.mutation(api.queue.markNoShow, { queueId });
+
+        expect(await getLatestAuditLog(lane.t, "car_marked_no_show")).toMatchObject({
+            targetType: "queue",
+            targetId: queueId,
+            details: { before: { carNumber: 12 }, metadata: { carNumber: 12 } }
+        });
+    });
+
+    test("overrideDismissalWindow", async () => {
+        const lane = await seedLane();
+
+        await lane.principal.as.mutation(api.queue.overrideDismissalWindow, { campus: "North", reason: "Field trip" });
+
+        expect(await getLatestAuditLog(lane.t, "dismissal_window_overridden")).toMatchObject({
+            targetType: "campus",
+            targetId: lane.campusId,
+            campusLocation: "North",
+            details: { after: { date: "2026-03-10", reason: "Field trip" } }
+        });
+    });
+
+    test("moveCar", async () => {
+        const lane = await seedLane();
+        const queueId = await addCar(lane, 12);
+
+        await lane.principal.as.mutation(api.queue.moveCar, { queueId, newLane: "right" });
+
+        expect(await getLatestAuditLog(lane.t, "car_moved_lane")).toMatchObject({
+            targetType: "queue",
+            targetId: queueId,
+            details: { before: { lane: "left", position: 1 }, after: { lane: "right", position: 1 } }
+        });
+    });
+
+    test("reorderCar", async () => {
+        const lane = await seedLane();
+        await addCar(lane, 12);
+        const queueId = await addCar(lane, 30);
+
+        await lane.principal.as.mutation(api.queue.reorderCar, { queueId, lane: "left", position: 1 });
+
+        expect(await getLatestAuditLog(lane.t, "car_reordered")).toMatchObject({
+            targetType: "queue",
+            targetId: queueId,
+            details: { before: { lane: "left", position: 2 }, after: { lane: "left", position: 1 } }
+        });
+    });
+
+    test("clearAllCars", async () => {
+        const lane = await seedLane();
+        await addCar(lane, 12);
+        await addCar(lane, 30, "right");
+
+        await lane.principal.as.mutation(api.queue.clearAllCars, { campus: "North" });
+
+        expect(await getLatestAuditLog(lane.t, "queue_cleared")).toMatchObject({
+            targetType: "queue",
+            campusLocation: "North",
+            details: {
+                before: [
+                    { carNumber: 12, lane: "left", position: 1 },
+                    { carNumber: 30, lane: "right", position: 1 }
+                ],
+                metadata: { clearedCount: 2 }
+            }
+        });
+    });
+
+    test("scheduledClearAllQueues", async () => {
+        const lane = await seedLane();
+        await addCar(lane, 12);
+        // 20:00 UTC is 16:00 in New York (daylight time)
+        await lane.t.run(async (ctx) => ctx.db.patch(lane.campusId, { queueResetTime: "16:00" }));
+
+        await lane.t.mutation(internal.queue.scheduledClearAllQueues, {});
+        await lane.t.finishAllScheduledFunctions(vi.runAllTimers);
+
+        expect(await getLatestAuditLog(lane.t, "queue_auto_reset")).toMatchObject({
+            userRole: "system",
+            targetType: "queue",
+            campusLocation: "North",
+            details: { before: [{ carNumber: 12, lane: "left", position: 1 }], metadata: { clearedCount: 1, date: "2026-03-10" } }
+        });
+    });
+});
+
+describe("getDismissalReplay", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test("replays the campus-local today when no date is picked", async () => {
+        // 02:00 UTC on Mar 11 is still the evening of Mar 10 in New York
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-03-11T02:00:00Z"));
+        const t = setupConvex();
+        const campusId = await seedCampus(t, "North");
+        const principal = await seedUser(t, "principal", [campusId]);
+        await t.run(async (ctx) => {
+            await ctx.db.insert("dismissalHistory", {
+                carNumber: 12,
+                campusLocation: "North",
+                lane: "left",
+                studentIds: [],
+                studentNames: [],
+                queuedAt: Date.now() - 600_000,
+                completedAt: Date.now() - 300_000,
+                waitTimeSeconds: 300,
+                addedBy: principal.userId,
+                removedBy: principal.userId,
+                date: "2026-03-10"
+            });
+        });
+
+        const replay = await principal.as.query(api.queue.getDismissalReplay, { campus: "North" });
+
+        expect(replay).toMatchObject({ date: "2026-03-10", authState: "authenticated" });
+        expect(replay.cars.map((car) => car.carNumber)).toEqual([12]);
+    });
+});
@@ -1,97 +1,167 @@
 // convex/queue.ts
 
 import { v } from "convex/values";
-import { mutation, query, internalMutation } from "./_generated/server";
-import { laneValidator } from "./types";
-import { Id } from "./_generated/dataModel";
+import {
+    mutation,
+    query,
+    internalMutation,
+    internalQuery,
+    type DatabaseReader,
+    type DatabaseWriter,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import {
+    DEFAULT_CAMPUS_SETTINGS,
+    DISMISSAL_UNDO_WINDOW_MS,
+    laneValidator,
+    pickupStageValidator,
+} from "./types";
+import type { StudentExclusionReason } from "./types";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { DismissalRole } from "../lib/role-utils";
 import { internal } from "./_generated/api";
 import {
+    clearCarFromQueue,
+    createAuditLog,
+    createSystemAuditLog,
+    dismissWaitingCar,
+    enqueueParentNotification,
+    enqueueWebhookEvent,
+    findCampusLane,
+    getCampusLanes,
+    getCampusLocalDate,
+    getCampusLocalTime,
+    getCampusSettings,
+    getDismissalWindow,
+    getDismissalWindowOverride,
+    getFamilyCarNumbers,
+    getResetOperationalDate,
+    getWaitingEntryByCar,
+    groupEntriesByLane,
+    isCarInQueue,
+    normalizeArrivalTag,
+    parseTimeOfDay,
+    repositionLaneCars,
+    resolveCarTag,
     userCanAllocate,
     userCanDispatch,
     validateUserAccess,
 } from "./helpers";
 import { extractOperatorPermissions } from "../lib/role-utils";
 
-/**
- * Helper to get campus ID by name
- */
-async function getCampusIdByName(db: any, campusName: string): Promise<Id<"campusSettings"> | null> {
-    const campus = await db
-        .query("campusSettings")
-        .withIndex("by_name", (q: any) => q.eq("campusName", campusName))
-        .unique();
-    return campus?._id || null;
-}
+type DbReader = QueryCtx["db"] | DatabaseReader;
+type DbWriter = MutationCtx["db"] | DatabaseWriter;
 
-async function getAccessibleCampusNames(db: any, user: any, role: string): Promise<Set<string>> {
+async function getAccessibleCampusNames(db: DbReader, user: Doc<"users">, role: string): Promise<Set<string>> {
     if (role === "superadmin") return new Set<string>();
 
     const campusDocs = await Promise.all(
-        (user.assignedCampuses || []).map((campusId: Id<"campusSettings">) => db.get(campusId))
+        (user.assignedCampuses || []).map((campusId) => db.get(campusId))
     );
 
     return new Set(
         campusDocs
-            .filter((campus: any) => campus !== null)
-            .map((campus: any) => campus.campusName)
+            .filter((campus) => campus !== null)
+            .map((campus) => campus.campusName)
     );
 }
 
+/**
+ * Window after a campus reset time in which the scheduled reset still runs
+ */
+const QUEUE_RESET_GRACE_MINUTES = 60;
+
 /**
  * Helper functions
  */
-async function getStudentsByCarNumber(db: any, carNumber: number, campusId: Id<"campusSettings">) {
-    if (carNumber === 0) return [];
+async function getStudentsByCarNumber(
+    db: DbReader,
+    carNumber: number,
+    campusId: Id<"campusSettings">
+): Promise<{ students: Doc<"students">[]; isCrossCampus: boolean }> {
+    if (carNumber === 0) return { students: [], isCrossCampus: false };
+
+    // Extra family vehicles queue the students of the family's own car number
+    const { family } = await resolveCarTag(db, carNumber);
+    const studentCarNumber = family?.carNumber ?? carNumber;
 
     // Get all students with this car number using by_car_number index
     const allStudentsWithCar = await db
         .query("students")
-        .withIndex("by_car_number", (q: any) => q.eq("carNumber", carNumber))
-        .filter((q: any) => q.eq(q.field("isActive"), true))
+        .withIndex("by_car_number", (q) => q.eq("carNumber", studentCarNumber))
+        .filter((q) => q.eq(q.field("isActive"), true))
         .collect();
 
     // First, try to find in the current campus
-    const studentsInCampus = allStudentsWithCar.filter((s: any) =>
+    const studentsInCampus = allStudentsWithCar.filter((s) =>
         s.campuses?.includes(campusId)
     );
 
     // If found in current campus, return immediately
     if (studentsInCampus.length > 0) {
-        return studentsInCampus;
+        return { students: studentsInCampus, isCrossCampus: false };
     }
 
     // If not found in current campus, return all students with this car number
-    // This allows calling cars from any campus to any campus
-    return allStudentsWithCar;
+    // flagged so the caller can confirm the cross-campus call first
+    return { students: allStudentsWithCar, isCrossCampus: allStudentsWithCar.length > 0 };
 }
 
-async function isCarInQueue(db: any, carNumber: number, campus: string): Promise<boolean> {
-    // Check if car is in queue across ALL campuses (not just current campus)
-    // This prevents the same car from being in multiple campus queues simultaneously
-    const existing = await db
-        .query("dismissalQueue")
-        .filter((q: any) =>
-            q.and(
-                q.eq(q.field("carNumber"), carNumber),
-                q.eq(q.field("status"), "waiting")
-            )
-        )
-        .first();
+/**
+ * Describe cross-campus matches (student + campus names) for the allocator confirmation
+ */
+async function describeCrossCampusMatches(db: DbReader, students: Doc<"students">[]) {
+    const campusNames = new Map<Id<"campusSettings">, string>();
+    for (const student of students) {
+        for (const campusId of student.campuses ?? []) {
+            if (!campusNames.has(campusId)) {
+                const campus = await db.get(campusId);
+                campusNames.set(campusId, campus?.campusName ?? "Unknown");
+            }
+        }
+    }
 
-    return existing !== null;
+    return students.map((student) => ({
+        studentId: student._id,
+        name: student.fullName,
+        grade: student.grade,
+        campuses: (student.campuses ?? []).map((campusId) => campusNames.get(campusId)!)
+    }));
 }
 
-async function getNextPosition(db: any, campus: string, lane: string): Promise<number> {
+/**
+ * Students excluded from dismissal on a campus-local date (absent, early pickup, after school)
+ */
+async function getStudentExclusions(
+    db: DbReader,
+    studentIds: Id<"students">[],
+    date: string
+): Promise<Map<Id<"students">, StudentExclusionReason>> {
+    const exclusions = new Map<Id<"students">, StudentExclusionReason>();
+    for (const studentId of studentIds) {
+        const exclusion = await db
+            .query("studentExclusions")
+            .withIndex("by_student_date", (q) =>
+                q.eq("studentId", studentId).eq("date", date)
+            )
+            .first();
+        if (exclusion) exclusions.set(studentId, exclusion.reason);
+    }
+    return exclusions;
+}
+
+async function getNextPosition(db: DbReader, campus: string, lane: string): Promise<number> {
     const entries = await db
         .query("dismissalQueue")
-        .withIndex("by_campus_lane_position", (q: any) =>
+        .withIndex("by_campus_lane_position", (q) =>
             q.eq("campusLocation", campus).eq("lane", lane)
         )
         .collect();
 
     if (entries.length === 0) return 1;
 
-    const maxPosition = Math.max(...entries.map((e: any) => e.position));
+    const maxPosition = Math.max(...entries.map((e) => e.position));
     return maxPosition + 1;
 }
 
@@ -103,7 +173,7 @@ function generateCarColor(carNumber: number): string {
     return colors[carNumber % colors.length];
 }
 
-function studentToSummary(student: any) {
+function studentToSummary(student: Doc<"students">) {
     return {
         studentId: student._id,
         name: student.fullName,
@@ -114,56 +184,33 @@ function studentToSummary(student: any) {
     };
 }
 
-async function repositionLaneCars(db: any, campus: string, lane: string, removedPosition: number): Promise<void> {
-    const entries = await db
+async function getLaneEntries(db: DbReader, campus: string, lane: string): Promise<Doc<"dismissalQueue">[]> {
+    return await db
         .query("dismissalQueue")
-        .withIndex("by_campus_lane_position", (q: any) =>
+        .withIndex("by_campus_lane_position", (q) =>
             q.eq("campusLocation", campus).eq("lane", lane)
         )
-        .filter((q: any) => q.gt(q.field("position"), removedPosition))
         .collect();
+}
 
-    // Instead of patch, we'll delete and recreate with new positions
-    for (const entry of entries) {
-        const { _id, _creationTime, ...entryData } = entry;
-        const newEntry = { ...entryData, position: entry.position - 1 };
-
-        await db.delete(entry._id);
-        await db.insert("dismissalQueue", newEntry);
+async function renumberLaneEntries(db: DbWriter, entries: Doc<"dismissalQueue">[], lane: string): Promise<void> {
+    // Patch only the entries whose lane or position actually changed
+    for (const [index, entry] of entries.entries()) {
+        const position = index + 1;
+        if (entry.position !== position || entry.lane !== lane) {
+            await db.patch(entry._id, { lane, position });
+        }
     }
 }
 
 /**
- * Helper function to clear a car from queue and create history entry
- * Shared by both manual clear (clearAllCars) and scheduled clear (scheduledClearAllQueues)
+ * Average of the defined values (0 when there are none)
  */
-async function clearCarFromQueue(
-    db: any,
-    entry: any,
-    removedByUserId: any,
-    now: number = Date.now(),
-    dateOverride?: string
-): Promise<void> {
-    const today = dateOverride ?? new Date(now).toISOString().split('T')[0];
-    const waitTimeSeconds = Math.floor((now - entry.assignedTime) / 1000);
-
-    // Create history entry
-    await db.insert("dismissalHistory", {
-        carNumber: entry.carNumber,
-        campusLocation: entry.campusLocation,
-        lane: entry.lane,
-        studentIds: entry.students.map((s: any) => s.studentId),
-        studentNames: entry.students.map((s: any) => s.name),
-        queuedAt: entry.assignedTime,
-        completedAt: now,
-        waitTimeSeconds,
-        addedBy: entry.addedBy,
-        removedBy: removedByUserId,
-        date: today
-    });
-
-    // Delete from queue
-    await db.delete(entry._id);
+function averageOf(values: Array<number | undefined>): number {
+    const defined = values.filter((value): value is number => value !== undefined);
+    return defined.length > 0
+        ? Math.round(defined.reduce((sum, value) => sum + value, 0) / defined.length)
+        : 0;
 }
 
 /**
@@ -180,8 +227,7 @@ export const getCurrentQueue = query({
             // This allows the UI to handle auth transitions gracefully
             return {
                 campus: args.campus,
-                leftLane: [],
-                rightLane: [],
+                lanes: [],
                 totalCars: 0,
                 lastUpdated: Date.now(),
                 authState: "unauthenticated"
@@ -198,20 +244,18 @@ export const getCurrentQueue = query({
                 )
                 .collect();
 
-            const leftLane = entries
-                .filter(e => e.lane === "left")
-                .sort((a, b) => a.position - b.position);
-
-            const rightLane = entries
-                .filter(e => e.lane === "right")
-                .sort((a, b) => a.position - b.position);
+            const settings = await getCampusSettings(ctx.db, args.campus);
+            const lanes = groupEntriesByLane(getCampusLanes(settings), entries);
 
             return {
                 campus: args.campus,
-                leftLane,
-                rightLane,
+                lanes,
                 totalCars: entries.length,
                 lastUpdated: Date.now(),
+                announcement: {
+                    template: settings?.announcementTemplate,
+                    voice: settings?.announcementVoice
+                },
                 authState: "authenticated"
             };
         } catch (error) {
@@ -219,8 +263,7 @@ export const getCurrentQueue = query({
             if (err.message === "Not authenticated") {
                 return {
                     campus: args.campus,
-                    leftLane: [],
-                    rightLane: [],
+                    lanes: [],
                     totalCars: 0,
                     lastUpdated: Date.now(),
                     authState: "unauthenticated"
@@ -230,8 +273,7 @@ export const getCurrentQueue = query({
             // Return empty state on database errors too
             return {
                 campus: args.campus,
-                leftLane: [],
-                rightLane: [],
+                lanes: [],
                 totalCars: 0,
                 lastUpdated: Date.now(),
                 authState: "forbidden"
@@ -240,6 +282,277 @@ export const getCurrentQueue = query({
     }
 });
 
+/**
+ * Current queue for an API key with the queue:read scope (signage players),
+ * called by the HTTP route after validateApiKeyAccess
+ */
+export const getCurrentQueueInternal = internalQuery({
+    args: {
+        campus: v.string()
+    },
+    handler: async (ctx, args) => {
+        const entries = await ctx.db
+            .query("dismissalQueue")
+            .withIndex("by_campus_status", q =>
+                q.eq("campusLocation", args.campus).eq("status", "waiting")
+            )
+            .collect();
+
+        const settings = await getCampusSettings(ctx.db, args.campus);
+        const lanes = groupEntriesByLane(getCampusLanes(settings), entries).map((lane) => ({
+            ...lane,
+            cars: lane.cars.map((entry) => ({
+                carNumber: entry.carNumber,
+                position: entry.position,
+                assignedTime: entry.assignedTime,
+                stage: entry.stage,
+                students: entry.students.map((student) => ({
+                    name: student.name,
+                    grade: student.grade
+                }))
+            }))
+        }));
+
+        return {
+            campus: args.campus,
+            lanes,
+            totalCars: entries.length,
+            lastUpdated: Date.now()
+        };
+    }
+});
+
+/**
+ * Validate and queue a car, shared by allocators (addCar) and gate readers (addCarFromReader)
+ * Returns structured error codes instead of throwing so both callers can report them
+ */
+async function queueCar(
+    ctx: MutationCtx,
+    actor: { user: Doc<"users">; email: string; role: DismissalRole },
+    args: {
+        carNumber: number;
+        campus: string;
+        lane: string;
+        confirmCrossCampus?: boolean;
+        pendingArrivalId?: Id<"pendingArrivals">;
+        readerTag?: string;
+        apiKeyId?: Id<"apiKeys">;
+    }
+) {
+    const { db } = ctx;
+    const pendingArrival = args.pendingArrivalId ? await db.get(args.pendingArrivalId) : null;
+    if (
+        args.pendingArrivalId &&
+        (!pendingArrival ||
+            pendingArrival.status !== "pending" ||
+            pendingArrival.campusLocation !== args.campus ||
+            pendingArrival.carNumber !== args.carNumber)
+    ) {
+        return {
+            success: false,
+            error: "ARRIVAL_NOT_PENDING",
+            message: `Check-in for car ${args.carNumber} was already handled`
+        };
+    }
+
+    // Validate inputs
+    if (!args.campus.trim()) {
+        return {
+            success: false,
+            error: "INVALID_CAMPUS",
+            message: "Campus is required"
+        };
+    }
+    if (args.carNumber <= 0) {
+        return {
+            success: false,
+            error: "INVALID_CAR_NUMBER",
+            message: "Invalid car number"
+        };
+    }
+
+    // Check if car (or another car of the same family) is already in queue
+    const { family, vehicle } = await resolveCarTag(db, args.carNumber);
+    const familyCarNumbers = family ? await getFamilyCarNumbers(db, family) : [args.carNumber];
+    for (const carNumber of familyCarNumbers) {
+        if (await isCarInQueue(db, carNumber, args.campus)) {
+            return {
+                success: false,
+                error: "CAR_ALREADY_IN_QUEUE",
+                message: carNumber === args.carNumber
+                    ? `Car ${args.carNumber} is already in the queue`
+                    : `Car ${carNumber} of the same family is already in the queue`
+            };
+        }
+    }
+
+    // Get campus for student lookup and lane validation
+    const campusSettings = await getCampusSettings(db, args.campus);
+    if (!campusSettings) {
+        return {
+            success: false,
+            error: "INVALID_CAMPUS",
+            message: "Campus not found"
+        };
+    }
+
+    if (!findCampusLane(campusSettings, args.lane)) {
+        return {
+            success: false,
+            error: "INVALID_LANE",
+            message: `Lane ${args.lane} is not configured for this campus`
+        };
+    }
+
+    // Enforce the dismissal window (campus timezone) unless overridden for today
+    const dismissalWindow = getDismissalWindow(campusSettings);
+    if (
+        !dismissalWindow.isActive &&
+        !(await getDismissalWindowOverride(db, args.campus, dismissalWindow.localDate))
+    ) {
+        return {
+            success: false,
+            error: "OUTSIDE_DISMISSAL_WINDOW",
+            message: `Dismissal runs from ${dismissalWindow.startTime} to ${dismissalWindow.endTime} (${dismissalWindow.timezone})`
+        };
+    }
+
+    // Get students for this car (searches across all campuses)
+    const { students, isCrossCampus } = await getStudentsByCarNumber(
+        db,
+        args.carNumber,
+        campusSettings._id
+    );
+    if (students.length === 0) {
+        return {
+            success: false,
+            error: "NO_STUDENTS_FOUND",
+            message: `No students found with car number ${args.carNumber}`
+        };
+    }
+
+    // Car only matches students from other campuses: forbidden or needs confirmation
+    if (isCrossCampus) {
+        const allowCrossCampus =
+            campusSettings.allowCrossCampusCalls ?? DEFAULT_CAMPUS_SETTINGS.allowCrossCampusCalls;
+        if (!allowCrossCampus) {
+            return {
+                success: false,
+                error: "CROSS_CAMPUS_FORBIDDEN",
+                message: `Car ${args.carNumber} belongs to another campus and cross-campus calls are disabled for ${args.campus}`
+            };
+        }
+        if (!args.confirmCrossCampus) {
+            return {
+                success: false,
+                error: "CROSS_CAMPUS_MATCH",
+                message: `Car ${args.carNumber} has no students at ${args.campus}`,
+                matches: await describeCrossCampusMatches(db, students)
+            };
+        }
+    }
+
+    // Leave out students marked absent, picked up early or staying after school today
+    const exclusions = await getStudentExclusions(
+        db,
+        students.map((s) => s._id),
+        dismissalWindow.localDate
+    );
+    const excludedStudents = students
+        .filter((s) => exclusions.has(s._id))
+        .map((s) => ({
+            studentId: s._id,
+            name: s.fullName,
+            reason: exclusions.get(s._id)!
+        }));
+    const eligibleStudents = students.filter((s) => !exclusions.has(s._id));
+    if (eligibleStudents.length === 0) {
+        return {
+            success: false,
+            error: "ALL_STUDENTS_EXCLUDED",
+            message: `No students on car ${args.carNumber} are being dismissed today`,
+            excludedStudents
+        };
+    }
+
+    // Get next position in lane
+    const position = await getNextPosition(db, args.campus, args.lane);
+
+    // Add to queue
+    const queueId = await db.insert("dismissalQueue", {
+        carNumber: args.carNumber,
+        campusLocation: args.campus,
+        lane: args.lane,
+        position,
+        students: eligibleStudents.map(studentToSummary),
+        carColor: generateCarColor(args.carNumber),
+        vehicle: vehicle
+            ? { vehicleId: vehicle._id, label: vehicle.label, color: vehicle.color, make: vehicle.make }
+            : undefined,
+        assignedTime: Date.now(),
+        addedBy: actor.user._id,
+        status: "waiting"
+    });
+
+    if (pendingArrival) {
+        await db.patch(pendingArrival._id, {
+            status: "assigned",
+            queueId,
+            resolvedBy: actor.user._id,
+            resolvedAt: Date.now()
+        });
+    }
+
+    await createAuditLog(
+        db,
+        actor.user._id,
+        actor.email,
+        actor.role,
+        "car_added_to_queue",
+        {
+            targetType: "queue",
+            targetId: queueId,
+            campus: args.campus,
+            after: {
+                lane: args.lane,
+                position,
+                students: eligibleStudents.map((s) => s._id)
+            },
+            metadata: {
+                carNumber: args.carNumber,
+                crossCampus: isCrossCampus,
+                excludedStudents: excludedStudents.map((s) => s.studentId),
+                pendingArrivalId: pendingArrival?._id,
+                readerTag: args.readerTag,
+                apiKeyId: args.apiKeyId,
+                vehicleId: vehicle?._id
+            }
+        }
+    );
+
+    await enqueueWebhookEvent(ctx, args.campus, "car.added", {
+        queueId,
+        carNumber: args.carNumber,
+        vehicle: vehicle?.label,
+        lane: args.lane,
+        position,
+        students: eligibleStudents.map((s) => ({ studentId: s._id, name: s.fullName, grade: s.grade }))
+    });
+
+    await enqueueParentNotification(ctx, args.campus, "car_queued", {
+        queueId,
+        carNumber: args.carNumber,
+        lane: args.lane,
+        students: eligibleStudents.map((s) => s.fullName)
+    });
+
+    return {
+        success: true,
+        queueId,
+        excludedStudents
+    };
+}
+
 /**
  * Add car to queue (allocator action)
  */
@@ -247,7 +560,9 @@ export const addCar = mutation({
     args: {
         carNumber: v.number(),
         campus: v.string(),
-        lane: laneValidator
+        lane: laneValidator,
+        confirmCrossCampus: v.optional(v.boolean()),
+        pendingArrivalId: v.optional(v.id("pendingArrivals")) // Parent check-in being assigned a lane
     },
     handler: async (ctx, args) => {
         const { user, role, identity } = await validateUserAccess(ctx, undefined, args.campus);
@@ -256,134 +571,567 @@ export const addCar = mutation({
             throw new Error("Insufficient permissions to add cars");
         }
 
-        // Validate inputs
-        if (!args.campus.trim()) {
+        return await queueCar(ctx, { user, email: identity.email || user.email || "", role }, args);
+    }
+});
+
+/**
+ * Add car to queue from a gate reader (plate or RFID tag), called by the HTTP route
+ * with an API key holding the queue:write scope. The car is attributed to the
+ * user who created the key
+ */
+export const addCarFromReader = internalMutation({
+    args: {
+        apiKeyId: v.id("apiKeys"),
+        tag: v.string(),
+        lane: v.optional(laneValidator)
+    },
+    handler: async (ctx, args) => {
+        const apiKey = await ctx.db.get(args.apiKeyId);
+        const campusSettings = apiKey ? await ctx.db.get(apiKey.campusId) : null;
+        const keyOwner = apiKey ? await ctx.db.get(apiKey.createdBy) : null;
+        if (!apiKey || !campusSettings || !keyOwner) {
             return {
                 success: false,
                 error: "INVALID_CAMPUS",
-                message: "Campus is required"
+                message: "Campus not found"
             };
         }
-        if (args.carNumber <= 0) {
+
+        const tag = normalizeArrivalTag(args.tag);
+        const mapping = tag
+            ? await ctx.db
+                .query("arrivalTags")
+                .withIndex("by_campus_tag", (q) =>
+                    q.eq("campusId", campusSettings._id).eq("tag", tag)
+                )
+                .first()
+            : null;
+        if (!mapping) {
             return {
                 success: false,
-                error: "INVALID_CAR_NUMBER",
-                message: "Invalid car number"
+                error: "UNKNOWN_TAG",
+                message: `Tag ${tag || args.tag} is not registered at ${campusSettings.campusName}`
             };
         }
 
-        // Check if car is already in queue
-        if (await isCarInQueue(ctx.db, args.carNumber, args.campus)) {
+        return await queueCar(
+            ctx,
+            { user: keyOwner, email: keyOwner.email || "", role: keyOwner.role ?? "viewer" },
+            {
+                carNumber: mapping.carNumber,
+                campus: campusSettings.campusName,
+                lane: args.lane ?? getCampusLanes(campusSettings)[0].id,
+                readerTag: tag,
+                apiKeyId: apiKey._id
+            }
+        );
+    }
+});
+
+/**
+ * Remove car from queue (dispatcher action)
+ */
+export const removeCar = mutation({
+    args: {
+        queueId: v.id("dismissalQueue")
+    },
+    handler: async (ctx, args) => {
+        // Get the entry first to know the campus
+        const entryForCampus = await ctx.db.get(args.queueId);
+        if (!entryForCampus) throw new Error("Queue entry not found");
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            undefined,
+            entryForCampus.campusLocation
+        );
+        const operatorPermissions = extractOperatorPermissions(identity as any, role);
+        if (!userCanDispatch(role, operatorPermissions)) {
+            throw new Error("Insufficient permissions to remove cars");
+        }
+
+        const entry = await ctx.db.get(args.queueId);
+        if (!entry) throw new Error("Queue entry not found");
+
+        if (entry.status !== "waiting") {
+            throw new Error("Car is not in waiting status");
+        }
+
+        const { historyId, waitTimeSeconds } = await dismissWaitingCar(ctx, entry, {
+            userId: user._id,
+            email: identity.email || user.email,
+            role
+        });
+
+        return {
+            success: true,
+            waitTime: waitTimeSeconds,
+            carNumber: entry.carNumber,
+            historyId
+        };
+    }
+});
+
+/**
+ * Check a single student off (or back on) a multi-student car (dispatcher action)
+ * The car leaves the queue once every student has been released
+ */
+export const setStudentReleased = mutation({
+    args: {
+        queueId: v.id("dismissalQueue"),
+        studentId: v.id("students"),
+        released: v.boolean()
+    },
+    handler: async (ctx, args) => {
+        const entry = await ctx.db.get(args.queueId);
+        if (!entry) throw new Error("Queue entry not found");
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            undefined,
+            entry.campusLocation
+        );
+        const operatorPermissions = extractOperatorPermissions(identity as any, role);
+        if (!userCanDispatch(role, operatorPermissions)) {
+            throw new Error("Insufficient permissions to release students");
+        }
+
+        if (entry.status !== "waiting") {
+            throw new Error("Car is not in waiting status");
+        }
+
+        const student = entry.students.find((s) => s.studentId === args.studentId);
+        if (!student) {
+            return {
+                success: false,
+                error: "STUDENT_NOT_IN_CAR",
+                message: `Student is not assigned to car ${entry.carNumber}`
+            };
+        }
+        if ((student.releasedAt !== undefined) === args.released) {
+            return {
+                success: false,
+                error: args.released ? "STUDENT_ALREADY_RELEASED" : "STUDENT_NOT_RELEASED",
+                message: `${student.name} is already ${args.released ? "released" : "waiting"}`
+            };
+        }
+
+        const now = Date.now();
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "student_released",
+            {
+                targetType: "queue",
+                targetId: args.queueId,
+                campus: entry.campusLocation,
+                before: { studentId: args.studentId, releasedAt: student.releasedAt },
+                after: { studentId: args.studentId, releasedAt: args.released ? now : undefined },
+                metadata: { carNumber: entry.carNumber, studentName: student.name }
+            }
+        );
+
+        const students = entry.students.map((s) =>
+            s.studentId !== args.studentId
+                ? s
+                : {
+                    ...s,
+                    releasedAt: args.released ? now : undefined,
+                    releasedBy: args.released ? user._id : undefined
+                }
+        );
+
+        // Last student out: the car leaves like a regular dismissal
+        if (students.every((s) => s.releasedAt !== undefined)) {
+            const { historyId } = await dismissWaitingCar(
+                ctx,
+                { ...entry, students },
+                { userId: user._id, email: identity.email || user.email, role },
+                { now, before: entry }
+            );
+
+            return {
+                success: true,
+                carDismissed: true,
+                carNumber: entry.carNumber,
+                historyId
+            };
+        }
+
+        await ctx.db.patch(args.queueId, { students });
+
+        return {
+            success: true,
+            carDismissed: false,
+            carNumber: entry.carNumber,
+            remainingStudents: students.filter((s) => s.releasedAt === undefined).length
+        };
+    }
+});
+
+/**
+ * Undo a recent dismissal (dispatcher action)
+ * Restores the car at its original lane, position and assigned time
+ */
+export const undoRemoveCar = mutation({
+    args: {
+        historyId: v.id("dismissalHistory")
+    },
+    handler: async (ctx, args) => {
+        const record = await ctx.db.get(args.historyId);
+        if (!record) throw new Error("Dismissal record not found");
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            undefined,
+            record.campusLocation
+        );
+        const operatorPermissions = extractOperatorPermissions(identity as any, role);
+        if (!userCanDispatch(role, operatorPermissions)) {
+            throw new Error("Insufficient permissions to undo dismissals");
+        }
+
+        const now = Date.now();
+        if (now - record.completedAt > DISMISSAL_UNDO_WINDOW_MS) {
+            return {
+                success: false,
+                error: "UNDO_EXPIRED",
+                message: "The undo window for this dismissal has expired"
+            };
+        }
+
+        if (await isCarInQueue(ctx.db, record.carNumber, record.campusLocation)) {
             return {
                 success: false,
                 error: "CAR_ALREADY_IN_QUEUE",
-                message: `Car ${args.carNumber} is already in the queue`
+                message: `Car ${record.carNumber} is already in the queue`
             };
         }
 
-        // Get campus ID for student lookup
-        const campusId = await getCampusIdByName(ctx.db, args.campus);
-        if (!campusId) {
+        const campusSettings = await getCampusSettings(ctx.db, record.campusLocation);
+        if (!findCampusLane(campusSettings, record.lane)) {
             return {
                 success: false,
-                error: "INVALID_CAMPUS",
-                message: "Campus not found"
+                error: "INVALID_LANE",
+                message: `Lane ${record.lane} is no longer configured for this campus`
             };
         }
 
-        // Get students for this car (searches across all campuses)
-        const students = await getStudentsByCarNumber(ctx.db, args.carNumber, campusId);
+        // Rebuild the student summaries from the current student records
+        const students = (await Promise.all(record.studentIds.map((id) => ctx.db.get(id))))
+            .filter((student) => student !== null);
         if (students.length === 0) {
             return {
                 success: false,
                 error: "NO_STUDENTS_FOUND",
-                message: `No students found with car number ${args.carNumber}`
+                message: `No students found with car number ${record.carNumber}`
             };
         }
 
-        // Get next position in lane
-        const position = await getNextPosition(ctx.db, args.campus, args.lane);
+        // Make room at the original position (clamped to the back of the lane)
+        const laneCars = await getLaneEntries(ctx.db, record.campusLocation, record.lane);
+        const position = Math.min(record.position ?? laneCars.length + 1, laneCars.length + 1);
+        for (const car of laneCars) {
+            if (car.position >= position) {
+                await ctx.db.patch(car._id, { position: car.position + 1 });
+            }
+        }
+
+        // Students checked off before the car left stay released
+        const earlyReleases = new Map(
+            (record.studentReleases ?? [])
+                .filter((release) => release.releasedAt < record.completedAt)
+                .map((release) => [release.studentId, release.releasedAt])
+        );
 
-        // Add to queue
         const queueId = await ctx.db.insert("dismissalQueue", {
-            carNumber: args.carNumber,
-            campusLocation: args.campus,
-            lane: args.lane,
+            carNumber: record.carNumber,
+            campusLocation: record.campusLocation,
+            lane: record.lane,
+            position,
+            students: students.map((student) => ({
+                ...studentToSummary(student),
+                releasedAt: earlyReleases.get(student._id)
+            })),
+            carColor: generateCarColor(record.carNumber),
+            vehicle: record.vehicle,
+            assignedTime: record.queuedAt,
+            addedBy: record.addedBy,
+            status: "waiting",
+            stage: record.loadingAt !== undefined
+                ? "loading"
+                : record.calledAt !== undefined ? "called" : "waiting",
+            calledAt: record.calledAt,
+            loadingAt: record.loadingAt,
+            laneMoves: record.laneMoves
+        });
+
+        // The pickup never happened, so drop it from history (keeps wait-time metrics clean)
+        await ctx.db.delete(args.historyId);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_dismissal_undone",
+            {
+                targetType: "queue",
+                targetId: queueId,
+                campus: record.campusLocation,
+                before: record,
+                after: { queueId, lane: record.lane, position },
+                metadata: { carNumber: record.carNumber, removedBy: record.removedBy }
+            }
+        );
+
+        await enqueueWebhookEvent(ctx, record.campusLocation, "car.added", {
+            queueId,
+            carNumber: record.carNumber,
+            lane: record.lane,
             position,
-            students: students.map(studentToSummary),
-            carColor: generateCarColor(args.carNumber),
-            assignedTime: Date.now(),
-            addedBy: user._id,
-            status: "waiting"
+            students: students.map((s) => ({ studentId: s._id, name: s.fullName, grade: s.grade })),
+            restoredFrom: args.historyId
         });
 
         return {
             success: true,
-            queueId
+            queueId,
+            carNumber: record.carNumber
         };
     }
 });
 
 /**
- * Remove car from queue (dispatcher action)
+ * Advance or revert a queued car through the curb lifecycle (dispatcher action)
+ * Moving back to an earlier stage clears the timestamps of the later ones
  */
-export const removeCar = mutation({
+export const setCarStage = mutation({
     args: {
-        queueId: v.id("dismissalQueue")
+        queueId: v.id("dismissalQueue"),
+        stage: pickupStageValidator
     },
     handler: async (ctx, args) => {
-        // Get the entry first to know the campus
-        const entryForCampus = await ctx.db.get(args.queueId);
-        if (!entryForCampus) throw new Error("Queue entry not found");
+        const entry = await ctx.db.get(args.queueId);
+        if (!entry) throw new Error("Queue entry not found");
         const { user, role, identity } = await validateUserAccess(
             ctx,
             undefined,
-            entryForCampus.campusLocation
+            entry.campusLocation
         );
         const operatorPermissions = extractOperatorPermissions(identity as any, role);
         if (!userCanDispatch(role, operatorPermissions)) {
-            throw new Error("Insufficient permissions to remove cars");
+            throw new Error("Insufficient permissions to update cars");
+        }
+
+        if (entry.status !== "waiting") {
+            throw new Error("Car is not in waiting status");
+        }
+
+        const currentStage = entry.stage ?? "waiting";
+        if (currentStage === args.stage) {
+            return { success: true, queueId: args.queueId, stage: args.stage };
+        }
+
+        const now = Date.now();
+        if (args.stage === "waiting") {
+            await ctx.db.patch(args.queueId, {
+                stage: "waiting",
+                calledAt: undefined,
+                loadingAt: undefined
+            });
+        } else if (args.stage === "called") {
+            await ctx.db.patch(args.queueId, {
+                stage: "called",
+                calledAt: entry.calledAt ?? now,
+                loadingAt: undefined
+            });
+        } else {
+            // Skipping straight to loading counts as called at the same instant
+            await ctx.db.patch(args.queueId, {
+                stage: "loading",
+                calledAt: entry.calledAt ?? now,
+                loadingAt: now
+            });
         }
 
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_stage_updated",
+            {
+                targetType: "queue",
+                targetId: args.queueId,
+                campus: entry.campusLocation,
+                before: { stage: currentStage, calledAt: entry.calledAt, loadingAt: entry.loadingAt },
+                after: { stage: args.stage },
+                metadata: { carNumber: entry.carNumber }
+            }
+        );
+
+        return { success: true, queueId: args.queueId, stage: args.stage };
+    }
+});
+
+/**
+ * Remove a car that left without its students (dispatcher action)
+ * Recorded in history with a "no_show" outcome so it can still be undone
+ */
+export const markNoShow = mutation({
+    args: {
+        queueId: v.id("dismissalQueue")
+    },
+    handler: async (ctx, args) => {
         const entry = await ctx.db.get(args.queueId);
         if (!entry) throw new Error("Queue entry not found");
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            undefined,
+            entry.campusLocation
+        );
+        const operatorPermissions = extractOperatorPermissions(identity as any, role);
+        if (!userCanDispatch(role, operatorPermissions)) {
+            throw new Error("Insufficient permissions to remove cars");
+        }
 
         if (entry.status !== "waiting") {
             throw new Error("Car is not in waiting status");
         }
 
-        // Calculate wait time
-        const waitTimeSeconds = Math.floor((Date.now() - entry.assignedTime) / 1000);
+        const now = Date.now();
+        const date = await getCampusLocalDate(ctx.db, entry.campusLocation, now);
+        const historyId = await clearCarFromQueue(ctx.db, entry, user._id, date, now, "no_show");
+        await repositionLaneCars(ctx.db, entry.campusLocation, entry.lane, entry.position);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_marked_no_show",
+            {
+                targetType: "queue",
+                targetId: args.queueId,
+                campus: entry.campusLocation,
+                before: entry,
+                metadata: { carNumber: entry.carNumber, historyId }
+            }
+        );
 
-        // Create history entry
-        await ctx.db.insert("dismissalHistory", {
+        await enqueueWebhookEvent(ctx, entry.campusLocation, "car.dismissed", {
+            queueId: args.queueId,
             carNumber: entry.carNumber,
-            campusLocation: entry.campusLocation,
             lane: entry.lane,
-            studentIds: entry.students.map((s: any) => s.studentId),
-            studentNames: entry.students.map((s: any) => s.name),
-            queuedAt: entry.assignedTime,
-            completedAt: Date.now(),
-            waitTimeSeconds,
-            addedBy: entry.addedBy,
-            removedBy: user._id,
-            date: new Date().toISOString().split('T')[0]
+            outcome: "no_show",
+            waitTimeSeconds: Math.floor((now - entry.assignedTime) / 1000),
+            historyId
         });
 
-        // Reposition remaining cars in lane
-        await repositionLaneCars(ctx.db, entry.campusLocation, entry.lane, entry.position);
-
-        // Remove from queue
-        await ctx.db.delete(args.queueId);
-
         return {
             success: true,
-            waitTime: waitTimeSeconds,
-            carNumber: entry.carNumber
+            carNumber: entry.carNumber,
+            historyId
         };
     }
 });
 
+/**
+ * Get today's dismissal window and override state for a campus
+ */
+export const getDismissalWindowStatus = query({
+    args: {
+        campus: v.string()
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { window: null, override: null, canOverride: false, authState: "unauthenticated" };
+        }
+
+        try {
+            const { role } = await validateUserAccess(ctx, undefined, args.campus);
+            const campusSettings = await getCampusSettings(ctx.db, args.campus);
+            if (!campusSettings) {
+                return { window: null, override: null, canOverride: false, authState: "authenticated" };
+            }
+
+            const dismissalWindow = getDismissalWindow(campusSettings);
+            const override = await getDismissalWindowOverride(
+                ctx.db,
+                args.campus,
+                dismissalWindow.localDate
+            );
+
+            return {
+                window: dismissalWindow,
+                override: override ? {
+                    reason: override.reason,
+                    createdAt: override.createdAt
+                } : null,
+                canOverride: ["principal", "admin", "superadmin"].includes(role),
+                authState: "authenticated"
+            };
+        } catch {
+            return { window: null, override: null, canOverride: false, authState: "error" };
+        }
+    }
+});
+
+/**
+ * Open the queue outside the dismissal window for the rest of the campus-local day
+ */
+export const overrideDismissalWindow = mutation({
+    args: {
+        campus: v.string(),
+        reason: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            ["principal", "admin", "superadmin"],
+            args.campus
+        );
+
+        const campusSettings = await getCampusSettings(ctx.db, args.campus);
+        if (!campusSettings) throw new Error("Campus not found");
+
+        const { localDate } = getDismissalWindow(campusSettings);
+        const existing = await getDismissalWindowOverride(ctx.db, args.campus, localDate);
+        if (existing) return existing._id;
+
+        const overrideId = await ctx.db.insert("dismissalWindowOverrides", {
+            campusLocation: args.campus,
+            date: localDate,
+            reason: args.reason?.trim() || undefined,
+            createdBy: user._id,
+            createdAt: Date.now()
+        });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "dismissal_window_overridden",
+            {
+                targetType: "campus",
+                targetId: campusSettings._id,
+                campus: args.campus,
+                after: { date: localDate, reason: args.reason },
+                metadata: {
+                    dismissalStartTime: campusSettings.dismissalStartTime,
+                    dismissalEndTime: campusSettings.dismissalEndTime,
+                    timezone: campusSettings.timezone
+                }
+            }
+        );
+
+        return overrideId;
+    }
+});
+
 /**
  * Check if car is currently in queue
  */
@@ -401,29 +1149,20 @@ export const checkCarInQueue = query({
 
         try {
             await validateUserAccess(ctx, undefined, args.campus);
-            const inQueue = await isCarInQueue(ctx.db, args.carNumber, args.campus);
-
-            if (inQueue) {
-                // Search across all campuses to find where the car is
-                const entry = await ctx.db
-                    .query("dismissalQueue")
-                    .filter((q: any) =>
-                        q.and(
-                            q.eq(q.field("carNumber"), args.carNumber),
-                            q.eq(q.field("status"), "waiting")
-                        )
-                    )
-                    .first();
 
+            // Search across all campuses to find where the car is
+            const entry = await getWaitingEntryByCar(ctx.db, args.carNumber);
+
+            if (entry) {
                 return {
                     inQueue: true,
-                    entry: entry ? {
+                    entry: {
                         id: entry._id,
                         lane: entry.lane,
                         position: entry.position,
                         assignedTime: entry.assignedTime,
                         students: entry.students
-                    } : null,
+                    },
                     authState: "authenticated"
                 };
             }
@@ -446,7 +1185,7 @@ export const moveCar = mutation({
     handler: async (ctx, args) => {
         const entry = await ctx.db.get(args.queueId);
         if (!entry) throw new Error("Queue entry not found");
-        const { role, identity } = await validateUserAccess(
+        const { user, role, identity } = await validateUserAccess(
             ctx,
             undefined,
             entry.campusLocation
@@ -464,27 +1203,154 @@ export const moveCar = mutation({
             throw new Error("Car is already in that lane");
         }
 
+        const campusSettings = await getCampusSettings(ctx.db, entry.campusLocation);
+        if (!findCampusLane(campusSettings, args.newLane)) {
+            throw new Error("Lane is not configured for this campus");
+        }
+
         const oldLane = entry.lane;
         const oldPosition = entry.position;
 
         // Get next position in new lane
         const newPosition = await getNextPosition(ctx.db, entry.campusLocation, args.newLane);
 
-        // Instead of patch, delete and recreate with new lane/position
-        const { _id, _creationTime, ...entryData } = entry;
-        const newEntry = {
-            ...entryData,
+        // Patch in place so the queue entry keeps its id
+        await ctx.db.patch(args.queueId, {
             lane: args.newLane,
-            position: newPosition
-        };
-
-        await ctx.db.delete(args.queueId);
-        const newQueueId = await ctx.db.insert("dismissalQueue", newEntry);
+            position: newPosition,
+            laneMoves: [
+                ...(entry.laneMoves ?? []),
+                { from: oldLane, to: args.newLane, movedAt: Date.now() }
+            ]
+        });
 
         // Reposition cars in old lane
         await repositionLaneCars(ctx.db, entry.campusLocation, oldLane, oldPosition);
 
-        return newQueueId;
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_moved_lane",
+            {
+                targetType: "queue",
+                targetId: args.queueId,
+                campus: entry.campusLocation,
+                before: { lane: oldLane, position: oldPosition },
+                after: { lane: args.newLane, position: newPosition },
+                metadata: { carNumber: entry.carNumber }
+            }
+        );
+
+        await enqueueWebhookEvent(ctx, entry.campusLocation, "car.moved", {
+            queueId: args.queueId,
+            carNumber: entry.carNumber,
+            from: { lane: oldLane, position: oldPosition },
+            to: { lane: args.newLane, position: newPosition }
+        });
+
+        return args.queueId;
+    }
+});
+
+/**
+ * Move car to an arbitrary position (1 = front) in any lane of its campus
+ */
+export const reorderCar = mutation({
+    args: {
+        queueId: v.id("dismissalQueue"),
+        lane: laneValidator,
+        position: v.number()
+    },
+    handler: async (ctx, args) => {
+        const entry = await ctx.db.get(args.queueId);
+        if (!entry) throw new Error("Queue entry not found");
+        const { user, role, identity } = await validateUserAccess(
+            ctx,
+            undefined,
+            entry.campusLocation
+        );
+        const operatorPermissions = extractOperatorPermissions(identity as any, role);
+        if (!userCanDispatch(role, operatorPermissions)) {
+            throw new Error("Insufficient permissions to move cars");
+        }
+
+        if (entry.status !== "waiting") {
+            throw new Error("Car is not in waiting status");
+        }
+
+        if (!Number.isInteger(args.position) || args.position < 1) {
+            throw new Error("Position must be a positive integer");
+        }
+
+        const campusSettings = await getCampusSettings(ctx.db, entry.campusLocation);
+        if (!findCampusLane(campusSettings, args.lane)) {
+            throw new Error("Lane is not configured for this campus");
+        }
+
+        // Take the car out of its current lane
+        const laneCars = await getLaneEntries(ctx.db, entry.campusLocation, entry.lane);
+        const currentIndex = laneCars.findIndex((e: Doc<"dismissalQueue">) => e._id === entry._id);
+        const sourceCars = laneCars.filter((e: Doc<"dismissalQueue">) => e._id !== entry._id);
+        const targetCars = args.lane === entry.lane
+            ? sourceCars
+            : await getLaneEntries(ctx.db, entry.campusLocation, args.lane);
+
+        // Insert it at the requested spot (clamped to the back of the lane)
+        const targetIndex = Math.min(args.position - 1, targetCars.length);
+
+        // Dropped back where it was: nothing moved, so no lane move, audit entry or webhook
+        if (args.lane === entry.lane && targetIndex === currentIndex) {
+            return {
+                queueId: entry._id,
+                lane: entry.lane,
+                position: entry.position
+            };
+        }
+
+        targetCars.splice(targetIndex, 0, entry);
+
+        // Renumber both lanes in a single transaction
+        await renumberLaneEntries(ctx.db, targetCars, args.lane);
+        await ctx.db.patch(entry._id, {
+            laneMoves: [
+                ...(entry.laneMoves ?? []),
+                { from: entry.lane, to: args.lane, position: targetIndex + 1, movedAt: Date.now() }
+            ]
+        });
+        if (args.lane !== entry.lane) {
+            await renumberLaneEntries(ctx.db, sourceCars, entry.lane);
+        }
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_reordered",
+            {
+                targetType: "queue",
+                targetId: entry._id,
+                campus: entry.campusLocation,
+                before: { lane: entry.lane, position: entry.position },
+                after: { lane: args.lane, position: targetIndex + 1 },
+                metadata: { carNumber: entry.carNumber }
+            }
+        );
+
+        await enqueueWebhookEvent(ctx, entry.campusLocation, "car.moved", {
+            queueId: entry._id,
+            carNumber: entry.carNumber,
+            from: { lane: entry.lane, position: entry.position },
+            to: { lane: args.lane, position: targetIndex + 1 }
+        });
+
+        return {
+            queueId: entry._id,
+            lane: args.lane,
+            position: targetIndex + 1
+        };
     }
 });
 
@@ -502,11 +1368,13 @@ export const getQueueMetrics = query({
             return {
                 campus: args.campus,
                 currentCars: 0,
-                leftLaneCars: 0,
-                rightLaneCars: 0,
+                laneCounts: [],
                 averageWaitTime: 0,
+                averageWalkOutTime: 0,
+                averageCurbTime: 0,
                 todayTotal: 0,
                 todayStudents: 0,
+                todayNoShows: 0,
                 authState: "unauthenticated"
             };
         }
@@ -521,11 +1389,14 @@ export const getQueueMetrics = query({
                 )
                 .collect();
 
-            const leftLaneCars = currentQueue.filter(e => e.lane === "left").length;
-            const rightLaneCars = currentQueue.filter(e => e.lane === "right").length;
+            const settings = await getCampusSettings(ctx.db, args.campus);
+            const laneCounts = getCampusLanes(settings).map(lane => ({
+                ...lane,
+                count: currentQueue.filter(e => e.lane === lane.id).length
+            }));
 
-            // Today's completed pickups
-            const today = new Date().toISOString().split('T')[0];
+            // Today's completed pickups (campus-local date)
+            const today = getCampusLocalTime(settings?.timezone).date;
             const todayHistory = await ctx.db
                 .query("dismissalHistory")
                 .withIndex("by_campus_date", q =>
@@ -540,22 +1411,26 @@ export const getQueueMetrics = query({
             return {
                 campus: args.campus,
                 currentCars: currentQueue.length,
-                leftLaneCars,
-                rightLaneCars,
+                laneCounts,
                 averageWaitTime: Math.round(averageWaitTime),
+                averageWalkOutTime: averageOf(todayHistory.map(h => h.walkOutSeconds)),
+                averageCurbTime: averageOf(todayHistory.map(h => h.curbSeconds)),
                 todayTotal: todayHistory.length,
                 todayStudents: todayHistory.reduce((sum, h) => sum + h.studentIds.length, 0),
+                todayNoShows: todayHistory.filter(h => h.outcome === "no_show").length,
                 authState: "authenticated"
             };
         } catch {
             return {
                 campus: args.campus,
                 currentCars: 0,
-                leftLaneCars: 0,
-                rightLaneCars: 0,
+                laneCounts: [],
                 averageWaitTime: 0,
+                averageWalkOutTime: 0,
+                averageCurbTime: 0,
                 todayTotal: 0,
                 todayStudents: 0,
+                todayNoShows: 0,
                 authState: "forbidden"
             };
         }
@@ -594,6 +1469,7 @@ export const getRecentActivity = query({
                 studentNames: h.studentNames,
                 completedAt: h.completedAt,
                 waitTimeSeconds: h.waitTimeSeconds,
+                outcome: h.outcome ?? "picked_up",
                 lane: h.lane
             }));
         } catch {
@@ -602,6 +1478,72 @@ export const getRecentActivity = query({
     }
 });
 
+/**
+ * Get everything needed to replay a past dismissal day (management only)
+ * Cars come from history; lane moves let the client rebuild each lane over time
+ * Without a date it replays the campus-local today and returns that date
+ */
+export const getDismissalReplay = query({
+    args: {
+        campus: v.string(),
+        date: v.optional(v.string()) // YYYY-MM-DD, campus-local
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { lanes: [], cars: [], timezone: undefined, date: args.date, authState: "unauthenticated" };
+        }
+
+        try {
+            await validateUserAccess(ctx, ["principal", "admin", "superadmin"], args.campus);
+
+            const campusSettings = await getCampusSettings(ctx.db, args.campus);
+            const date = args.date ?? getCampusLocalTime(campusSettings?.timezone).date;
+            const history = await ctx.db
+                .query("dismissalHistory")
+                .withIndex("by_campus_date", q =>
+                    q.eq("campusLocation", args.campus).eq("date", date)
+                )
+                .collect();
+
+            // Keep lanes that were removed since that day so their cars still show up
+            const lanes = [...getCampusLanes(campusSettings)];
+            for (const record of history) {
+                const laneIds = [record.lane, ...(record.laneMoves ?? []).map((move) => move.from)];
+                for (const laneId of laneIds) {
+                    if (!lanes.some((lane) => lane.id === laneId)) {
+                        lanes.push({ id: laneId, name: laneId, color: "#6b7280" });
+                    }
+                }
+            }
+
+            const cars = history
+                .sort((a, b) => a.queuedAt - b.queuedAt)
+                .map((record) => ({
+                    id: record._id,
+                    carNumber: record.carNumber,
+                    carColor: generateCarColor(record.carNumber),
+                    lane: record.lane,
+                    students: record.studentIds.map((studentId, index) => ({
+                        studentId,
+                        name: record.studentNames[index] ?? "",
+                        releasedAt: record.studentReleases?.find((r) => r.studentId === studentId)?.releasedAt
+                    })),
+                    queuedAt: record.queuedAt,
+                    completedAt: record.completedAt,
+                    outcome: record.outcome ?? "picked_up",
+                    calledAt: record.calledAt,
+                    loadingAt: record.loadingAt,
+                    laneMoves: record.laneMoves ?? []
+                }));
+
+            return { lanes, cars, timezone: campusSettings?.timezone, date, authState: "authenticated" };
+        } catch {
+            return { lanes: [], cars: [], timezone: undefined, date: args.date, authState: "forbidden" };
+        }
+    }
+});
+
 /**
  * Clear all cars from queue for a specific campus (dispatcher action)
  */
@@ -633,12 +1575,32 @@ export const clearAllCars = mutation({
         }
 
         const now = Date.now();
+        const date = await getCampusLocalDate(ctx.db, args.campus, now);
 
         // Process each entry using shared helper function
         for (const entry of entries) {
-            await clearCarFromQueue(ctx.db, entry, user._id, now);
+            await clearCarFromQueue(ctx.db, entry, user._id, date, now);
         }
 
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "queue_cleared",
+            {
+                targetType: "queue",
+                campus: args.campus,
+                before: entries.map((e) => ({ carNumber: e.carNumber, lane: e.lane, position: e.position })),
+                metadata: { clearedCount: entries.length }
+            }
+        );
+
+        await enqueueWebhookEvent(ctx, args.campus, "queue.cleared", {
+            clearedCount: entries.length,
+            carNumbers: entries.map((e) => e.carNumber)
+        });
+
         return {
             success: true,
             clearedCount: entries.length,
@@ -665,7 +1627,7 @@ export const getCarCountsByCampus = query({
             // Get all cars in waiting status
             const allEntries = await ctx.db
                 .query("dismissalQueue")
-                .filter(q => q.eq(q.field("status"), "waiting"))
+                .withIndex("by_status", q => q.eq("status", "waiting"))
                 .collect();
 
             // Group by campus and count
@@ -686,62 +1648,77 @@ export const getCarCountsByCampus = query({
 });
 
 /**
- * Scheduled function to clear all queues at midnight (internal only)
- * This is called by the cron job to reset queues daily
+ * Scheduled function to reset each campus queue at its local reset time (internal only)
+ * Runs every few minutes from the cron; each campus is reset at most once per local day
  */
 export const scheduledClearAllQueues = internalMutation({
     args: {},
     handler: async (ctx) => {
         const now = Date.now();
-        const currentDate = new Date(now);
-        // Midnight cron closes the previous operational day.
-        const processingDate = new Date(
-            currentDate.getTime() - 24 * 60 * 60 * 1000
-        )
-            .toISOString()
-            .split('T')[0];
-        const processingMonth = processingDate.substring(0, 7);
+        const campuses = await ctx.db.query("campusSettings").collect();
 
-        // Get all distinct campuses that have cars in queue
-        const allEntries = await ctx.db
-            .query("dismissalQueue")
-            .filter(q => q.eq(q.field("status"), "waiting"))
-            .collect();
-
-        // Get unique campus locations
-        const campuses = [...new Set(allEntries.map(entry => entry.campusLocation))];
         let totalCleared = 0;
+        const resetCampuses: string[] = [];
 
-        // Process each campus
         for (const campus of campuses) {
-            const campusEntries = allEntries.filter(e => e.campusLocation === campus);
-
-            // Create history entries for all cars in this campus using shared helper
-            for (const entry of campusEntries) {
-                // For scheduled clears, removedBy = addedBy (system operation)
-                await clearCarFromQueue(
-                    ctx.db,
-                    entry,
-                    entry.addedBy,
-                    now,
-                    processingDate
-                );
+            const local = getCampusLocalTime(campus.timezone, now);
+            const resetMinutes = parseTimeOfDay(campus.queueResetTime ?? "00:00") ?? 0;
+
+            // Only act during the hour after the reset time, once per local day,
+            // so a new or edited campus never gets its live queue cleared mid-day
+            const minutesSinceReset = local.minutes - resetMinutes;
+            if (
+                minutesSinceReset < 0 ||
+                minutesSinceReset >= QUEUE_RESET_GRACE_MINUTES ||
+                campus.lastQueueResetDate === local.date
+            ) {
+                continue;
+            }
+
+            const processingDate = getResetOperationalDate(campus.timezone, now);
+            const processingMonth = processingDate.substring(0, 7);
+
+            const entries = await ctx.db
+                .query("dismissalQueue")
+                .withIndex("by_campus_status", q =>
+                    q.eq("campusLocation", campus.campusName).eq("status", "waiting")
+                )
+                .collect();
+
+            // For scheduled clears, removedBy = addedBy (system operation)
+            for (const entry of entries) {
+                await clearCarFromQueue(ctx.db, entry, entry.addedBy, processingDate, now);
                 totalCleared++;
             }
-        }
 
-        await ctx.scheduler.runAfter(0, internal.dashboard.updateDashboardMetrics, {
-            date: processingDate,
-            month: processingMonth
-        });
+            await ctx.db.patch(campus._id, { lastQueueResetDate: local.date });
+
+            await createSystemAuditLog(ctx.db, "queue_auto_reset", {
+                targetType: "queue",
+                campus: campus.campusName,
+                before: entries.map((e) => ({ carNumber: e.carNumber, lane: e.lane, position: e.position })),
+                metadata: { clearedCount: entries.length, date: processingDate }
+            });
+
+            await enqueueWebhookEvent(ctx, campus.campusName, "queue.reset", {
+                clearedCount: entries.length,
+                date: processingDate
+            });
+
+            await ctx.scheduler.runAfter(0, internal.dashboard.updateDashboardMetrics, {
+                date: processingDate,
+                month: processingMonth,
+                campus: campus.campusName
+            });
+
+            resetCampuses.push(campus.campusName);
+        }
 
         return {
             success: true,
-            clearedCampuses: campuses.length,
+            clearedCampuses: resetCampuses.length,
             totalCarsCleared: totalCleared,
-            campuses,
-            processedDate: processingDate,
-            processedMonth: processingMonth,
+            campuses: resetCampuses,
         };
     }
 });
@@ -83,7 +83,9 @@ export default defineSchema({
     birthday: v.string(), // Display format: "July 09"
 
     // Car assignment
-    carNumber: v.number(), // 0 = no car assigned
+    carNumber: v.number(), // 0 = no car assigned, otherwise kept in sync with the family's car
+    // Optional during migration - students with a car are grouped into families
+    familyId: v.optional(v.id("families")),
 
     // Additional info
     avatarUrl: v.optional(v.string()),
@@ -99,7 +101,49 @@ export default defineSchema({
   })
     .index("by_car_number", ["carNumber"])
     .index("by_full_name", ["fullName"])
-    .index("by_active", ["isActive"]),
+    .index("by_active", ["isActive"])
+    .index("by_family", ["familyId"]),
+
+  /**
+   * Families - Household that owns a car number, its guardians and its students
+   */
+  families: defineTable({
+    name: v.string(), // e.g. "Garcia"
+    carNumber: v.number(), // Unique across campuses, like student car numbers
+    // Campuses where the family has students (siblings may attend different campuses)
+    campuses: v.array(v.id("campusSettings")),
+
+    // Household contact info
+    email: v.optional(v.string()),
+    phone: v.optional(v.string()),
+    notes: v.optional(v.string()),
+
+    // Metadata
+    createdBy: v.optional(v.id("users")), // Unset for families created by the migration
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_car_number", ["carNumber"])
+    .index("by_name", ["name"]),
+
+  /**
+   * Family Vehicles - Extra car tags of a family (grandparents, nanny, second car...)
+   * Each tag queues the family's students; a vehicle may also describe the family's own car number
+   */
+  familyVehicles: defineTable({
+    familyId: v.id("families"),
+    carNumber: v.number(), // Tag number, unique across families
+    label: v.string(), // e.g. "Mom's SUV"
+    color: v.optional(v.string()), // e.g. "Grey"
+    make: v.optional(v.string()), // e.g. "Honda Odyssey"
+
+    // Metadata
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_car_number", ["carNumber"])
+    .index("by_family", ["familyId"]),
 
   /**
    * Dismissal Queue - Current cars in lanes
@@ -109,8 +153,8 @@ export default defineSchema({
     carNumber: v.number(),
     campusLocation: v.string(),
 
-    // Lane assignment
-    lane: v.union(v.literal("left"), v.literal("right")),
+    // Lane assignment - id of one of the campus lanes (campusSettings.lanes)
+    lane: v.string(),
     position: v.number(), // 1 = front of lane
 
     // Denormalized student info for performance
@@ -122,6 +166,8 @@ export default defineSchema({
         birthday: v.optional(v.string()),
         avatarUrl: v.optional(v.string()),
         avatarStorageId: v.optional(v.id("_storage")),
+        releasedAt: v.optional(v.number()), // Set once the student walked out (partial pickup)
+        releasedBy: v.optional(v.id("users")),
       }),
     ),
 
@@ -136,10 +182,41 @@ export default defineSchema({
 
     // Status
     status: v.union(v.literal("waiting"), v.literal("completed")),
+
+    // Curb lifecycle while waiting (missing = still in line)
+    stage: v.optional(
+      v.union(v.literal("waiting"), v.literal("called"), v.literal("loading")),
+    ),
+    calledAt: v.optional(v.number()),
+    loadingAt: v.optional(v.number()),
+
+    // Family vehicle whose tag was used (missing = car number without a vehicle)
+    vehicle: v.optional(
+      v.object({
+        vehicleId: v.id("familyVehicles"),
+        label: v.string(),
+        color: v.optional(v.string()),
+        make: v.optional(v.string()),
+      }),
+    ),
+
+    // Lane changes and reorders while waiting (used by queue replay)
+    laneMoves: v.optional(
+      v.array(
+        v.object({
+          from: v.string(),
+          to: v.string(),
+          position: v.optional(v.number()), // Requested spot; missing = back of the lane
+          movedAt: v.number(),
+        }),
+      ),
+    ),
   })
     .index("by_campus_lane_position", ["campusLocation", "lane", "position"])
     .index("by_campus_status", ["campusLocation", "status"])
-    .index("by_car_campus", ["carNumber", "campusLocation"]),
+    .index("by_car_campus", ["carNumber", "campusLocation"])
+    .index("by_car_status", ["carNumber", "status"])
+    .index("by_status", ["status"]),
 
   /**
    * Dismissal History - Completed pickups
@@ -148,17 +225,56 @@ export default defineSchema({
     // Reference info
     carNumber: v.number(),
     campusLocation: v.string(),
-    lane: v.union(v.literal("left"), v.literal("right")),
+    lane: v.string(), // Lane id at the time of pickup
+    position: v.optional(v.number()), // Lane position at the time of pickup (used by undo)
 
     // Students picked up (denormalized)
     studentIds: v.array(v.id("students")),
     studentNames: v.array(v.string()),
+    studentReleases: v.optional(
+      v.array(
+        v.object({
+          studentId: v.id("students"),
+          releasedAt: v.number(),
+        }),
+      ),
+    ),
 
     // Time metrics
     queuedAt: v.number(),
     completedAt: v.number(),
     waitTimeSeconds: v.number(),
 
+    // Curb lifecycle (missing on records created before stages existed)
+    outcome: v.optional(v.union(v.literal("picked_up"), v.literal("no_show"))),
+    calledAt: v.optional(v.number()),
+    loadingAt: v.optional(v.number()),
+    lineWaitSeconds: v.optional(v.number()), // queued -> called
+    walkOutSeconds: v.optional(v.number()), // called -> loading
+    curbSeconds: v.optional(v.number()), // loading -> completed
+
+    // Family vehicle whose tag was used (copied from the queue entry)
+    vehicle: v.optional(
+      v.object({
+        vehicleId: v.id("familyVehicles"),
+        label: v.string(),
+        color: v.optional(v.string()),
+        make: v.optional(v.string()),
+      }),
+    ),
+
+    // Lane changes and reorders while waiting (copied from the queue entry)
+    laneMoves: v.optional(
+      v.array(
+        v.object({
+          from: v.string(),
+          to: v.string(),
+          position: v.optional(v.number()),
+          movedAt: v.number(),
+        }),
+      ),
+    ),
+
     // Who managed it
     addedBy: v.id("users"),
     removedBy: v.id("users"),
@@ -225,10 +341,12 @@ export default defineSchema({
   dashboardProcessedDates: defineTable({
     date: v.string(), // YYYY-MM-DD
     month: v.string(), // YYYY-MM
+    campusLocation: v.optional(v.string()), // Set when processed per campus (campus-local date)
     processedAt: v.number(),
   })
     .index("by_date", ["date"])
-    .index("by_month", ["month"]),
+    .index("by_month", ["month"])
+    .index("by_campus_date", ["campusLocation", "date"]),
 
   /**
    * Campus Settings - Basic campus configuration
@@ -264,6 +382,8 @@ export default defineSchema({
     // Operational settings
     dismissalStartTime: v.optional(v.string()), // "14:30"
     dismissalEndTime: v.optional(v.string()), // "15:30"
+    queueResetTime: v.optional(v.string()), // "00:00" campus-local, defaults to midnight
+    lastQueueResetDate: v.optional(v.string()), // Campus-local YYYY-MM-DD of the last automatic reset
 
     // Available grades for this campus
     availableGrades: v.optional(
@@ -277,9 +397,41 @@ export default defineSchema({
       ),
     ),
 
+    // Pickup lanes - defaults to left/right when not configured
+    lanes: v.optional(
+      v.array(
+        v.object({
+          id: v.string(), // Stable id stored on queue/history rows
+          name: v.string(), // "North Gate", "Left", etc.
+          color: v.string(), // Hex color
+        }),
+      ),
+    ),
+
     // Features flags
     allowMultipleStudentsPerCar: v.boolean(),
     requireCarNumber: v.boolean(),
+    allowCrossCampusCalls: v.optional(v.boolean()), // Queue cars whose students belong to another campus (after confirmation), defaults to true
+
+    // Viewer spoken announcements - fall back to the localized template and browser voice
+    announcementTemplate: v.optional(v.string()), // "Car {carNumber}, {students}, {lane}"
+    announcementVoice: v.optional(v.string()), // Web Speech voice name
+
+    // What public kiosk displays may show, defaults to hiding both
+    kioskPrivacy: v.optional(
+      v.object({
+        hideLastNames: v.boolean(),
+        hideAvatars: v.boolean(),
+      }),
+    ),
+
+    // Texts/emails to guardians when their car is queued, dismissed or waiting long, off by default
+    parentNotifications: v.optional(
+      v.object({
+        enabled: v.boolean(),
+        longWaitMinutes: v.optional(v.number()),
+      }),
+    ),
 
     // Metrics (denormalized for performance)
     metrics: v.optional(
@@ -311,13 +463,238 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_created", ["createdAt"]),
 
+  /**
+   * Dismissal Window Overrides - Principal opens the queue outside the
+   * configured dismissal window for one campus-local day
+   */
+  dismissalWindowOverrides: defineTable({
+    campusLocation: v.string(),
+    date: v.string(), // Campus-local YYYY-MM-DD
+    reason: v.optional(v.string()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_campus_date", ["campusLocation", "date"]),
+
+  /**
+   * Display Tokens - Revocable per-campus links that open the read-only road
+   * on hallway TVs without a signed-in user
+   */
+  displayTokens: defineTable({
+    campusId: v.id("campusSettings"),
+    name: v.string(), // "Front hallway TV"
+    tokenHash: v.string(), // SHA-256 of the token, the token itself is shown once
+    tokenPreview: v.string(), // Last characters, to tell tokens apart
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    revokedAt: v.optional(v.number()),
+    revokedBy: v.optional(v.id("users")),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_campus", ["campusId"]),
+
+  /**
+   * Pending Arrivals - Parents who checked in with their family link, waiting
+   * for an allocator to pick a lane
+   */
+  pendingArrivals: defineTable({
+    campusLocation: v.string(),
+    carNumber: v.number(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("assigned"), // Queued by an allocator
+      v.literal("dismissed"), // Discarded by an allocator
+    ),
+    createdAt: v.number(),
+    expiresAt: v.number(), // Hidden from allocators after this
+    queueId: v.optional(v.id("dismissalQueue")),
+    resolvedBy: v.optional(v.id("users")),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_campus_status", ["campusLocation", "status"])
+    .index("by_campus_car", ["campusLocation", "carNumber"]),
+
+  /**
+   * Arrival Tags - License plates and RFID tags that gate readers report,
+   * mapped to the family car number they queue
+   */
+  arrivalTags: defineTable({
+    campusId: v.id("campusSettings"),
+    tag: v.string(), // Normalized: uppercase, no spaces or dashes
+    kind: v.union(v.literal("plate"), v.literal("rfid")),
+    carNumber: v.number(),
+    label: v.optional(v.string()), // "Grey minivan"
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_campus_tag", ["campusId", "tag"])
+    .index("by_campus", ["campusId"]),
+
+  /**
+   * API Keys - Per-campus credentials for machine integrations (SIS sync,
+   * signage players, gate readers) calling the HTTP endpoints
+   */
+  apiKeys: defineTable({
+    campusId: v.id("campusSettings"),
+    name: v.string(), // "North gate reader"
+    keyHash: v.string(), // SHA-256 of the key, the key itself is shown once
+    keyPreview: v.string(), // Last characters, to tell keys apart
+    scopes: v.array(
+      v.union(
+        v.literal("queue:read"),
+        v.literal("queue:write"),
+        v.literal("students:read"),
+      ),
+    ),
+    createdBy: v.id("users"), // Actions taken with the key are attributed to this user
+    createdAt: v.number(),
+    rotatedAt: v.optional(v.number()),
+    lastUsedAt: v.optional(v.number()),
+    revokedAt: v.optional(v.number()),
+    revokedBy: v.optional(v.id("users")),
+  })
+    .index("by_key_hash", ["keyHash"])
+    .index("by_campus", ["campusId"]),
+
+  /**
+   * Webhook Endpoints - Per-campus subscriptions that receive queue events,
+   * signed Svix-style like the Clerk webhooks we receive
+   */
+  webhookEndpoints: defineTable({
+    campusId: v.id("campusSettings"),
+    url: v.string(),
+    description: v.optional(v.string()), // "PA system"
+    events: v.array(
+      v.union(
+        v.literal("car.added"),
+        v.literal("car.moved"),
+        v.literal("car.dismissed"),
+        v.literal("queue.cleared"),
+        v.literal("queue.reset"),
+        v.literal("webhook.test"),
+      ),
+    ),
+    secret: v.string(), // "whsec_<base64>", kept in plain text because deliveries are signed with it
+    isActive: v.boolean(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_campus", ["campusId"]),
+
+  /**
+   * Webhook Deliveries - One row per event sent to an endpoint, with the
+   * outcome of its latest attempt. Replays add a new row with the same message id
+   */
+  webhookDeliveries: defineTable({
+    endpointId: v.id("webhookEndpoints"),
+    campusId: v.id("campusSettings"),
+    event: v.union(
+      v.literal("car.added"),
+      v.literal("car.moved"),
+      v.literal("car.dismissed"),
+      v.literal("queue.cleared"),
+      v.literal("queue.reset"),
+      v.literal("webhook.test"),
+    ),
+    messageId: v.string(), // Sent as svix-id so receivers can deduplicate
+    payload: v.string(), // JSON body, signed as-is
+    status: v.union(
+      v.literal("pending"), // Waiting for its first attempt or a retry
+      v.literal("succeeded"),
+      v.literal("failed"), // Out of retries or endpoint removed
+    ),
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    lastAttemptAt: v.optional(v.number()),
+    responseStatus: v.optional(v.number()),
+    responseBody: v.optional(v.string()), // Truncated
+    error: v.optional(v.string()),
+    replayOf: v.optional(v.id("webhookDeliveries")),
+    createdAt: v.number(),
+  }).index("by_endpoint", ["endpointId", "createdAt"]),
+
+  /**
+   * Guardians - Family contacts who can be notified about their car
+   */
+  guardians: defineTable({
+    campusId: v.id("campusSettings"), // Campus the guardian was added from
+    familyId: v.id("families"), // Family whose cars they are notified about
+    name: v.string(),
+    email: v.optional(v.string()),
+    phone: v.optional(v.string()), // E.164, e.g. +15551234567
+    locale: v.union(v.literal("en"), v.literal("es")), // Language of their messages
+    // Events each contact receives, empty = never contacted on that channel
+    preferences: v.object({
+      email: v.array(
+        v.union(
+          v.literal("car_queued"),
+          v.literal("car_dismissed"),
+          v.literal("long_wait"),
+        ),
+      ),
+      sms: v.array(
+        v.union(
+          v.literal("car_queued"),
+          v.literal("car_dismissed"),
+          v.literal("long_wait"),
+        ),
+      ),
+    }),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_family", ["familyId"])
+    .index("by_campus", ["campusId"]),
+
+  /**
+   * Notification Logs - Every message sent (or attempted) to a guardian
+   */
+  notificationLogs: defineTable({
+    campusId: v.id("campusSettings"),
+    guardianId: v.id("guardians"),
+    event: v.union(
+      v.literal("car_queued"),
+      v.literal("car_dismissed"),
+      v.literal("long_wait"),
+    ),
+    channel: v.union(v.literal("email"), v.literal("sms")),
+    to: v.string(),
+    provider: v.string(), // "console", "http"
+    status: v.union(v.literal("sent"), v.literal("failed")),
+    error: v.optional(v.string()),
+    queueId: v.optional(v.id("dismissalQueue")),
+    createdAt: v.number(),
+  }).index("by_campus_time", ["campusId", "createdAt"]),
+
+  /**
+   * Student Exclusions - Per-day statuses that keep a student out of the
+   * dismissal queue (absent, picked up early, staying for an after-school program)
+   */
+  studentExclusions: defineTable({
+    studentId: v.id("students"),
+    campusLocation: v.string(),
+    date: v.string(), // Campus-local YYYY-MM-DD
+    reason: v.union(
+      v.literal("absent"),
+      v.literal("early_pickup"),
+      v.literal("after_school"),
+    ),
+    note: v.optional(v.string()),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_student_date", ["studentId", "date"])
+    .index("by_campus_date", ["campusLocation", "date"]),
+
   /**
    * Audit Log - Track critical actions
    */
   auditLogs: defineTable({
-    // Who
-    userId: v.id("users"),
-    username: v.string(), // Denormalized
+    // Who (no userId for system changes: crons, Clerk webhooks)
+    userId: v.optional(v.id("users")),
+    username: v.string(), // Denormalized, "system" for system changes
     userRole: v.string(), // Denormalized
 
     // What
@@ -330,16 +707,77 @@ export default defineSchema({
       v.literal("car_added_to_queue"),
       v.literal("car_removed_from_queue"),
       v.literal("car_moved_lane"),
+      v.literal("car_dismissal_undone"),
+      v.literal("car_marked_no_show"),
+      v.literal("student_exclusion_set"),
+      v.literal("student_exclusion_cleared"),
+      v.literal("dismissal_window_overridden"),
+      v.literal("car_reordered"),
+      v.literal("car_stage_updated"),
+      v.literal("student_released"),
+      v.literal("queue_cleared"),
+      v.literal("queue_auto_reset"),
+      v.literal("student_avatar_updated"),
+      v.literal("student_avatar_removed"),
+      v.literal("student_avatar_upload_discarded"),
+      v.literal("campus_created"),
+      v.literal("campus_updated"),
+      v.literal("campus_deleted"),
+      v.literal("campus_logo_updated"),
+      v.literal("campus_logo_removed"),
+      v.literal("user_created"),
+      v.literal("user_updated"),
+      v.literal("user_deleted"),
+      v.literal("user_avatar_updated"),
+      v.literal("user_avatar_removed"),
+      v.literal("user_avatar_upload_discarded"),
+      v.literal("user_profile_image_synced"),
+      v.literal("user_synced"),
+      v.literal("user_sync_deleted"),
       v.literal("user_campus_updated"),
       v.literal("user_permissions_updated"),
       v.literal("user_status_updated"),
+      v.literal("display_token_created"),
+      v.literal("display_token_revoked"),
+      v.literal("car_checked_in"),
+      v.literal("arrival_tag_created"),
+      v.literal("arrival_tag_updated"),
+      v.literal("arrival_tag_deleted"),
+      v.literal("api_key_created"),
+      v.literal("api_key_rotated"),
+      v.literal("api_key_revoked"),
+      v.literal("webhook_created"),
+      v.literal("webhook_updated"),
+      v.literal("webhook_deleted"),
+      v.literal("webhook_secret_rotated"),
+      v.literal("webhook_delivery_replayed"),
+      v.literal("guardian_created"),
+      v.literal("guardian_updated"),
+      v.literal("guardian_deleted"),
+      v.literal("family_created"),
+      v.literal("family_updated"),
+      v.literal("family_deleted"),
+      v.literal("family_vehicle_created"),
+      v.literal("family_vehicle_updated"),
+      v.literal("family_vehicle_deleted"),
       v.literal("login"),
       v.literal("logout"),
     ),
 
     // Target
     targetType: v.optional(
-      v.union(v.literal("student"), v.literal("queue"), v.literal("user")),
+      v.union(
+        v.literal("student"),
+        v.literal("queue"),
+        v.literal("user"),
+        v.literal("campus"),
+        v.literal("display_token"),
+        v.literal("arrival_tag"),
+        v.literal("api_key"),
+        v.literal("webhook"),
+        v.literal("guardian"),
+        v.literal("family"),
+      ),
     ),
     targetId: v.optional(v.string()),
 
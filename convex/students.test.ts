@@ -0,0 +1,169 @@
+// convex/students.test.ts
+
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import {
+    getLatestAuditLog,
+    seedCampus,
+    seedFamily,
+    seedStorageFile,
+    seedStudent,
+    seedUser,
+    setupConvex,
+} from "./test.setup";
+
+async function seedStudentOffice() {
+    const t = setupConvex();
+    const campusId = await seedCampus(t, "North");
+    const principal = await seedUser(t, "principal", [campusId]);
+    const studentId = await seedStudent(t, campusId, 12, "Ava");
+    return { t, campusId, principal, studentId };
+}
+
+describe("student mutations write an audit entry", () => {
+    test("create", async () => {
+        const { t, campusId, principal } = await seedStudentOffice();
+
+        const studentId = await principal.as.mutation(api.students.create, {
+            firstName: "Liam",
+            lastName: "Stone",
+            birthday: "May 02",
+            grade: "2nd",
+            campuses: [campusId]
+        });
+
+        expect(await getLatestAuditLog(t, "student_created")).toMatchObject({
+            userId: principal.userId,
+            targetType: "student",
+            targetId: studentId,
+            campusLocation: "North",
+            details: { after: { fullName: "Liam Stone", grade: "2nd", carNumber: 0 } }
+        });
+    });
+
+    test("update", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+
+        await principal.as.mutation(api.students.update, { studentId, grade: "4th" });
+
+        expect(await getLatestAuditLog(t, "student_updated")).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            campusLocation: "North",
+            details: { before: { grade: "3rd" }, after: { grade: "4th" } }
+        });
+    });
+
+    test("deleteStudent", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+
+        await principal.as.mutation(api.students.deleteStudent, { studentId });
+
+        expect(await getLatestAuditLog(t, "student_deleted")).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            details: { before: { fullName: "Ava Test" }, metadata: { carRemovedFromQueue: false } }
+        });
+    });
+
+    test("deleteMultipleStudents", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+
+        await principal.as.mutation(api.students.deleteMultipleStudents, { studentIds: [studentId] });
+
+        expect(await getLatestAuditLog(t, "student_deleted")).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            details: { before: { fullName: "Ava Test" }, metadata: { bulk: true } }
+        });
+    });
+
+    test("assignCarNumber", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+
+        await principal.as.mutation(api.students.assignCarNumber, { studentId, carNumber: 40 });
+
+        expect(await getLatestAuditLog(t, "car_assigned")).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            details: { before: { carNumber: 12 }, after: { carNumber: 40 } }
+        });
+    });
+
+    test("removeCarNumber", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+
+        await principal.as.mutation(api.students.removeCarNumber, { studentId });
+
+        expect(await getLatestAuditLog(t, "car_removed")).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            details: { before: { carNumber: 12 }, after: { carNumber: 0 } }
+        });
+    });
+
+    test("saveAvatarStorageId", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+        const storageId = await seedStorageFile(t);
+
+        await principal.as.mutation(api.students.saveAvatarStorageId, { studentId, storageId });
+
+        const log = await getLatestAuditLog(t, "student_avatar_updated");
+        expect(log).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            details: { after: { avatarStorageId: storageId } }
+        });
+        expect(log?.details.before).toEqual({ avatarStorageId: undefined });
+    });
+
+    test("deleteAvatar", async () => {
+        const { t, principal, studentId } = await seedStudentOffice();
+        const storageId = await seedStorageFile(t);
+        await t.run(async (ctx) => ctx.db.patch(studentId, { avatarStorageId: storageId }));
+
+        await principal.as.mutation(api.students.deleteAvatar, { studentId });
+
+        expect(await getLatestAuditLog(t, "student_avatar_removed")).toMatchObject({
+            targetType: "student",
+            targetId: studentId,
+            details: { before: { avatarStorageId: storageId } }
+        });
+    });
+
+    test("deleteAvatarStorage", async () => {
+        const { t, principal } = await seedStudentOffice();
+        const storageId = await seedStorageFile(t);
+
+        await principal.as.mutation(api.students.deleteAvatarStorage, { storageId });
+
+        expect(await getLatestAuditLog(t, "student_avatar_upload_discarded")).toMatchObject({
+            userId: principal.userId,
+            targetType: "student",
+            targetId: storageId,
+            details: { before: { avatarStorageId: storageId }, after: { avatarStorageId: null }, metadata: { deleted: true } }
+        });
+        expect(await t.run(async (ctx) => ctx.storage.getUrl(storageId))).toBeNull();
+    });
+});
+
+describe("assignCarNumber", () => {
+    test("joins the family owning the number", async () => {
+        const { t, campusId, principal, studentId } = await seedStudentOffice();
+        const familyId = await seedFamily(t, campusId, 40, "Garcia", [41]);
+
+        await principal.as.mutation(api.students.assignCarNumber, { studentId, carNumber: 40 });
+
+        expect(await t.run(async (ctx) => ctx.db.get(studentId))).toMatchObject({ carNumber: 40, familyId });
+    });
+
+    test("rejects another family's vehicle tag", async () => {
+        const { t, campusId, principal, studentId } = await seedStudentOffice();
+        await seedFamily(t, campusId, 40, "Garcia", [41]);
+
+        await expect(
+            principal.as.mutation(api.students.assignCarNumber, { studentId, carNumber: 41 })
+        ).rejects.toThrow("Car 41 is a vehicle tag of the Garcia family");
+        expect(await t.run(async (ctx) => ctx.db.get(studentId))).toMatchObject({ carNumber: 12 });
+    });
+});
@@ -1,10 +1,19 @@
 // convex/students.ts
 
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
 import { gradeValidator } from "./types";
 import { Id } from "./_generated/dataModel";
-import { userHasAccessToCampusById, validateUserAccess } from "./helpers";
+import {
+    addFamilyCampuses,
+    createAuditLog,
+    createAuditLogFromContext,
+    findOrCreateFamilyForCar,
+    getCampusLocalDate,
+    repositionLaneCars,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
 
 // ============================================================================
 // AVATAR STORAGE FUNCTIONS (Following official Convex pattern)
@@ -50,6 +59,15 @@ export const saveAvatarStorageId = mutation({
             updatedAt: Date.now(),
         });
 
+        await createAuditLogFromContext(ctx, "student_avatar_updated", {
+            targetType: "student",
+            targetId: args.studentId,
+            campus: await getPrimaryCampusName(ctx.db, student.campuses),
+            before: { avatarStorageId: student.avatarStorageId },
+            after: { avatarStorageId: args.storageId },
+            metadata: { studentName: student.fullName }
+        });
+
         return args.studentId;
     },
 });
@@ -63,11 +81,21 @@ export const deleteAvatarStorage = mutation({
         const identity = await ctx.auth.getUserIdentity();
         if (!identity) throw new Error("Not authenticated");
 
+        let deleted = true;
         try {
             await ctx.storage.delete(args.storageId);
         } catch {
             // Don't throw - storage might already be deleted
+            deleted = false;
         }
+
+        await createAuditLogFromContext(ctx, "student_avatar_upload_discarded", {
+            targetType: "student",
+            targetId: args.storageId,
+            before: { avatarStorageId: args.storageId },
+            after: { avatarStorageId: null },
+            metadata: { deleted }
+        });
     },
 });
 
@@ -96,6 +124,14 @@ export const deleteAvatar = mutation({
             updatedAt: Date.now(),
         });
 
+        await createAuditLogFromContext(ctx, "student_avatar_removed", {
+            targetType: "student",
+            targetId: args.studentId,
+            campus: await getPrimaryCampusName(ctx.db, student.campuses),
+            before: { avatarStorageId: student.avatarStorageId },
+            metadata: { studentName: student.fullName }
+        });
+
         return args.studentId;
     },
 });
@@ -180,6 +216,32 @@ async function getStudentsByCarNumber(db: any, carNumber: number, campusId?: Id<
     return allStudents;
 }
 
+/**
+ * Helper function to get a student's primary campus name (audit logs reference campuses by name)
+ */
+async function getPrimaryCampusName(db: QueryCtx["db"], campuses: Id<"campusSettings">[]): Promise<string | undefined> {
+    const campus = campuses[0] ? await db.get(campuses[0]) : null;
+    return campus?.campusName;
+}
+
+/**
+ * Helper function to link a student to a family, the student takes the family's car number
+ * and the family is listed at the student's campuses
+ */
+async function resolveStudentFamily(
+    db: MutationCtx["db"],
+    familyId: Id<"families"> | null,
+    campuses: Id<"campusSettings">[]
+): Promise<{ familyId: Id<"families"> | undefined; carNumber: number }> {
+    if (!familyId) return { familyId: undefined, carNumber: 0 };
+
+    const family = await db.get(familyId);
+    if (!family) throw new Error("Family not found");
+    await addFamilyCampuses(db, family, campuses);
+
+    return { familyId: family._id, carNumber: family.carNumber };
+}
+
 /**
  * List students with filtering options
  */
@@ -313,14 +375,23 @@ export const get = query({
             throw new Error("No access to this student");
         }
 
-        // Get siblings (other students with same car number)
-        const siblings = student.carNumber > 0 ?
-            await getStudentsByCarNumber(ctx.db, student.carNumber, student.campuses?.[0])
-                .then((students: any[]) => students.filter((s: any) => s._id !== student._id)) :
-            [];
+        // Get siblings (other students of the family, or with the same car number before migration)
+        const familyId = student.familyId;
+        const family = familyId ? await ctx.db.get(familyId) : null;
+        const siblings = familyId ?
+            await ctx.db
+                .query("students")
+                .withIndex("by_family", (q) => q.eq("familyId", familyId))
+                .collect()
+                .then((students) => students.filter((s) => s._id !== student._id)) :
+            student.carNumber > 0 ?
+                await getStudentsByCarNumber(ctx.db, student.carNumber, student.campuses?.[0])
+                    .then((students: any[]) => students.filter((s: any) => s._id !== student._id)) :
+                [];
 
         return {
             student,
+            family,
             siblings
         };
     }
@@ -336,12 +407,12 @@ export const create = mutation({
         birthday: v.string(),
         grade: gradeValidator,
         campuses: v.array(v.id("campusSettings")),
-        carNumber: v.optional(v.number()),
+        familyId: v.optional(v.id("families")), // Car number comes from the family
         avatarUrl: v.optional(v.string()),
         avatarStorageId: v.optional(v.id("_storage")), // For new Convex storage
     },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
 
         // Validate required fields are not empty
         if (!args.firstName.trim()) {
@@ -363,17 +434,13 @@ export const create = mutation({
             }
         }
 
-        // Validate car number
-        const carNumber = args.carNumber || 0;
-        if (carNumber < 0) {
-            throw new Error("Car number cannot be negative");
-        }
+        const { familyId, carNumber } = await resolveStudentFamily(ctx.db, args.familyId ?? null, args.campuses);
 
         // Create full name
         const fullName = `${args.firstName.trim()} ${args.lastName.trim()}`;
 
         // Insert student
-        const studentId = await ctx.db.insert("students", {
+        const newStudent = {
             firstName: args.firstName.trim(),
             lastName: args.lastName.trim(),
             fullName,
@@ -381,11 +448,27 @@ export const create = mutation({
             grade: args.grade,
             campuses: args.campuses,
             carNumber,
+            familyId,
             avatarUrl: args.avatarUrl,
             avatarStorageId: args.avatarStorageId,
             isActive: true,
             createdAt: Date.now()
-        });
+        };
+        const studentId = await ctx.db.insert("students", newStudent);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "student_created",
+            {
+                targetType: "student",
+                targetId: studentId,
+                campus: await getPrimaryCampusName(ctx.db, args.campuses),
+                after: newStudent
+            }
+        );
 
         return studentId;
     }
@@ -402,12 +485,12 @@ export const update = mutation({
         birthday: v.optional(v.string()),
         grade: v.optional(gradeValidator),
         campuses: v.optional(v.array(v.id("campusSettings"))),
-        carNumber: v.optional(v.number()),
+        familyId: v.optional(v.union(v.id("families"), v.null())), // null = no family (no car)
         avatarUrl: v.optional(v.string()),
         avatarStorageId: v.optional(v.id("_storage")) // For new Convex storage
     },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
 
         const student = await ctx.db.get(args.studentId);
         if (!student) {
@@ -449,9 +532,14 @@ export const update = mutation({
         if (args.birthday !== undefined) updates.birthday = args.birthday;
         if (args.grade !== undefined) updates.grade = args.grade;
         if (args.campuses !== undefined) updates.campuses = args.campuses;
-        if (args.carNumber !== undefined) {
-            if (args.carNumber < 0) throw new Error("Car number cannot be negative");
-            updates.carNumber = args.carNumber;
+        if (args.familyId !== undefined || (args.campuses !== undefined && student.familyId)) {
+            const family = await resolveStudentFamily(
+                ctx.db,
+                args.familyId !== undefined ? args.familyId : student.familyId ?? null,
+                args.campuses ?? student.campuses
+            );
+            updates.familyId = family.familyId;
+            updates.carNumber = family.carNumber;
         }
         if (args.avatarUrl !== undefined) updates.avatarUrl = args.avatarUrl;
         if (args.avatarStorageId !== undefined) updates.avatarStorageId = args.avatarStorageId;
@@ -466,6 +554,21 @@ export const update = mutation({
         // Apply updates
         await ctx.db.patch(args.studentId, updates);
 
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "student_updated",
+            {
+                targetType: "student",
+                targetId: args.studentId,
+                campus: await getPrimaryCampusName(ctx.db, updates.campuses ?? student.campuses),
+                before: student,
+                after: { ...student, ...updates }
+            }
+        );
+
         return args.studentId;
     }
 });
@@ -476,7 +579,7 @@ export const update = mutation({
 export const deleteStudent = mutation({
     args: { studentId: v.id("students") },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
 
         const student = await ctx.db.get(args.studentId);
         if (!student) {
@@ -546,28 +649,19 @@ export const deleteStudent = mutation({
                         queuedAt: queueEntry.assignedTime,
                         completedAt: Date.now(),
                         waitTimeSeconds,
+                        vehicle: queueEntry.vehicle,
                         addedBy: queueEntry.addedBy,
                         removedBy: removedByUser,
-                        date: new Date().toISOString().split('T')[0]
+                        date: await getCampusLocalDate(ctx.db, queueEntry.campusLocation)
                     });
 
                     // Reposition remaining cars in lane
-                    const entriesToReposition = await ctx.db
-                        .query("dismissalQueue")
-                        .withIndex("by_campus_lane_position", (q: any) =>
-                            q.eq("campusLocation", queueEntry.campusLocation)
-                                .eq("lane", queueEntry.lane)
-                        )
-                        .filter((q: any) => q.gt(q.field("position"), queueEntry.position))
-                        .collect();
-
-                    // Reposition cars
-                    for (const entry of entriesToReposition) {
-                        const { _id, _creationTime, ...entryData } = entry;
-                        const newEntry = { ...entryData, position: entry.position - 1 };
-                        await ctx.db.delete(entry._id);
-                        await ctx.db.insert("dismissalQueue", newEntry);
-                    }
+                    await repositionLaneCars(
+                        ctx.db,
+                        queueEntry.campusLocation,
+                        queueEntry.lane,
+                        queueEntry.position
+                    );
 
                     // Remove the queue entry
                     await ctx.db.delete(queueEntry._id);
@@ -589,6 +683,21 @@ export const deleteStudent = mutation({
         // Hard delete the student from database
         await ctx.db.delete(args.studentId);
 
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "student_deleted",
+            {
+                targetType: "student",
+                targetId: args.studentId,
+                campus: await getPrimaryCampusName(ctx.db, student.campuses),
+                before: student,
+                metadata: { carRemovedFromQueue }
+            }
+        );
+
         return {
             studentId: args.studentId,
             carRemoved: carRemovedFromQueue
@@ -602,7 +711,7 @@ export const deleteStudent = mutation({
 export const deleteMultipleStudents = mutation({
     args: { studentIds: v.array(v.id("students")) },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
 
         const results = [];
         const processedCars = new Set<string>(); // To avoid processing the same car multiple times
@@ -680,28 +789,19 @@ export const deleteMultipleStudents = mutation({
                             queuedAt: queueEntry.assignedTime,
                             completedAt: Date.now(),
                             waitTimeSeconds,
+                            vehicle: queueEntry.vehicle,
                             addedBy: queueEntry.addedBy,
                             removedBy: queueEntry.addedBy,
-                            date: new Date().toISOString().split('T')[0]
+                            date: await getCampusLocalDate(ctx.db, queueEntry.campusLocation)
                         });
 
                         // Reposition remaining cars in lane
-                        const entriesToReposition = await ctx.db
-                            .query("dismissalQueue")
-                            .withIndex("by_campus_lane_position", (q: any) =>
-                                q.eq("campusLocation", queueEntry.campusLocation)
-                                    .eq("lane", queueEntry.lane)
-                            )
-                            .filter((q: any) => q.gt(q.field("position"), queueEntry.position))
-                            .collect();
-
-                        // Reposition cars
-                        for (const entry of entriesToReposition) {
-                            const { _id, _creationTime, ...entryData } = entry;
-                            const newEntry = { ...entryData, position: entry.position - 1 };
-                            await ctx.db.delete(entry._id);
-                            await ctx.db.insert("dismissalQueue", newEntry);
-                        }
+                        await repositionLaneCars(
+                            ctx.db,
+                            queueEntry.campusLocation,
+                            queueEntry.lane,
+                            queueEntry.position
+                        );
 
                         // Remove the queue entry
                         await ctx.db.delete(queueEntry._id);
@@ -723,6 +823,21 @@ export const deleteMultipleStudents = mutation({
             // Hard delete the student from database
             await ctx.db.delete(studentId);
 
+            await createAuditLog(
+                ctx.db,
+                user._id,
+                identity.email || user.email,
+                role,
+                "student_deleted",
+                {
+                    targetType: "student",
+                    targetId: studentId,
+                    campus: await getPrimaryCampusName(ctx.db, student.campuses),
+                    before: student,
+                    metadata: { carRemovedFromQueue, bulk: true }
+                }
+            );
+
             results.push({
                 studentId,
                 success: true,
@@ -747,7 +862,7 @@ export const assignCarNumber = mutation({
         carNumber: v.number()
     },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
 
         const student = await ctx.db.get(args.studentId);
         if (!student) {
@@ -765,11 +880,37 @@ export const assignCarNumber = mutation({
             throw new Error("Car number cannot be negative");
         }
 
+        // The car number belongs to a family, created on first assignment
+        const family = args.carNumber > 0
+            ? await findOrCreateFamilyForCar(ctx.db, args.carNumber, {
+                name: student.lastName,
+                campuses: student.campuses,
+                createdBy: user._id
+            })
+            : null;
+
         // Update car number
         await ctx.db.patch(args.studentId, {
-            carNumber: args.carNumber
+            carNumber: args.carNumber,
+            familyId: family?._id
         });
 
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_assigned",
+            {
+                targetType: "student",
+                targetId: args.studentId,
+                campus: await getPrimaryCampusName(ctx.db, student.campuses),
+                before: { carNumber: student.carNumber },
+                after: { carNumber: args.carNumber },
+                metadata: { studentName: student.fullName }
+            }
+        );
+
         return args.studentId;
     }
 });
@@ -780,7 +921,7 @@ export const assignCarNumber = mutation({
 export const removeCarNumber = mutation({
     args: { studentId: v.id("students") },
     handler: async (ctx, args) => {
-        const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
 
         const student = await ctx.db.get(args.studentId);
         if (!student) {
@@ -796,9 +937,26 @@ export const removeCarNumber = mutation({
 
         // Remove car assignment
         await ctx.db.patch(args.studentId, {
-            carNumber: 0
+            carNumber: 0,
+            familyId: undefined
         });
 
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "car_removed",
+            {
+                targetType: "student",
+                targetId: args.studentId,
+                campus: await getPrimaryCampusName(ctx.db, student.campuses),
+                before: { carNumber: student.carNumber },
+                after: { carNumber: 0 },
+                metadata: { studentName: student.fullName }
+            }
+        );
+
         return args.studentId;
     }
 });
@@ -821,3 +979,31 @@ export const getByCarNumber = query({
         return await getStudentsByCarNumber(ctx.db, args.carNumber, args.campusId);
     }
 });
+
+/**
+ * Active students of a campus for an API key with the students:read scope
+ * (SIS sync), called by the HTTP route after validateApiKeyAccess
+ */
+export const listForCampusInternal = internalQuery({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        const students = await ctx.db
+            .query("students")
+            .withIndex("by_active", (q) => q.eq("isActive", true))
+            .collect();
+
+        return students
+            .filter((student) => student.campuses.includes(args.campusId))
+            .map((student) => ({
+                _id: student._id,
+                firstName: student.firstName,
+                lastName: student.lastName,
+                fullName: student.fullName,
+                grade: student.grade,
+                carNumber: student.carNumber
+            }))
+            .sort((a, b) => a.fullName.localeCompare(b.fullName));
+    }
+});
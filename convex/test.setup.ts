@@ -0,0 +1,248 @@
+// convex/test.setup.ts
+/// <reference types="vite/client" />
+
+import { convexTest } from "convex-test";
+import schema from "./schema";
+import type { DatabaseReader } from "./_generated/server";
+import type { Id, TableNames } from "./_generated/dataModel";
+import type { AuditAction } from "./types";
+import type { DismissalRole } from "../lib/role-utils";
+
+// Every Convex module except tests and this setup file (they have several dots)
+export const modules = import.meta.glob(["./**/*.*s", "!./**/*.*.*s"]);
+
+export function setupConvex() {
+    return convexTest(schema, modules);
+}
+
+export type TestConvex = ReturnType<typeof setupConvex>;
+
+/**
+ * Insert an active campus with the default lanes
+ */
+export async function seedCampus(t: TestConvex, campusName: string, timezone = "America/New_York") {
+    return await t.run(async (ctx) =>
+        ctx.db.insert("campusSettings", {
+            campusName,
+            timezone,
+            allowMultipleStudentsPerCar: true,
+            requireCarNumber: true,
+            isActive: true,
+            status: "active",
+            createdAt: Date.now()
+        })
+    );
+}
+
+/**
+ * Insert an active staff user and return a client authenticated as them
+ */
+export async function seedUser(
+    t: TestConvex,
+    role: DismissalRole,
+    assignedCampuses: Id<"campusSettings">[] = []
+) {
+    const clerkId = `user_${role}_${Math.random().toString(36).slice(2)}`;
+    const email = `${clerkId}@school.test`;
+    const userId = await t.run(async (ctx) =>
+        ctx.db.insert("users", {
+            clerkId,
+            email,
+            fullName: `Test ${role}`,
+            role,
+            assignedCampuses,
+            isActive: true,
+            createdAt: Date.now()
+        })
+    );
+
+    return { userId, email, as: t.withIdentity({ subject: clerkId, email }) };
+}
+
+/**
+ * Insert an active student with a car number
+ */
+export async function seedStudent(
+    t: TestConvex,
+    campusId: Id<"campusSettings">,
+    carNumber: number,
+    firstName = `Student${carNumber}`
+) {
+    return await t.run(async (ctx) =>
+        ctx.db.insert("students", {
+            firstName,
+            lastName: "Test",
+            fullName: `${firstName} Test`,
+            grade: "3rd",
+            campuses: [campusId],
+            birthday: "July 09",
+            carNumber,
+            isActive: true,
+            createdAt: Date.now()
+        })
+    );
+}
+
+/**
+ * Insert a family owning a car number, with extra vehicle tags
+ */
+export async function seedFamily(
+    t: TestConvex,
+    campusId: Id<"campusSettings">,
+    carNumber: number,
+    name = "Garcia",
+    vehicleCarNumbers: number[] = []
+) {
+    return await t.run(async (ctx) => {
+        const now = Date.now();
+        const familyId = await ctx.db.insert("families", {
+            name,
+            carNumber,
+            campuses: [campusId],
+            createdAt: now,
+            updatedAt: now
+        });
+        for (const vehicleCarNumber of vehicleCarNumbers) {
+            await ctx.db.insert("familyVehicles", {
+                familyId,
+                carNumber: vehicleCarNumber,
+                label: `Car ${vehicleCarNumber}`,
+                createdAt: now,
+                updatedAt: now
+            });
+        }
+        return familyId;
+    });
+}
+
+interface ScannedDoc {
+    _id: string;
+    [field: string]: unknown;
+}
+
+// Just the query builder surface the counter needs, whatever the table
+interface LooseQuery extends AsyncIterable<ScannedDoc> {
+    withIndex(index: string, range?: unknown): LooseQuery;
+    order(order: "asc" | "desc"): LooseQuery;
+}
+
+interface QueryPlan {
+    table: TableNames;
+    index?: { name: string; range?: unknown };
+    order?: "asc" | "desc";
+    filters: unknown[];
+}
+
+// A `.filter()` expression evaluated against one document
+class FilterExpression {
+    constructor(readonly evaluate: (doc: ScannedDoc) => unknown) {}
+}
+
+const operand = (value: unknown) =>
+    value instanceof FilterExpression ? value.evaluate : () => value;
+
+const compare = (test: (left: unknown, right: unknown) => boolean) =>
+    (left: unknown, right: unknown) =>
+        new FilterExpression((doc) => test(operand(left)(doc), operand(right)(doc)));
+
+// The filter builder operators the queries use, scalar values only
+const filterBuilder = {
+    field: (path: string) =>
+        new FilterExpression((doc) =>
+            path.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], doc)
+        ),
+    eq: compare((left, right) => left === right),
+    neq: compare((left, right) => left !== right),
+    lt: compare((left, right) => (left as number) < (right as number)),
+    lte: compare((left, right) => (left as number) <= (right as number)),
+    gt: compare((left, right) => (left as number) > (right as number)),
+    gte: compare((left, right) => (left as number) >= (right as number)),
+    and: (...conditions: unknown[]) =>
+        new FilterExpression((doc) => conditions.every((condition) => operand(condition)(doc) === true)),
+    or: (...conditions: unknown[]) =>
+        new FilterExpression((doc) => conditions.some((condition) => operand(condition)(doc) === true)),
+    not: (condition: unknown) => new FilterExpression((doc) => operand(condition)(doc) !== true)
+};
+
+/**
+ * Wrap a database reader to count the documents its queries scan, the way Convex bills reads:
+ * an index range costs the documents read from the range, a query without an index reads the
+ * whole table, and `.filter()` drops documents after they were read. Each query streams its
+ * range once, filters are evaluated here as the documents go by
+ */
+export function countDocumentReads<DB extends DatabaseReader>(db: DB): { db: DB; reads: () => number } {
+    let scanned = 0;
+
+    // Read the range until `limit` documents passed the filters, or the range ran out
+    const scan = async (plan: QueryPlan, limit: number) => {
+        let range = db.query(plan.table) as unknown as LooseQuery;
+        if (plan.index) range = range.withIndex(plan.index.name, plan.index.range);
+        if (plan.order) range = range.order(plan.order);
+        const conditions = plan.filters.map((predicate) =>
+            operand((predicate as (q: typeof filterBuilder) => unknown)(filterBuilder))
+        );
+
+        const matches: ScannedDoc[] = [];
+        if (limit === 0) return matches;
+        for await (const doc of range) {
+            scanned += 1;
+            if (conditions.every((condition) => condition(doc) === true)) {
+                matches.push(doc);
+                if (matches.length === limit) break;
+            }
+        }
+        return matches;
+    };
+
+    const wrap = (plan: QueryPlan) => ({
+        withIndex: (name: string, range?: unknown) => wrap({ ...plan, index: { name, range } }),
+        order: (order: "asc" | "desc") => wrap({ ...plan, order }),
+        filter: (predicate: unknown) => wrap({ ...plan, filters: [...plan.filters, predicate] }),
+        first: async () => (await scan(plan, 1))[0] ?? null,
+        unique: async () => {
+            const matches = await scan(plan, 2);
+            if (matches.length > 1) throw new Error(`unique() found more than one ${plan.table} document`);
+            return matches[0] ?? null;
+        },
+        take: async (count: number) => await scan(plan, count),
+        collect: async () => await scan(plan, Infinity)
+    });
+
+    const counted = new Proxy(db, {
+        get(target, property, receiver) {
+            if (property === "query") {
+                return (table: TableNames) => wrap({ table, filters: [] });
+            }
+            if (property === "get") {
+                return async (id: Id<TableNames>) => {
+                    const doc = await target.get(id);
+                    if (doc) scanned += 1;
+                    return doc;
+                };
+            }
+            return Reflect.get(target, property, receiver);
+        }
+    });
+
+    return { db: counted, reads: () => scanned };
+}
+
+/**
+ * Store a small image, the way an uploaded avatar or logo lands in storage
+ */
+export async function seedStorageFile(t: TestConvex) {
+    return await t.run(async (ctx) => ctx.storage.store(new Blob(["image"], { type: "image/png" })));
+}
+
+/**
+ * Newest audit row written for an action (null when there is none)
+ */
+export async function getLatestAuditLog(t: TestConvex, action: AuditAction) {
+    return await t.run(async (ctx) =>
+        ctx.db
+            .query("auditLogs")
+            .withIndex("by_action_time", (q) => q.eq("action", action))
+            .order("desc")
+            .first()
+    );
+}
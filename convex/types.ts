@@ -26,13 +26,22 @@ export type UserRole = DismissalRole; // Keep UserRole as alias for backward com
 
 /**
  * Lane validator
+ * Lanes are configured per campus (campusSettings.lanes), so a lane is stored
+ * as the lane definition's id and validated against the campus at runtime.
  */
-export const laneValidator = v.union(
-    v.literal("left"),
-    v.literal("right")
-);
+export const laneValidator = v.string();
 export type Lane = Infer<typeof laneValidator>;
 
+/**
+ * Lane definition validator (one entry per pickup lane of a campus)
+ */
+export const laneDefinitionValidator = v.object({
+    id: v.string(), // Stable identifier stored on queue/history rows
+    name: v.string(), // Display name, e.g. "North Gate"
+    color: v.string(), // Hex color
+});
+export type LaneDefinition = Infer<typeof laneDefinitionValidator>;
+
 /**
  * Queue status validator
  */
@@ -42,6 +51,106 @@ export const queueStatusValidator = v.union(
 );
 export type QueueStatus = Infer<typeof queueStatusValidator>;
 
+/**
+ * Pickup stage validator - curb lifecycle of a car that is still in the queue
+ * ("waiting" in line, "called" to the loading zone, students "loading")
+ */
+export const pickupStageValidator = v.union(
+    v.literal("waiting"),
+    v.literal("called"),
+    v.literal("loading")
+);
+export type PickupStage = Infer<typeof pickupStageValidator>;
+
+/**
+ * Pickup outcome validator - how a car left the queue
+ */
+export const pickupOutcomeValidator = v.union(
+    v.literal("picked_up"),
+    v.literal("no_show")
+);
+export type PickupOutcome = Infer<typeof pickupOutcomeValidator>;
+
+/**
+ * Student exclusion reason validator - why a student skips today's dismissal
+ */
+export const studentExclusionReasonValidator = v.union(
+    v.literal("absent"),
+    v.literal("early_pickup"),
+    v.literal("after_school")
+);
+export type StudentExclusionReason = Infer<typeof studentExclusionReasonValidator>;
+
+/**
+ * Kiosk privacy validator - what public displays may show about students
+ */
+export const kioskPrivacyValidator = v.object({
+    hideLastNames: v.boolean(),
+    hideAvatars: v.boolean(),
+});
+export type KioskPrivacy = Infer<typeof kioskPrivacyValidator>;
+
+/**
+ * Parent notification event validator - what families can be told about their car
+ */
+export const parentNotificationEventValidator = v.union(
+    v.literal("car_queued"),
+    v.literal("car_dismissed"),
+    v.literal("long_wait")
+);
+export type ParentNotificationEvent = Infer<typeof parentNotificationEventValidator>;
+
+/**
+ * Parent notifications campus setting - opt-in, and when a wait counts as long
+ */
+export const parentNotificationsValidator = v.object({
+    enabled: v.boolean(),
+    longWaitMinutes: v.optional(v.number()), // No long-wait messages when unset
+});
+export type ParentNotificationsSettings = Infer<typeof parentNotificationsValidator>;
+
+/**
+ * Guardian contact preferences - events each contact channel receives
+ */
+export const guardianPreferencesValidator = v.object({
+    email: v.array(parentNotificationEventValidator),
+    sms: v.array(parentNotificationEventValidator),
+});
+export type GuardianPreferences = Infer<typeof guardianPreferencesValidator>;
+
+/**
+ * Arrival tag kind validator - what a gate reader reports for a car
+ */
+export const arrivalTagKindValidator = v.union(
+    v.literal("plate"),
+    v.literal("rfid")
+);
+export type ArrivalTagKind = Infer<typeof arrivalTagKindValidator>;
+
+/**
+ * API key scope validator - what a machine integration may do at its campus
+ */
+export const apiKeyScopeValidator = v.union(
+    v.literal("queue:read"),
+    v.literal("queue:write"),
+    v.literal("students:read")
+);
+export type ApiKeyScope = Infer<typeof apiKeyScopeValidator>;
+
+/**
+ * Webhook event validator - queue activity a campus can subscribe to
+ * ("webhook.test" is only sent on demand from the webhooks screen)
+ */
+export const webhookEventValidator = v.union(
+    v.literal("car.added"),
+    v.literal("car.moved"),
+    v.literal("car.dismissed"),
+    v.literal("queue.cleared"),
+    v.literal("queue.reset"),
+    v.literal("webhook.test")
+);
+export type WebhookEvent = Infer<typeof webhookEventValidator>;
+
 /**
  * Audit action validator
  */
@@ -54,14 +163,81 @@ export const auditActionValidator = v.union(
     v.literal("car_added_to_queue"),
     v.literal("car_removed_from_queue"),
     v.literal("car_moved_lane"),
+    v.literal("car_dismissal_undone"),
+    v.literal("car_marked_no_show"),
+    v.literal("student_exclusion_set"),
+    v.literal("student_exclusion_cleared"),
+    v.literal("dismissal_window_overridden"),
+    v.literal("car_reordered"),
+    v.literal("car_stage_updated"),
+    v.literal("student_released"),
+    v.literal("queue_cleared"),
+    v.literal("queue_auto_reset"),
+    v.literal("student_avatar_updated"),
+    v.literal("student_avatar_removed"),
+    v.literal("student_avatar_upload_discarded"),
+    v.literal("campus_created"),
+    v.literal("campus_updated"),
+    v.literal("campus_deleted"),
+    v.literal("campus_logo_updated"),
+    v.literal("campus_logo_removed"),
+    v.literal("user_created"),
+    v.literal("user_updated"),
+    v.literal("user_deleted"),
+    v.literal("user_avatar_updated"),
+    v.literal("user_avatar_removed"),
+    v.literal("user_avatar_upload_discarded"),
+    v.literal("user_profile_image_synced"),
+    v.literal("user_synced"),
+    v.literal("user_sync_deleted"),
     v.literal("user_campus_updated"),
     v.literal("user_permissions_updated"),
     v.literal("user_status_updated"),
+    v.literal("display_token_created"),
+    v.literal("display_token_revoked"),
+    v.literal("car_checked_in"),
+    v.literal("arrival_tag_created"),
+    v.literal("arrival_tag_updated"),
+    v.literal("arrival_tag_deleted"),
+    v.literal("api_key_created"),
+    v.literal("api_key_rotated"),
+    v.literal("api_key_revoked"),
+    v.literal("webhook_created"),
+    v.literal("webhook_updated"),
+    v.literal("webhook_deleted"),
+    v.literal("webhook_secret_rotated"),
+    v.literal("webhook_delivery_replayed"),
+    v.literal("guardian_created"),
+    v.literal("guardian_updated"),
+    v.literal("guardian_deleted"),
+    v.literal("family_created"),
+    v.literal("family_updated"),
+    v.literal("family_deleted"),
+    v.literal("family_vehicle_created"),
+    v.literal("family_vehicle_updated"),
+    v.literal("family_vehicle_deleted"),
     v.literal("login"),
     v.literal("logout")
 );
 export type AuditAction = Infer<typeof auditActionValidator>;
 
+/**
+ * Audit target type validator
+ */
+export const auditTargetTypeValidator = v.union(
+    v.literal("student"),
+    v.literal("queue"),
+    v.literal("user"),
+    v.literal("campus"),
+    v.literal("display_token"),
+    v.literal("arrival_tag"),
+    v.literal("api_key"),
+    v.literal("webhook"),
+    v.literal("guardian"),
+    v.literal("family")
+);
+export type AuditTargetType = Infer<typeof auditTargetTypeValidator>;
+
 /**
  * Grade validator - American K-12 system
  */
@@ -201,6 +377,7 @@ export interface CarData {
     students: StudentData[];
     campus: string;
     imageColor: string;
+    vehicle?: { label: string; color?: string; make?: string }; // Family vehicle whose tag was used
 }
 
 /**
@@ -215,25 +392,37 @@ export interface StudentData {
     avatarStorageId?: Id<"_storage">;
 }
 
+/**
+ * Lane definition with the cars currently waiting in it
+ */
+export interface LaneState extends LaneDefinition {
+    cars: QueueEntry[];
+}
+
 /**
  * Queue state for a campus
  */
 export interface QueueState {
     campus: string;
-    leftLane: QueueEntry[];
-    rightLane: QueueEntry[];
+    lanes: LaneState[];
     totalCars: number;
     averageWaitTime?: number;
 }
 
+/**
+ * Car count for a single lane
+ */
+export interface LaneCount extends LaneDefinition {
+    count: number;
+}
+
 /**
  * Queue metrics
  */
 export interface QueueMetrics {
     campus: string;
     currentCars: number;
-    leftLaneCars: number;
-    rightLaneCars: number;
+    laneCounts: LaneCount[];
     averageWaitTime: number;
     todayTotal: number;
 }
@@ -286,10 +475,7 @@ export interface DailyDismissalSummary {
     totalStudents: number;
     averageWaitTime: number;
     peakHour: string;
-    laneDistribution: {
-        left: number;
-        right: number;
-    };
+    laneDistribution: LaneCount[];
 }
 
 /**
@@ -381,11 +567,18 @@ export interface CampusFormData {
     timezone: string;
     dismissalStartTime?: string;
     dismissalEndTime?: string;
+    queueResetTime?: string;
     logoStorageId?: Id<"_storage">;
     address?: CampusAddress;
     availableGrades?: GradeDefinition[];
+    lanes?: LaneDefinition[];
     allowMultipleStudentsPerCar: boolean;
     requireCarNumber: boolean;
+    allowCrossCampusCalls?: boolean;
+    announcementTemplate?: string;
+    announcementVoice?: string;
+    kioskPrivacy?: KioskPrivacy;
+    parentNotifications?: ParentNotificationsSettings;
     createdBy: Id<"users">;
 }
 
@@ -438,8 +631,7 @@ export interface DispatcherView {
  */
 export interface ViewerDisplay {
     campus: string;
-    leftLane: CarData[];
-    rightLane: CarData[];
+    lanes: Array<LaneDefinition & { cars: CarData[] }>;
     isFullscreen: boolean;
 }
 
@@ -591,7 +783,8 @@ export function queueEntryToCarData(entry: QueueEntry): CarData {
             avatarStorageId: s.avatarStorageId
         })),
         campus: entry.campusLocation,
-        imageColor: entry.carColor
+        imageColor: entry.carColor,
+        vehicle: entry.vehicle
     };
 }
 
@@ -613,12 +806,78 @@ export const CAR_COLORS = [
     '#f59e0b'  // amber
 ] as const;
 
+/**
+ * Default pickup lanes for campuses that have not configured their own.
+ * Ids match the values stored before lanes became configurable.
+ */
+export const DEFAULT_LANES: readonly LaneDefinition[] = [
+    { id: "left", name: "Left", color: "#3b82f6" },
+    { id: "right", name: "Right", color: "#10b981" },
+] as const;
+
+/**
+ * Maximum number of pickup lanes a campus can configure
+ */
+export const MAX_LANES = 6;
+
+/**
+ * How long a dispatcher can undo a dismissal after removing a car
+ */
+export const DISMISSAL_UNDO_WINDOW_MS = 60 * 1000;
+
+/**
+ * Parent check-in links: how long a link works (links can't be revoked, so
+ * a leaked one must expire soon), how long an arrival waits for an allocator,
+ * and how many check-ins a car can make per window
+ */
+export const CHECK_IN_LINK_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+export const PENDING_ARRIVAL_TTL_MS = 30 * 60 * 1000;
+export const CHECK_IN_RATE_LIMIT = {
+    maxAttempts: 3,
+    windowMs: 60 * 60 * 1000,
+} as const;
+
+/**
+ * API keys: every scope an integration can be granted, and how stale
+ * lastUsedAt may get before a request writes it again
+ */
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ["queue:read", "queue:write", "students:read"];
+export const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Webhooks: events a subscription can pick, wait before each retry of a failed
+ * delivery (attempts stop after the last one), and how long a receiver may take
+ */
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = [
+    "car.added",
+    "car.moved",
+    "car.dismissed",
+    "queue.cleared",
+    "queue.reset",
+];
+export const WEBHOOK_RETRY_DELAYS_MS = [
+    30 * 1000,
+    2 * 60 * 1000,
+    10 * 60 * 1000,
+    60 * 60 * 1000,
+    4 * 60 * 60 * 1000,
+] as const;
+export const WEBHOOK_DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Parent notifications: range allowed for the campus long-wait threshold
+ */
+export const PARENT_NOTIFICATION_LONG_WAIT_LIMITS = { min: 1, max: 120 } as const;
+
 /**
  * Default campus settings
  */
 export const DEFAULT_CAMPUS_SETTINGS = {
     allowMultipleStudentsPerCar: true,
     requireCarNumber: true,
+    allowCrossCampusCalls: true,
+    kioskPrivacy: { hideLastNames: true, hideAvatars: true },
+    parentNotifications: { enabled: false },
     dismissalStartTime: "14:30",
     dismissalEndTime: "15:30",
     timezone: "America/New_York"
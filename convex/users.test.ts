@@ -0,0 +1,162 @@
+// convex/users.test.ts
+
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { getLatestAuditLog, seedCampus, seedStorageFile, seedUser, setupConvex } from "./test.setup";
+
+async function seedStaffOffice() {
+    const t = setupConvex();
+    const campusId = await seedCampus(t, "North");
+    const principal = await seedUser(t, "principal", [campusId]);
+    const dispatcher = await seedUser(t, "dispatcher", [campusId]);
+    return { t, campusId, principal, dispatcher };
+}
+
+describe("user mutations write an audit entry", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    test("saveAvatarStorageId", async () => {
+        const { t, principal, dispatcher } = await seedStaffOffice();
+        const storageId = await seedStorageFile(t);
+
+        await principal.as.mutation(api.users.saveAvatarStorageId, { userId: dispatcher.userId, storageId });
+
+        const log = await getLatestAuditLog(t, "user_avatar_updated");
+        expect(log).toMatchObject({
+            userId: principal.userId,
+            targetType: "user",
+            targetId: dispatcher.userId,
+            details: { after: { avatarStorageId: storageId }, metadata: { email: dispatcher.email } }
+        });
+        expect(log?.details.before).toEqual({ avatarStorageId: undefined });
+    });
+
+    test("deleteAvatar", async () => {
+        const { t, principal, dispatcher } = await seedStaffOffice();
+        const storageId = await seedStorageFile(t);
+        await t.run(async (ctx) => ctx.db.patch(dispatcher.userId, { avatarStorageId: storageId }));
+
+        await principal.as.mutation(api.users.deleteAvatar, { userId: dispatcher.userId });
+
+        expect(await getLatestAuditLog(t, "user_avatar_removed")).toMatchObject({
+            targetType: "user",
+            targetId: dispatcher.userId,
+            details: { before: { avatarStorageId: storageId } }
+        });
+    });
+
+    test("deleteAvatarStorage", async () => {
+        const { t, principal } = await seedStaffOffice();
+        const storageId = await seedStorageFile(t);
+
+        await principal.as.mutation(api.users.deleteAvatarStorage, { storageId });
+
+        expect(await getLatestAuditLog(t, "user_avatar_upload_discarded")).toMatchObject({
+            userId: principal.userId,
+            targetType: "user",
+            targetId: storageId,
+            details: { before: { avatarStorageId: storageId }, after: { avatarStorageId: null }, metadata: { deleted: true } }
+        });
+    });
+
+    test("createTempUser", async () => {
+        const { t, campusId, principal } = await seedStaffOffice();
+
+        const userId = await principal.as.mutation(api.users.createTempUser, {
+            email: "new.dispatcher@school.test",
+            firstName: "New",
+            lastName: "Dispatcher",
+            role: "dispatcher",
+            assignedCampuses: [campusId]
+        });
+
+        expect(await getLatestAuditLog(t, "user_created")).toMatchObject({
+            userId: principal.userId,
+            targetType: "user",
+            targetId: userId,
+            details: { after: { email: "new.dispatcher@school.test", role: "dispatcher", isActive: false } }
+        });
+    });
+
+    test("upsertFromClerk", async () => {
+        const { t, dispatcher } = await seedStaffOffice();
+        const clerkId = await t.run(async (ctx) => (await ctx.db.get(dispatcher.userId))!.clerkId);
+
+        await t.mutation(internal.users.upsertFromClerk, {
+            data: {
+                id: clerkId,
+                email_addresses: [{ email_address: dispatcher.email }],
+                first_name: "Renamed",
+                last_name: "Dispatcher",
+                public_metadata: { role: "dispatcher" }
+            }
+        });
+
+        expect(await getLatestAuditLog(t, "user_synced")).toMatchObject({
+            userRole: "system",
+            targetType: "user",
+            targetId: dispatcher.userId,
+            details: {
+                before: { fullName: "Test dispatcher" },
+                after: { fullName: "Renamed Dispatcher" },
+                metadata: { clerkId, isNewUser: false }
+            }
+        });
+    });
+
+    test("deleteFromClerk", async () => {
+        const { t, dispatcher } = await seedStaffOffice();
+        const clerkId = await t.run(async (ctx) => (await ctx.db.get(dispatcher.userId))!.clerkId);
+
+        await t.mutation(internal.users.deleteFromClerk, { clerkUserId: clerkId });
+
+        expect(await getLatestAuditLog(t, "user_sync_deleted")).toMatchObject({
+            userRole: "system",
+            targetType: "user",
+            targetId: dispatcher.userId,
+            details: { before: { email: dispatcher.email } }
+        });
+    });
+
+    test("recordAuditLog, used by the Clerk staff actions", async () => {
+        const { t, principal } = await seedStaffOffice();
+
+        await t.mutation(internal.users.recordAuditLog, {
+            actorId: principal.userId,
+            action: "user_deleted",
+            targetId: "user_clerk_1",
+            before: { email: "gone@school.test" }
+        });
+
+        expect(await getLatestAuditLog(t, "user_deleted")).toMatchObject({
+            userId: principal.userId,
+            userRole: "principal",
+            targetType: "user",
+            targetId: "user_clerk_1",
+            details: { before: { email: "gone@school.test" } }
+        });
+    });
+
+    test("updateClerkProfileImage", async () => {
+        const { t, principal } = await seedStaffOffice();
+        vi.stubEnv("CLERK_SECRET_KEY", "sk_test");
+        const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        await principal.as.action(api.users.updateClerkProfileImage, {
+            clerkUserId: "user_clerk_1",
+            avatarStorageId: null
+        });
+
+        expect(fetchMock).toHaveBeenCalledOnce();
+        expect(await getLatestAuditLog(t, "user_profile_image_synced")).toMatchObject({
+            userId: principal.userId,
+            targetType: "user",
+            targetId: "user_clerk_1",
+            details: { after: { avatarStorageId: null, imageUrl: null } }
+        });
+    });
+});
@@ -7,7 +7,10 @@
 import { v } from "convex/values";
 import { query, mutation, internalMutation, action, internalQuery, internalAction } from "./_generated/server";
 import { internal, api } from "./_generated/api";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import type { DismissalRole } from "../lib/role-utils";
+import { auditActionValidator } from "./types";
+import { createAuditLog, createAuditLogFromContext, createSystemAuditLog } from "./helpers";
 
 // ============================================================================
 // AVATAR STORAGE FUNCTIONS (Following official Convex pattern)
@@ -57,6 +60,14 @@ export const saveAvatarStorageId = mutation({
             updatedAt: Date.now(),
         });
 
+        await createAuditLogFromContext(ctx, "user_avatar_updated", {
+            targetType: "user",
+            targetId: args.userId,
+            before: { avatarStorageId: user.avatarStorageId },
+            after: { avatarStorageId: args.storageId },
+            metadata: { email: user.email }
+        });
+
         return { userId: args.userId, avatarUrl };
     },
 });
@@ -70,11 +81,21 @@ export const deleteAvatarStorage = mutation({
         const identity = await ctx.auth.getUserIdentity();
         if (!identity) throw new Error("Not authenticated");
 
+        let deleted = true;
         try {
             await ctx.storage.delete(args.storageId);
         } catch {
             // Don't throw - storage might already be deleted
+            deleted = false;
         }
+
+        await createAuditLogFromContext(ctx, "user_avatar_upload_discarded", {
+            targetType: "user",
+            targetId: args.storageId,
+            before: { avatarStorageId: args.storageId },
+            after: { avatarStorageId: null },
+            metadata: { deleted }
+        });
     },
 });
 
@@ -103,6 +124,13 @@ export const deleteAvatar = mutation({
             updatedAt: Date.now(),
         });
 
+        await createAuditLogFromContext(ctx, "user_avatar_removed", {
+            targetType: "user",
+            targetId: args.userId,
+            before: { avatarStorageId: user.avatarStorageId },
+            metadata: { email: user.email }
+        });
+
         return args.userId;
     },
 });
@@ -461,6 +489,7 @@ export const upsertFromClerk = internalMutation({
 
     let userId: any;
     let isNewUser = false;
+    let before: Doc<"users"> | undefined;
 
     if (existingByClerkId) {
       // Update existing user
@@ -488,6 +517,7 @@ export const upsertFromClerk = internalMutation({
       await ctx.db.patch(existingByClerkId._id, updates);
       console.log(`✅ Updated existing user: ${existingByClerkId._id}`);
       userId = existingByClerkId._id;
+      before = existingByClerkId;
     }
     // 2. Check for temp user merge by email
     else {
@@ -521,6 +551,7 @@ export const upsertFromClerk = internalMutation({
         await ctx.db.patch(existingByEmail._id, updates);
         console.log(`✅ Merged temp user: ${existingByEmail._id} (temp_* → ${clerkId})`);
         userId = existingByEmail._id;
+        before = existingByEmail;
       } else {
         // 3. Create new user
         userId = await ctx.db.insert("users", {
@@ -545,6 +576,14 @@ export const upsertFromClerk = internalMutation({
       }
     }
 
+    await createSystemAuditLog(ctx.db, "user_synced", {
+      targetType: "user",
+      targetId: userId,
+      before,
+      after: await ctx.db.get(userId),
+      metadata: { clerkId, isNewUser }
+    });
+
     // Schedule avatar sync to Clerk if avatarStorageId is present and imageUrl doesn't match
     if (avatarStorageId && (!imageUrl || isNewUser)) {
       console.log(`📸 Scheduling avatar sync to Clerk for user: ${clerkId}`);
@@ -591,6 +630,13 @@ export const deleteFromClerk = internalMutation({
     // Delete user record
     await ctx.db.delete(user._id);
     console.log(`✅ Deleted user record: ${user._id}`);
+
+    await createSystemAuditLog(ctx.db, "user_sync_deleted", {
+      targetType: "user",
+      targetId: user._id,
+      before: user,
+      metadata: { clerkId: clerkUserId }
+    });
   }
 });
 
@@ -620,6 +666,35 @@ async function checkManagementPermissions(ctx: any) {
   return user;
 }
 
+/**
+ * Record an audit entry on behalf of a staff management action
+ * Actions cannot write to the database directly
+ */
+export const recordAuditLog = internalMutation({
+  args: {
+    actorId: v.id("users"),
+    action: auditActionValidator,
+    targetId: v.optional(v.string()),
+    before: v.optional(v.any()),
+    after: v.optional(v.any()),
+    metadata: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    const actor = await ctx.db.get(args.actorId);
+    if (!actor) {
+      throw new Error("User not found");
+    }
+
+    await createAuditLog(ctx.db, actor._id, actor.email ?? actor.clerkId, actor.role as DismissalRole, args.action, {
+      targetType: "user",
+      targetId: args.targetId,
+      before: args.before,
+      after: args.after,
+      metadata: args.metadata,
+    });
+  }
+});
+
 // ============================================================================
 // ACTIONS (Call Clerk API)
 // ============================================================================
@@ -722,6 +797,21 @@ export const createUserWithClerk = action({
         console.log(`📧 Invitation sent to: ${args.email}`);
       }
 
+      await ctx.runMutation(internal.users.recordAuditLog, {
+        actorId: actor._id,
+        action: "user_created",
+        targetId: clerkUser.id,
+        after: {
+          email: args.email,
+          firstName: args.firstName,
+          lastName: args.lastName,
+          role: args.role,
+          assignedCampuses: args.assignedCampuses,
+          phone: args.phone,
+        },
+        metadata: { clerkUserId: clerkUser.id },
+      });
+
       // Webhook will handle Convex sync
       return {
         success: true,
@@ -868,6 +958,16 @@ export const updateUserWithClerk = action({
       const updatedUser = await response.json();
       console.log(`✅ Updated user in Clerk: ${updatedUser.id}`);
 
+      const { clerkUserId, ...changes } = args;
+      await ctx.runMutation(internal.users.recordAuditLog, {
+        actorId: actor._id,
+        action: "user_updated",
+        targetId: targetUser._id,
+        before: targetUser,
+        after: { ...targetUser, ...changes },
+        metadata: { clerkUserId },
+      });
+
       // Webhook will handle Convex sync
       return {
         success: true,
@@ -937,6 +1037,14 @@ export const deleteUserWithClerk = action({
 
       console.log(`✅ Deleted user from Clerk: ${args.clerkUserId}`);
 
+      await ctx.runMutation(internal.users.recordAuditLog, {
+        actorId: actor._id,
+        action: "user_deleted",
+        targetId: targetUser._id,
+        before: targetUser,
+        metadata: { clerkUserId: args.clerkUserId },
+      });
+
       // Webhook will handle Convex cleanup
       return {
         success: true,
@@ -1051,6 +1159,8 @@ export const updateClerkProfileImage = action({
     avatarStorageId: v.union(v.id("_storage"), v.null()), // null to remove image
   },
   handler: async (ctx, args) => {
+    const actor = await checkManagementPermissions(ctx);
+
     const clerkSecretKey = process.env.CLERK_SECRET_KEY;
     if (!clerkSecretKey) {
       throw new Error("CLERK_SECRET_KEY not configured");
@@ -1075,6 +1185,12 @@ export const updateClerkProfileImage = action({
         }
 
         console.log(`✅ Removed profile image from Clerk: ${args.clerkUserId}`);
+        await ctx.runMutation(internal.users.recordAuditLog, {
+          actorId: actor._id,
+          action: "user_profile_image_synced",
+          targetId: args.clerkUserId,
+          after: { avatarStorageId: null, imageUrl: null },
+        });
         return {
           success: true,
           clerkUserId: args.clerkUserId,
@@ -1123,6 +1239,12 @@ export const updateClerkProfileImage = action({
         const result = await response.json();
         console.log(`✅ Updated profile image in Clerk: ${args.clerkUserId}`);
         console.log(`   New Clerk image URL: ${result.public_url || result.image_url || 'unknown'}`);
+        await ctx.runMutation(internal.users.recordAuditLog, {
+          actorId: actor._id,
+          action: "user_profile_image_synced",
+          targetId: args.clerkUserId,
+          after: { avatarStorageId: args.avatarStorageId, imageUrl: result.public_url || result.image_url },
+        });
 
         return {
           success: true,
@@ -1157,7 +1279,7 @@ export const createTempUser = mutation({
   },
   handler: async (ctx, args) => {
     // Check permissions
-    const { user: actor } = await requireRoles(ctx, ["principal", "admin", "superadmin"]);
+    const { user: actor, role: actorRole } = await requireRoles(ctx, ["principal", "admin", "superadmin"]);
     ensureCampusScopeForManagement(actor, args.assignedCampuses);
     if (!isSuperadminRole(actor.role) && args.role === "superadmin") {
       throw new Error("Only superadmin can create superadmin users");
@@ -1192,6 +1314,13 @@ export const createTempUser = mutation({
     });
 
     console.log(`✅ Created temp user: ${userId} (${tempClerkId})`);
+
+    await createAuditLog(ctx.db, actor._id, actor.email ?? actor.clerkId, actorRole as DismissalRole, "user_created", {
+      targetType: "user",
+      targetId: userId,
+      after: await ctx.db.get(userId),
+      metadata: { tempClerkId },
+    });
     
     return userId;
   }
@@ -0,0 +1,524 @@
+// convex/webhooks.ts
+
+import { v } from "convex/values";
+import {
+    internalAction,
+    internalMutation,
+    internalQuery,
+    mutation,
+    query,
+    type MutationCtx,
+} from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { Webhook } from "svix";
+import {
+    WEBHOOK_DELIVERY_TIMEOUT_MS,
+    WEBHOOK_EVENTS,
+    WEBHOOK_RETRY_DELAYS_MS,
+    webhookEventValidator,
+} from "./types";
+import {
+    createAuditLog,
+    generateSecretToken,
+    generateWebhookSecret,
+    userHasAccessToCampusById,
+    validateUserAccess,
+} from "./helpers";
+
+/**
+ * Resolve a webhook endpoint the signed-in principal/admin/superadmin may manage
+ */
+async function getManagedEndpoint(ctx: MutationCtx, endpointId: Id<"webhookEndpoints">) {
+    const access = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+
+    const endpoint = await ctx.db.get(endpointId);
+    if (!endpoint) throw new Error("Webhook not found");
+    if (!userHasAccessToCampusById(access.user, endpoint.campusId, access.role)) {
+        throw new Error("No access to this campus");
+    }
+
+    const campus = await ctx.db.get(endpoint.campusId);
+    return { ...access, endpoint, campusName: campus?.campusName };
+}
+
+/**
+ * Receivers must be reachable over http(s)
+ */
+function normalizeEndpointUrl(url: string): string {
+    const trimmed = url.trim();
+    let parsed: URL;
+    try {
+        parsed = new URL(trimmed);
+    } catch {
+        throw new Error("Invalid webhook URL");
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+        throw new Error("Webhook URL must use http or https");
+    }
+    return trimmed;
+}
+
+/**
+ * Keep only known subscribable events, in a stable order
+ */
+function normalizeEvents(events: string[]) {
+    const selected = WEBHOOK_EVENTS.filter((event) => events.includes(event));
+    if (selected.length === 0) throw new Error("Select at least one event");
+    return selected;
+}
+
+/**
+ * List webhook endpoints for a campus (principal/admin/superadmin)
+ */
+export const list = query({
+    args: {
+        campusId: v.id("campusSettings")
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { endpoints: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            if (!userHasAccessToCampusById(user, args.campusId, role)) {
+                return { endpoints: [], authState: "forbidden" };
+            }
+
+            const endpoints = await ctx.db
+                .query("webhookEndpoints")
+                .withIndex("by_campus", (q) => q.eq("campusId", args.campusId))
+                .collect();
+
+            // Signing secrets are only shown when created or rotated
+            return {
+                endpoints: endpoints.map((endpoint) => ({
+                    _id: endpoint._id,
+                    url: endpoint.url,
+                    description: endpoint.description,
+                    events: endpoint.events,
+                    isActive: endpoint.isActive,
+                    createdAt: endpoint.createdAt,
+                    updatedAt: endpoint.updatedAt
+                })),
+                authState: "authenticated"
+            };
+        } catch {
+            return { endpoints: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Subscribe a URL to queue events of a campus
+ * Returns the signing secret once
+ */
+export const create = mutation({
+    args: {
+        campusId: v.id("campusSettings"),
+        url: v.string(),
+        description: v.optional(v.string()),
+        events: v.array(webhookEventValidator)
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+        if (!userHasAccessToCampusById(user, args.campusId, role)) {
+            throw new Error("No access to this campus");
+        }
+
+        const campus = await ctx.db.get(args.campusId);
+        if (!campus) throw new Error("Campus not found");
+
+        const now = Date.now();
+        const fields = {
+            url: normalizeEndpointUrl(args.url),
+            description: args.description?.trim() || undefined,
+            events: normalizeEvents(args.events)
+        };
+        const secret = generateWebhookSecret();
+        const endpointId = await ctx.db.insert("webhookEndpoints", {
+            ...fields,
+            campusId: args.campusId,
+            secret,
+            isActive: true,
+            createdBy: user._id,
+            createdAt: now,
+            updatedAt: now
+        });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "webhook_created",
+            {
+                targetType: "webhook",
+                targetId: endpointId,
+                campus: campus.campusName,
+                after: fields
+            }
+        );
+
+        return { endpointId, secret };
+    }
+});
+
+/**
+ * Change the URL, description, events or active state of a webhook
+ */
+export const update = mutation({
+    args: {
+        endpointId: v.id("webhookEndpoints"),
+        url: v.string(),
+        description: v.optional(v.string()),
+        events: v.array(webhookEventValidator),
+        isActive: v.boolean()
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity, endpoint, campusName } = await getManagedEndpoint(ctx, args.endpointId);
+
+        const fields = {
+            url: normalizeEndpointUrl(args.url),
+            description: args.description?.trim() || undefined,
+            events: normalizeEvents(args.events),
+            isActive: args.isActive
+        };
+        await ctx.db.patch(args.endpointId, { ...fields, updatedAt: Date.now() });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "webhook_updated",
+            {
+                targetType: "webhook",
+                targetId: args.endpointId,
+                campus: campusName,
+                before: {
+                    url: endpoint.url,
+                    description: endpoint.description,
+                    events: endpoint.events,
+                    isActive: endpoint.isActive
+                },
+                after: fields
+            }
+        );
+
+        return args.endpointId;
+    }
+});
+
+/**
+ * Replace the signing secret of a webhook, returns the new secret once
+ */
+export const rotateSecret = mutation({
+    args: {
+        endpointId: v.id("webhookEndpoints")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity, endpoint, campusName } = await getManagedEndpoint(ctx, args.endpointId);
+
+        const secret = generateWebhookSecret();
+        await ctx.db.patch(args.endpointId, { secret, updatedAt: Date.now() });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "webhook_secret_rotated",
+            {
+                targetType: "webhook",
+                targetId: args.endpointId,
+                campus: campusName,
+                metadata: { url: endpoint.url }
+            }
+        );
+
+        return { endpointId: args.endpointId, secret };
+    }
+});
+
+/**
+ * Delete a webhook and its delivery log, pending retries are dropped
+ */
+export const remove = mutation({
+    args: {
+        endpointId: v.id("webhookEndpoints")
+    },
+    handler: async (ctx, args) => {
+        const { user, role, identity, endpoint, campusName } = await getManagedEndpoint(ctx, args.endpointId);
+
+        const deliveries = await ctx.db
+            .query("webhookDeliveries")
+            .withIndex("by_endpoint", (q) => q.eq("endpointId", args.endpointId))
+            .collect();
+        for (const delivery of deliveries) {
+            await ctx.db.delete(delivery._id);
+        }
+        await ctx.db.delete(args.endpointId);
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "webhook_deleted",
+            {
+                targetType: "webhook",
+                targetId: args.endpointId,
+                campus: campusName,
+                before: {
+                    url: endpoint.url,
+                    description: endpoint.description,
+                    events: endpoint.events
+                },
+                metadata: { deliveriesDeleted: deliveries.length }
+            }
+        );
+
+        return args.endpointId;
+    }
+});
+
+/**
+ * Send a "webhook.test" event to one endpoint, whatever it subscribes to
+ */
+export const sendTest = mutation({
+    args: {
+        endpointId: v.id("webhookEndpoints")
+    },
+    handler: async (ctx, args) => {
+        const { user, endpoint, campusName } = await getManagedEndpoint(ctx, args.endpointId);
+
+        const now = Date.now();
+        const deliveryId = await ctx.db.insert("webhookDeliveries", {
+            endpointId: endpoint._id,
+            campusId: endpoint.campusId,
+            event: "webhook.test",
+            messageId: generateSecretToken("msg", 12),
+            payload: JSON.stringify({
+                type: "webhook.test",
+                timestamp: new Date(now).toISOString(),
+                campus: campusName,
+                data: { sentBy: user.email }
+            }),
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now
+        });
+        await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId });
+
+        return deliveryId;
+    }
+});
+
+/**
+ * Most recent deliveries of a webhook, newest first
+ */
+export const listDeliveries = query({
+    args: {
+        endpointId: v.id("webhookEndpoints")
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return { deliveries: [], authState: "unauthenticated" };
+        }
+
+        try {
+            const { user, role } = await validateUserAccess(ctx, ["principal", "admin", "superadmin"]);
+            const endpoint = await ctx.db.get(args.endpointId);
+            if (!endpoint || !userHasAccessToCampusById(user, endpoint.campusId, role)) {
+                return { deliveries: [], authState: "forbidden" };
+            }
+
+            const deliveries = await ctx.db
+                .query("webhookDeliveries")
+                .withIndex("by_endpoint", (q) => q.eq("endpointId", args.endpointId))
+                .order("desc")
+                .take(50);
+
+            return { deliveries, authState: "authenticated" };
+        } catch {
+            return { deliveries: [], authState: "forbidden" };
+        }
+    }
+});
+
+/**
+ * Send a delivery again as a new log row with the same message id and payload
+ */
+export const replay = mutation({
+    args: {
+        deliveryId: v.id("webhookDeliveries")
+    },
+    handler: async (ctx, args) => {
+        const delivery = await ctx.db.get(args.deliveryId);
+        if (!delivery) throw new Error("Delivery not found");
+
+        const { user, role, identity, campusName } = await getManagedEndpoint(ctx, delivery.endpointId);
+
+        const now = Date.now();
+        const replayId = await ctx.db.insert("webhookDeliveries", {
+            endpointId: delivery.endpointId,
+            campusId: delivery.campusId,
+            event: delivery.event,
+            messageId: delivery.messageId,
+            payload: delivery.payload,
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: now,
+            replayOf: delivery._id,
+            createdAt: now
+        });
+        await ctx.scheduler.runAfter(0, internal.webhooks.deliver, { deliveryId: replayId });
+
+        await createAuditLog(
+            ctx.db,
+            user._id,
+            identity.email || user.email,
+            role,
+            "webhook_delivery_replayed",
+            {
+                targetType: "webhook",
+                targetId: delivery.endpointId,
+                campus: campusName,
+                metadata: { deliveryId: delivery._id, replayId, event: delivery.event }
+            }
+        );
+
+        return replayId;
+    }
+});
+
+/**
+ * Delivery waiting for an attempt and the endpoint it goes to
+ * (endpoint is null when it was disabled in the meantime)
+ */
+export const getDeliveryTarget = internalQuery({
+    args: {
+        deliveryId: v.id("webhookDeliveries")
+    },
+    handler: async (ctx, args) => {
+        const delivery = await ctx.db.get(args.deliveryId);
+        if (!delivery || delivery.status !== "pending") return null;
+
+        const endpoint = await ctx.db.get(delivery.endpointId);
+        return {
+            delivery,
+            endpoint: endpoint && endpoint.isActive ? endpoint : null
+        };
+    }
+});
+
+/**
+ * POST one delivery to its endpoint with Svix headers (svix-id, svix-timestamp,
+ * svix-signature), then record the outcome
+ */
+export const deliver = internalAction({
+    args: {
+        deliveryId: v.id("webhookDeliveries")
+    },
+    handler: async (ctx, args) => {
+        const target = await ctx.runQuery(internal.webhooks.getDeliveryTarget, args);
+        if (!target) return;
+
+        if (!target.endpoint) {
+            await ctx.runMutation(internal.webhooks.recordAttempt, {
+                deliveryId: args.deliveryId,
+                ok: false,
+                error: "Webhook is disabled",
+                final: true
+            });
+            return;
+        }
+
+        const { delivery, endpoint } = target;
+        const timestamp = new Date();
+        const signature = new Webhook(endpoint.secret).sign(
+            delivery.messageId,
+            timestamp,
+            delivery.payload
+        );
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), WEBHOOK_DELIVERY_TIMEOUT_MS);
+        let outcome: { ok: boolean; responseStatus?: number; responseBody?: string; error?: string };
+        try {
+            const response = await fetch(endpoint.url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "svix-id": delivery.messageId,
+                    "svix-timestamp": String(Math.floor(timestamp.getTime() / 1000)),
+                    "svix-signature": signature
+                },
+                body: delivery.payload,
+                signal: controller.signal
+            });
+            outcome = {
+                ok: response.ok,
+                responseStatus: response.status,
+                responseBody: (await response.text()).slice(0, 1000)
+            };
+        } catch (err) {
+            outcome = {
+                ok: false,
+                error: controller.signal.aborted
+                    ? `Timed out after ${WEBHOOK_DELIVERY_TIMEOUT_MS / 1000}s`
+                    : err instanceof Error ? err.message : "Request failed"
+            };
+        } finally {
+            clearTimeout(timeout);
+        }
+
+        await ctx.runMutation(internal.webhooks.recordAttempt, {
+            deliveryId: args.deliveryId,
+            ...outcome
+        });
+    }
+});
+
+/**
+ * Store the outcome of an attempt and schedule the next retry with backoff
+ */
+export const recordAttempt = internalMutation({
+    args: {
+        deliveryId: v.id("webhookDeliveries"),
+        ok: v.boolean(),
+        responseStatus: v.optional(v.number()),
+        responseBody: v.optional(v.string()),
+        error: v.optional(v.string()),
+        final: v.optional(v.boolean()) // No retries, e.g. the endpoint was disabled
+    },
+    handler: async (ctx, args) => {
+        const delivery = await ctx.db.get(args.deliveryId);
+        if (!delivery || delivery.status !== "pending") return;
+
+        const now = Date.now();
+        const attempts = delivery.attempts + 1;
+        const retryDelay = args.ok || args.final ? undefined : WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+
+        await ctx.db.patch(args.deliveryId, {
+            status: args.ok ? "succeeded" : retryDelay !== undefined ? "pending" : "failed",
+            attempts,
+            lastAttemptAt: now,
+            nextAttemptAt: retryDelay !== undefined ? now + retryDelay : undefined,
+            responseStatus: args.responseStatus,
+            responseBody: args.responseBody,
+            error: args.error
+        });
+
+        if (retryDelay !== undefined) {
+            await ctx.scheduler.runAfter(retryDelay, internal.webhooks.deliver, {
+                deliveryId: args.deliveryId
+            });
+        }
+    }
+});
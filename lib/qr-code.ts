@@ -0,0 +1,228 @@
+// lib/qr-code.ts
+
+/**
+ * Minimal QR code encoder for printed hang tags.
+ * Only numeric payloads (car numbers) are supported: version 1, 21x21 modules,
+ * error correction level M, which holds up to 34 digits.
+ */
+
+export type QrMatrix = boolean[][];
+
+const SIZE = 21;
+const DATA_CODEWORDS = 16;
+const EC_CODEWORDS = 10;
+const MAX_DIGITS = 34;
+
+type SetModule = (x: number, y: number, dark: boolean) => void;
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Multiply in GF(256) with the QR primitive polynomial x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+}
+
+/**
+ * Reed-Solomon error correction codewords for the data codewords
+ */
+function reedSolomon(data: number[], degree: number): number[] {
+    const divisor = new Array<number>(degree).fill(0);
+    divisor[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            divisor[j] = gfMultiply(divisor[j], root);
+            if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+
+    const remainder = new Array<number>(degree).fill(0);
+    for (const byte of data) {
+        const factor = byte ^ (remainder.shift() ?? 0);
+        remainder.push(0);
+        divisor.forEach((coefficient, i) => {
+            remainder[i] ^= gfMultiply(coefficient, factor);
+        });
+    }
+    return remainder;
+}
+
+/**
+ * Numeric mode segment, terminated and padded to the data capacity
+ */
+function encodeDigits(digits: string): number[] {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    append(0b0001, 4); // Numeric mode indicator
+    append(digits.length, 10);
+    for (let i = 0; i < digits.length; i += 3) {
+        const group = digits.slice(i, i + 3);
+        append(Number(group), group.length * 3 + 1);
+    }
+
+    append(0, Math.min(4, DATA_CODEWORDS * 8 - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    for (let pad = 0xec; codewords.length < DATA_CODEWORDS; pad ^= 0xec ^ 0x11) {
+        codewords.push(pad);
+    }
+    return codewords;
+}
+
+/**
+ * Format information (level M + mask) in both of its copies, plus the dark module
+ */
+function drawFormat(set: SetModule, mask: number) {
+    let remainder = mask; // Level M is 00, so the format data is just the mask
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((mask << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+    set(8, 7, bit(6));
+    set(8, 8, bit(7));
+    set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) set(SIZE - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) set(8, SIZE - 15 + i, bit(i));
+    set(8, SIZE - 8, true);
+}
+
+/**
+ * Finder and timing patterns, with the format areas reserved
+ */
+function drawFunctionPatterns(modules: QrMatrix, reserved: QrMatrix) {
+    const set: SetModule = (x, y, dark) => {
+        modules[y][x] = dark;
+        reserved[y][x] = true;
+    };
+
+    for (let i = 0; i < SIZE; i++) {
+        set(6, i, i % 2 === 0);
+        set(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [SIZE - 4, 3], [3, SIZE - 4]]) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx;
+                const y = cy + dy;
+                if (x < 0 || x >= SIZE || y < 0 || y >= SIZE) continue;
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                set(x, y, distance !== 2 && distance !== 4);
+            }
+        }
+    }
+
+    drawFormat(set, 0);
+}
+
+/**
+ * Place codewords in the zigzag order, two columns at a time from the bottom right
+ */
+function placeCodewords(modules: QrMatrix, reserved: QrMatrix, codewords: number[]) {
+    let i = 0;
+    for (let right = SIZE - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5; // Skip the vertical timing pattern
+        const upward = ((right + 1) & 2) === 0;
+        for (let vert = 0; vert < SIZE; vert++) {
+            const y = upward ? SIZE - 1 - vert : vert;
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                if (reserved[y][x] || i >= codewords.length * 8) continue;
+                modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+                i++;
+            }
+        }
+    }
+}
+
+/**
+ * Mask penalty score, lower scans more reliably
+ */
+function penalty(modules: QrMatrix): number {
+    const rows = modules.map((row) => row.map((dark) => (dark ? '1' : '0')).join(''));
+    const columns = modules.map((_, x) => modules.map((row) => (row[x] ? '1' : '0')).join(''));
+
+    let score = 0;
+    for (const line of [...rows, ...columns]) {
+        for (const run of line.match(/0{5,}|1{5,}/g) ?? []) score += run.length - 2;
+        for (const pattern of ['10111010000', '00001011101']) {
+            for (let at = line.indexOf(pattern); at !== -1; at = line.indexOf(pattern, at + 1)) score += 40;
+        }
+    }
+
+    for (let y = 0; y < SIZE - 1; y++) {
+        for (let x = 0; x < SIZE - 1; x++) {
+            const dark = modules[y][x];
+            if (modules[y][x + 1] === dark && modules[y + 1][x] === dark && modules[y + 1][x + 1] === dark) {
+                score += 3;
+            }
+        }
+    }
+
+    const darkCount = rows.join('').replace(/0/g, '').length;
+    score += Math.floor(Math.abs((darkCount * 100) / (SIZE * SIZE) - 50) / 5) * 10;
+
+    return score;
+}
+
+/**
+ * Encode digits as a QR module matrix (true = dark), without the quiet zone
+ */
+export function createQrMatrix(digits: string): QrMatrix {
+    if (!/^\d+$/.test(digits) || digits.length > MAX_DIGITS) {
+        throw new Error(`QR payload must be 1-${MAX_DIGITS} digits`);
+    }
+
+    const data = encodeDigits(digits);
+    const codewords = [...data, ...reedSolomon(data, EC_CODEWORDS)];
+
+    const modules: QrMatrix = Array.from({ length: SIZE }, () => new Array<boolean>(SIZE).fill(false));
+    const reserved: QrMatrix = Array.from({ length: SIZE }, () => new Array<boolean>(SIZE).fill(false));
+    drawFunctionPatterns(modules, reserved);
+    placeCodewords(modules, reserved, codewords);
+
+    let best = modules;
+    let bestPenalty = Infinity;
+    MASKS.forEach((mask, index) => {
+        const candidate = modules.map((row, y) =>
+            row.map((dark, x) => (reserved[y][x] ? dark : dark !== mask(x, y)))
+        );
+        drawFormat((x, y, dark) => {
+            candidate[y][x] = dark;
+        }, index);
+
+        const score = penalty(candidate);
+        if (score < bestPenalty) {
+            best = candidate;
+            bestPenalty = score;
+        }
+    });
+
+    return best;
+}
@@ -19,6 +19,9 @@ const PUBLIC_ROUTES = createRouteMatcher([
   '/sign-up(.*)',
   '/:locale/pending-role',
   '/pending-role',
+  // Kiosk displays authenticate with a display token instead of a session
+  '/:locale/display(.*)',
+  '/display(.*)',
 ])
 
 const COMMON_AUTHENTICATED_ROUTES = createRouteMatcher([
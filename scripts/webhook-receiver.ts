@@ -0,0 +1,67 @@
+/**
+ * Local receiver for outgoing queue webhooks
+ *
+ * Verifies the Svix-style signature of each delivery and prints the event,
+ * answering 200 (or 401 for a bad signature) so retries and replays can be
+ * tested from the Webhooks screen.
+ *
+ * Usage:
+ *   WEBHOOK_SECRET=whsec_... PORT=4000 pnpm webhook-receiver
+ *
+ * The Convex deployment has to reach this port: use a local Convex backend, or
+ * expose it with a tunnel and register the tunnel URL as the webhook endpoint.
+ * Set FAIL=1 to answer 500 and watch the retries back off.
+ */
+
+import { createServer } from "node:http";
+import { Webhook } from "svix";
+
+const secret = process.env.WEBHOOK_SECRET;
+const port = Number(process.env.PORT ?? 4000);
+const fail = process.env.FAIL === "1";
+
+if (!secret) {
+  console.error("WEBHOOK_SECRET is required (shown when the webhook is created or its secret rotated)");
+  process.exit(1);
+}
+
+const webhook = new Webhook(secret);
+
+const server = createServer((request, response) => {
+  if (request.method !== "POST") {
+    response.writeHead(405).end();
+    return;
+  }
+
+  let body = "";
+  request.setEncoding("utf8");
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => {
+    const headers = {
+      "svix-id": String(request.headers["svix-id"] ?? ""),
+      "svix-timestamp": String(request.headers["svix-timestamp"] ?? ""),
+      "svix-signature": String(request.headers["svix-signature"] ?? ""),
+    };
+
+    let event: { type: string; campus: string; data: unknown };
+    try {
+      event = webhook.verify(body, headers) as typeof event;
+    } catch (err) {
+      console.error("❌ Invalid signature:", (err as Error).message);
+      response.writeHead(401).end("Invalid signature");
+      return;
+    }
+
+    console.log(`📥 ${event.type} (${event.campus}) ${headers["svix-id"]}`);
+    console.log(JSON.stringify(event.data, null, 2));
+
+    response.writeHead(fail ? 500 : 200, { "Content-Type": "text/plain" });
+    response.end(fail ? "Failing on purpose" : "OK");
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});